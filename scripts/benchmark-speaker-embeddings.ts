@@ -0,0 +1,151 @@
+/**
+ * Speaker embedding benchmark
+ *
+ * Scores every pair of WAV clips with the SpeakerEmbeddingExtractor and reports the
+ * equal-error rate (EER) and the threshold where false accepts equal false rejects.
+ *
+ * Fixtures are laid out one directory per speaker:
+ *   tests/fixtures/speakers/<speaker>/<clip>.wav
+ *
+ * Usage:
+ *   npm run benchmark:embeddings -- [fixturesDir]
+ */
+
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import {
+  cosineSimilarity,
+  decodeAudio,
+  speakerEmbeddingExtractor,
+} from '../src/services/universal-assistant/SpeakerEmbeddingExtractor';
+
+interface Clip {
+  speaker: string;
+  path: string;
+  seconds: number;
+  embedding: number[];
+}
+
+interface Trial {
+  score: number;
+  sameSpeaker: boolean;
+}
+
+export interface EqualErrorRate {
+  eer: number;
+  threshold: number;
+}
+
+/**
+ * Sweep thresholds over the observed scores and return the point where the false
+ * accept and false reject rates cross
+ */
+export function computeEqualErrorRate(trials: Trial[]): EqualErrorRate {
+  const targets = trials.filter(trial => trial.sameSpeaker).length;
+  const impostors = trials.length - targets;
+  if (targets === 0 || impostors === 0) {
+    throw new Error('Need both same-speaker and different-speaker pairs to compute EER');
+  }
+
+  const sorted = [...trials].sort((a, b) => a.score - b.score);
+  let falseRejects = 0;
+  let falseAccepts = impostors;
+  let best: EqualErrorRate & { gap: number } = { eer: 1, threshold: sorted[0].score, gap: Infinity };
+
+  // Threshold sits just above sorted[i]: everything up to i is rejected
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].sameSpeaker) falseRejects++;
+    else falseAccepts--;
+    // A threshold cannot fall between equal scores
+    if (sorted[i + 1]?.score === sorted[i].score) continue;
+
+    const frr = falseRejects / targets;
+    const far = falseAccepts / impostors;
+    const gap = Math.abs(frr - far);
+    if (gap < best.gap) {
+      const next = sorted[i + 1]?.score ?? sorted[i].score;
+      best = { eer: (frr + far) / 2, threshold: (sorted[i].score + next) / 2, gap };
+    }
+  }
+
+  return { eer: best.eer, threshold: best.threshold };
+}
+
+function findClips(root: string): { speaker: string; path: string }[] {
+  return readdirSync(root)
+    .filter(entry => statSync(join(root, entry)).isDirectory())
+    .flatMap(speaker =>
+      readdirSync(join(root, speaker))
+        .filter(file => file.toLowerCase().endsWith('.wav'))
+        .map(file => ({ speaker, path: join(root, speaker, file) }))
+    );
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+async function main(): Promise<void> {
+  const root = process.argv[2] || join(process.cwd(), 'tests', 'fixtures', 'speakers');
+  let sources: { speaker: string; path: string }[];
+  try {
+    sources = findClips(root);
+  } catch {
+    console.error(`No fixtures found at ${root}. Expected <speaker>/<clip>.wav directories.`);
+    process.exit(1);
+  }
+
+  const clips: Clip[] = [];
+  let audioSeconds = 0;
+  const started = Date.now();
+
+  for (const source of sources) {
+    const data = toArrayBuffer(readFileSync(source.path));
+    const decoded = decodeAudio(data);
+    const seconds = decoded.samples.length / decoded.sampleRate;
+    try {
+      const embedding = await speakerEmbeddingExtractor.extract(data);
+      clips.push({ ...source, seconds, embedding });
+      audioSeconds += seconds;
+    } catch (error) {
+      console.warn(`Skipping ${relative(root, source.path)}: ${(error as Error).message}`);
+    }
+  }
+
+  const elapsedSeconds = (Date.now() - started) / 1000;
+  const speakers = new Set(clips.map(clip => clip.speaker));
+  if (speakers.size < 2) {
+    console.error('Need clips from at least two speakers.');
+    process.exit(1);
+  }
+
+  const trials: Trial[] = [];
+  for (let i = 0; i < clips.length; i++) {
+    for (let j = i + 1; j < clips.length; j++) {
+      trials.push({
+        score: cosineSimilarity(clips[i].embedding, clips[j].embedding),
+        sameSpeaker: clips[i].speaker === clips[j].speaker,
+      });
+    }
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1);
+  const targetScores = trials.filter(trial => trial.sameSpeaker).map(trial => trial.score);
+  const impostorScores = trials.filter(trial => !trial.sameSpeaker).map(trial => trial.score);
+  const { eer, threshold } = computeEqualErrorRate(trials);
+
+  console.log(`Extractor:          ${speakerEmbeddingExtractor.version} (${clips[0].embedding.length} dims)`);
+  console.log(`Clips:              ${clips.length} from ${speakers.size} speakers, ${audioSeconds.toFixed(1)}s of audio`);
+  console.log(`Real-time factor:   ${(elapsedSeconds / Math.max(audioSeconds, 1e-6)).toFixed(4)}`);
+  console.log(`Trials:             ${targetScores.length} same-speaker, ${impostorScores.length} different-speaker`);
+  console.log(`Mean score:         same ${mean(targetScores).toFixed(3)}, different ${mean(impostorScores).toFixed(3)}`);
+  console.log(`Equal-error rate:   ${(eer * 100).toFixed(2)}%`);
+  console.log(`EER threshold:      ${threshold.toFixed(3)}`);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
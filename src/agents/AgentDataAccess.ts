@@ -0,0 +1,117 @@
+import type { Agent, AgentDataAccess, Permissions } from '@/types/agent/agentInterface';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+
+export type AgentAccessMode = 'read' | 'write' | 'execute';
+
+// Raised when an agent touches a path (or function) it did not declare
+export class AgentPermissionError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public agentId: string,
+    public mode: AgentAccessMode,
+    public path: string
+  ) {
+    super(message);
+    this.name = 'AgentPermissionError';
+  }
+}
+
+// Raised when an agent writes after the orchestrator stopped waiting for it
+export class AgentAbortedError extends Error {
+  constructor(public agentId: string, public path: string) {
+    super(`Agent ${agentId} was cancelled before writing ${path}`);
+    this.name = 'AgentAbortedError';
+  }
+}
+
+/**
+ * Check whether a concrete Firestore path is covered by a declared permission.
+ * Declared paths are collection templates such as '/meetings/{meetingId}/notes';
+ * they grant the collection itself and the documents directly inside it, but not
+ * deeper subcollections.
+ */
+export function isPathPermitted(declared: string[], path: string): boolean {
+  const normalized = '/' + path.split('/').filter(Boolean).join('/');
+
+  return declared.some((template) => {
+    const pattern = template
+      .split('/')
+      .filter(Boolean)
+      .map(segment => (/^\{.+\}$/.test(segment) ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+      .join('/');
+    return new RegExp(`^/${pattern}(/[^/]+)?$`).test(normalized);
+  });
+}
+
+export function assertAgentPermission(
+  agent: Pick<Agent, 'id' | 'permissions'>,
+  mode: AgentAccessMode,
+  path: string
+): void {
+  const permitted = mode === 'execute'
+    ? agent.permissions.execute.includes(path)
+    : isPathPermitted(agent.permissions[mode], path);
+
+  if (!permitted) {
+    throw new AgentPermissionError(
+      `Agent ${agent.id} is not permitted to ${mode} ${path}`,
+      'AGENT_PERMISSION_DENIED',
+      agent.id,
+      mode,
+      path
+    );
+  }
+}
+
+/**
+ * Build a DatabaseService facade that only allows the reads and writes the
+ * agent declared in its permissions. Once `signal` is aborted, writes are refused.
+ */
+export function createAgentDataAccess(agent: Pick<Agent, 'id' | 'permissions'>, signal?: AbortSignal): AgentDataAccess {
+  const guard = (mode: AgentAccessMode, path: string) => {
+    assertAgentPermission(agent, mode, path);
+    if (mode === 'write' && signal?.aborted) {
+      throw new AgentAbortedError(agent.id, path);
+    }
+  };
+
+  return {
+    async getMeeting(meetingId) {
+      guard('read', `/meetings/${meetingId}`);
+      return DatabaseService.getMeeting(meetingId);
+    },
+    async updateMeeting(meetingId, updates) {
+      guard('write', `/meetings/${meetingId}`);
+      return DatabaseService.updateMeeting(meetingId, updates);
+    },
+    async addMeetingNote(meetingId, note) {
+      guard('write', `/meetings/${meetingId}/notes`);
+      return DatabaseService.addMeetingNote(meetingId, note);
+    },
+    async getMeetingNotes(meetingId, options) {
+      guard('read', `/meetings/${meetingId}/notes`);
+      return DatabaseService.getMeetingNotes(meetingId, options);
+    },
+    async searchMeetingNotes(meetingId, searchTerm, options) {
+      guard('read', `/meetings/${meetingId}/notes`);
+      return DatabaseService.searchMeetingNotes(meetingId, searchTerm, options);
+    },
+    async getUserCustomRules(userId) {
+      guard('read', '/customRules');
+      return DatabaseService.getUserCustomRules(userId);
+    },
+    async createCustomRule(rule) {
+      guard('write', '/customRules');
+      return DatabaseService.createCustomRule(rule);
+    },
+    async updateCustomRule(ruleId, updates) {
+      guard('write', `/customRules/${ruleId}`);
+      return DatabaseService.updateCustomRule(ruleId, updates);
+    },
+  };
+}
+
+export function hasAnyPermission(permissions: Permissions, mode: AgentAccessMode): boolean {
+  return permissions[mode].length > 0;
+}
@@ -0,0 +1,319 @@
+import { Agent, AgentContext, AgentResult, AgentType } from '@/types/agent/agentInterface';
+import { MeetingType } from '@/types';
+import type { Meeting } from '@/types';
+import type { FinalizedTranscript } from '@/services/universal-assistant/ConversationProcessor';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { createAgentDataAccess, hasAnyPermission } from './AgentDataAccess';
+import { contextSourcingAgent } from './ContextSourcingAgent';
+import { meetingInfoAgent } from './MeetingInfoAgent';
+import { notesWriterAgent } from './NotesWriterAgent';
+import { notesReaderAgent } from './NotesReaderAgent';
+import { rulesetManagerAgent } from './RulesetManagerAgent';
+
+export type TranscriptIntent =
+  | 'notes_query'
+  | 'blocker'
+  | 'action_item'
+  | 'decision'
+  | 'status_update'
+  | 'question'
+  | 'statement';
+
+export interface AgentRunResult extends AgentResult {
+  agentId: string;
+  agentType: AgentType;
+  durationMs: number;
+  timedOut: boolean;
+}
+
+export interface OrchestrationResult {
+  meetingId: string;
+  intent: TranscriptIntent;
+  transcript: FinalizedTranscript;
+  agentResults: AgentRunResult[];
+}
+
+export interface AgentOrchestratorConfig {
+  agentTimeoutMs: number;
+  defaultAgents: AgentType[];
+  meetingTypeAgents: Partial<Record<MeetingType, AgentType[]>>;
+  intentAgents: Partial<Record<TranscriptIntent, AgentType[]>>;
+  // Added on top of intentAgents in the given meeting types
+  meetingTypeIntentAgents: Partial<Record<MeetingType, Partial<Record<TranscriptIntent, AgentType[]>>>>;
+  mergeIntoMeeting: boolean;
+  maxKeywords: number;
+}
+
+export type MeetingProvider = () => Meeting | null;
+export type OrchestrationListener = (result: OrchestrationResult) => void;
+
+const STATUS_MEETING_AGENTS = [AgentType.CONTEXT_SOURCING];
+// Status meetings note each person's update, not every utterance
+const STATUS_MEETING_INTENT_AGENTS: Partial<Record<TranscriptIntent, AgentType[]>> = {
+  status_update: [AgentType.NOTES_WRITER],
+};
+
+const DEFAULT_CONFIG: AgentOrchestratorConfig = {
+  agentTimeoutMs: 5000,
+  defaultAgents: [AgentType.CONTEXT_SOURCING],
+  meetingTypeAgents: {
+    [MeetingType.STANDUP]: STATUS_MEETING_AGENTS,
+    [MeetingType.TEAM_STANDUP]: STATUS_MEETING_AGENTS,
+    [MeetingType.STATUS_UPDATE]: STATUS_MEETING_AGENTS,
+    [MeetingType.CASUAL_CONVERSATION]: [],
+  },
+  intentAgents: {
+    notes_query: [AgentType.NOTES_READER],
+    blocker: [AgentType.NOTES_WRITER],
+    action_item: [AgentType.NOTES_WRITER],
+    decision: [AgentType.NOTES_WRITER],
+  },
+  meetingTypeIntentAgents: {
+    [MeetingType.STANDUP]: STATUS_MEETING_INTENT_AGENTS,
+    [MeetingType.TEAM_STANDUP]: STATUS_MEETING_INTENT_AGENTS,
+    [MeetingType.STATUS_UPDATE]: STATUS_MEETING_INTENT_AGENTS,
+  },
+  mergeIntoMeeting: true,
+  maxKeywords: 50,
+};
+
+/**
+ * Heuristic intent classification for a finalized utterance.
+ * Order matters: more specific intents win over generic questions.
+ */
+export function classifyTranscriptIntent(text: string): TranscriptIntent {
+  const normalized = text.toLowerCase();
+  if (/\b(what did we|recap|remind me|notes? (on|about)|did we (decide|agree))\b/.test(normalized)) return 'notes_query';
+  if (/\b(block(ed|er|ing)|stuck|issue)\b/.test(normalized)) return 'blocker';
+  if (/\b(action items?|todo|to-do|next steps?|follow up|i'll|i will)\b/.test(normalized)) return 'action_item';
+  if (/\b(we decided|decision|agreed|let's go with)\b/.test(normalized)) return 'decision';
+  if (/\b(yesterday|today i|i('m| am) (working|focusing) on|i worked on|i (finished|completed|shipped)|progress on)\b/.test(normalized)) return 'status_update';
+  if (/\?$|^(what|why|how|when|where|who|can|could|would|should)\b/.test(normalized.trim())) return 'question';
+  return 'statement';
+}
+
+/**
+ * Routes finalized transcript entries to the registered agents.
+ *
+ * For every utterance the orchestrator builds an AgentContext from the current
+ * meeting, picks agents by meeting type and intent, runs them concurrently with
+ * a per-agent timeout behind permission-scoped data access, and merges the
+ * results back into the meeting document.
+ */
+export class AgentOrchestrator {
+  private agents: Map<string, Agent> = new Map();
+  private config: AgentOrchestratorConfig;
+  private meetingProvider: MeetingProvider | null = null;
+  private listeners: Set<OrchestrationListener> = new Set();
+  private seenSpeakers: Map<string, Set<string>> = new Map();
+
+  constructor(agents: Agent[] = [], config: Partial<AgentOrchestratorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    agents.forEach(agent => this.registerAgent(agent));
+  }
+
+  registerAgent(agent: Agent): void {
+    this.agents.set(agent.id, agent);
+  }
+
+  unregisterAgent(agentId: string): void {
+    this.agents.delete(agentId);
+  }
+
+  getRegisteredAgents(): Agent[] {
+    return Array.from(this.agents.values());
+  }
+
+  setMeetingProvider(provider: MeetingProvider | null): void {
+    this.meetingProvider = provider;
+  }
+
+  updateConfig(config: Partial<AgentOrchestratorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  onResult(listener: OrchestrationListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async handleTranscript(transcript: FinalizedTranscript): Promise<OrchestrationResult | null> {
+    const meeting = this.meetingProvider?.();
+    if (!meeting?.meetingId || !transcript.text.trim()) {
+      return null;
+    }
+
+    const intent = classifyTranscriptIntent(transcript.text);
+    const context = this.buildContext(transcript, meeting, intent);
+    const selected = this.selectAgents(meeting, transcript.speakerId, intent);
+
+    const agentResults = await Promise.all(selected.map(agent => this.runAgent(agent, context)));
+
+    if (this.config.mergeIntoMeeting) {
+      try {
+        await this.mergeResults(meeting, agentResults);
+      } catch (error) {
+        console.error('AgentOrchestrator: Failed to merge agent results into meeting:', error);
+      }
+    }
+
+    const result: OrchestrationResult = {
+      meetingId: meeting.meetingId,
+      intent,
+      transcript,
+      agentResults,
+    };
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(result);
+      } catch (error) {
+        console.error('AgentOrchestrator: Result listener failed:', error);
+      }
+    });
+
+    return result;
+  }
+
+  clearMeetingState(meetingId?: string): void {
+    if (meetingId) {
+      this.seenSpeakers.delete(meetingId);
+    } else {
+      this.seenSpeakers.clear();
+    }
+  }
+
+  private buildContext(transcript: FinalizedTranscript, meeting: Meeting, intent: TranscriptIntent): AgentContext {
+    const participants = (meeting.participants || []).map(participant => ({
+      id: participant.userId || participant.id,
+      name: participant.displayName || participant.userName,
+    }));
+
+    return {
+      meetingId: meeting.meetingId,
+      userId: meeting.hostId,
+      meetingType: meeting.type,
+      transcript: transcript.text,
+      speakerId: transcript.speakerId,
+      speakerName: participants.find(p => p.id === transcript.speakerId)?.name,
+      timestamp: new Date(transcript.timestamp),
+      meetingStartTime: meeting.startTime ? new Date(meeting.startTime) : undefined,
+      participants,
+      keywords: meeting.keywords || [],
+      query: intent === 'notes_query' ? transcript.text : undefined,
+    };
+  }
+
+  private selectAgents(meeting: Meeting, speakerId: string, intent: TranscriptIntent): Agent[] {
+    const types = new Set<AgentType>(
+      this.config.meetingTypeAgents[meeting.type] ?? this.config.defaultAgents
+    );
+    (this.config.intentAgents[intent] || []).forEach(type => types.add(type));
+    (this.config.meetingTypeIntentAgents[meeting.type]?.[intent] || []).forEach(type => types.add(type));
+
+    // Refresh meeting info the first time a speaker is heard in this meeting
+    const seen = this.seenSpeakers.get(meeting.meetingId) || new Set<string>();
+    if (!seen.has(speakerId)) {
+      seen.add(speakerId);
+      this.seenSpeakers.set(meeting.meetingId, seen);
+      types.add(AgentType.MEETING_INFO);
+    }
+
+    return this.getRegisteredAgents().filter(agent => types.has(agent.type));
+  }
+
+  private async runAgent(agent: Agent, context: AgentContext): Promise<AgentRunResult> {
+    const startTime = Date.now();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    // A timed-out agent keeps running; aborting stops it from writing afterwards
+    const controller = new AbortController();
+
+    const timeout = new Promise<AgentResult>((resolve) => {
+      timeoutId = setTimeout(() => {
+        controller.abort();
+        resolve({ success: false, error: `Agent ${agent.id} timed out after ${this.config.agentTimeoutMs}ms` });
+      }, this.config.agentTimeoutMs);
+    });
+
+    let timedOut = false;
+    let result: AgentResult;
+    try {
+      const execution = agent
+        .execute({ ...context, db: createAgentDataAccess(agent, controller.signal), signal: controller.signal })
+        .catch((error: Error): AgentResult => ({ success: false, error: error.message }));
+
+      result = await Promise.race([
+        execution,
+        timeout.then((timeoutResult) => {
+          timedOut = true;
+          return timeoutResult;
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const violation = (result.operations || []).find(operation => !hasAnyPermission(agent.permissions, operation));
+    if (violation) {
+      result = {
+        success: false,
+        error: `Agent ${agent.id} reported a '${violation}' operation it has no permission for`,
+      };
+    }
+
+    return {
+      ...result,
+      agentId: agent.id,
+      agentType: agent.type,
+      durationMs: Date.now() - startTime,
+      timedOut,
+    };
+  }
+
+  private async mergeResults(meeting: Meeting, results: AgentRunResult[]): Promise<void> {
+    // Keywords people set stay as they are; detected ones keep the most recent
+    const previousKeywords = meeting.detectedKeywords || [];
+    const keywords = new Set(previousKeywords);
+    const appliedRules = new Set(meeting.appliedRules || []);
+
+    results
+      .filter(result => result.success)
+      .forEach(result => {
+        if (result.agentType === AgentType.CONTEXT_SOURCING) {
+          (result.data?.keywords || []).forEach((keyword: string) => {
+            keywords.delete(keyword);
+            keywords.add(keyword);
+          });
+        }
+        (result.metadata?.appliedRuleIds || []).forEach((ruleId: string) => appliedRules.add(ruleId));
+      });
+
+    const mergedKeywords = Array.from(keywords).slice(-this.config.maxKeywords);
+    const mergedRules = Array.from(appliedRules);
+    const keywordsChanged = !sameItems(mergedKeywords, previousKeywords);
+    const rulesChanged = !sameItems(mergedRules, meeting.appliedRules || []);
+
+    if (!keywordsChanged && !rulesChanged) {
+      return;
+    }
+
+    await DatabaseService.updateMeeting(meeting.meetingId, {
+      ...(keywordsChanged ? { detectedKeywords: mergedKeywords } : {}),
+      ...(rulesChanged ? { appliedRules: mergedRules } : {}),
+    });
+  }
+}
+
+function sameItems(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, index) => item === b[index]);
+}
+
+/**
+ * Factory function to create an orchestrator with the built-in agents registered
+ */
+export function createAgentOrchestrator(config?: Partial<AgentOrchestratorConfig>): AgentOrchestrator {
+  return new AgentOrchestrator(
+    [contextSourcingAgent, meetingInfoAgent, notesWriterAgent, notesReaderAgent, rulesetManagerAgent],
+    config
+  );
+}
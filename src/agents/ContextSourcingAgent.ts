@@ -1,4 +1,14 @@
-import { Agent, AgentContext, AgentResult, AgentType } from '@/types/agent/agentInterface';
+import { Agent, AgentContext, AgentDataAccess, AgentResult, AgentType } from '@/types/agent/agentInterface';
+import type { CustomRule } from '@/types';
+import { createAgentDataAccess } from './AgentDataAccess';
+import {
+  evaluateCustomRule,
+  getRuleId,
+  RuleActionOutput,
+  RuleEvaluationInput,
+} from './utils/customRuleEvaluator';
+
+const RULE_CACHE_TTL = 60 * 1000; // 1 minute
 
 export class ContextSourcingAgent implements Agent {
   id = 'context_sourcing_agent';
@@ -11,19 +21,29 @@ export class ContextSourcingAgent implements Agent {
     execute: ['searchContext', 'extractKeywords'],
   };
 
+  private ruleCache: Map<string, { rules: CustomRule[]; fetchedAt: number }> = new Map();
+
   async execute(context: AgentContext): Promise<AgentResult> {
     try {
       const meetingType = context.meetingType || 'general';
       const transcript = context.transcript || '';
+      const db = context.db || createAgentDataAccess(this);
 
-      const rules = await this.fetchRulesForMeetingType(meetingType);
-      const extractedContext = await this.applyRules(rules, transcript);
+      const rules = await this.fetchRulesForMeetingType(db, context.userId, meetingType);
+      const extractedContext = await this.applyRules(rules, {
+        text: transcript,
+        speakerId: context.speakerId,
+        speakerName: context.speakerName,
+        elapsedMinutes: this.getElapsedMinutes(context),
+      });
 
       return {
         success: true,
         data: extractedContext,
         metadata: {
-          rulesApplied: rules.length,
+          rulesEvaluated: rules.length,
+          rulesApplied: extractedContext.ruleOutputs.length,
+          appliedRuleIds: extractedContext.ruleOutputs.map(output => output.ruleId),
           keywordsExtracted: extractedContext.keywords?.length || 0,
         },
         operations: ['read', 'execute'],
@@ -33,18 +53,62 @@ export class ContextSourcingAgent implements Agent {
     }
   }
 
-  private async fetchRulesForMeetingType(meetingType: string): Promise<Array<Record<string, any>>> {
-    // Placeholder: integrate with Firestore customRules if needed
-    return [
-      { id: 'keyword_extraction', type: 'keyword', weight: 1 },
-      { id: 'action_items', type: 'pattern', pattern: /(action|todo|next steps)/i },
-    ];
+  clearRuleCache(userId?: string): void {
+    if (userId) {
+      this.ruleCache.delete(userId);
+    } else {
+      this.ruleCache.clear();
+    }
+  }
+
+  private async fetchRulesForMeetingType(
+    db: AgentDataAccess,
+    userId: string | undefined,
+    meetingType: string
+  ): Promise<CustomRule[]> {
+    if (!userId) return [];
+
+    const cached = this.ruleCache.get(userId);
+    let rules: CustomRule[];
+    if (cached && Date.now() - cached.fetchedAt < RULE_CACHE_TTL) {
+      rules = cached.rules;
+    } else {
+      rules = await db.getUserCustomRules(userId);
+      this.ruleCache.set(userId, { rules, fetchedAt: Date.now() });
+    }
+
+    // Rules with no meeting types apply to every meeting
+    return rules
+      .filter(rule => rule.enabled !== false)
+      .filter(rule => !rule.meetingTypes?.length || rule.meetingTypes.includes(meetingType as CustomRule['meetingTypes'][number]))
+      .sort((a, b) => (b.priority || 0) - (a.priority || 0));
+  }
+
+  private async applyRules(
+    rules: CustomRule[],
+    input: RuleEvaluationInput
+  ): Promise<{ keywords: string[]; actionMentions: string[]; ruleOutputs: RuleActionOutput[] }> {
+    const keywords = this.extractKeywords(input.text);
+    const actionMentions = (input.text.match(/(action|todo|next steps)/gi) || []).map(s => s.toLowerCase());
+
+    const ruleOutputs = rules
+      .map(rule => evaluateCustomRule(rule, input))
+      .filter(evaluation => evaluation.matched)
+      .map(({ rule, conditions }) => ({
+        ruleId: getRuleId(rule),
+        ruleName: rule.name,
+        priority: rule.priority || 0,
+        actions: rule.actions || [],
+        matchedConditions: conditions,
+      }));
+
+    return { keywords, actionMentions, ruleOutputs };
   }
 
-  private async applyRules(rules: Array<Record<string, any>>, text: string): Promise<{ keywords: string[]; actionMentions: string[] }> {
-    const keywords = this.extractKeywords(text);
-    const actionMentions = (text.match(/(action|todo|next steps)/gi) || []).map(s => s.toLowerCase());
-    return { keywords, actionMentions };
+  private getElapsedMinutes(context: AgentContext): number | undefined {
+    if (!context.meetingStartTime) return undefined;
+    const now = context.timestamp || new Date();
+    return Math.max(0, (now.getTime() - new Date(context.meetingStartTime).getTime()) / 60000);
   }
 
   private extractKeywords(text: string): string[] {
@@ -61,5 +125,3 @@ export class ContextSourcingAgent implements Agent {
 }
 
 export const contextSourcingAgent = new ContextSourcingAgent();
-
-
@@ -1,4 +1,6 @@
-import { Agent, AgentContext, AgentResult, AgentType } from '@/types/agent/agentInterface';
+import { Agent, AgentContext, AgentDataAccess, AgentResult, AgentType } from '@/types/agent/agentInterface';
+import { createAgentDataAccess } from './AgentDataAccess';
+import type { MeetingNote } from '@/types';
 
 export class NotesReaderAgent implements Agent {
   id = 'notes_reader_agent';
@@ -13,8 +15,13 @@ export class NotesReaderAgent implements Agent {
 
   async execute(context: AgentContext): Promise<AgentResult> {
     try {
-      const notes = await this.getTodaysNotes(context.meetingId || '');
-      const processed = await this.processNotes(notes, context.query || '');
+      if (!context.meetingId) {
+        throw new Error('meetingId is required to read notes');
+      }
+
+      const db = context.db || createAgentDataAccess(this);
+      const notes = await this.getNotes(db, context.meetingId, context.query || '');
+      const processed = await this.processNotes(notes);
 
       return { success: true, data: processed, operations: ['read'] };
     } catch (error) {
@@ -22,21 +29,26 @@ export class NotesReaderAgent implements Agent {
     }
   }
 
-  private async getTodaysNotes(meetingId: string): Promise<string[]> {
-    // Placeholder: integrate with Firestore if needed
-    void meetingId;
-    return [];
+  // Notes live under the meeting, so a meeting that runs past midnight keeps its earlier notes
+  private async getNotes(db: AgentDataAccess, meetingId: string, query: string): Promise<MeetingNote[]> {
+    return query.trim()
+      ? db.searchMeetingNotes(meetingId, query)
+      : db.getMeetingNotes(meetingId);
   }
 
-  private async processNotes(notes: string[], query: string): Promise<{ matches: string[]; summary: string }> {
-    const matches = query
-      ? notes.filter(n => n.toLowerCase().includes(query.toLowerCase()))
-      : notes;
-    const summary = matches.slice(0, 3).join('\n');
-    return { matches, summary };
+  private async processNotes(notes: MeetingNote[]): Promise<{ matches: MeetingNote[]; summary: string }> {
+    // Notes come newest first; the summary reads the latest three in order
+    const summary = notes
+      .slice(0, 3)
+      .reverse()
+      .map(note => {
+        const time = new Date(note.timestamp).toLocaleTimeString();
+        const speaker = note.speakerName || note.speakerId || 'Unknown speaker';
+        return `[${time}] ${speaker}: ${note.content}`;
+      })
+      .join('\n');
+    return { matches: notes, summary };
   }
 }
 
 export const notesReaderAgent = new NotesReaderAgent();
-
-
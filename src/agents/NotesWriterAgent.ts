@@ -1,4 +1,8 @@
-import { Agent, AgentContext, AgentResult, AgentType } from '@/types/agent/agentInterface';
+import { Agent, AgentContext, AgentDataAccess, AgentResult, AgentType } from '@/types/agent/agentInterface';
+import { createAgentDataAccess } from './AgentDataAccess';
+import type { MeetingNote } from '@/types';
+
+type NoteDraft = Omit<MeetingNote, 'id' | 'meetingId' | 'createdAt'>;
 
 export class NotesWriterAgent implements Agent {
   id = 'notes_writer_agent';
@@ -13,12 +17,24 @@ export class NotesWriterAgent implements Agent {
 
   async execute(context: AgentContext): Promise<AgentResult> {
     try {
+      if (!context.meetingId) {
+        throw new Error('meetingId is required to write notes');
+      }
+
       const note = await this.generateNote(context);
-      await this.appendToNotes(context.meetingId || 'unknown', note);
+      if (!note.content) {
+        return { success: true, data: { note: null }, operations: [] };
+      }
+      if (context.signal?.aborted) {
+        return { success: false, error: 'Cancelled before the note was written' };
+      }
+
+      const db = context.db || createAgentDataAccess(this);
+      const noteId = await this.appendToNotes(db, context.meetingId, note);
 
       return {
         success: true,
-        data: { note, timestamp: new Date().toISOString() },
+        data: { note: { ...note, id: noteId, meetingId: context.meetingId }, timestamp: note.timestamp.toISOString() },
         operations: ['write'],
       };
     } catch (error) {
@@ -26,19 +42,23 @@ export class NotesWriterAgent implements Agent {
     }
   }
 
-  private async generateNote(context: AgentContext): Promise<string> {
-    const parts: string[] = [];
-    if (context.transcript) parts.push(context.transcript);
-    if (context.keywords?.length) parts.push(`Keywords: ${context.keywords.join(', ')}`);
-    return parts.join('\n');
+  private async generateNote(context: AgentContext): Promise<NoteDraft> {
+    const speakerName = context.speakerName
+      || context.participants?.find(p => p.id === context.speakerId)?.name;
+
+    return {
+      content: (context.transcript || '').trim(),
+      speakerId: context.speakerId,
+      speakerName,
+      keywords: context.keywords || [],
+      source: this.id,
+      timestamp: context.timestamp || new Date(),
+    };
   }
 
-  private async appendToNotes(meetingId: string, note: string): Promise<void> {
-    // Placeholder: integrate with Firestore if needed
-    void meetingId; void note;
+  private async appendToNotes(db: AgentDataAccess, meetingId: string, note: NoteDraft): Promise<string> {
+    return db.addMeetingNote(meetingId, note);
   }
 }
 
 export const notesWriterAgent = new NotesWriterAgent();
-
-
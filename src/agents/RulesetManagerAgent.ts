@@ -1,4 +1,9 @@
-import { Agent, AgentContext, AgentResult, AgentType } from '@/types/agent/agentInterface';
+import { Agent, AgentContext, AgentDataAccess, AgentResult, AgentType } from '@/types/agent/agentInterface';
+import type { CustomRule } from '@/types';
+import { createAgentDataAccess } from './AgentDataAccess';
+import { buildRuleValidationReport, RuleValidationReport } from './utils/customRuleValidator';
+
+type RuleInput = Partial<CustomRule> & { id?: string };
 
 export class RulesetManagerAgent implements Agent {
   id = 'ruleset_manager_agent';
@@ -13,29 +18,61 @@ export class RulesetManagerAgent implements Agent {
 
   async execute(context: AgentContext): Promise<AgentResult> {
     try {
-      const rule = context.rule || {};
-      const duplicate = await this.checkDuplicates(rule);
-      if (!duplicate) {
-        const saved = await this.saveRule(rule);
-        return { success: true, data: saved, operations: ['read', 'write'] };
+      const db = context.db || createAgentDataAccess(this);
+      const rule: RuleInput = { ...(context.rule || {}) };
+      rule.userId = rule.userId || context.userId;
+
+      const existing = await this.checkDuplicates(rule, db);
+      const report = buildRuleValidationReport(rule, existing);
+      if (!report.valid) {
+        const reason = report.errors.length > 0 ? 'Rule failed validation' : 'Duplicate rule detected';
+        return { success: false, error: reason, data: report, operations: ['read', 'execute'] };
       }
-      return { success: false, error: 'Duplicate rule detected', data: duplicate };
+
+      const saved = await this.saveRule(rule, existing, db);
+      return { success: true, data: { rule: saved, report }, operations: ['read', 'write', 'execute'] };
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   }
 
-  private async checkDuplicates(rule: Record<string, any>): Promise<Record<string, any> | null> {
-    // Placeholder: integrate with Firestore customRules if needed
-    void rule;
-    return null;
+  /**
+   * Validate a rule and check it against the owner's existing rules without saving it.
+   */
+  async validateRule(rule: RuleInput, db: AgentDataAccess = createAgentDataAccess(this)): Promise<RuleValidationReport> {
+    const existing = await this.checkDuplicates(rule, db);
+    return buildRuleValidationReport(rule, existing);
   }
 
-  private async saveRule(rule: Record<string, any>): Promise<Record<string, any>> {
-    return { ...rule, id: rule.id || `rule_${Date.now()}` };
+  private async checkDuplicates(rule: RuleInput, db: AgentDataAccess): Promise<CustomRule[]> {
+    if (!rule.userId) return [];
+    return db.getUserCustomRules(rule.userId);
   }
-}
 
-export const rulesetManagerAgent = new RulesetManagerAgent();
+  private async saveRule(rule: RuleInput, existing: CustomRule[], db: AgentDataAccess): Promise<CustomRule> {
+    const { id: givenId, createdAt: _createdAt, ...fields } = rule;
+    const normalized = {
+      ...fields,
+      description: fields.description || '',
+      meetingTypes: fields.meetingTypes || [],
+      priority: fields.priority ?? 0,
+      enabled: fields.enabled ?? true,
+    } as Omit<CustomRule, 'createdAt'>;
 
+    // An update may name the rule by its ruleId alone
+    const current = fields.ruleId
+      ? (existing.find(other => other.ruleId === fields.ruleId) as (CustomRule & { id?: string }) | undefined)
+      : undefined;
+    const id = givenId || current?.id;
+    if (id) {
+      await db.updateCustomRule(id, normalized);
+      return { ...normalized, id, createdAt: rule.createdAt || current?.createdAt || new Date() } as CustomRule;
+    }
 
+    const ruleId = normalized.ruleId || `rule_${Date.now()}`;
+    const docId = await db.createCustomRule({ ...normalized, ruleId });
+    return { ...normalized, ruleId, id: docId, createdAt: new Date() } as CustomRule;
+  }
+}
+
+export const rulesetManagerAgent = new RulesetManagerAgent();
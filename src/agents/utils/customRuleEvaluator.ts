@@ -0,0 +1,157 @@
+import type { CustomRule, RuleAction, RuleCondition } from '@/types';
+
+/**
+ * Operators that make sense for each CustomRule condition type.
+ * 'time' conditions compare minutes elapsed since the meeting started.
+ */
+export const CUSTOM_RULE_OPERATORS: Record<RuleCondition['type'], RuleCondition['operator'][]> = {
+  keyword: ['contains', 'equals', 'matches'],
+  speaker: ['equals', 'contains', 'matches'],
+  time: ['greater', 'less', 'equals'],
+  pattern: ['matches', 'contains'],
+};
+
+export interface RuleEvaluationInput {
+  text: string;
+  speakerId?: string;
+  speakerName?: string;
+  elapsedMinutes?: number;
+}
+
+export interface ConditionEvaluation {
+  condition: RuleCondition;
+  matched: boolean;
+  reason: string;
+}
+
+export interface CustomRuleEvaluation {
+  rule: CustomRule;
+  matched: boolean;
+  conditions: ConditionEvaluation[];
+}
+
+export interface RuleActionOutput {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  actions: RuleAction[];
+  matchedConditions: ConditionEvaluation[];
+}
+
+/**
+ * Convert a stored condition value into a case-insensitive RegExp. Firestore cannot
+ * persist RegExp objects, so patterns come back either as plain sources or as
+ * '/source/flags'. Global and sticky flags are dropped since they make test() stateful.
+ */
+export function toRegExp(value: RuleCondition['value']): RegExp {
+  let source = String(value);
+  let flags = '';
+  if (value instanceof RegExp) {
+    ({ source, flags } = value);
+  } else {
+    const literal = source.match(/^\/(.+)\/([gimsuy]*)$/);
+    if (literal) {
+      [, source, flags] = literal;
+    }
+  }
+  return new RegExp(source, flags.replace(/[giy]/g, '') + 'i');
+}
+
+function splitKeywords(value: RuleCondition['value']): string[] {
+  return String(value)
+    .split(',')
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function compareNumber(actual: number, operator: RuleCondition['operator'], expected: number): boolean {
+  switch (operator) {
+    case 'greater':
+      return actual > expected;
+    case 'less':
+      return actual < expected;
+    case 'equals':
+      return Math.floor(actual) === expected;
+    default:
+      return false;
+  }
+}
+
+export function evaluateRuleCondition(condition: RuleCondition, input: RuleEvaluationInput): ConditionEvaluation {
+  const text = input.text.toLowerCase();
+  const fail = (reason: string): ConditionEvaluation => ({ condition, matched: false, reason });
+  const pass = (reason: string): ConditionEvaluation => ({ condition, matched: true, reason });
+
+  if (!CUSTOM_RULE_OPERATORS[condition.type]?.includes(condition.operator)) {
+    return fail(`operator '${condition.operator}' is not valid for '${condition.type}' conditions`);
+  }
+
+  try {
+    switch (condition.type) {
+      case 'keyword': {
+        // A pattern is one regex; commas and case are part of it
+        if (condition.operator === 'matches') {
+          return toRegExp(condition.value).test(input.text)
+            ? pass(`pattern ${condition.value} matched`)
+            : fail(`pattern ${condition.value} did not match`);
+        }
+        const keywords = splitKeywords(condition.value);
+        const words = new Set(text.split(/[^a-z0-9']+/).filter(Boolean));
+        const hit = keywords.find(keyword =>
+          condition.operator === 'equals' ? words.has(keyword) : text.includes(keyword)
+        );
+        return hit ? pass(`keyword '${hit}' found`) : fail(`none of [${keywords.join(', ')}] found`);
+      }
+
+      case 'speaker': {
+        const candidates = [input.speakerId, input.speakerName].filter((s): s is string => Boolean(s));
+        const expected = String(condition.value).toLowerCase();
+        const hit = candidates.find(candidate => {
+          if (condition.operator === 'matches') return toRegExp(condition.value).test(candidate);
+          if (condition.operator === 'equals') return candidate.toLowerCase() === expected;
+          return candidate.toLowerCase().includes(expected);
+        });
+        return hit ? pass(`speaker '${hit}' matched`) : fail(`speaker did not match '${condition.value}'`);
+      }
+
+      case 'time': {
+        if (input.elapsedMinutes === undefined) {
+          return fail('meeting start time unknown');
+        }
+        const expected = Number(condition.value);
+        return compareNumber(input.elapsedMinutes, condition.operator, expected)
+          ? pass(`${input.elapsedMinutes.toFixed(1)} min is ${condition.operator} ${expected}`)
+          : fail(`${input.elapsedMinutes.toFixed(1)} min is not ${condition.operator} ${expected}`);
+      }
+
+      case 'pattern': {
+        const matched = condition.operator === 'contains'
+          ? text.includes(String(condition.value).toLowerCase())
+          : toRegExp(condition.value).test(input.text);
+        return matched ? pass(`pattern ${condition.value} matched`) : fail(`pattern ${condition.value} did not match`);
+      }
+
+      default:
+        return fail(`unknown condition type '${(condition as RuleCondition).type}'`);
+    }
+  } catch (error) {
+    return fail(`condition could not be evaluated: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * A rule matches when all of its conditions match. Rules without conditions never fire.
+ */
+export function evaluateCustomRule(rule: CustomRule, input: RuleEvaluationInput): CustomRuleEvaluation {
+  const conditions = (rule.conditions || []).map(condition => evaluateRuleCondition(condition, input));
+  return {
+    rule,
+    matched: conditions.length > 0 && conditions.every(result => result.matched),
+    conditions,
+  };
+}
+
+export function getRuleId(rule: CustomRule): string {
+  // Documents read through DatabaseService carry their Firestore id as `id`
+  return rule.ruleId || (rule as CustomRule & { id?: string }).id || rule.name;
+}
@@ -0,0 +1,349 @@
+import { MeetingType } from '@/types';
+import type { CustomRule, RuleAction, RuleCondition } from '@/types';
+import { isCompositeCondition } from '@/config/gatekeeper/ruleDefinitions';
+import type { Rule, RuleCondition as GatekeeperCondition } from '@/config/gatekeeper/ruleDefinitions';
+import { CUSTOM_RULE_OPERATORS, getRuleId } from './customRuleEvaluator';
+
+const RULE_ACTION_TYPES: RuleAction['type'][] = ['respond', 'summarize', 'ignore', 'highlight', 'notify'];
+const MAX_PATTERN_LENGTH = 200;
+const KEYWORD_OVERLAP_THRESHOLD = 0.5;
+
+export interface RuleValidationIssue {
+  field: string;
+  code: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface RuleDuplicateMatch {
+  ruleId: string;
+  ruleName: string;
+  reason: 'identical_conditions' | 'overlapping_keywords' | 'same_name';
+  message: string;
+  overlap?: number;
+}
+
+export interface RuleValidationReport {
+  valid: boolean;
+  errors: RuleValidationIssue[];
+  warnings: RuleValidationIssue[];
+  duplicates: RuleDuplicateMatch[];
+}
+
+/**
+ * Flag regexes that can backtrack catastrophically: a quantified group that itself
+ * contains a quantifier (e.g. (a+)+, (\w*)*) or a quantified alternation whose
+ * branches can match the same input (e.g. (a|aa)+).
+ */
+export function isUnsafePattern(source: string): boolean {
+  const nestedQuantifier = /\((?:[^()\\]|\\.)*[+*](?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/;
+  if (nestedQuantifier.test(source)) return true;
+
+  const quantifiedAlternation = /\(((?:[^()\\]|\\.)*\|(?:[^()\\]|\\.)*)\)(?:[+*]|\{\d+,\d*\})/g;
+  let match: RegExpExecArray | null;
+  while ((match = quantifiedAlternation.exec(source)) !== null) {
+    const branches = match[1].replace(/^\?:/, '').split('|');
+    const overlapping = branches.some((a, i) =>
+      branches.some((b, j) => i !== j && a.length > 0 && b.startsWith(a))
+    );
+    if (overlapping) return true;
+  }
+
+  // Backreferences make matching non-regular and hard to bound
+  return /\\[1-9]/.test(source);
+}
+
+function patternSource(value: unknown): string {
+  if (value instanceof RegExp) return value.source;
+  const literal = String(value).match(/^\/(.+)\/[gimsuy]*$/);
+  return literal ? literal[1] : String(value);
+}
+
+function validatePattern(value: unknown, field: string): RuleValidationIssue[] {
+  const issues: RuleValidationIssue[] = [];
+  const source = patternSource(value);
+  if (source.length > MAX_PATTERN_LENGTH) {
+    issues.push({
+      field,
+      code: 'PATTERN_TOO_LONG',
+      message: `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`,
+      severity: 'error',
+    });
+  }
+  try {
+    new RegExp(source);
+    if (isUnsafePattern(source)) {
+      issues.push({
+        field,
+        code: 'UNSAFE_PATTERN',
+        message: `Pattern '${source}' may cause catastrophic backtracking; avoid nested or overlapping repetition`,
+        severity: 'error',
+      });
+    }
+  } catch (error) {
+    issues.push({
+      field,
+      code: 'INVALID_PATTERN',
+      message: `Pattern does not compile: ${(error as Error).message}`,
+      severity: 'error',
+    });
+  }
+  return issues;
+}
+
+function validateCondition(condition: RuleCondition, index: number): RuleValidationIssue[] {
+  const field = `conditions[${index}]`;
+  const issues: RuleValidationIssue[] = [];
+  const allowedOperators = CUSTOM_RULE_OPERATORS[condition.type];
+
+  if (!allowedOperators) {
+    return [{
+      field: `${field}.type`,
+      code: 'UNKNOWN_CONDITION_TYPE',
+      message: `Unknown condition type '${condition.type}'`,
+      severity: 'error',
+    }];
+  }
+
+  if (!allowedOperators.includes(condition.operator)) {
+    issues.push({
+      field: `${field}.operator`,
+      code: 'INVALID_OPERATOR',
+      message: `'${condition.operator}' cannot be used with ${condition.type} conditions (use ${allowedOperators.join(', ')})`,
+      severity: 'error',
+    });
+  }
+
+  if (condition.value === undefined || condition.value === null || String(condition.value).trim() === '') {
+    issues.push({
+      field: `${field}.value`,
+      code: 'MISSING_VALUE',
+      message: `${condition.type} condition needs a value`,
+      severity: 'error',
+    });
+    return issues;
+  }
+
+  if (condition.type === 'time') {
+    const minutes = Number(condition.value);
+    if (!Number.isFinite(minutes) || minutes < 0) {
+      issues.push({
+        field: `${field}.value`,
+        code: 'INVALID_TIME',
+        message: 'Time conditions take a non-negative number of minutes',
+        severity: 'error',
+      });
+    }
+  }
+
+  if (condition.operator === 'matches' && condition.type !== 'time') {
+    issues.push(...validatePattern(condition.value, `${field}.value`));
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a rule against the CustomRule schema.
+ */
+export function validateCustomRule(rule: Partial<CustomRule>): RuleValidationIssue[] {
+  const issues: RuleValidationIssue[] = [];
+  const knownMeetingTypes = Object.values(MeetingType) as string[];
+
+  if (!rule.name?.trim()) {
+    issues.push({ field: 'name', code: 'MISSING_NAME', message: 'Rule needs a name', severity: 'error' });
+  }
+
+  if (!rule.userId) {
+    issues.push({ field: 'userId', code: 'MISSING_USER', message: 'Rule must belong to a user', severity: 'error' });
+  }
+
+  (rule.meetingTypes || []).forEach((meetingType, index) => {
+    if (!knownMeetingTypes.includes(meetingType)) {
+      issues.push({
+        field: `meetingTypes[${index}]`,
+        code: 'UNKNOWN_MEETING_TYPE',
+        message: `Unknown meeting type '${meetingType}'`,
+        severity: 'error',
+      });
+    }
+  });
+  if (!rule.meetingTypes?.length) {
+    issues.push({
+      field: 'meetingTypes',
+      code: 'ALL_MEETING_TYPES',
+      message: 'No meeting types selected; the rule will apply to every meeting',
+      severity: 'warning',
+    });
+  }
+
+  if (!rule.conditions?.length) {
+    issues.push({ field: 'conditions', code: 'NO_CONDITIONS', message: 'Rule needs at least one condition', severity: 'error' });
+  } else {
+    rule.conditions.forEach((condition, index) => issues.push(...validateCondition(condition, index)));
+  }
+
+  if (!rule.actions?.length) {
+    issues.push({ field: 'actions', code: 'NO_ACTIONS', message: 'Rule needs at least one action', severity: 'error' });
+  } else {
+    rule.actions.forEach((action, index) => {
+      if (!RULE_ACTION_TYPES.includes(action.type)) {
+        issues.push({
+          field: `actions[${index}].type`,
+          code: 'UNKNOWN_ACTION_TYPE',
+          message: `Unknown action type '${action.type}'`,
+          severity: 'error',
+        });
+      }
+      if (action.type === 'respond' && !action.parameters?.message && !action.parameters?.template) {
+        issues.push({
+          field: `actions[${index}].parameters`,
+          code: 'MISSING_RESPONSE',
+          message: 'Respond actions should include a message or template',
+          severity: 'warning',
+        });
+      }
+    });
+  }
+
+  if (rule.priority !== undefined && (!Number.isFinite(rule.priority) || rule.priority < 0)) {
+    issues.push({ field: 'priority', code: 'INVALID_PRIORITY', message: 'Priority must be a non-negative number', severity: 'error' });
+  }
+
+  return issues;
+}
+
+function validateGatekeeperCondition(condition: GatekeeperCondition, field: string): RuleValidationIssue[] {
+  if (isCompositeCondition(condition)) {
+    if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+      return [{ field, code: 'NO_CONDITIONS', message: `'${condition.type}' needs at least one child condition`, severity: 'error' }];
+    }
+    return condition.conditions.flatMap((child, index) => validateGatekeeperCondition(child, `${field}.conditions[${index}]`));
+  }
+
+  // The engine compiles pattern values, and speaker values under 'matches', as regexes
+  if (condition.type === 'pattern' || (condition.type === 'speaker' && condition.operator === 'matches')) {
+    const values: unknown[] = Array.isArray(condition.value) ? condition.value : [condition.value];
+    return values.flatMap(value => validatePattern(value, `${field}.value`));
+  }
+  return [];
+}
+
+/**
+ * Validate a gatekeeper rule before the engine runs it. Only checks what would
+ * break evaluation: structure and the regexes the engine compiles.
+ */
+export function validateGatekeeperRule(rule: Partial<Rule>): RuleValidationIssue[] {
+  const issues: RuleValidationIssue[] = [];
+
+  if (!rule.id) {
+    issues.push({ field: 'id', code: 'MISSING_ID', message: 'Rule needs an id', severity: 'error' });
+  }
+  if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+    issues.push({ field: 'conditions', code: 'NO_CONDITIONS', message: 'Rule needs at least one condition', severity: 'error' });
+  } else {
+    rule.conditions.forEach((condition, index) => issues.push(...validateGatekeeperCondition(condition, `conditions[${index}]`)));
+  }
+  if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+    issues.push({ field: 'actions', code: 'NO_ACTIONS', message: 'Rule needs at least one action', severity: 'error' });
+  }
+
+  return issues;
+}
+
+// Keyword lists are comma separated; 'matches' values are single regexes, as in the evaluator
+function isKeywordList(condition: RuleCondition): boolean {
+  return condition.type === 'keyword' && condition.operator !== 'matches';
+}
+
+function conditionSignature(condition: RuleCondition): string {
+  const value = isKeywordList(condition)
+    ? String(condition.value).split(',').map(k => k.trim().toLowerCase()).filter(Boolean).sort().join(',')
+    : condition.value instanceof RegExp ? condition.value.source : String(condition.value).trim().toLowerCase();
+  return `${condition.type}|${condition.operator}|${value}`;
+}
+
+function keywordSet(rule: Partial<CustomRule>): Set<string> {
+  return new Set(
+    (rule.conditions || [])
+      .filter(isKeywordList)
+      .flatMap(condition => String(condition.value).split(','))
+      .map(keyword => keyword.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+function meetingTypesOverlap(a: Partial<CustomRule>, b: Partial<CustomRule>): boolean {
+  if (!a.meetingTypes?.length || !b.meetingTypes?.length) return true;
+  return a.meetingTypes.some(type => b.meetingTypes!.includes(type));
+}
+
+/**
+ * Find existing rules that would fire on the same input as `rule`.
+ */
+export function findDuplicateRules(rule: Partial<CustomRule>, existing: CustomRule[]): RuleDuplicateMatch[] {
+  const matches: RuleDuplicateMatch[] = [];
+  const ownId = rule.ruleId || (rule as Partial<CustomRule> & { id?: string }).id;
+  const signature = (rule.conditions || []).map(conditionSignature).sort().join('&');
+  const keywords = keywordSet(rule);
+
+  existing.forEach((other) => {
+    const otherId = getRuleId(other);
+    if (ownId && otherId === ownId) return;
+
+    if (rule.name && other.name?.trim().toLowerCase() === rule.name.trim().toLowerCase()) {
+      matches.push({
+        ruleId: otherId,
+        ruleName: other.name,
+        reason: 'same_name',
+        message: `A rule named '${other.name}' already exists`,
+      });
+    }
+
+    if (!meetingTypesOverlap(rule, other)) return;
+
+    const otherSignature = (other.conditions || []).map(conditionSignature).sort().join('&');
+    if (signature && signature === otherSignature) {
+      matches.push({
+        ruleId: otherId,
+        ruleName: other.name,
+        reason: 'identical_conditions',
+        message: `'${other.name}' already has exactly these conditions`,
+      });
+      return;
+    }
+
+    const otherKeywords = keywordSet(other);
+    if (keywords.size > 0 && otherKeywords.size > 0) {
+      const shared = Array.from(keywords).filter(keyword => otherKeywords.has(keyword));
+      const overlap = shared.length / Math.min(keywords.size, otherKeywords.size);
+      if (overlap >= KEYWORD_OVERLAP_THRESHOLD) {
+        matches.push({
+          ruleId: otherId,
+          ruleName: other.name,
+          reason: 'overlapping_keywords',
+          message: `'${other.name}' already listens for ${shared.map(k => `'${k}'`).join(', ')}`,
+          overlap,
+        });
+      }
+    }
+  });
+
+  return matches;
+}
+
+export function buildRuleValidationReport(
+  rule: Partial<CustomRule>,
+  existing: CustomRule[]
+): RuleValidationReport {
+  const issues = validateCustomRule(rule);
+  const duplicates = findDuplicateRules(rule, existing);
+  const errors = issues.filter(issue => issue.severity === 'error');
+
+  return {
+    valid: errors.length === 0 && duplicates.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+    duplicates,
+  };
+}
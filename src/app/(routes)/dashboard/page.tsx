@@ -23,6 +23,7 @@ import { DashboardCard } from '@/components/dashboard/DashboardCard';
 import { RecentMeetingCard } from '@/components/dashboard/RecentMeetingCard';
 import { QuickActions } from '@/components/dashboard/QuickActions';
 import { MeetingControls } from '@/components/dashboard/MeetingControls';
+import { SpeakerSearch } from '@/components/dashboard/SpeakerSearch';
 
 // Import error boundary and hooks
 import { DashboardErrorBoundary, withDashboardErrorBoundary } from '@/components/error/DashboardErrorBoundary';
@@ -368,6 +369,9 @@ const DashboardPage = React.memo(() => {
             </div>
           </div>
 
+          {/* Meetings by speaker, across the user's meeting history */}
+          <SpeakerSearch onMeetingClick={handleMeetingClick} />
+
           {/* Cost Tracking Section */}
           <MotionCard 
             className="p-0 shadow-none border-0 bg-transparent"
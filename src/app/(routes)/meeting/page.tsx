@@ -5,6 +5,8 @@ import { MainLayout } from '@/components/layouts/MainLayout';
 import { useMeetingStore, useMeeting } from '@/stores/meetingStore';
 import { useAuth } from '@/hooks/useAuth';
 import { useUniversalAssistantClient } from '@/hooks/useUniversalAssistantClient';
+import { SpeakerNameConfirmation } from '@/components/universal-assistant/SpeakerNameConfirmation';
+import WakeWordIndicator from '@/components/universal-assistant/WakeWordIndicator';
 import { 
   Mic, 
   MicOff, 
@@ -18,11 +20,68 @@ import {
   Volume2,
   Settings,
   Wifi,
-  Shield
+  Shield,
+  StickyNote
 } from 'lucide-react';
-import { MeetingType } from '@/types';
+import { MeetingType, type TranscriptEntry } from '@/types';
 import { ProgressModal, ProgressStep, useProgressModal, LoadingSpinner } from '@/components/ui';
 
+// Pair each entry with the entry it overlaps, keeping transcript order
+function groupOverlappingEntries(transcript: TranscriptEntry[]): TranscriptEntry[][] {
+  const byId = new Map(transcript.map(entry => [entry.id, entry]));
+  const grouped = new Set<string>();
+  const rows: TranscriptEntry[][] = [];
+
+  transcript.forEach(entry => {
+    if (entry.id && grouped.has(entry.id)) return;
+    const partner = entry.overlapsWith ? byId.get(entry.overlapsWith) : undefined;
+    if (partner && !grouped.has(partner.id)) {
+      grouped.add(entry.id);
+      grouped.add(partner.id);
+      rows.push([entry, partner]);
+    } else {
+      rows.push([entry]);
+    }
+  });
+
+  return rows;
+}
+
+const TranscriptEntryCard: React.FC<{ entry: TranscriptEntry }> = ({ entry }) => (
+  <div className="group relative p-4 rounded-xl bg-white/40 dark:bg-gray-800/40 border-l-4 border-gradient-primary backdrop-blur-sm hover:bg-white/60 dark:hover:bg-gray-800/60 transition-all duration-200">
+    <div className="flex items-start justify-between">
+      <div className="flex-1">
+        <div className="flex flex-wrap items-center gap-3 mb-2">
+          <div className="flex items-center space-x-2">
+            <div className="w-2 h-2 bg-blue-500 rounded-full" />
+            <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+              {entry.speakerName || entry.speakerId || 'Speaker'}
+            </span>
+          </div>
+          <span className="text-xs text-gray-500 dark:text-gray-400 bg-gray-100/50 dark:bg-gray-700/50 px-2 py-1 rounded-full">
+            {new Date(entry.timestamp).toLocaleTimeString()}
+          </span>
+          {entry.confidence && (
+            <span className="text-xs text-emerald-600 dark:text-emerald-400 bg-emerald-100/50 dark:bg-emerald-900/20 px-2 py-1 rounded-full font-medium">
+              {Math.round(entry.confidence * 100)}% confident
+            </span>
+          )}
+          {entry.interruptedSpeakerId && (
+            <span className="text-xs text-amber-600 dark:text-amber-400 bg-amber-100/50 dark:bg-amber-900/20 px-2 py-1 rounded-full font-medium">
+              Interruption
+            </span>
+          )}
+        </div>
+        <p className="text-gray-900 dark:text-white leading-relaxed text-fluid-base">
+          {entry.text}
+        </p>
+      </div>
+    </div>
+    {/* Subtle hover effect */}
+    <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-500/5 to-purple-500/5 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none" />
+  </div>
+);
+
 // LiveTranscript Component
 const LiveTranscript: React.FC = () => {
   const { transcript, isInMeeting } = useMeeting();
@@ -73,37 +132,21 @@ const LiveTranscript: React.FC = () => {
           </div>
         ) : (
           <div className="space-y-6">
-            {transcript.map((entry, index) => (
-              <div 
-                key={entry.id || index} 
-                className="group relative p-4 rounded-xl bg-white/40 dark:bg-gray-800/40 border-l-4 border-gradient-primary backdrop-blur-sm hover:bg-white/60 dark:hover:bg-gray-800/60 transition-all duration-200"
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3 mb-2">
-                      <div className="flex items-center space-x-2">
-                        <div className="w-2 h-2 bg-blue-500 rounded-full" />
-                        <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                          {entry.speakerId || 'Speaker'}
-                        </span>
-                      </div>
-                      <span className="text-xs text-gray-500 dark:text-gray-400 bg-gray-100/50 dark:bg-gray-700/50 px-2 py-1 rounded-full">
-                        {new Date(entry.timestamp).toLocaleTimeString()}
-                      </span>
-                      {entry.confidence && (
-                        <span className="text-xs text-emerald-600 dark:text-emerald-400 bg-emerald-100/50 dark:bg-emerald-900/20 px-2 py-1 rounded-full font-medium">
-                          {Math.round(entry.confidence * 100)}% confident
-                        </span>
-                      )}
-                    </div>
-                    <p className="text-gray-900 dark:text-white leading-relaxed text-fluid-base">
-                      {entry.text}
-                    </p>
+            {groupOverlappingEntries(transcript).map((row, index) => (
+              row.length === 1 ? (
+                <TranscriptEntryCard key={row[0].id || index} entry={row[0]} />
+              ) : (
+                <div key={row[0].id || index} className="space-y-2">
+                  <span className="text-xs font-medium text-amber-600 dark:text-amber-400">
+                    Overlapping speech
+                  </span>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {row.map(entry => (
+                      <TranscriptEntryCard key={entry.id} entry={entry} />
+                    ))}
                   </div>
                 </div>
-                {/* Subtle hover effect */}
-                <div className="absolute inset-0 rounded-xl bg-gradient-to-r from-blue-500/5 to-purple-500/5 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none" />
-              </div>
+              )
             ))}
             <div ref={transcriptEndRef} />
           </div>
@@ -113,6 +156,60 @@ const LiveTranscript: React.FC = () => {
   );
 };
 
+// MeetingNotes Component
+const MeetingNotes: React.FC = () => {
+  const { meetingNotes, isInMeeting } = useMeeting();
+
+  if (!isInMeeting) {
+    return null;
+  }
+
+  return (
+    <div className="glass-morphism dark:glass-morphism-dark rounded-xl border border-white/30 dark:border-gray-700/30 overflow-hidden shadow-soft backdrop-blur-xl">
+      <div className="p-6 border-b border-white/20 dark:border-gray-700/30 bg-gradient-to-r from-amber-50/50 to-yellow-50/50 dark:from-amber-900/20 dark:to-yellow-900/20">
+        <div className="flex items-center space-x-3">
+          <StickyNote className="w-5 h-5 text-amber-500" />
+          <h3 className="text-fluid-lg font-semibold text-gray-900 dark:text-white">
+            Meeting Notes
+          </h3>
+          {meetingNotes.length > 0 && (
+            <span className="bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 text-sm font-medium px-3 py-1 rounded-full">
+              {meetingNotes.length}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 max-h-64 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600">
+        {meetingNotes.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400">
+            Notes taken by the assistant will appear here
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {meetingNotes.map((note) => (
+              <li key={note.id} className="p-3 rounded-lg bg-white/40 dark:bg-gray-800/40">
+                <div className="flex items-center space-x-2 mb-1 text-xs text-gray-500 dark:text-gray-400">
+                  <span className="font-semibold text-gray-700 dark:text-gray-300">
+                    {note.speakerName || note.speakerId || 'Unknown speaker'}
+                  </span>
+                  <span>{new Date(note.timestamp).toLocaleTimeString()}</span>
+                  {note.category && (
+                    <span className="bg-gray-100/50 dark:bg-gray-700/50 px-2 py-0.5 rounded-full">
+                      {note.category}
+                    </span>
+                  )}
+                </div>
+                <p className="text-gray-900 dark:text-white text-sm leading-relaxed">{note.content}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
 // PastMeetings Component
 const PastMeetings: React.FC = () => {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -244,6 +341,7 @@ export default function MeetingPage() {
     startRecording: startAssistantRecording,
     stopRecording: stopAssistantRecording,
     handleVocalInterrupt,
+    wakeWord,
     isReady: assistantReady
   } = useUniversalAssistantClient();
   
@@ -358,7 +456,7 @@ export default function MeetingPage() {
           userName: user.displayName || user.email?.split('@')[0] || 'Host',
           displayName: user.displayName || user.email?.split('@')[0] || 'Host',
           email: user.email || '',
-          voiceProfileId: 'default-voice-profile',
+          voiceProfileId: user.voiceProfileId || 'default-voice-profile',
           role: 'host' as const,
           joinTime: new Date(),
           joinedAt: new Date(),
@@ -709,6 +807,11 @@ export default function MeetingPage() {
                     }`}>Speaking</span>
                   </div>
                 </div>
+                {wakeWord.mode === 'wake_word' && (
+                  <div className="flex justify-center mt-3">
+                    <WakeWordIndicator {...wakeWord} />
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -716,7 +819,9 @@ export default function MeetingPage() {
 
         {/* Live Transcript Area */}
         <div className="space-y-6">
+          <SpeakerNameConfirmation />
           <LiveTranscript />
+          <MeetingNotes />
         </div>
 
         {/* Past Meetings Section */}
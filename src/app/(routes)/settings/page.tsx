@@ -5,6 +5,11 @@ import { MainLayout } from '@/components/layouts/MainLayout';
 import { useAuthStore } from '@/stores/authStore';
 import { useAppStore } from '@/stores/appStore';
 import { useTheme } from '@/components/providers/ThemeProvider';
+import { NaturalLanguageRuleBuilder } from '@/components/rules/NaturalLanguageRuleBuilder';
+import { RuleSimulationPanel } from '@/components/rules/RuleSimulationPanel';
+import { VoiceEnrollmentWizard } from '@/components/settings/VoiceEnrollmentWizard';
+import { GlossaryEditor } from '@/components/settings/GlossaryEditor';
+import { VoiceCommandEditor } from '@/components/settings/VoiceCommandEditor';
 import { 
   User, 
   Bell, 
@@ -21,7 +26,13 @@ import {
   Volume2,
   Monitor,
   Sun,
-  Moon
+  Moon,
+  ListChecks,
+  FlaskConical,
+  AudioLines,
+  BookOpen,
+  Ear,
+  MessageSquareText
 } from 'lucide-react';
 
 interface SettingsSectionProps {
@@ -99,9 +110,11 @@ export default function SettingsPage() {
     audioSettings, 
     uiSettings, 
     notificationSettings,
+    aiSettings,
     updateAudioSettings,
     updateUISettings,
     updateNotificationSettings,
+    updateAISettings,
     addNotification 
   } = useAppStore();
   const { theme, setTheme } = useTheme();
@@ -322,6 +335,74 @@ export default function SettingsPage() {
           </div>
         </SettingsSection>
 
+        {/* Wake Word */}
+        <SettingsSection
+          title="Wake Word"
+          description="Choose when the assistant answers during a meeting"
+          icon={Ear}
+        >
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Answer
+              </label>
+              <select
+                value={aiSettings.activationMode ?? 'meeting_default'}
+                onChange={(e) => updateAISettings({ activationMode: e.target.value as typeof aiSettings.activationMode })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              >
+                <option value="meeting_default">Depends on the meeting type</option>
+                <option value="always">Whenever it has something to add</option>
+                <option value="wake_word">Only when addressed by the wake phrase</option>
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                By default client meetings, interviews, presentations, trainings, one-on-ones and casual conversations wait for the wake phrase.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Wake Phrase
+              </label>
+              <input
+                type="text"
+                value={aiSettings.wakePhrase ?? ''}
+                onChange={(e) => updateAISettings({ wakePhrase: e.target.value })}
+                placeholder="Hey Assistant"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Listening Window
+              </label>
+              <select
+                value={aiSettings.wakeListeningWindowMs ?? 8000}
+                onChange={(e) => updateAISettings({ wakeListeningWindowMs: Number(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+              >
+                <option value={5000}>5 seconds</option>
+                <option value={8000}>8 seconds</option>
+                <option value={12000}>12 seconds</option>
+                <option value={20000}>20 seconds</option>
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                How long after the wake phrase the assistant waits for your request
+              </p>
+            </div>
+          </div>
+        </SettingsSection>
+
+        {/* Voice Commands */}
+        <SettingsSection
+          title="Voice Commands"
+          description="Your own phrases for taking notes, assigning action items and more"
+          icon={MessageSquareText}
+        >
+          <VoiceCommandEditor />
+        </SettingsSection>
+
         {/* Notification Settings */}
         <SettingsSection
           title="Notifications"
@@ -356,6 +437,42 @@ export default function SettingsPage() {
           </div>
         </SettingsSection>
 
+        {/* Voice Enrollment */}
+        <SettingsSection
+          title="Voice Enrollment"
+          description="Record your voice so you are named automatically in meetings"
+          icon={AudioLines}
+        >
+          <VoiceEnrollmentWizard />
+        </SettingsSection>
+
+        {/* Glossary */}
+        <SettingsSection
+          title="Glossary"
+          description="Names and terms transcription should spell correctly"
+          icon={BookOpen}
+        >
+          <GlossaryEditor />
+        </SettingsSection>
+
+        {/* Custom Rules */}
+        <SettingsSection
+          title="Custom Rules"
+          description="Tell the assistant how to behave in your meetings, in plain English"
+          icon={ListChecks}
+        >
+          <NaturalLanguageRuleBuilder />
+        </SettingsSection>
+
+        {/* Rule Simulation */}
+        <SettingsSection
+          title="Rule Simulation"
+          description="Replay a recorded meeting to see which rules would have fired"
+          icon={FlaskConical}
+        >
+          <RuleSimulationPanel />
+        </SettingsSection>
+
         {/* Privacy & Security */}
         <SettingsSection
           title="Privacy & Security"
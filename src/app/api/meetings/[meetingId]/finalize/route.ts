@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { createMeetingFinalizationService } from '@/services/universal-assistant/MeetingFinalizationService';
+import { AIModel, Meeting } from '@/types';
+
+const MAX_TRANSCRIPT_ENTRIES = 5000;
+
+/**
+ * POST /api/meetings/[meetingId]/finalize
+ *
+ * Summarizes the full transcript of an ended meeting, extracts action items and
+ * transcript metrics, and writes them back to the meeting document.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { meetingId: string } }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { success: false, error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.split('Bearer ')[1];
+    const decodedToken = await verifyIdToken(idToken);
+
+    if (!decodedToken) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const { meetingId } = params;
+    const userId = decodedToken.uid;
+    const meeting = await DatabaseService.getMeeting(meetingId);
+    const hasAccess = meeting && (
+      meeting.createdBy === userId ||
+      meeting.hostId === userId ||
+      (meeting.participants || []).some(p => p.userId === userId)
+    );
+
+    if (!meeting || !hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Meeting not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { model } = body as { model?: AIModel };
+
+    let transcript = await DatabaseService.getAllTranscriptEntries(meetingId, MAX_TRANSCRIPT_ENTRIES);
+    if (transcript.length === 0) {
+      transcript = meeting.transcript || [];
+    }
+
+    const service = createMeetingFinalizationService(model ? { model } : undefined);
+    const result = await service.finalize(meeting, transcript, { userId });
+    const updates = service.toMeetingUpdates(result);
+
+    await DatabaseService.updateMeeting(meetingId, updates);
+
+    return NextResponse.json({
+      success: true,
+      meeting: { ...meeting, ...updates } as Meeting,
+      chunkCount: result.chunkCount,
+      usedFallback: result.usedFallback,
+      cost: result.cost,
+    });
+
+  } catch (error) {
+    console.error('Error in meetings/finalize API route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Only allow POST requests
+export async function GET() {
+  return NextResponse.json(
+    { success: false, error: 'Method not allowed. Use POST to finalize a meeting.' },
+    { status: 405 }
+  );
+}
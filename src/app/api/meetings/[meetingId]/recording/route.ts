@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { StorageService } from '@/lib/firebase/storage';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+
+const MAX_RECORDING_BYTES = 200 * 1024 * 1024;
+const ALLOWED_MIME_TYPES = [
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/x-m4a',
+  'audio/wav',
+  'audio/x-wav',
+  'audio/webm',
+  'audio/ogg',
+  'video/mp4',
+  'video/webm',
+];
+
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return verifyIdToken(authHeader.split('Bearer ')[1]);
+}
+
+async function isMeetingOwner(meetingId: string, userId: string): Promise<boolean> {
+  const meeting = await DatabaseService.getMeeting(meetingId);
+  return !!meeting && (meeting.createdBy === userId || meeting.hostId === userId);
+}
+
+/**
+ * POST /api/meetings/[meetingId]/recording
+ *
+ * Stores the full recording of one of the caller's meetings, such as a recording
+ * imported from another meeting tool. The request body is the raw audio file.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { meetingId: string } }
+) {
+  try {
+    const decodedToken = await authenticate(request);
+    if (!decodedToken) {
+      return NextResponse.json(
+        { success: false, error: 'Missing or invalid authorization' },
+        { status: 401 }
+      );
+    }
+
+    const { meetingId } = params;
+    if (!(await isMeetingOwner(meetingId, decodedToken.uid))) {
+      return NextResponse.json(
+        { success: false, error: 'Meeting not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const mimeType = (request.headers.get('content-type') || '').split(';')[0].trim();
+    if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported recording type. Use one of: ${ALLOWED_MIME_TYPES.join(', ')}` },
+        { status: 415 }
+      );
+    }
+
+    const declaredLength = Number(request.headers.get('content-length') || 0);
+    if (declaredLength > MAX_RECORDING_BYTES) {
+      return NextResponse.json(
+        { success: false, error: 'Recording must be between 1 byte and 200 MB' },
+        { status: 413 }
+      );
+    }
+
+    const audio = Buffer.from(await request.arrayBuffer());
+    if (audio.length === 0 || audio.length > MAX_RECORDING_BYTES) {
+      return NextResponse.json(
+        { success: false, error: 'Recording must be between 1 byte and 200 MB' },
+        { status: 413 }
+      );
+    }
+
+    const path = await StorageService.uploadMeetingRecording(meetingId, audio, decodedToken.uid, mimeType);
+
+    return NextResponse.json({ success: true, path });
+
+  } catch (error) {
+    console.error('Error in meetings/recording API route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/meetings/[meetingId]/recording
+ *
+ * Removes the stored recording of one of the caller's meetings.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { meetingId: string } }
+) {
+  try {
+    const decodedToken = await authenticate(request);
+    if (!decodedToken) {
+      return NextResponse.json(
+        { success: false, error: 'Missing or invalid authorization' },
+        { status: 401 }
+      );
+    }
+
+    const { meetingId } = params;
+    if (!(await isMeetingOwner(meetingId, decodedToken.uid))) {
+      return NextResponse.json(
+        { success: false, error: 'Meeting not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    await StorageService.deleteMeetingRecording(meetingId);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in meetings/recording API route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
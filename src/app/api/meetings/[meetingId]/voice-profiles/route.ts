@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb, verifyIdToken } from '@/lib/firebase/admin';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import type { EnrolledVoiceProfile } from '@/services/universal-assistant/VoiceProfileManager';
+
+/**
+ * GET /api/meetings/[meetingId]/voice-profiles
+ *
+ * Returns the enrolled reference voices of the meeting's participants so the client
+ * can name them when they speak. Voice profiles are private to their owner in
+ * Firestore, so they are read here with admin credentials after checking that the
+ * caller belongs to the meeting.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { meetingId: string } }
+) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { success: false, error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.split('Bearer ')[1];
+    const decodedToken = await verifyIdToken(idToken);
+
+    if (!decodedToken) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const { meetingId } = params;
+    const userId = decodedToken.uid;
+    const meeting = await DatabaseService.getMeeting(meetingId);
+    const hasAccess = meeting && (
+      meeting.createdBy === userId ||
+      meeting.hostId === userId ||
+      (meeting.participants || []).some(p => p.userId === userId)
+    );
+
+    if (!meeting || !hasAccess) {
+      return NextResponse.json(
+        { success: false, error: 'Meeting not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const db = adminDb();
+    if (!db) {
+      throw new Error('Firebase Admin Database not initialized');
+    }
+
+    const participantIds = Array.from(new Set(
+      [meeting.hostId, ...(meeting.participants || []).map(p => p.userId)].filter(Boolean)
+    ));
+
+    const profiles = await Promise.all(participantIds.map(async (participantId): Promise<EnrolledVoiceProfile | null> => {
+      const userDoc = await db.collection('users').doc(participantId).get();
+      const profileId = userDoc.data()?.voiceProfileId;
+      if (!profileId) return null;
+
+      const profileDoc = await db.collection('users').doc(participantId).collection('voiceProfiles').doc(profileId).get();
+      const profile = profileDoc.data();
+      if (!profile?.enrolled || !Array.isArray(profile.voiceEmbedding)) return null;
+
+      return {
+        profileId,
+        userId: participantId,
+        userName: profile.userName || userDoc.data()?.displayName || 'Unknown',
+        voiceEmbedding: profile.voiceEmbedding,
+        embeddingVersion: profile.embeddingVersion,
+      };
+    }));
+
+    return NextResponse.json({
+      success: true,
+      profiles: profiles.filter((profile): profile is EnrolledVoiceProfile => profile !== null),
+    });
+
+  } catch (error) {
+    console.error('Error in meetings/voice-profiles API route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { createNaturalLanguageRuleParser } from '@/services/universal-assistant/NaturalLanguageRuleParser';
+import { AIModel, MeetingType } from '@/types';
+
+/**
+ * POST /api/universal-assistant/rules/parse
+ *
+ * Turns a plain-English rule description into a CustomRule draft for preview.
+ * Nothing is saved here; the client confirms and saves through RulesetManagerAgent.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.split('Bearer ')[1];
+    const decodedToken = await verifyIdToken(idToken);
+
+    if (!decodedToken) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { text, meetingTypes = [], model } = body as {
+      text?: string;
+      meetingTypes?: MeetingType[];
+      model?: AIModel;
+    };
+
+    if (!text || typeof text !== 'string') {
+      return NextResponse.json(
+        { error: 'Text field is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > 1000) {
+      return NextResponse.json(
+        { error: 'Rule description exceeds maximum length of 1,000 characters' },
+        { status: 400 }
+      );
+    }
+
+    const parser = createNaturalLanguageRuleParser(model ? { model } : undefined);
+    const parsed = await parser.parse(text, { meetingTypes, userId: decodedToken.uid });
+
+    return NextResponse.json({
+      success: true,
+      parsed,
+    });
+
+  } catch (error) {
+    console.error('Error in rules/parse API route:', error);
+
+    if (error instanceof Error && error.message.startsWith('Could not understand')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Only allow POST requests
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to parse a rule.' },
+    { status: 405 }
+  );
+}
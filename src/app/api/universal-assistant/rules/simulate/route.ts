@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { simulateRules } from '@/services/gatekeeper/RuleSimulator';
+import type { Rule } from '@/config/gatekeeper/ruleDefinitions';
+import { buildRuleValidationReport, validateGatekeeperRule } from '@/agents/utils/customRuleValidator';
+import type { RuleValidationReport } from '@/agents/utils/customRuleValidator';
+import { AIModel, CustomRule } from '@/types';
+
+const MAX_TRANSCRIPT_ENTRIES = 2000;
+
+interface SuppliedRuleReport {
+  source: 'custom' | 'gatekeeper';
+  index: number;
+  name?: string;
+  report: RuleValidationReport;
+}
+
+// Supplied rules are untrusted; one uncompilable or backtracking regex would stall the replay
+function validateSuppliedRules(userId: string, customRules?: CustomRule[], gatekeeperRules?: Rule[]): SuppliedRuleReport[] {
+  const custom = (customRules || []).map((rule, index): SuppliedRuleReport => ({
+    source: 'custom',
+    index,
+    name: rule?.name,
+    // Drafts under test may not be saved yet, so they have no owner and duplicates are expected
+    report: buildRuleValidationReport({ ...rule, userId }, []),
+  }));
+  const gatekeeper = (gatekeeperRules || []).map((rule, index): SuppliedRuleReport => {
+    const issues = validateGatekeeperRule(rule || {});
+    const errors = issues.filter(issue => issue.severity === 'error');
+    return {
+      source: 'gatekeeper',
+      index,
+      name: rule?.name,
+      report: { valid: errors.length === 0, errors, warnings: issues.filter(issue => issue.severity === 'warning'), duplicates: [] },
+    };
+  });
+  return [...custom, ...gatekeeper].filter(entry => !entry.report.valid);
+}
+
+/**
+ * POST /api/universal-assistant/rules/simulate
+ *
+ * Dry-runs rules against a recorded meeting transcript. Uses the caller's saved
+ * custom rules unless `customRules` is supplied; nothing is written back.
+ * Supplied rules are validated first and rejected with their reports.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const idToken = authHeader.split('Bearer ')[1];
+    const decodedToken = await verifyIdToken(idToken);
+
+    if (!decodedToken) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      meetingId,
+      customRules,
+      gatekeeperRules,
+      includeBuiltInRules = true,
+      model,
+    } = body as {
+      meetingId?: string;
+      customRules?: CustomRule[];
+      gatekeeperRules?: Rule[];
+      includeBuiltInRules?: boolean;
+      model?: AIModel;
+    };
+
+    if (!meetingId || typeof meetingId !== 'string') {
+      return NextResponse.json(
+        { error: 'meetingId is required' },
+        { status: 400 }
+      );
+    }
+
+    const userId = decodedToken.uid;
+    if ((customRules !== undefined && !Array.isArray(customRules)) || (gatekeeperRules !== undefined && !Array.isArray(gatekeeperRules))) {
+      return NextResponse.json(
+        { error: 'customRules and gatekeeperRules must be arrays' },
+        { status: 400 }
+      );
+    }
+
+    const invalidRules = validateSuppliedRules(userId, customRules, gatekeeperRules);
+    if (invalidRules.length > 0) {
+      return NextResponse.json(
+        { error: 'Some rules are invalid', validation: invalidRules },
+        { status: 400 }
+      );
+    }
+
+    const meeting = await DatabaseService.getMeeting(meetingId);
+    const hasAccess = meeting && (
+      meeting.createdBy === userId ||
+      meeting.hostId === userId ||
+      (meeting.participants || []).some(p => p.userId === userId)
+    );
+
+    if (!meeting || !hasAccess) {
+      return NextResponse.json(
+        { error: 'Meeting not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    let transcript = await DatabaseService.getAllTranscriptEntries(meetingId, MAX_TRANSCRIPT_ENTRIES);
+    if (transcript.length === 0) {
+      transcript = meeting.transcript || [];
+    }
+
+    if (transcript.length === 0) {
+      return NextResponse.json(
+        { error: 'This meeting has no recorded transcript to replay' },
+        { status: 422 }
+      );
+    }
+
+    const rulesUnderTest = customRules ?? await DatabaseService.getUserCustomRules(userId);
+
+    const result = await simulateRules(meeting, transcript, {
+      userId,
+      customRules: rulesUnderTest,
+      gatekeeperRules,
+      includeBuiltInRules,
+      maxUtterances: MAX_TRANSCRIPT_ENTRIES,
+      ...(model ? { model } : {}),
+    });
+
+    return NextResponse.json({
+      success: true,
+      result,
+    });
+
+  } catch (error) {
+    console.error('Error in rules/simulate API route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Only allow POST requests
+export async function GET() {
+  return NextResponse.json(
+    { error: 'Method not allowed. Use POST to run a simulation.' },
+    { status: 405 }
+  );
+}
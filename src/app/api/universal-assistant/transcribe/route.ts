@@ -1,12 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyIdToken } from '@/lib/firebase/admin';
-import { DeepgramSTT } from '@/services/universal-assistant/DeepgramSTT';
+import { transcribeAudio } from '@/services/universal-assistant/BatchTranscriptionService';
+import { STTUnavailableError, type STTProviderName } from '@/services/universal-assistant/STTProvider';
+
+const MAX_KEYWORDS = 100;
+const MAX_KEYWORD_LENGTH = 100;
+
+function parseProvider(value: unknown): STTProviderName | undefined {
+  return value === 'deepgram' || value === 'local' ? value : undefined;
+}
+
+function parseKeywords(values: unknown[]): string[] {
+  return values
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.trim())
+    .filter(value => value && value.length <= MAX_KEYWORD_LENGTH)
+    .slice(0, MAX_KEYWORDS);
+}
 
 /**
  * POST /api/universal-assistant/transcribe
  * 
- * Transcribes audio data using Deepgram STT
- * Used by UniversalAssistantCoordinator for audio transcription
+ * Transcribes audio data with the configured STT provider (Deepgram, or a self-hosted
+ * Whisper server when STT_PROVIDER=local), failing over to the local server when
+ * Deepgram is unreachable. An optional `provider` field requests one explicitly, and
+ * optional `keywords` name terms from the user's glossary to favour.
+ * Used by UniversalAssistantCoordinator and the local live transcription provider.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -41,6 +60,8 @@ export async function POST(request: NextRequest) {
         language = 'en',
         model = 'nova-2',
         enableSpeakerDiarization = false,
+        provider,
+        keywords = [],
         options = {}
       } = body;
 
@@ -54,15 +75,15 @@ export async function POST(request: NextRequest) {
       // Convert base64 to buffer
       const audioBuffer = Buffer.from(audioData, 'base64');
       
-      // Initialize Deepgram service
-      const deepgramSTT = new DeepgramSTT({} as any);
-      
       // Transcribe audio
       const startTime = Date.now();
-      const transcription = await (deepgramSTT as any).transcribeAudio(audioBuffer, {
+      const transcription = await transcribeAudio(new Uint8Array(audioBuffer).buffer, {
         language,
         model,
-        enableSpeakerDiarization,
+        diarize: enableSpeakerDiarization,
+        mimeType: `audio/${format}`,
+        provider: parseProvider(provider),
+        keywords: parseKeywords(Array.isArray(keywords) ? keywords : []),
         ...options
       });
 
@@ -73,14 +94,16 @@ export async function POST(request: NextRequest) {
         transcription: {
           text: transcription.text,
           confidence: transcription.confidence,
-          speakers: transcription.speakers || [],
-          segments: transcription.segments || [],
-          language: transcription.language || language,
-          model: model
+          speakers: Array.from(new Set(transcription.segments.flatMap(s => s.speaker !== undefined ? [s.speaker] : []))),
+          segments: transcription.segments,
+          words: transcription.words,
+          language: transcription.language,
+          model: model,
+          provider: transcription.provider
         },
         metadata: {
           audioFormat: format,
-          audioSize: audioBuffer.length,
+          audioSize: audioBuffer.byteLength,
           latency,
           timestamp: new Date().toISOString(),
           userId: decodedToken.uid
@@ -94,6 +117,8 @@ export async function POST(request: NextRequest) {
       const language = formData.get('language') as string || 'en';
       const model = formData.get('model') as string || 'nova-2';
       const enableSpeakerDiarization = formData.get('enableSpeakerDiarization') === 'true';
+      const provider = parseProvider(formData.get('provider'));
+      const keywords = parseKeywords(formData.getAll('keywords'));
 
       if (!audioFile) {
         return NextResponse.json(
@@ -103,17 +128,17 @@ export async function POST(request: NextRequest) {
       }
 
       // Convert file to buffer
-      const audioBuffer = Buffer.from(await audioFile.arrayBuffer());
-      
-      // Initialize Deepgram service
-      const deepgramSTT = new DeepgramSTT({} as any);
+      const audioBuffer = await audioFile.arrayBuffer();
       
       // Transcribe audio
       const startTime = Date.now();
-      const transcription = await (deepgramSTT as any).transcribeAudio(audioBuffer, {
+      const transcription = await transcribeAudio(audioBuffer, {
         language,
         model,
-        enableSpeakerDiarization
+        diarize: enableSpeakerDiarization,
+        mimeType: audioFile.type || undefined,
+        provider,
+        keywords
       });
 
       const latency = Date.now() - startTime;
@@ -123,14 +148,16 @@ export async function POST(request: NextRequest) {
         transcription: {
           text: transcription.text,
           confidence: transcription.confidence,
-          speakers: transcription.speakers || [],
-          segments: transcription.segments || [],
-          language: transcription.language || language,
-          model: model
+          speakers: Array.from(new Set(transcription.segments.flatMap(s => s.speaker !== undefined ? [s.speaker] : []))),
+          segments: transcription.segments,
+          words: transcription.words,
+          language: transcription.language,
+          model: model,
+          provider: transcription.provider
         },
         metadata: {
           audioFormat: audioFile.type,
-          audioSize: audioBuffer.length,
+          audioSize: audioBuffer.byteLength,
           originalFilename: audioFile.name,
           latency,
           timestamp: new Date().toISOString(),
@@ -149,6 +176,13 @@ export async function POST(request: NextRequest) {
     console.error('Error in transcribe API route:', error);
     
     // Handle specific error types
+    if (error instanceof STTUnavailableError) {
+      return NextResponse.json(
+        { error: 'Transcription service temporarily unavailable' },
+        { status: 503 }
+      );
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('Deepgram API')) {
         return NextResponse.json(
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyIdToken } from '@/lib/firebase/admin';
+import { StorageService } from '@/lib/firebase/storage';
+
+const MAX_SAMPLE_BYTES = 10 * 1024 * 1024;
+const ALLOWED_MIME_TYPES = ['audio/wav', 'audio/webm', 'audio/ogg'];
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+async function authenticate(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return verifyIdToken(authHeader.split('Bearer ')[1]);
+}
+
+/**
+ * POST /api/voice-profiles/[profileId]/sample
+ *
+ * Stores the reference recording for one of the caller's enrolled voice profiles.
+ * The request body is the raw audio file.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { profileId: string } }
+) {
+  try {
+    const decodedToken = await authenticate(request);
+    if (!decodedToken) {
+      return NextResponse.json(
+        { success: false, error: 'Missing or invalid authorization' },
+        { status: 401 }
+      );
+    }
+
+    const { profileId } = params;
+    if (!PROFILE_ID_PATTERN.test(profileId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid profile ID' },
+        { status: 400 }
+      );
+    }
+
+    const mimeType = (request.headers.get('content-type') || '').split(';')[0].trim();
+    if (!ALLOWED_MIME_TYPES.includes(mimeType)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported audio type. Use one of: ${ALLOWED_MIME_TYPES.join(', ')}` },
+        { status: 415 }
+      );
+    }
+
+    const audio = Buffer.from(await request.arrayBuffer());
+    if (audio.length === 0 || audio.length > MAX_SAMPLE_BYTES) {
+      return NextResponse.json(
+        { success: false, error: 'Audio sample must be between 1 byte and 10 MB' },
+        { status: 413 }
+      );
+    }
+
+    const url = await StorageService.uploadVoiceSample(decodedToken.uid, profileId, audio, mimeType);
+
+    return NextResponse.json({ success: true, url });
+
+  } catch (error) {
+    console.error('Error in voice-profiles/sample API route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/voice-profiles/[profileId]/sample
+ *
+ * Removes stored recordings for one of the caller's voice profiles.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { profileId: string } }
+) {
+  try {
+    const decodedToken = await authenticate(request);
+    if (!decodedToken) {
+      return NextResponse.json(
+        { success: false, error: 'Missing or invalid authorization' },
+        { status: 401 }
+      );
+    }
+
+    const { profileId } = params;
+    if (!PROFILE_ID_PATTERN.test(profileId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid profile ID' },
+        { status: 400 }
+      );
+    }
+
+    await StorageService.deleteVoiceSamples(decodedToken.uid, profileId);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in voice-profiles/sample API route:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
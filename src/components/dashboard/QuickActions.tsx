@@ -1,12 +1,13 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
-import { Mic, Plus, BarChart3 } from 'lucide-react';
+import React, { useState, useCallback, useRef } from 'react';
+import { Mic, Plus, BarChart3, Upload } from 'lucide-react';
 import { useMeetingStore } from '@/stores/meetingStore';
 import { useAuthStore } from '@/stores/authStore';
 import { useAppStore } from '@/stores/appStore';
 import { PrimaryButton, SecondaryButton } from '@/components/ui/Button';
 import { MotionCard, MotionList } from '@/components/ui/Motion';
+import { useFileProgress } from '@/components/ui/FileProgressModal';
 import { MeetingType } from '@/types';
 import { cn } from '@/lib/utils';
 
@@ -15,10 +16,19 @@ interface QuickActionsProps {
 }
 
 export const QuickActions = React.memo<QuickActionsProps>(({ className }) => {
-  const { startMeeting } = useMeetingStore();
+  const { startMeeting, importRecording } = useMeetingStore();
   const { addNotification } = useAppStore();
   const { user } = useAuthStore();
   const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
+  const {
+    startOperation,
+    updateOperation,
+    updateFileProgress,
+    FileProgressModal,
+  } = useFileProgress({ onCancel: () => importAbortRef.current?.abort() });
 
   const handleStartMeeting = useCallback(async () => {
     if (loading) return;
@@ -67,6 +77,62 @@ export const QuickActions = React.memo<QuickActionsProps>(({ className }) => {
     });
   }, [addNotification]);
 
+  const handleImportRecording = useCallback(() => {
+    fileInputRef.current?.click();
+  }, []);
+
+  const handleRecordingSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow the same file to be picked again after a failed import
+    event.target.value = '';
+    if (!file || importing) return;
+
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+    setImporting(true);
+    startOperation({
+      operation: 'import',
+      title: 'Import Recording',
+      description: 'Decoding recording',
+      files: [{
+        fileName: file.name,
+        fileSize: file.size,
+        processedBytes: 0,
+        progress: 0,
+        status: 'processing',
+      }],
+      allowCancel: true,
+    });
+
+    const meetingId = await importRecording(file, {
+      signal: controller.signal,
+      onProgress: ({ progress, message }) => {
+        updateOperation({ description: message });
+        updateFileProgress(file.name, { progress, processedBytes: Math.round((file.size * progress) / 100) });
+      },
+    });
+
+    importAbortRef.current = null;
+    setImporting(false);
+    if (controller.signal.aborted) return;
+
+    if (meetingId) {
+      updateOperation({ description: 'The meeting summary will be ready shortly.' });
+      updateFileProgress(file.name, { status: 'completed', progress: 100, processedBytes: file.size });
+      addNotification({
+        type: 'success',
+        title: 'Recording Imported',
+        message: `${file.name} has been transcribed and added to your meetings.`,
+        persistent: false,
+      });
+    } else {
+      updateFileProgress(file.name, {
+        status: 'error',
+        error: useMeetingStore.getState().meetingError?.message || 'The recording could not be imported.',
+      });
+    }
+  }, [importing, importRecording, startOperation, updateOperation, updateFileProgress, addNotification]);
+
   const handleViewAnalytics = useCallback(() => {
     addNotification({
       type: 'info',
@@ -86,6 +152,15 @@ export const QuickActions = React.memo<QuickActionsProps>(({ className }) => {
       loading,
       disabled: loading,
     },
+    {
+      id: 'import-recording',
+      label: 'Import Recording',
+      icon: Upload,
+      onClick: handleImportRecording,
+      primary: false,
+      loading: importing,
+      disabled: importing,
+    },
     {
       id: 'schedule-meeting',
       label: 'Schedule Meeting',
@@ -104,7 +179,7 @@ export const QuickActions = React.memo<QuickActionsProps>(({ className }) => {
       loading: false,
       disabled: false,
     },
-  ], [handleStartMeeting, handleScheduleMeeting, handleViewAnalytics, loading]);
+  ], [handleStartMeeting, handleImportRecording, handleScheduleMeeting, handleViewAnalytics, loading, importing]);
 
   return (
     <MotionCard className={cn(
@@ -155,6 +230,14 @@ export const QuickActions = React.memo<QuickActionsProps>(({ className }) => {
           );
         })}
       </MotionList>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="audio/*,video/mp4,video/webm"
+        className="hidden"
+        onChange={handleRecordingSelected}
+      />
+      {FileProgressModal}
     </MotionCard>
   );
 });
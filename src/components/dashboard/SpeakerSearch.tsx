@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { Search, UserRound, Calendar, Clock, MessageSquareQuote } from 'lucide-react';
+import { useAuthStore } from '@/stores/authStore';
+import { PrimaryButton } from '@/components/ui/Button';
+import { MotionCard } from '@/components/ui/Motion';
+import {
+  speakerIdentityRegistry,
+  type SpeakerSearchResult,
+} from '@/services/universal-assistant/SpeakerIdentityRegistry';
+import { cn } from '@/lib/utils';
+
+interface SpeakerSearchProps {
+  className?: string;
+  onMeetingClick?: (meetingId: string) => void;
+}
+
+function formatTalkTime(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return `${Math.round(seconds)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+const SpeakerResult = React.memo<{ result: SpeakerSearchResult; onMeetingClick?: (meetingId: string) => void }>(
+  ({ result, onMeetingClick }) => {
+    const { identity, meetings } = result;
+    const talkTimeByMeeting = new Map(identity.appearances.map(a => [a.meetingId, a.talkTimeSeconds]));
+
+    return (
+      <div className="space-y-3 p-4 rounded-lg border border-neutral-200/60 dark:border-neutral-700/60">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <UserRound className="w-5 h-5 text-primary-600 dark:text-primary-400" aria-hidden="true" />
+            <h4 className="text-h4 text-neutral-900 dark:text-neutral-100">{identity.name}</h4>
+          </div>
+          <div className="flex items-center gap-4 text-body-sm text-contrast-accessible">
+            <span className="flex items-center gap-1.5">
+              <Calendar className="w-4 h-4" aria-hidden="true" />
+              {identity.meetingIds.length} {identity.meetingIds.length === 1 ? 'meeting' : 'meetings'}
+            </span>
+            <span className="flex items-center gap-1.5">
+              <Clock className="w-4 h-4" aria-hidden="true" />
+              {formatTalkTime(identity.totalTalkTimeSeconds)} talk time
+            </span>
+          </div>
+        </div>
+
+        {identity.commonPhrases.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <MessageSquareQuote className="w-4 h-4 text-neutral-400" aria-label="Common phrases" />
+            {identity.commonPhrases.slice(0, 5).map(phrase => (
+              <span
+                key={phrase}
+                className="px-2 py-0.5 text-xs rounded-full bg-neutral-100 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-300"
+              >
+                &ldquo;{phrase}&rdquo;
+              </span>
+            ))}
+          </div>
+        )}
+
+        {meetings.length === 0 ? (
+          <p className="text-body-sm text-contrast-accessible">None of these meetings are available anymore.</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200/60 dark:divide-neutral-700/60">
+            {meetings.map(meeting => (
+              <li key={meeting.meetingId}>
+                <button
+                  onClick={() => onMeetingClick?.(meeting.meetingId)}
+                  className="w-full flex items-center justify-between gap-4 py-2 text-left hover:text-primary-600 dark:hover:text-primary-400 transition-colors duration-200"
+                >
+                  <span className="truncate text-body-sm font-medium text-neutral-900 dark:text-neutral-100">
+                    {meeting.title}
+                  </span>
+                  <span className="flex-shrink-0 text-xs text-contrast-accessible">
+                    {new Date(meeting.startTime).toLocaleDateString()}
+                    {' · '}
+                    {formatTalkTime(talkTimeByMeeting.get(meeting.meetingId) || 0)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+
+SpeakerResult.displayName = 'SpeakerResult';
+
+/**
+ * Search past meetings by who spoke in them, e.g. every meeting where Priya spoke,
+ * with each person's meeting count, talk time and common phrases
+ */
+export const SpeakerSearch = React.memo<SpeakerSearchProps>(({ className, onMeetingClick }) => {
+  const { user } = useAuthStore();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SpeakerSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!user || !query.trim()) return;
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      setResults(await speakerIdentityRegistry.findMeetingsBySpeaker(user.uid, query));
+    } catch (err) {
+      console.error('Speaker search failed:', err);
+      setError('Could not search speakers. Please try again.');
+    } finally {
+      setIsSearching(false);
+    }
+  }, [user, query]);
+
+  return (
+    <MotionCard className={cn(
+      'bg-white/90 dark:bg-neutral-800/90 backdrop-blur-sm',
+      'rounded-xl shadow-soft border border-neutral-200/60 dark:border-neutral-700/60',
+      'p-6', // 8px grid: 24px padding
+      'hover:bg-white/95 dark:hover:bg-neutral-800/95',
+      className
+    )}>
+      <h3 className="text-h3 text-neutral-900 dark:text-neutral-100 mb-6">
+        Find Meetings by Speaker
+      </h3>
+
+      <form onSubmit={handleSearch} className="flex gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" aria-hidden="true" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Who spoke? e.g. Priya"
+            aria-label="Speaker name"
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+          />
+        </div>
+        <PrimaryButton type="submit" loading={isSearching} disabled={!query.trim()}>
+          Search
+        </PrimaryButton>
+      </form>
+
+      {error && <p className="text-body-sm text-danger-600 dark:text-danger-400">{error}</p>}
+
+      {results && !error && (
+        results.length === 0 ? (
+          <p className="text-body-sm text-contrast-accessible">
+            Nobody named &ldquo;{query.trim()}&rdquo; has spoken in your meetings yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {results.map(result => (
+              <SpeakerResult key={result.identity.identityId} result={result} onMeetingClick={onMeetingClick} />
+            ))}
+          </div>
+        )
+      )}
+    </MotionCard>
+  );
+});
+
+SpeakerSearch.displayName = 'SpeakerSearch';
@@ -0,0 +1,301 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Mic, MicOff, Wand2, Save, AlertTriangle, Copy, CheckCircle } from 'lucide-react';
+import { useAuthStore } from '@/stores/authStore';
+import { useAppStore } from '@/stores/appStore';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { rulesetManagerAgent } from '@/agents/RulesetManagerAgent';
+import { contextSourcingAgent } from '@/agents/ContextSourcingAgent';
+import type { RuleValidationReport } from '@/agents/utils/customRuleValidator';
+import type { ParsedRule } from '@/services/universal-assistant/NaturalLanguageRuleParser';
+import type { RuleAction, RuleCondition } from '@/types';
+import { getAuthHeaders } from './ruleApi';
+
+const EXAMPLES = [
+  "When someone says blocked, ask what's blocking them",
+  'If anyone mentions deadline or launch date, highlight it',
+  'After 30 minutes in a standup, summarize in bullet points',
+];
+
+function describeCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case 'keyword':
+      return `Someone says ${String(condition.value).split(',').map(k => `"${k.trim()}"`).join(' or ')}`;
+    case 'speaker':
+      return `Speaker ${condition.operator} "${condition.value}"`;
+    case 'time':
+      return `Meeting has run ${condition.operator === 'greater' ? 'more than' : condition.operator === 'less' ? 'less than' : 'exactly'} ${condition.value} minutes`;
+    case 'pattern':
+      return `Text ${condition.operator === 'matches' ? 'matches pattern' : 'contains'} ${condition.value}`;
+    default:
+      return `${condition.type} ${condition.operator} ${condition.value}`;
+  }
+}
+
+function describeAction(action: RuleAction): string {
+  const params = action.parameters || {};
+  switch (action.type) {
+    case 'respond':
+      return `Assistant says: "${params.message || params.template || '…'}"`;
+    case 'summarize':
+      return `Summarize the discussion (${params.style || 'short'})`;
+    case 'highlight':
+      return 'Highlight it in the meeting notes';
+    case 'notify':
+      return params.message ? `Notify you: "${params.message}"` : 'Notify you';
+    case 'ignore':
+      return 'Ignore it';
+    default:
+      return action.type;
+  }
+}
+
+export const NaturalLanguageRuleBuilder: React.FC = () => {
+  const { user } = useAuthStore();
+  const { addNotification } = useAppStore();
+
+  const [text, setText] = useState('');
+  const [parsed, setParsed] = useState<ParsedRule | null>(null);
+  const [report, setReport] = useState<RuleValidationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [deepgramKey, setDeepgramKey] = useState('');
+  const [pendingDictation, setPendingDictation] = useState(false);
+  const { isListening, transcript, interimTranscript, startListening, stopListening, error: dictationError } =
+    useSpeechRecognition(deepgramKey);
+
+  useEffect(() => {
+    if (isListening) {
+      setText(`${transcript} ${interimTranscript}`.trim());
+    }
+  }, [isListening, transcript, interimTranscript]);
+
+  // The speech hook only creates its client once a key is set, so start on the next render
+  useEffect(() => {
+    if (pendingDictation && deepgramKey) {
+      setPendingDictation(false);
+      startListening();
+    }
+  }, [pendingDictation, deepgramKey, startListening]);
+
+  const handleDictation = async () => {
+    if (isListening) {
+      stopListening();
+      return;
+    }
+    try {
+      if (!deepgramKey) {
+        const response = await fetch('/api/universal-assistant/deepgram-key', { headers: await getAuthHeaders() });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Dictation is unavailable');
+        setDeepgramKey(data.apiKey);
+      }
+      setPendingDictation(true);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleParse = async () => {
+    if (!text.trim() || !user) return;
+    setIsParsing(true);
+    setError(null);
+    setParsed(null);
+    setReport(null);
+    try {
+      const response = await fetch('/api/universal-assistant/rules/parse', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ text }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to understand the rule');
+
+      const result = data.parsed as ParsedRule;
+      setParsed(result);
+      setReport(await rulesetManagerAgent.validateRule({ ...result.draft, userId: user.uid }));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!parsed || !user) return;
+    setIsSaving(true);
+    try {
+      const result = await rulesetManagerAgent.execute({
+        userId: user.uid,
+        rule: { ...parsed.draft, userId: user.uid },
+      });
+
+      if (!result.success) {
+        if (result.data) setReport(result.data as RuleValidationReport);
+        throw new Error(result.error || 'Failed to save rule');
+      }
+      // Live meetings pick the rule up on their next utterance instead of after the cache expires
+      contextSourcingAgent.clearRuleCache(user.uid);
+
+      addNotification({
+        type: 'success',
+        title: 'Rule Saved',
+        message: `"${parsed.draft.name}" is now active in your meetings.`,
+        persistent: false,
+      });
+      setText('');
+      setParsed(null);
+      setReport(null);
+    } catch (err) {
+      addNotification({
+        type: 'error',
+        title: 'Rule Not Saved',
+        message: (err as Error).message,
+        persistent: false,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Describe a rule
+        </label>
+        <div className="flex space-x-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={2}
+            placeholder={EXAMPLES[0]}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+          />
+          <button
+            onClick={handleDictation}
+            title={isListening ? 'Stop dictation' : 'Dictate rule'}
+            className={`px-3 rounded-lg border ${
+              isListening
+                ? 'border-red-500 text-red-600 bg-red-50 dark:bg-red-900/20'
+                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          {EXAMPLES.map((example) => (
+            <button
+              key={example}
+              onClick={() => setText(example)}
+              className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(error || dictationError) && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error || dictationError}</p>
+      )}
+
+      <button
+        onClick={handleParse}
+        disabled={isParsing || !text.trim() || !user}
+        className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isParsing ? (
+          <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full mr-2" />
+        ) : (
+          <Wand2 className="w-4 h-4 mr-2" />
+        )}
+        Preview Rule
+      </button>
+
+      {parsed && (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white">{parsed.draft.name}</h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {parsed.draft.meetingTypes.length > 0
+                ? `Applies to: ${parsed.draft.meetingTypes.map(t => t.replace(/_/g, ' ')).join(', ')}`
+                : 'Applies to every meeting'}
+              {parsed.source === 'heuristic' && ' · parsed without AI'}
+            </p>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">When</p>
+            <ul className="text-sm text-gray-800 dark:text-gray-200 list-disc list-inside">
+              {parsed.draft.conditions.map((condition, index) => (
+                <li key={index}>{describeCondition(condition)}</li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">Then</p>
+            <ul className="text-sm text-gray-800 dark:text-gray-200 list-disc list-inside">
+              {parsed.draft.actions.map((action, index) => (
+                <li key={index}>{describeAction(action)}</li>
+              ))}
+            </ul>
+          </div>
+
+          {report && (report.errors.length > 0 || report.warnings.length > 0 || report.duplicates.length > 0) && (
+            <div className="space-y-1 text-sm">
+              {report.errors.map((issue, index) => (
+                <p key={`e${index}`} className="flex items-start text-red-600 dark:text-red-400">
+                  <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  {issue.message}
+                </p>
+              ))}
+              {report.duplicates.map((duplicate, index) => (
+                <p key={`d${index}`} className="flex items-start text-orange-600 dark:text-orange-400">
+                  <Copy className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  {duplicate.message}
+                </p>
+              ))}
+              {report.warnings.map((issue, index) => (
+                <p key={`w${index}`} className="flex items-start text-yellow-600 dark:text-yellow-400">
+                  <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !report?.valid}
+              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? (
+                <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full mr-2" />
+              ) : report?.valid ? (
+                <CheckCircle className="w-4 h-4 mr-2" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Rule
+            </button>
+            <button
+              onClick={() => { setParsed(null); setReport(null); }}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Edit Description
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NaturalLanguageRuleBuilder;
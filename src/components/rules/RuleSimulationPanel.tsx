@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Play, Zap, DollarSign, ChevronDown, ChevronRight } from 'lucide-react';
+import { useAuthStore } from '@/stores/authStore';
+import type { Meeting } from '@/types';
+import type { RuleSimulationResult, SimulatedFiring } from '@/services/gatekeeper/RuleSimulator';
+import { getAuthHeaders } from './ruleApi';
+
+function formatCost(cost: number): string {
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+const FiringRow: React.FC<{ firing: SimulatedFiring }> = ({ firing }) => {
+  const [expanded, setExpanded] = useState(false);
+  const ruleNames = [
+    ...(firing.gatekeeper
+      ? [firing.gatekeeper.trace.rules.find(rule => rule.ruleId === firing.gatekeeper!.ruleId)?.ruleName || firing.gatekeeper.ruleId]
+      : []),
+    ...firing.customRules.map(output => output.ruleName),
+  ];
+
+  return (
+    <li className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+      <button onClick={() => setExpanded(!expanded)} className="w-full text-left">
+        <div className="flex items-start justify-between">
+          <div className="flex items-start space-x-2">
+            {expanded ? <ChevronDown className="w-4 h-4 mt-0.5" /> : <ChevronRight className="w-4 h-4 mt-0.5" />}
+            <div>
+              <p className="text-sm text-gray-900 dark:text-white">
+                <span className="font-medium">{firing.speakerName || firing.speakerId}:</span> {firing.text}
+              </p>
+              <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">{ruleNames.join(', ')}</p>
+            </div>
+          </div>
+          {firing.estimatedCost > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">{formatCost(firing.estimatedCost)}</span>
+          )}
+        </div>
+      </button>
+
+      {expanded && (
+        <div className="mt-2 ml-6 space-y-2 text-xs text-gray-600 dark:text-gray-300">
+          {firing.responses.map((response, index) => (
+            <p key={index} className="italic">Assistant: &ldquo;{response}&rdquo;</p>
+          ))}
+          {firing.gatekeeper && (
+            <ul className="space-y-1">
+              {firing.gatekeeper.trace.rules
+                .filter(rule => rule.status !== 'not_evaluated')
+                .map(rule => (
+                  <li key={rule.ruleId}>
+                    <span className={rule.status === 'matched' ? 'text-green-600 dark:text-green-400' : ''}>
+                      {rule.ruleName}
+                    </span>{' '}
+                    &middot; {rule.status}: {rule.reason}
+                  </li>
+                ))}
+            </ul>
+          )}
+          {firing.customRules.map(output => (
+            <p key={output.ruleId}>
+              {output.ruleName}: {output.matchedConditions.map(condition => condition.reason).join('; ')}
+            </p>
+          ))}
+        </div>
+      )}
+    </li>
+  );
+};
+
+export const RuleSimulationPanel: React.FC = () => {
+  const { user } = useAuthStore();
+  const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [meetingId, setMeetingId] = useState('');
+  const [result, setResult] = useState<RuleSimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const response = await fetch('/api/meetings?limit=20', { headers: await getAuthHeaders() });
+        const data = await response.json();
+        if (!cancelled && data.success) {
+          setMeetings(data.meetings || []);
+          setMeetingId(current => current || data.meetings?.[0]?.meetingId || '');
+        }
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const handleRun = async () => {
+    if (!meetingId) return;
+    setIsRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const response = await fetch('/api/universal-assistant/rules/simulate', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ meetingId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Simulation failed');
+      setResult(data.result);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex space-x-2">
+        <select
+          value={meetingId}
+          onChange={(e) => setMeetingId(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+        >
+          {meetings.length === 0 && <option value="">No recorded meetings</option>}
+          {meetings.map(meeting => (
+            <option key={meeting.meetingId} value={meeting.meetingId}>
+              {meeting.title} ({meeting.type.replace(/_/g, ' ')})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || !meetingId}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning ? (
+            <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full mr-2" />
+          ) : (
+            <Play className="w-4 h-4 mr-2" />
+          )}
+          Replay
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <p className="text-lg font-semibold text-gray-900 dark:text-white">{result.utterancesProcessed}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">utterances replayed</p>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <p className="text-lg font-semibold text-gray-900 dark:text-white flex items-center justify-center">
+                <Zap className="w-4 h-4 mr-1" />{result.firings.length}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">would have fired</p>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+              <p className="text-lg font-semibold text-gray-900 dark:text-white flex items-center justify-center">
+                <DollarSign className="w-4 h-4" />{formatCost(result.totalEstimatedCost).slice(1)}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">estimated with {result.model}</p>
+            </div>
+          </div>
+
+          {result.truncated && (
+            <p className="text-xs text-yellow-600 dark:text-yellow-400">
+              Only the first {result.utterancesProcessed} utterances were replayed.
+            </p>
+          )}
+
+          {result.ruleHits.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {result.ruleHits.map(hit => (
+                <span
+                  key={`${hit.source}:${hit.ruleId}`}
+                  className="text-xs px-2 py-1 rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300"
+                >
+                  {hit.ruleName} &times; {hit.count}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {result.firings.map(firing => (
+              <FiringRow key={firing.entryId} firing={firing} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RuleSimulationPanel;
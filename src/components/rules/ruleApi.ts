@@ -0,0 +1,9 @@
+import { auth } from '@/lib/firebase/client';
+
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await auth.currentUser?.getIdToken();
+  if (!token) {
+    throw new Error('You need to be signed in to manage rules');
+  }
+  return { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' };
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Pencil, Trash2, Save, X } from 'lucide-react';
+import { useAuthStore } from '@/stores/authStore';
+import { useAppStore } from '@/stores/appStore';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { CustomVocabulary } from '@/services/universal-assistant/CustomVocabulary';
+import type { GlossaryTerm } from '@/types';
+
+interface TermForm {
+  term: string;
+  phoneticHints: string;
+  replacements: string;
+}
+
+const EMPTY_FORM: TermForm = { term: '', phoneticHints: '', replacements: '' };
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+/**
+ * Edit the terms transcription should get right. Each meeting also adds its own
+ * keywords and participant names, so those do not need to be listed here.
+ */
+export const GlossaryEditor: React.FC = () => {
+  const { user } = useAuthStore();
+  const { addNotification } = useAppStore();
+
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TermForm>(EMPTY_FORM);
+  const [sample, setSample] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    DatabaseService.getUserGlossary(user.uid)
+      .then(glossary => {
+        if (!cancelled) setTerms(glossary);
+      })
+      .catch(error => {
+        console.error('Failed to load glossary:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const preview = useMemo(() => new CustomVocabulary(terms).correct(sample), [terms, sample]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleEdit = (term: GlossaryTerm) => {
+    setEditingId(term.termId);
+    setForm({
+      term: term.term,
+      phoneticHints: term.phoneticHints.join(', '),
+      replacements: term.replacements.join(', '),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user || !form.term.trim()) return;
+
+    const values = {
+      term: form.term.trim(),
+      phoneticHints: splitList(form.phoneticHints),
+      replacements: splitList(form.replacements),
+    };
+    const duplicate = terms.find(
+      term => term.termId !== editingId && term.term.toLowerCase() === values.term.toLowerCase()
+    );
+    if (duplicate) {
+      addNotification({
+        type: 'warning',
+        title: 'Term Already Listed',
+        message: `"${duplicate.term}" is already in your glossary.`,
+        persistent: false,
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await DatabaseService.updateGlossaryTerm(user.uid, editingId, values);
+        setTerms(prev => prev.map(term =>
+          term.termId === editingId ? { ...term, ...values, updatedAt: new Date() } : term
+        ));
+      } else {
+        const termId = await DatabaseService.createGlossaryTerm(user.uid, { ...values, source: 'manual' });
+        const now = new Date();
+        setTerms(prev => [...prev, { termId, ...values, source: 'manual' as const, createdAt: now, updatedAt: now }]
+          .sort((a, b) => a.term.localeCompare(b.term)));
+      }
+      resetForm();
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: 'Term Not Saved',
+        message: (error as Error).message,
+        persistent: false,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (term: GlossaryTerm) => {
+    if (!user) return;
+    try {
+      await DatabaseService.deleteGlossaryTerm(user.uid, term.termId);
+      setTerms(prev => prev.filter(t => t.termId !== term.termId));
+      if (editingId === term.termId) resetForm();
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: 'Term Not Deleted',
+        message: (error as Error).message,
+        persistent: false,
+      });
+    }
+  };
+
+  if (!user) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Sign in to manage your glossary.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Term</label>
+          <input
+            value={form.term}
+            onChange={(e) => setForm({ ...form, term: e.target.value })}
+            placeholder="kubectl"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Sounds like</label>
+          <input
+            value={form.phoneticHints}
+            onChange={(e) => setForm({ ...form, phoneticHints: e.target.value })}
+            placeholder="cube control, cube cuddle"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Misspellings</label>
+          <input
+            value={form.replacements}
+            onChange={(e) => setForm({ ...form, replacements: e.target.value })}
+            placeholder="kube ctl, kubectal"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Separate entries with commas. Meeting keywords and participant names are added to each meeting automatically.
+      </p>
+
+      <div className="flex space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !form.term.trim()}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? (
+            <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full mr-2" />
+          ) : editingId ? (
+            <Save className="w-4 h-4 mr-2" />
+          ) : (
+            <Plus className="w-4 h-4 mr-2" />
+          )}
+          {editingId ? 'Save Term' : 'Add Term'}
+        </button>
+        {editingId && (
+          <button
+            onClick={resetForm}
+            className="flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading glossary…</p>
+      ) : terms.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No terms yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {terms.map(term => (
+            <li key={term.termId} className="flex items-start justify-between p-3">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 dark:text-white">{term.term}</p>
+                {term.phoneticHints.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Sounds like: {term.phoneticHints.join(', ')}</p>
+                )}
+                {term.replacements.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Corrects: {term.replacements.join(', ')}</p>
+                )}
+              </div>
+              <div className="flex space-x-1 ml-3">
+                <button
+                  onClick={() => handleEdit(term)}
+                  title="Edit term"
+                  className="p-2 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(term)}
+                  title="Delete term"
+                  className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {terms.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Try a sentence</label>
+          <input
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder="run cube control get pods"
+            className={inputClassName}
+          />
+          {sample && (
+            <p className="mt-2 text-sm text-gray-800 dark:text-gray-200">
+              {preview.corrections.length > 0 ? preview.text : 'No corrections'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryEditor;
@@ -0,0 +1,332 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { nanoid } from 'nanoid';
+import { Plus, Pencil, Trash2, Save, X } from 'lucide-react';
+import { useAppStore } from '@/stores/appStore';
+import {
+  COMMAND_VOICES,
+  CUSTOM_COMMAND_ACTIONS,
+  matchCustomCommand,
+  toVoiceCommand,
+  type CustomVoiceCommand,
+  type CustomVoiceCommandAction,
+} from '@/services/universal-assistant/CustomVoiceCommands';
+import { modelConfigs } from '@/config/modelConfigs';
+import type { AIModel } from '@/types';
+
+interface CommandForm {
+  phrases: string;
+  action: CustomVoiceCommandAction;
+  voiceId: string;
+  model: string;
+  cooldownPeriod: number;
+}
+
+const EMPTY_FORM: CommandForm = {
+  phrases: '',
+  action: 'create_note',
+  voiceId: '',
+  model: '',
+  cooldownPeriod: 3000,
+};
+
+const MODELS = Object.keys(modelConfigs) as AIModel[];
+
+function splitLines(value: string): string[] {
+  return value.split('\n').map(line => line.trim().replace(/\s+/g, ' ')).filter(Boolean);
+}
+
+function slotsIn(phrase: string): string[] {
+  return Array.from(phrase.matchAll(/\{(\w+)\}/g), match => match[1]);
+}
+
+// A command that cannot work as written, or null
+function validate(form: CommandForm): string | null {
+  const phrases = splitLines(form.phrases);
+  if (phrases.length === 0) return 'Add at least one phrase.';
+
+  for (const phrase of phrases) {
+    const slots = slotsIn(phrase);
+    if (/\{\w+\}\s+\{\w+\}/.test(phrase)) {
+      return `"${phrase}" has two slots in a row, so there is no telling where one ends.`;
+    }
+    if ((form.action === 'create_note' || form.action === 'create_action_item' || form.action === 'mark_decision') && slots.length === 0) {
+      return `"${phrase}" needs a slot such as {text} for what you dictate.`;
+    }
+    if (form.action === 'change_voice' && !form.voiceId && !slots.includes('voice')) {
+      return `Pick a voice, or add a {voice} slot to "${phrase}".`;
+    }
+    if (form.action === 'switch_model' && !form.model && !slots.includes('model')) {
+      return `Pick a model, or add a {model} slot to "${phrase}".`;
+    }
+  }
+  return null;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+/**
+ * Bind spoken phrases to assistant actions. Commands are kept with the other
+ * voice command settings and apply to the next thing said in a meeting.
+ */
+export const VoiceCommandEditor: React.FC = () => {
+  const { audioSettings, updateAudioSettings, addNotification } = useAppStore();
+  const vocalInterrupts = audioSettings.vocalInterrupts;
+  const customCommands = useMemo(() => vocalInterrupts?.customCommands || {}, [vocalInterrupts]);
+  const commands = useMemo(() => Object.values(customCommands), [customCommands]);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CommandForm>(EMPTY_FORM);
+  const [sample, setSample] = useState('');
+
+  const preview = useMemo(() => {
+    const enabled = commands.filter(command => command.enabled).map(toVoiceCommand);
+    return sample.trim() ? matchCustomCommand(enabled, sample) : null;
+  }, [commands, sample]);
+
+  const saveCommands = (next: Record<string, CustomVoiceCommand>) => {
+    updateAudioSettings({ vocalInterrupts: { ...vocalInterrupts, customCommands: next } });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleEdit = (command: CustomVoiceCommand) => {
+    setEditingId(command.id);
+    setForm({
+      phrases: [command.keyword, ...command.aliases].join('\n'),
+      action: command.action,
+      voiceId: command.parameters?.voiceId || '',
+      model: command.parameters?.model || '',
+      cooldownPeriod: command.cooldownPeriod,
+    });
+  };
+
+  const handleSave = () => {
+    const problem = validate(form);
+    if (problem) {
+      addNotification({ type: 'warning', title: 'Command Not Saved', message: problem, persistent: false });
+      return;
+    }
+
+    const [keyword, ...aliases] = splitLines(form.phrases);
+    const taken = commands.find(command =>
+      command.id !== editingId
+      && [command.keyword, ...command.aliases].some(phrase =>
+        [keyword, ...aliases].some(p => p.toLowerCase() === phrase.toLowerCase())
+      )
+    );
+    if (taken) {
+      addNotification({
+        type: 'warning',
+        title: 'Phrase Already Used',
+        message: `"${taken.keyword}" already uses one of these phrases.`,
+        persistent: false,
+      });
+      return;
+    }
+
+    const id = editingId || `custom_${nanoid(10)}`;
+    const command: CustomVoiceCommand = {
+      id,
+      keyword,
+      aliases,
+      action: form.action,
+      enabled: customCommands[id]?.enabled ?? true,
+      cooldownPeriod: form.cooldownPeriod,
+      description: CUSTOM_COMMAND_ACTIONS[form.action].label,
+      ...(form.action === 'change_voice' && form.voiceId && { parameters: { voiceId: form.voiceId } }),
+      ...(form.action === 'switch_model' && form.model && { parameters: { model: form.model as AIModel } }),
+    };
+    saveCommands({ ...customCommands, [id]: command });
+    resetForm();
+  };
+
+  const handleToggle = (command: CustomVoiceCommand) => {
+    saveCommands({ ...customCommands, [command.id]: { ...command, enabled: !command.enabled } });
+  };
+
+  const handleDelete = (command: CustomVoiceCommand) => {
+    const { [command.id]: _removed, ...rest } = customCommands;
+    saveCommands(rest);
+    if (editingId === command.id) resetForm();
+  };
+
+  const describeTarget = (command: CustomVoiceCommand): string | null => {
+    if (command.parameters?.voiceId) {
+      return COMMAND_VOICES.find(voice => voice.voiceId === command.parameters?.voiceId)?.name || command.parameters.voiceId;
+    }
+    return command.parameters?.model || null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Phrases</label>
+          <textarea
+            value={form.phrases}
+            onChange={(e) => setForm({ ...form, phrases: e.target.value })}
+            placeholder={CUSTOM_COMMAND_ACTIONS[form.action].example}
+            rows={3}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Action</label>
+            <select
+              value={form.action}
+              onChange={(e) => setForm({ ...form, action: e.target.value as CustomVoiceCommandAction })}
+              className={inputClassName}
+            >
+              {(Object.keys(CUSTOM_COMMAND_ACTIONS) as CustomVoiceCommandAction[]).map(action => (
+                <option key={action} value={action}>{CUSTOM_COMMAND_ACTIONS[action].label}</option>
+              ))}
+            </select>
+          </div>
+          {form.action === 'change_voice' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Voice</label>
+              <select
+                value={form.voiceId}
+                onChange={(e) => setForm({ ...form, voiceId: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">Named in the phrase</option>
+                {COMMAND_VOICES.map(voice => (
+                  <option key={voice.voiceId} value={voice.voiceId}>{voice.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {form.action === 'switch_model' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Model</label>
+              <select
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">Named in the phrase</option>
+                {MODELS.map(model => (
+                  <option key={model} value={model}>{model}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Cooldown</label>
+            <select
+              value={form.cooldownPeriod}
+              onChange={(e) => setForm({ ...form, cooldownPeriod: Number(e.target.value) })}
+              className={inputClassName}
+            >
+              <option value={1000}>1 second</option>
+              <option value={3000}>3 seconds</option>
+              <option value={10000}>10 seconds</option>
+              <option value={30000}>30 seconds</option>
+            </select>
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        One phrase per line. Words in braces are filled in from what you say, e.g. &quot;add action item {'{text}'} for {'{person}'}&quot;.
+        Use {'{voice}'} or {'{model}'} to name the voice or model out loud.
+      </p>
+
+      <div className="flex space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={!form.phrases.trim()}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {editingId ? <Save className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+          {editingId ? 'Save Command' : 'Add Command'}
+        </button>
+        {editingId && (
+          <button
+            onClick={resetForm}
+            className="flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {commands.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No custom commands yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {commands.map(command => (
+            <li key={command.id} className="flex items-start justify-between p-3">
+              <div className={`min-w-0 ${command.enabled ? '' : 'opacity-50'}`}>
+                <p className="font-medium text-gray-900 dark:text-white">{command.keyword}</p>
+                {command.aliases.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Also: {command.aliases.join(' · ')}</p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {CUSTOM_COMMAND_ACTIONS[command.action]?.label || command.action}
+                  {describeTarget(command) && `: ${describeTarget(command)}`}
+                  {` · ${command.cooldownPeriod / 1000}s cooldown`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1 ml-3">
+                <input
+                  type="checkbox"
+                  checked={command.enabled}
+                  onChange={() => handleToggle(command)}
+                  title={command.enabled ? 'Turn off command' : 'Turn on command'}
+                  className="h-4 w-4 mr-1"
+                />
+                <button
+                  onClick={() => handleEdit(command)}
+                  title="Edit command"
+                  className="p-2 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(command)}
+                  title="Delete command"
+                  className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {commands.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Try a phrase</label>
+          <input
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder="add action item send the deck for Priya"
+            className={inputClassName}
+          />
+          {sample && (
+            <p className="mt-2 text-sm text-gray-800 dark:text-gray-200">
+              {preview
+                ? [
+                    preview.command.description,
+                    ...Object.entries(preview.slots).map(([slot, value]) => `${slot}: "${value}"`),
+                  ].join(' · ')
+                : 'No command matches'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoiceCommandEditor;
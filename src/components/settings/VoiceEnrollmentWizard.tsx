@@ -0,0 +1,292 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Mic, Square, RotateCcw, Trash2, CheckCircle, AlertTriangle, ChevronRight } from 'lucide-react';
+import { useAuthStore } from '@/stores/authStore';
+import {
+  createVoiceEnrollmentService,
+  ENROLLMENT_PHRASES,
+  type EnrollmentRecording,
+  type ProcessedPhrase,
+} from '@/services/universal-assistant/VoiceEnrollmentService';
+import { voiceProfileManager } from '@/services/universal-assistant/VoiceProfileManager';
+
+interface PcmRecorder {
+  stop: () => Promise<{ samples: Float32Array; sampleRate: number }>;
+}
+
+/**
+ * Capture mono float PCM from the microphone. Processing is disabled so quality
+ * checks see the raw signal the meeting pipeline will hear.
+ */
+async function startPcmRecording(): Promise<PcmRecorder> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+  });
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const source = context.createMediaStreamSource(stream);
+  const processor = context.createScriptProcessor(4096, 1, 1);
+  const chunks: Float32Array[] = [];
+
+  processor.onaudioprocess = (event) => {
+    chunks.push(new Float32Array(event.inputBuffer.getChannelData(0)));
+  };
+  source.connect(processor);
+  processor.connect(context.destination);
+
+  return {
+    stop: async () => {
+      processor.disconnect();
+      source.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      const sampleRate = context.sampleRate;
+      await context.close();
+
+      const samples = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        samples.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return { samples, sampleRate };
+    },
+  };
+}
+
+const QualitySummary: React.FC<{ result: ProcessedPhrase }> = ({ result }) => {
+  const { quality } = result;
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">{quality.speechSeconds.toFixed(1)}s</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">speech</p>
+        </div>
+        <div className="p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">{quality.snrDb.toFixed(0)} dB</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">signal to noise</p>
+        </div>
+        <div className="p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">{(quality.clippingRatio * 100).toFixed(2)}%</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">clipped</p>
+        </div>
+      </div>
+      {quality.acceptable ? (
+        <p className="flex items-center text-sm text-green-600 dark:text-green-400">
+          <CheckCircle className="w-4 h-4 mr-1" /> Good recording
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {quality.issues.map(issue => (
+            <li key={issue} className="flex items-start text-sm text-yellow-600 dark:text-yellow-400">
+              <AlertTriangle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" /> {issue}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const VoiceEnrollmentWizard: React.FC = () => {
+  const { user, refreshUser } = useAuthStore();
+  const service = useMemo(() => createVoiceEnrollmentService(), []);
+  const recorderRef = useRef<PcmRecorder | null>(null);
+
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [phraseIndex, setPhraseIndex] = useState(0);
+  const [results, setResults] = useState<(ProcessedPhrase | null)[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const profileId = user?.voiceProfileId || null;
+  const current = results[phraseIndex] || null;
+  const acceptedCount = results.filter(result => result?.embedding).length;
+
+  // Release the microphone if the wizard unmounts mid-recording
+  useEffect(() => () => {
+    void recorderRef.current?.stop();
+  }, []);
+
+  if (!user) return null;
+
+  const startWizard = () => {
+    setResults(ENROLLMENT_PHRASES.map(() => null));
+    setPhraseIndex(0);
+    setError(null);
+    setMessage(null);
+    setIsEnrolling(true);
+  };
+
+  const handleRecord = async () => {
+    setError(null);
+    try {
+      recorderRef.current = await startPcmRecording();
+      setIsRecording(true);
+    } catch (err) {
+      setError(`Could not access the microphone: ${(err as Error).message}`);
+    }
+  };
+
+  const handleStop = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    setIsBusy(true);
+    try {
+      const audio = await recorder.stop();
+      const recording: EnrollmentRecording = { phrase: ENROLLMENT_PHRASES[phraseIndex], ...audio };
+      const result = await service.processPhrase(recording);
+      setResults(previous => previous.map((item, index) => (index === phraseIndex ? result : item)));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const accepted = results.filter((result): result is ProcessedPhrase => result !== null);
+      await service.enroll({ uid: user.uid, displayName: user.displayName }, accepted, profileId);
+      await refreshUser();
+      setIsEnrolling(false);
+      setMessage('Your voice is enrolled. You will be named automatically when you speak in meetings.');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!profileId) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await service.deleteEnrollment(user.uid, profileId);
+      voiceProfileManager.removeEnrolledProfile(profileId);
+      await refreshUser();
+      setMessage('Your voice enrollment was deleted.');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isEnrolling) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {profileId
+            ? 'Your voice is enrolled and will be recognized in meetings you join.'
+            : `Read ${service.minPhrases} or more short phrases so the assistant can recognize your voice in meetings.`}
+        </p>
+        <div className="flex space-x-2">
+          <button
+            onClick={startWizard}
+            disabled={isBusy}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {profileId ? <RotateCcw className="w-4 h-4 mr-2" /> : <Mic className="w-4 h-4 mr-2" />}
+            {profileId ? 'Re-enroll' : 'Start enrollment'}
+          </button>
+          {profileId && (
+            <button
+              onClick={handleDelete}
+              disabled={isBusy}
+              className="flex items-center px-4 py-2 border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </button>
+          )}
+        </div>
+        {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+        <span>Phrase {phraseIndex + 1} of {ENROLLMENT_PHRASES.length}</span>
+        <span>{acceptedCount} accepted, {service.minPhrases} needed</span>
+      </div>
+
+      <blockquote className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg text-lg text-gray-900 dark:text-white">
+        &ldquo;{ENROLLMENT_PHRASES[phraseIndex]}&rdquo;
+      </blockquote>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Start recording, wait a moment, read the phrase at your normal volume, then stop.
+      </p>
+
+      <div className="flex space-x-2">
+        {isRecording ? (
+          <button
+            onClick={handleStop}
+            className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+          >
+            <Square className="w-4 h-4 mr-2" />
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleRecord}
+            disabled={isBusy}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Mic className="w-4 h-4 mr-2" />
+            {current ? 'Record again' : 'Record'}
+          </button>
+        )}
+        {phraseIndex < ENROLLMENT_PHRASES.length - 1 && (
+          <button
+            onClick={() => setPhraseIndex(phraseIndex + 1)}
+            disabled={isRecording || isBusy}
+            className="flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next phrase
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </button>
+        )}
+      </div>
+
+      {isBusy && !isRecording && (
+        <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+          <div className="animate-spin h-4 w-4 border-2 border-blue-600 border-t-transparent rounded-full mr-2" />
+          Checking recording...
+        </div>
+      )}
+      {current && !isBusy && <QualitySummary result={current} />}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end space-x-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => setIsEnrolling(false)}
+          disabled={isRecording || isBusy}
+          className="px-4 py-2 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isRecording || isBusy || acceptedCount < service.minPhrases}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <CheckCircle className="w-4 h-4 mr-2" />
+          Save enrollment
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceEnrollmentWizard;
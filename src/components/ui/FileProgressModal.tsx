@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Upload, 
@@ -380,10 +380,12 @@ export const FileProgressModal: React.FC<FileProgressModalProps> = ({
 };
 
 // Hook for managing file operations
-export const useFileProgress = () => {
+export const useFileProgress = (options: { onCancel?: () => void } = {}) => {
   const [isOpen, setIsOpen] = useState(false);
   const [config, setConfig] = useState<FileOperationConfig | null>(null);
   const [isPaused, setIsPaused] = useState(false);
+  const onCancelRef = useRef(options.onCancel);
+  onCancelRef.current = options.onCancel;
 
   const startOperation = useCallback((operationConfig: FileOperationConfig) => {
     setConfig(operationConfig);
@@ -391,6 +393,11 @@ export const useFileProgress = () => {
     setIsPaused(false);
   }, []);
 
+  // Change the title or description while the operation runs, e.g. to name its current stage
+  const updateOperation = useCallback((updates: Partial<Omit<FileOperationConfig, 'files'>>) => {
+    setConfig(prev => prev ? { ...prev, ...updates } : prev);
+  }, []);
+
   const updateFileProgress = useCallback((fileName: string, updates: Partial<FileProgressData>) => {
     setConfig(prev => {
       if (!prev) return prev;
@@ -432,6 +439,7 @@ export const useFileProgress = () => {
   }, []);
 
   const cancelOperation = useCallback(() => {
+    onCancelRef.current?.();
     updateAllFiles({ status: 'cancelled' });
     setTimeout(() => {
       setIsOpen(false);
@@ -468,6 +476,7 @@ export const useFileProgress = () => {
     config,
     isPaused,
     startOperation,
+    updateOperation,
     updateFileProgress,
     updateAllFiles,
     pauseOperation,
@@ -0,0 +1,130 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Check, X, Pencil, UserCheck } from 'lucide-react';
+import { useMeetingStore } from '@/stores/meetingStore';
+import { diarizationService } from '@/services/universal-assistant/DiarizationService';
+import { speakerIdentificationService } from '@/services/universal-assistant/SpeakerIdentificationService';
+import type { NameSuggestion } from '@/services/universal-assistant/NameRecognitionService';
+
+// Survives remounts so returning to the page mid-meeting keeps learned names
+let lastResetMeetingId: string | null = null;
+
+/**
+ * Asks the user to confirm names the assistant picked up from the conversation,
+ * e.g. Speaker 2 said "I'm Dana", and relabels that speaker's transcript on accept.
+ */
+export const SpeakerNameConfirmation: React.FC = () => {
+  const meetingId = useMeetingStore(state => state.currentMeeting?.meetingId);
+  const nameSpeaker = useMeetingStore(state => state.nameSpeaker);
+  const [pending, setPending] = useState<NameSuggestion[]>(() => speakerIdentificationService.listPendingConfirmations());
+  const [editedName, setEditedName] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => speakerIdentificationService.onPendingConfirmationsChange(setPending), []);
+
+  // Speaker labels restart with every meeting, so names and suggestions must too
+  useEffect(() => {
+    if (!meetingId || meetingId === lastResetMeetingId) return;
+    lastResetMeetingId = meetingId;
+    diarizationService.reset();
+    speakerIdentificationService.reset();
+  }, [meetingId]);
+
+  const suggestion = pending[0];
+  if (!meetingId || !suggestion) return null;
+
+  const stopEditing = () => {
+    setEditedName(null);
+  };
+
+  const handleAccept = async () => {
+    const name = (editedName ?? suggestion.suggestedName).trim();
+    if (!name) return;
+
+    setIsApplying(true);
+    try {
+      await speakerIdentificationService.applySuggestion({ ...suggestion, suggestedName: name });
+      await nameSpeaker(suggestion.speakerId, name);
+      stopEditing();
+    } catch (error) {
+      console.error('Failed to apply speaker name:', error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleReject = () => {
+    speakerIdentificationService.rejectSuggestion(suggestion.speakerId, suggestion.suggestedName);
+    stopEditing();
+  };
+
+  return (
+    <div
+      role="alertdialog"
+      aria-label="Confirm speaker name"
+      className="glass-morphism dark:glass-morphism-dark rounded-xl border border-blue-200/50 dark:border-blue-800/50 p-4 shadow-soft"
+    >
+      <div className="flex items-start space-x-3">
+        <div className="p-2 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+          <UserCheck className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div className="flex-1 space-y-3">
+          <p className="text-sm text-gray-900 dark:text-white">
+            <span className="font-semibold">{suggestion.speakerId}</span>
+            {suggestion.evidence[0] ? <> said &ldquo;{suggestion.evidence[0]}&rdquo;</> : ' may be'}
+            {' '}&mdash; label as <span className="font-semibold">{suggestion.suggestedName}</span>?
+          </p>
+
+          {editedName !== null && (
+            <input
+              type="text"
+              value={editedName}
+              onChange={(e) => setEditedName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAccept()}
+              autoFocus
+              aria-label="Speaker name"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+            />
+          )}
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleAccept}
+              disabled={isApplying || (editedName !== null && !editedName.trim())}
+              className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="w-4 h-4 mr-1" />
+              {editedName !== null ? 'Save' : 'Accept'}
+            </button>
+            {editedName === null && (
+              <button
+                onClick={() => setEditedName(suggestion.suggestedName)}
+                disabled={isApplying}
+                className="flex items-center px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                <Pencil className="w-4 h-4 mr-1" />
+                Edit
+              </button>
+            )}
+            <button
+              onClick={editedName !== null ? stopEditing : handleReject}
+              disabled={isApplying}
+              className="flex items-center px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <X className="w-4 h-4 mr-1" />
+              {editedName !== null ? 'Cancel' : 'Reject'}
+            </button>
+            {pending.length > 1 && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {pending.length - 1} more
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpeakerNameConfirmation;
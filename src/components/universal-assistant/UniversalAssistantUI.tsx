@@ -1,4 +1,5 @@
 import React from 'react';
+import WakeWordIndicator, { type WakeWordIndicatorProps } from './WakeWordIndicator';
 
 // Placeholder components (replace with real implementations as they are added)
 const CollapsibleSettingsPanel: React.FC = () => (
@@ -43,11 +44,16 @@ const SpeedControl: React.FC = () => (
   </div>
 );
 
-const UniversalAssistantUI: React.FC = () => {
+interface UniversalAssistantUIProps {
+  wakeWord?: WakeWordIndicatorProps;
+}
+
+const UniversalAssistantUI: React.FC<UniversalAssistantUIProps> = ({ wakeWord }) => {
   return (
     <div className="universal-assistant">
       <header className="assistant-header">
         <h1>Universal Assistant</h1>
+        {wakeWord && <WakeWordIndicator {...wakeWord} />}
         <CollapsibleSettingsPanel />
       </header>
 
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Ear } from 'lucide-react';
+import type { AssistantActivationMode } from '@/types';
+
+export interface WakeWordIndicatorProps {
+  mode: AssistantActivationMode;
+  isListening: boolean;
+  wakePhrase: string;
+}
+
+/**
+ * Shows whether the assistant is waiting for its wake phrase or listening for a
+ * request. Nothing is shown when the assistant answers without being addressed.
+ */
+const WakeWordIndicator: React.FC<WakeWordIndicatorProps> = ({ mode, isListening, wakePhrase }) => {
+  if (mode !== 'wake_word') {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={`inline-flex items-center space-x-2 px-3 py-1.5 rounded-full text-sm font-medium transition-colors duration-200 ${
+        isListening
+          ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+          : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+      }`}
+    >
+      <Ear className={`w-4 h-4 ${isListening ? 'pulse-soft' : ''}`} />
+      <span>{isListening ? 'Listening…' : `Say "${wakePhrase}"`}</span>
+    </div>
+  );
+};
+
+export default WakeWordIndicator;
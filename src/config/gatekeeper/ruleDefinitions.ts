@@ -1,7 +1,42 @@
-export interface RuleCondition {
-  type: 'keyword' | 'pattern' | 'messageCount' | 'questionDetected';
-  operator: 'contains' | 'equals' | 'matches';
+import { MeetingType } from '@/types';
+
+export type MessageIntent = 'question' | 'action_item' | 'blocker' | 'decision' | 'statement';
+
+/**
+ * Leaf conditions evaluated against the current message and recent history.
+ * - elapsedTime: minutes since the meeting started
+ * - speaker / speakerRole: sender id or name / sender role
+ * - silence: seconds since the previous message
+ * - speakerSwitches: speaker changes within the last `window` messages (default 10)
+ * - repeatedTopic: messages within the last `window` (default 20) sharing a topic term with this one
+ */
+export interface LeafRuleCondition {
+  type:
+    | 'keyword'
+    | 'pattern'
+    | 'messageCount'
+    | 'questionDetected'
+    | 'elapsedTime'
+    | 'speaker'
+    | 'speakerRole'
+    | 'silence'
+    | 'speakerSwitches'
+    | 'repeatedTopic';
+  operator: 'contains' | 'equals' | 'matches' | 'greater' | 'less';
   value: any;
+  window?: number;
+}
+
+// any: at least one child matches; all: every child matches; not: no child matches
+export interface CompositeRuleCondition {
+  type: 'any' | 'all' | 'not';
+  conditions: RuleCondition[];
+}
+
+export type RuleCondition = LeafRuleCondition | CompositeRuleCondition;
+
+export function isCompositeCondition(condition: RuleCondition): condition is CompositeRuleCondition {
+  return condition.type === 'any' || condition.type === 'all' || condition.type === 'not';
 }
 
 export interface RuleAction {
@@ -18,6 +53,9 @@ export interface Rule {
   actions: RuleAction[];
   priority: number;
   confidence: number;
+  // Only consider the rule for these intents / speaker roles; omit to allow any
+  intents?: MessageIntent[];
+  roles?: string[];
 }
 
 export const brainstormingRules: Rule[] = [
@@ -45,6 +83,19 @@ export const brainstormingRules: Rule[] = [
     priority: 3,
     confidence: 0.9,
   },
+  {
+    id: 'brainstorm_invite_others',
+    name: 'Invite Other Voices',
+    conditions: [
+      { type: 'messageCount', operator: 'greater', value: 8 },
+      { type: 'speakerSwitches', operator: 'less', value: 2, window: 8 },
+    ],
+    actions: [
+      { type: 'respond', template: 'Would anyone else like to add an idea?' },
+    ],
+    priority: 4,
+    confidence: 0.7,
+  },
 ];
 
 export const statusUpdateRules: Rule[] = [
@@ -75,4 +126,469 @@ export const statusUpdateRules: Rule[] = [
   },
 ];
 
+export const standupRules: Rule[] = [
+  {
+    id: 'standup_timebox',
+    name: 'Nudge To Wrap Up',
+    conditions: [
+      { type: 'elapsedTime', operator: 'greater', value: 25 },
+      { type: 'messageCount', operator: 'equals', value: 5 },
+      { type: 'not', conditions: [{ type: 'keyword', operator: 'contains', value: ['wrap up', 'wrapping up', "that's all"] }] },
+    ],
+    actions: [
+      { type: 'respond', template: "We're past 25 minutes. Shall we wrap up and take remaining topics offline?" },
+    ],
+    priority: 10,
+    confidence: 0.9,
+  },
+  {
+    id: 'standup_blocker_followup',
+    name: 'Follow Up on Blockers',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['blocked', 'stuck', 'waiting on', 'blocker'] },
+    ],
+    actions: [
+      { type: 'note', category: 'blocker' },
+      { type: 'respond', template: 'Who can help unblock {topic}?' },
+    ],
+    priority: 9,
+    confidence: 0.85,
+    intents: ['blocker'],
+  },
+  {
+    id: 'standup_capture_progress',
+    name: 'Capture Progress Updates',
+    conditions: [
+      { type: 'pattern', operator: 'matches', value: /\b(?:yesterday|today|finished|completed|working on|shipped)\b/i },
+    ],
+    actions: [
+      { type: 'note', category: 'status_item' },
+    ],
+    priority: 6,
+    confidence: 0.8,
+    intents: ['statement', 'action_item'],
+  },
+  {
+    id: 'standup_wrap_up',
+    name: 'Standup Recap',
+    conditions: [
+      { type: 'messageCount', operator: 'equals', value: 15 },
+    ],
+    actions: [
+      { type: 'summarize', style: 'short' },
+    ],
+    priority: 3,
+    confidence: 0.9,
+  },
+];
+
+export const technicalDiscussionRules: Rule[] = [
+  {
+    id: 'tech_capture_decision',
+    name: 'Record Technical Decisions',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ["let's go with", 'we decided', 'agreed', 'decision'] },
+    ],
+    actions: [
+      { type: 'note', category: 'decision' },
+    ],
+    priority: 8,
+    confidence: 0.85,
+    intents: ['decision', 'statement'],
+  },
+  {
+    id: 'tech_tradeoff_prompt',
+    name: 'Surface Trade-offs',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['option', 'approach', 'alternative', 'versus', ' vs '] },
+      { type: 'questionDetected', operator: 'equals', value: true },
+    ],
+    actions: [
+      { type: 'respond', template: 'What are the main trade-offs between the options for {topic}?' },
+    ],
+    priority: 5,
+    confidence: 0.7,
+    intents: ['question'],
+  },
+  {
+    id: 'tech_capture_action',
+    name: 'Capture Engineering Follow-ups',
+    conditions: [
+      { type: 'pattern', operator: 'matches', value: /\b(?:i'll|i will|we need to|todo|follow up)\b/i },
+    ],
+    actions: [
+      { type: 'note', category: 'action_item' },
+    ],
+    priority: 7,
+    confidence: 0.8,
+    intents: ['action_item'],
+  },
+];
+
+export const casualConversationRules: Rule[] = [
+  {
+    id: 'casual_direct_question',
+    name: 'Answer Direct Questions Only',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['assistant', 'hey assistant'] },
+      { type: 'questionDetected', operator: 'equals', value: true },
+    ],
+    actions: [
+      { type: 'respond', template: 'Happy to help with {topic}.' },
+    ],
+    priority: 5,
+    confidence: 0.6,
+    intents: ['question'],
+  },
+];
+
+export const presentationRules: Rule[] = [
+  {
+    id: 'presentation_audience_question',
+    name: 'Queue Audience Questions',
+    conditions: [
+      { type: 'questionDetected', operator: 'equals', value: true },
+    ],
+    actions: [
+      { type: 'note', category: 'audience_question' },
+    ],
+    priority: 7,
+    confidence: 0.8,
+    intents: ['question'],
+    roles: ['participant', 'guest'],
+  },
+  {
+    id: 'presentation_key_points',
+    name: 'Track Key Points',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['key takeaway', 'in summary', 'the main point', 'to recap'] },
+    ],
+    actions: [
+      { type: 'note', category: 'key_point' },
+    ],
+    priority: 6,
+    confidence: 0.8,
+    roles: ['host'],
+  },
+  {
+    id: 'presentation_section_summary',
+    name: 'Section Summary',
+    conditions: [
+      { type: 'messageCount', operator: 'equals', value: 20 },
+    ],
+    actions: [
+      { type: 'summarize', style: 'bullet_points' },
+    ],
+    priority: 3,
+    confidence: 0.9,
+  },
+];
+
+export const oneOnOneRules: Rule[] = [
+  {
+    id: 'one_on_one_long_pause',
+    name: 'Hold Space After Long Pauses',
+    conditions: [
+      { type: 'silence', operator: 'greater', value: 20 },
+      { type: 'speakerRole', operator: 'equals', value: ['participant', 'guest'] },
+    ],
+    actions: [
+      { type: 'note', category: 'reflection' },
+    ],
+    priority: 5,
+    confidence: 0.6,
+  },
+  {
+    id: 'one_on_one_concern',
+    name: 'Note Concerns',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['worried', 'concerned', 'frustrated', 'burned out', 'overwhelmed'] },
+    ],
+    actions: [
+      { type: 'note', category: 'concern' },
+    ],
+    priority: 8,
+    confidence: 0.8,
+  },
+  {
+    id: 'one_on_one_commitment',
+    name: 'Capture Commitments',
+    conditions: [
+      { type: 'pattern', operator: 'matches', value: /\b(?:i'll|i will|let me|by next week|by friday)\b/i },
+    ],
+    actions: [
+      { type: 'note', category: 'action_item' },
+    ],
+    priority: 7,
+    confidence: 0.8,
+    intents: ['action_item', 'statement'],
+  },
+];
+
+export const clientMeetingRules: Rule[] = [
+  {
+    id: 'client_requirement',
+    name: 'Capture Client Requirements',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['we need', 'requirement', 'must have', 'deadline', 'budget'] },
+    ],
+    actions: [
+      { type: 'note', category: 'requirement' },
+    ],
+    priority: 9,
+    confidence: 0.85,
+    roles: ['guest'],
+  },
+  {
+    id: 'client_open_question',
+    name: 'Track Open Client Questions',
+    conditions: [
+      { type: 'questionDetected', operator: 'equals', value: true },
+    ],
+    actions: [
+      { type: 'note', category: 'open_question' },
+    ],
+    priority: 6,
+    confidence: 0.75,
+    intents: ['question'],
+    roles: ['guest'],
+  },
+  {
+    id: 'client_next_steps',
+    name: 'Confirm Next Steps',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['next steps', 'follow up', 'send over'] },
+    ],
+    actions: [
+      { type: 'note', category: 'action_item' },
+      { type: 'summarize', style: 'short' },
+    ],
+    priority: 7,
+    confidence: 0.8,
+    intents: ['action_item'],
+  },
+];
+
+export const generalRules: Rule[] = [
+  {
+    id: 'general_action_item',
+    name: 'Capture Action Items',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['action item', 'todo', 'next steps', 'follow up'] },
+    ],
+    actions: [
+      { type: 'note', category: 'action_item' },
+    ],
+    priority: 6,
+    confidence: 0.8,
+    intents: ['action_item'],
+  },
+  {
+    id: 'general_decision',
+    name: 'Capture Decisions',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['we decided', 'agreed', "let's go with"] },
+    ],
+    actions: [
+      { type: 'note', category: 'decision' },
+    ],
+    priority: 6,
+    confidence: 0.8,
+    intents: ['decision', 'statement'],
+  },
+];
 
+export const planningRules: Rule[] = [
+  {
+    id: 'planning_estimate',
+    name: 'Record Estimates',
+    conditions: [
+      { type: 'pattern', operator: 'matches', value: /\b\d+\s*(?:points?|days?|weeks?|sprints?)\b/i },
+    ],
+    actions: [
+      { type: 'note', category: 'estimate' },
+    ],
+    priority: 7,
+    confidence: 0.8,
+  },
+  {
+    id: 'planning_scope_risk',
+    name: 'Flag Scope Risks',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['risk', 'dependency', 'depends on', 'unknown', 'scope creep'] },
+    ],
+    actions: [
+      { type: 'note', category: 'risk' },
+      { type: 'respond', template: 'Should we add a mitigation for {topic}?' },
+    ],
+    priority: 8,
+    confidence: 0.75,
+  },
+  {
+    id: 'planning_owner',
+    name: 'Assign Owners',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['who will', 'who owns', 'owner'] },
+      { type: 'questionDetected', operator: 'equals', value: true },
+    ],
+    actions: [
+      { type: 'note', category: 'action_item' },
+    ],
+    priority: 6,
+    confidence: 0.75,
+    intents: ['question'],
+  },
+];
+
+export const retrospectiveRules: Rule[] = [
+  {
+    id: 'retro_recurring_theme',
+    name: 'Flag Recurring Themes',
+    conditions: [
+      { type: 'repeatedTopic', operator: 'greater', value: 2, window: 15 },
+      { type: 'any', conditions: [
+        { type: 'keyword', operator: 'contains', value: ['again', 'still', 'keeps'] },
+        { type: 'silence', operator: 'greater', value: 10 },
+      ] },
+    ],
+    actions: [
+      { type: 'respond', template: 'This has come up a few times. Should we make {topic} an action item?' },
+    ],
+    priority: 9,
+    confidence: 0.75,
+  },
+  {
+    id: 'retro_went_well',
+    name: 'What Went Well',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ['went well', 'worked well', 'proud of', 'kudos', 'shout out'] },
+    ],
+    actions: [
+      { type: 'note', category: 'went_well' },
+    ],
+    priority: 6,
+    confidence: 0.8,
+  },
+  {
+    id: 'retro_improve',
+    name: 'What To Improve',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ["didn't go well", 'could improve', 'pain point', 'frustrating', 'slowed us down'] },
+    ],
+    actions: [
+      { type: 'note', category: 'to_improve' },
+      { type: 'respond', template: 'What could we change next sprint to address {topic}?' },
+    ],
+    priority: 8,
+    confidence: 0.8,
+  },
+  {
+    id: 'retro_summary',
+    name: 'Retro Themes',
+    conditions: [
+      { type: 'messageCount', operator: 'equals', value: 20 },
+    ],
+    actions: [
+      { type: 'summarize', style: 'bullet_points' },
+    ],
+    priority: 3,
+    confidence: 0.9,
+  },
+];
+
+export const interviewRules: Rule[] = [
+  {
+    id: 'interview_candidate_example',
+    name: 'Note Candidate Examples',
+    conditions: [
+      { type: 'pattern', operator: 'matches', value: /\b(?:for example|at my last|i led|i built|i designed)\b/i },
+    ],
+    actions: [
+      { type: 'note', category: 'candidate_evidence' },
+    ],
+    priority: 7,
+    confidence: 0.8,
+    roles: ['guest', 'participant'],
+  },
+  {
+    id: 'interview_question_asked',
+    name: 'Track Interviewer Questions',
+    conditions: [
+      { type: 'questionDetected', operator: 'equals', value: true },
+    ],
+    actions: [
+      { type: 'note', category: 'interview_question' },
+    ],
+    priority: 5,
+    confidence: 0.75,
+    intents: ['question'],
+    roles: ['host'],
+  },
+];
+
+export const trainingRules: Rule[] = [
+  {
+    id: 'training_learner_question',
+    name: 'Collect Learner Questions',
+    conditions: [
+      { type: 'questionDetected', operator: 'equals', value: true },
+    ],
+    actions: [
+      { type: 'note', category: 'learner_question' },
+    ],
+    priority: 7,
+    confidence: 0.8,
+    intents: ['question'],
+    roles: ['participant', 'guest'],
+  },
+  {
+    id: 'training_confusion',
+    name: 'Clarify Confusion',
+    conditions: [
+      { type: 'keyword', operator: 'contains', value: ["don't understand", 'confused', 'lost me', 'can you explain'] },
+    ],
+    actions: [
+      { type: 'respond', template: 'Would a quick example of {topic} help?' },
+    ],
+    priority: 8,
+    confidence: 0.75,
+    roles: ['participant', 'guest'],
+  },
+  {
+    id: 'training_recap',
+    name: 'Module Recap',
+    conditions: [
+      { type: 'messageCount', operator: 'equals', value: 25 },
+    ],
+    actions: [
+      { type: 'summarize', style: 'detailed' },
+    ],
+    priority: 3,
+    confidence: 0.9,
+  },
+];
+
+/**
+ * Built-in rule packs for every meeting type.
+ */
+export const meetingTypeRulePacks: Record<MeetingType, Rule[]> = {
+  [MeetingType.BRAINSTORMING]: brainstormingRules,
+  [MeetingType.STATUS_UPDATE]: statusUpdateRules,
+  [MeetingType.TECHNICAL_DISCUSSION]: technicalDiscussionRules,
+  [MeetingType.CASUAL_CONVERSATION]: casualConversationRules,
+  [MeetingType.FORMAL_PRESENTATION]: presentationRules,
+  [MeetingType.ONE_ON_ONE]: oneOnOneRules,
+  [MeetingType.TEAM_STANDUP]: standupRules,
+  [MeetingType.CLIENT_MEETING]: clientMeetingRules,
+  [MeetingType.GENERAL]: generalRules,
+  [MeetingType.STANDUP]: standupRules,
+  [MeetingType.PLANNING]: planningRules,
+  [MeetingType.RETROSPECTIVE]: retrospectiveRules,
+  [MeetingType.INTERVIEW]: interviewRules,
+  [MeetingType.PRESENTATION]: presentationRules,
+  [MeetingType.TRAINING]: trainingRules,
+};
+
+export function createDefaultRuleMap(): Map<string, Rule[]> {
+  return new Map(Object.entries(meetingTypeRulePacks).map(([type, rules]) => [type, [...rules]]));
+}
@@ -2,16 +2,21 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { getServiceContainer, initializeTranscription } from '@/services/universal-assistant/ClientServiceContainer';
+import { speakerIdentificationService } from '@/services/universal-assistant/SpeakerIdentificationService';
+import { diarizationService } from '@/services/universal-assistant/DiarizationService';
+import { customVocabulary } from '@/services/universal-assistant/CustomVocabulary';
+import { DEFAULT_WAKE_PHRASE, resolveActivationMode } from '@/services/universal-assistant/WakeWordDetector';
 import { UniversalAssistantCoordinator, createUniversalAssistantCoordinator } from '@/services/universal-assistant/UniversalAssistantCoordinator';
 import type { AudioManager } from '@/services/universal-assistant/AudioManager';
-import type { DeepgramSTT } from '@/services/universal-assistant/DeepgramSTT';
+import type { STTProvider } from '@/services/universal-assistant/STTProvider';
 import type { FragmentProcessor } from '@/services/universal-assistant/FragmentProcessor';
 import type { ConversationProcessor } from '@/services/universal-assistant/ConversationProcessor';
 import { useMeetingStore, useAppStore } from '@/stores';
+import type { AssistantActivationMode } from '@/types';
 
 interface TranscriptionServices {
   audioManager: AudioManager;
-  deepgramSTT: DeepgramSTT;
+  sttProvider: STTProvider;
   fragmentProcessor: FragmentProcessor;
   conversationProcessor: ConversationProcessor;
 }
@@ -32,16 +37,22 @@ export function useUniversalAssistantClient() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [activationMode, setActivationMode] = useState<AssistantActivationMode>('always');
+  const [isWakeListening, setIsWakeListening] = useState(false);
   
   const servicesRef = useRef<TranscriptionServices | null>(null);
   const coordinatorRef = useRef<UniversalAssistantCoordinator | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const initializationAttempted = useRef(false);
+  const detachWakeWordRef = useRef<(() => void) | null>(null);
   
   // Get stores for integration
   const meetingStore = useMeetingStore();
   const appStore = useAppStore();
   const { currentMeeting, addTranscriptEntry } = meetingStore;
+  const { aiSettings, ttsSettings, audioSettings } = appStore;
+  const customCommands = audioSettings.vocalInterrupts?.customCommands;
+  const wakePhrase = aiSettings.wakePhrase?.trim() || DEFAULT_WAKE_PHRASE;
 
   useEffect(() => {
     // Only initialize on client side and only once
@@ -75,7 +86,21 @@ export function useUniversalAssistantClient() {
             const transcript = store.transcript;
             const last = transcript.length > 0 ? transcript[transcript.length - 1] : null;
             const nowTs = entry.timestamp instanceof Date ? entry.timestamp.getTime() : new Date(entry.timestamp as any).getTime();
-            const shouldCoalesce = !!last && last.speakerId === entry.speakerId &&
+
+            // Look for self-introductions and enrolled voices; suggestions surface in the meeting's name confirmation prompt
+            if (entry.isFinal && entry.text.trim()) {
+              speakerIdentificationService.processTranscript(entry.text, entry.speakerId, nowTs, store.currentMeeting.meetingId)
+                .then(result => {
+                  // Confident introductions and enrolled voices are applied without asking
+                  if (result.identifiedName) {
+                    return useMeetingStore.getState().nameSpeaker(entry.speakerId, result.identifiedName);
+                  }
+                })
+                .catch(err => {
+                  console.error('Speaker name detection failed:', err);
+                });
+            }
+            const shouldCoalesce = !entry.overlap && !!last && last.speakerId === entry.speakerId &&
               Math.abs(nowTs - (last.timestamp instanceof Date ? last.timestamp.getTime() : new Date(last.timestamp as any).getTime())) <= 12000;
 
             if (shouldCoalesce) {
@@ -107,6 +132,11 @@ export function useUniversalAssistantClient() {
               }
             }
 
+            // Speech over another speaker is linked to their latest entry
+            const overlapped = entry.overlap
+              ? [...transcript].reverse().find(t => t.speakerId === entry.overlap!.speakerId && t.id)
+              : undefined;
+
             // Convert simplified entry to full TranscriptEntry format
             const fullEntry = {
               meetingId: store.currentMeeting.meetingId,
@@ -121,7 +151,9 @@ export function useUniversalAssistantClient() {
               language: 'en-US',
               isFragment: false,
               isComplete: entry.isFinal,
-              isProcessed: false
+              isProcessed: false,
+              ...(overlapped && { overlapsWith: overlapped.id }),
+              ...(overlapped && entry.overlap?.isInterruption && { interruptedSpeakerId: overlapped.speakerId })
             };
 
             console.log('Adding transcript entry:', fullEntry);
@@ -136,6 +168,38 @@ export function useUniversalAssistantClient() {
         }
       });
       servicesRef.current = services;
+
+      // In wake word mode, requests made by wake phrase are answered through the coordinator
+      const { conversationProcessor } = services;
+      const detachWakeState = conversationProcessor.onWakeWordStateChange(state => {
+        setIsWakeListening(state.isListening);
+      });
+      const detachRequests = conversationProcessor.onAddressedRequest(request => {
+        coordinatorRef.current?.triggerAIResponse(request.text).catch(err => {
+          console.error('Failed to answer wake word request:', err);
+        });
+      });
+      detachWakeWordRef.current = () => {
+        detachWakeState();
+        detachRequests();
+      };
+      
+      // Voice command outcomes are shown as notifications
+      getServiceContainer().getVocalInterruptService().setEventListeners({
+        onCommandExecuted: (result) => {
+          useAppStore.getState().addNotification({
+            type: result.success ? 'success' : 'warning',
+            title: result.success ? 'Voice Command' : 'Voice Command Not Completed',
+            message: result.feedback || result.error || result.action.replace(/_/g, ' '),
+            persistent: false,
+          });
+        },
+      });
+
+      // Agents and rule actions read the live meeting straight from the store
+      const currentMeeting = () => useMeetingStore.getState().currentMeeting;
+      getServiceContainer().getAgentOrchestrator().setMeetingProvider(currentMeeting);
+      getServiceContainer().getLiveRuleExecutor().setMeetingProvider(currentMeeting);
       
       console.log('Services connected and ready for transcription');
       
@@ -163,6 +227,52 @@ export function useUniversalAssistantClient() {
     }
   }, []); // No dependencies - only initialize once
 
+  // Follow the activation settings and the current meeting's type
+  useEffect(() => {
+    if (!isInitialized || !servicesRef.current) return;
+
+    const mode = resolveActivationMode(aiSettings.activationMode, currentMeeting?.type);
+    servicesRef.current.conversationProcessor.updateConfig({
+      activationMode: mode,
+      wakePhrases: [wakePhrase],
+      ...(aiSettings.wakeListeningWindowMs && { wakeListeningWindowMs: aiSettings.wakeListeningWindowMs }),
+    });
+    setActivationMode(mode);
+  }, [isInitialized, aiSettings.activationMode, aiSettings.wakeListeningWindowMs, wakePhrase, currentMeeting?.type]);
+
+  // Relabel earlier transcript entries when voice clustering merges or splits speakers
+  useEffect(() => {
+    const unsubscribe = diarizationService.onSpeakerChange((_speakerId, correction) => {
+      if (correction) {
+        void useMeetingStore.getState().applySpeakerCorrection(correction);
+      }
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  // Voice commands edited in settings apply straight away
+  useEffect(() => {
+    if (!isInitialized) return;
+    getServiceContainer().getVocalInterruptService().setCustomCommands(Object.values(customCommands || {}));
+  }, [isInitialized, customCommands]);
+
+  // Rule replies are spoken only while automatic responses are on
+  useEffect(() => {
+    if (!isInitialized) return;
+    getServiceContainer().getLiveRuleExecutor().updateConfig({ speakReplies: aiSettings.enableAutoResponse !== false });
+  }, [isInitialized, aiSettings.enableAutoResponse]);
+
+  // Model and voice can also be switched by voice command during a meeting
+  useEffect(() => {
+    if (!isInitialized || !coordinatorRef.current) return;
+    coordinatorRef.current.updateConfig({
+      ...(aiSettings.defaultModel && { model: aiSettings.defaultModel }),
+      ...(ttsSettings.voiceId && { voiceId: ttsSettings.voiceId }),
+    });
+  }, [isInitialized, aiSettings.defaultModel, ttsSettings.voiceId]);
+
   const startRecording = useCallback(async () => {
     if (!isClient || !isInitialized || !servicesRef.current) {
       console.warn('Audio recording requires initialized services');
@@ -175,23 +285,24 @@ export function useUniversalAssistantClient() {
       setError(null);
       setIsProcessing(true);
       
-      const { audioManager, deepgramSTT } = servicesRef.current;
+      const { audioManager, sttProvider } = servicesRef.current;
       
-      // Start Deepgram live transcription
-      await deepgramSTT.startLiveTranscription({
+      // Start live transcription; the provider ignores options it does not support
+      await sttProvider.startLiveTranscription({
         model: 'nova-2',
         language: 'en-US',
         punctuate: true,
         diarize: true,
         smart_format: true,
         utterances: true,
+        keywords: customVocabulary.getKeywords(),
       });
       
       // Start audio recording with chunk callback
       await audioManager.startRecording((chunk: Blob) => {
-        // Convert Blob to ArrayBuffer and send to Deepgram
+        // Convert Blob to ArrayBuffer and send to the STT provider
         chunk.arrayBuffer().then((arrayBuffer) => {
-          deepgramSTT.sendAudioChunk(arrayBuffer);
+          sttProvider.sendAudioChunk(arrayBuffer);
         });
       });
       
@@ -214,10 +325,10 @@ export function useUniversalAssistantClient() {
     
     try {
       console.log('Stopping recording...');
-      const { audioManager, deepgramSTT } = servicesRef.current;
+      const { audioManager, sttProvider } = servicesRef.current;
       
-      // Stop Deepgram transcription first to prevent new chunks from being processed
-      deepgramSTT.stopTranscription();
+      // Stop transcription first to prevent new chunks from being processed
+      sttProvider.stopTranscription();
       
       // Then stop audio recording to ensure no more chunks are generated
       audioManager.stopRecording();
@@ -268,14 +379,14 @@ export function useUniversalAssistantClient() {
       console.log('useUniversalAssistantClient: Component unmounting, running cleanup...');
       
       try {
-        // Stop recording if active - this will stop both AudioManager and DeepgramSTT
+        // Stop recording if active - this will stop both AudioManager and the STT provider
         if (servicesRef.current) {
           console.log('Stopping active recording during cleanup...');
-          const { audioManager, deepgramSTT } = servicesRef.current;
+          const { audioManager, sttProvider } = servicesRef.current;
           
           // Stop transcription first
-          if (deepgramSTT) {
-            deepgramSTT.stopTranscription();
+          if (sttProvider) {
+            sttProvider.stopTranscription();
           }
           
           // Stop audio recording
@@ -293,6 +404,9 @@ export function useUniversalAssistantClient() {
           streamRef.current = null;
         }
         
+        detachWakeWordRef.current?.();
+        detachWakeWordRef.current = null;
+
         // Clean up coordinator first
         if (coordinatorRef.current) {
           console.log('Cleaning up coordinator...');
@@ -343,6 +457,7 @@ export function useUniversalAssistantClient() {
     stopRecording,
     handleVocalInterrupt,
     triggerAIResponse,
+    wakeWord: { mode: activationMode, isListening: isWakeListening, wakePhrase },
     coordinator: coordinatorRef.current,
     isReady: isClient && isInitialized,
   };
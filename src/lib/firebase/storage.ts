@@ -1,6 +1,13 @@
 import { adminStorage } from '@/lib/firebase/admin';
 import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
 
+// File extensions for recording types whose subtype is not one
+const RECORDING_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/x-m4a': 'm4a',
+  'audio/x-wav': 'wav',
+};
+
 export class StorageService {
   // Upload voice sample
   static async uploadVoiceSample(
@@ -31,30 +38,56 @@ export class StorageService {
     
     return url;
   }
-  
+
+  // Delete voice samples for a profile
+  static async deleteVoiceSamples(userId: string, profileId: string): Promise<void> {
+    const storage = adminStorage();
+    if (!storage) {
+      throw new Error('Firebase Admin Storage not initialized');
+    }
+
+    await storage.bucket().deleteFiles({
+      prefix: `voice-samples/${userId}/${profileId}/`,
+    });
+  }
+
   // Upload meeting recording
   static async uploadMeetingRecording(
     meetingId: string,
     audioFile: Buffer,
-    ownerId: string
+    ownerId: string,
+    mimeType: string = 'audio/mpeg'
   ): Promise<string> {
     const storage = adminStorage();
     if (!storage) {
       throw new Error('Firebase Admin Storage not initialized');
     }
 
-    const fileName = `meeting-recordings/${meetingId}/full-recording.mp3`;
+    const extension = RECORDING_EXTENSIONS[mimeType] || mimeType.split('/')[1];
+    const fileName = `meeting-recordings/${meetingId}/full-recording.${extension}`;
     const file = storage.bucket().file(fileName);
     
     await file.save(audioFile, {
       metadata: {
-        contentType: 'audio/mpeg',
+        contentType: mimeType,
         metadata: { meetingId, ownerId, recordedAt: new Date().toISOString() }
       }
     });
     
     return fileName;
   }
+
+  // Delete a meeting's stored recording
+  static async deleteMeetingRecording(meetingId: string): Promise<void> {
+    const storage = adminStorage();
+    if (!storage) {
+      throw new Error('Firebase Admin Storage not initialized');
+    }
+
+    await storage.bucket().deleteFiles({
+      prefix: `meeting-recordings/${meetingId}/`,
+    });
+  }
   
   // Clean up expired TTS cache
   static async cleanupTTSCache(): Promise<void> {
@@ -463,6 +463,7 @@ export class AuthService {
         lastActive: userData.lastActive instanceof Timestamp 
           ? userData.lastActive.toDate() 
           : new Date(userData.lastActive),
+        voiceProfileId: userData.voiceProfileId ?? null,
       };
     } catch (error) {
       console.error('Error converting Firebase user:', error);
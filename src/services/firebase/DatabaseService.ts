@@ -38,8 +38,11 @@ import type {
   Meeting, 
   TranscriptEntry, 
   SpeakerProfile, 
+  SpeakerIdentity,
+  GlossaryTerm,
   CustomRule, 
   MeetingType,
+  MeetingNote,
   UserPreferences,
   Participant
 } from '@/types';
@@ -156,7 +159,8 @@ const trackQueryPerformance = async <T>(
 
 // Utility functions for Firestore timestamp conversion
 const convertTimestamps = (data: any): any => {
-  if (!data) return data;
+  // Primitives inside arrays (e.g. number[] embeddings) must be returned as-is
+  if (!data || typeof data !== 'object') return data;
   
   const converted = { ...data };
   
@@ -184,7 +188,8 @@ const convertTimestamps = (data: any): any => {
 };
 
 const convertDatesToTimestamps = (data: any): any => {
-  if (!data) return data;
+  // Primitives inside arrays (e.g. string[] fields) must pass through untouched
+  if (!data || typeof data !== 'object') return data;
   
   const converted = { ...data };
   
@@ -682,6 +687,39 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Get every transcript entry for a meeting in chronological order, paging
+   * through Firestore until the transcript or `maxEntries` is exhausted
+   */
+  static async getAllTranscriptEntries(
+    meetingId: string,
+    maxEntries: number = 2000,
+    pageSize: number = 500
+  ): Promise<TranscriptEntry[]> {
+    try {
+      const entries: TranscriptEntry[] = [];
+      let page = await this.getTranscriptEntries(meetingId, { limit: pageSize });
+      entries.push(...page.data);
+
+      while (page.hasMore && page.lastDoc && entries.length < maxEntries) {
+        page = await this.getTranscriptEntries(meetingId, {
+          limit: pageSize,
+          startAfterDoc: page.lastDoc
+        });
+        entries.push(...page.data);
+      }
+
+      return entries.slice(0, maxEntries);
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to get full transcript for meeting ${meetingId}`,
+        'TRANSCRIPT_GET_FAILED',
+        'getAllTranscriptEntries',
+        error as Error
+      );
+    }
+  }
+
   /**
    * Update transcript entry
    */
@@ -775,6 +813,110 @@ export class DatabaseService {
     }
   }
 
+  // ============ MEETING NOTES MANAGEMENT ============
+
+  /**
+   * Add a note to a meeting's notes subcollection
+   */
+  static async addMeetingNote(
+    meetingId: string,
+    noteData: Omit<MeetingNote, 'id' | 'meetingId' | 'createdAt'>
+  ): Promise<string> {
+    try {
+      const noteRef = await addDoc(
+        collection(db, 'meetings', meetingId, 'notes'),
+        convertDatesToTimestamps({
+          ...noteData,
+          meetingId,
+          createdAt: new Date()
+        })
+      );
+
+      return noteRef.id;
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to add note to meeting ${meetingId}`,
+        'MEETING_NOTE_ADD_FAILED',
+        'addMeetingNote',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get notes for a meeting, newest first, optionally only those taken since a given time
+   */
+  static async getMeetingNotes(
+    meetingId: string,
+    options: { since?: Date; limit?: number } = {}
+  ): Promise<MeetingNote[]> {
+    try {
+      const { since, limit: queryLimit = 200 } = options;
+
+      let notesQuery = query(
+        collection(db, 'meetings', meetingId, 'notes'),
+        orderBy('timestamp', 'desc'),
+        limit(queryLimit)
+      );
+
+      if (since) {
+        notesQuery = query(notesQuery, where('timestamp', '>=', Timestamp.fromDate(since)));
+      }
+
+      const snapshot = await getDocs(notesQuery);
+
+      return snapshot.docs.map(doc =>
+        convertTimestamps({ id: doc.id, ...doc.data() })
+      ) as MeetingNote[];
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to get notes for meeting ${meetingId}`,
+        'MEETING_NOTES_GET_FAILED',
+        'getMeetingNotes',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Search meeting notes by content, keywords or speaker
+   */
+  static async searchMeetingNotes(
+    meetingId: string,
+    searchTerm: string,
+    options: { since?: Date; limit?: number } = {}
+  ): Promise<MeetingNote[]> {
+    try {
+      // Firestore has no full-text search, so filter client-side on the (small) notes set
+      const notes = await this.getMeetingNotes(meetingId, options);
+      const terms = searchTerm
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(term => term.length > 0);
+
+      if (terms.length === 0) {
+        return notes;
+      }
+
+      return notes.filter(note => {
+        const haystack = [
+          note.content,
+          note.speakerName || '',
+          note.category || '',
+          ...(note.keywords || [])
+        ].join(' ').toLowerCase();
+        return terms.every(term => haystack.includes(term));
+      });
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to search notes for meeting ${meetingId}`,
+        'MEETING_NOTES_SEARCH_FAILED',
+        'searchMeetingNotes',
+        error as Error
+      );
+    }
+  }
+
   // ============ VOICE PROFILE MANAGEMENT ============
 
   /**
@@ -891,6 +1033,204 @@ export class DatabaseService {
     }
   }
 
+  // ============ SPEAKER IDENTITY MANAGEMENT ============
+
+  /**
+   * Create speaker identity
+   */
+  static async createSpeakerIdentity(
+    userId: string,
+    identityData: Omit<SpeakerIdentity, 'identityId'>
+  ): Promise<string> {
+    try {
+      const identityRef = await addDoc(
+        collection(db, 'users', userId, 'speakerIdentities'),
+        convertDatesToTimestamps(identityData)
+      );
+
+      return identityRef.id;
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to create speaker identity for user ${userId}`,
+        'SPEAKER_IDENTITY_CREATE_FAILED',
+        'createSpeakerIdentity',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get speaker identity
+   */
+  static async getSpeakerIdentity(userId: string, identityId: string): Promise<SpeakerIdentity | null> {
+    try {
+      const identityDoc = await getDoc(doc(db, 'users', userId, 'speakerIdentities', identityId));
+
+      if (!identityDoc.exists()) {
+        return null;
+      }
+
+      return convertTimestamps({
+        identityId: identityDoc.id,
+        ...identityDoc.data()
+      }) as SpeakerIdentity;
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to get speaker identity ${identityId}`,
+        'SPEAKER_IDENTITY_GET_FAILED',
+        'getSpeakerIdentity',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get all speaker identities for a user
+   */
+  static async getUserSpeakerIdentities(userId: string): Promise<SpeakerIdentity[]> {
+    try {
+      const snapshot = await getDocs(collection(db, 'users', userId, 'speakerIdentities'));
+
+      return snapshot.docs.map(doc =>
+        convertTimestamps({ identityId: doc.id, ...doc.data() })
+      ) as SpeakerIdentity[];
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to get speaker identities for user ${userId}`,
+        'USER_SPEAKER_IDENTITIES_GET_FAILED',
+        'getUserSpeakerIdentities',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Update speaker identity
+   */
+  static async updateSpeakerIdentity(
+    userId: string,
+    identityId: string,
+    updates: Partial<Omit<SpeakerIdentity, 'identityId'>>
+  ): Promise<void> {
+    try {
+      await updateDoc(
+        doc(db, 'users', userId, 'speakerIdentities', identityId),
+        convertDatesToTimestamps(updates)
+      );
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to update speaker identity ${identityId}`,
+        'SPEAKER_IDENTITY_UPDATE_FAILED',
+        'updateSpeakerIdentity',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Delete speaker identity
+   */
+  static async deleteSpeakerIdentity(userId: string, identityId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, 'users', userId, 'speakerIdentities', identityId));
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to delete speaker identity ${identityId}`,
+        'SPEAKER_IDENTITY_DELETE_FAILED',
+        'deleteSpeakerIdentity',
+        error as Error
+      );
+    }
+  }
+
+  // ============ GLOSSARY MANAGEMENT ============
+
+  /**
+   * Create glossary term
+   */
+  static async createGlossaryTerm(
+    userId: string,
+    termData: Omit<GlossaryTerm, 'termId' | 'createdAt' | 'updatedAt'>
+  ): Promise<string> {
+    try {
+      const now = new Date();
+      const termRef = await addDoc(
+        collection(db, 'users', userId, 'glossary'),
+        convertDatesToTimestamps({ ...termData, createdAt: now, updatedAt: now })
+      );
+
+      return termRef.id;
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to create glossary term for user ${userId}`,
+        'GLOSSARY_TERM_CREATE_FAILED',
+        'createGlossaryTerm',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Get all glossary terms for a user
+   */
+  static async getUserGlossary(userId: string): Promise<GlossaryTerm[]> {
+    try {
+      const snapshot = await getDocs(
+        query(collection(db, 'users', userId, 'glossary'), orderBy('term', 'asc'))
+      );
+
+      return snapshot.docs.map(doc =>
+        convertTimestamps({ termId: doc.id, ...doc.data() })
+      ) as GlossaryTerm[];
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to get glossary for user ${userId}`,
+        'USER_GLOSSARY_GET_FAILED',
+        'getUserGlossary',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Update glossary term
+   */
+  static async updateGlossaryTerm(
+    userId: string,
+    termId: string,
+    updates: Partial<Omit<GlossaryTerm, 'termId' | 'createdAt'>>
+  ): Promise<void> {
+    try {
+      await updateDoc(
+        doc(db, 'users', userId, 'glossary', termId),
+        convertDatesToTimestamps({ ...updates, updatedAt: new Date() })
+      );
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to update glossary term ${termId}`,
+        'GLOSSARY_TERM_UPDATE_FAILED',
+        'updateGlossaryTerm',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Delete glossary term
+   */
+  static async deleteGlossaryTerm(userId: string, termId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, 'users', userId, 'glossary', termId));
+    } catch (error) {
+      throw new DatabaseError(
+        `Failed to delete glossary term ${termId}`,
+        'GLOSSARY_TERM_DELETE_FAILED',
+        'deleteGlossaryTerm',
+        error as Error
+      );
+    }
+  }
+
   // ============ CUSTOM RULES MANAGEMENT ============
 
   /**
@@ -1041,16 +1381,20 @@ export class DatabaseService {
     entries: Array<Omit<TranscriptEntry, 'id'>>
   ): Promise<string[]> {
     try {
-      const batch = writeBatch(db);
       const createdIds: string[] = [];
-      
-      entries.forEach((entry) => {
-        const transcriptRef = doc(collection(db, 'meetings', meetingId, 'transcripts'));
-        batch.set(transcriptRef, convertDatesToTimestamps(entry));
-        createdIds.push(transcriptRef.id);
-      });
 
-      await batch.commit();
+      // Process in chunks to avoid Firestore batch size limits
+      const BATCH_SIZE = 500; // Firestore limit
+      for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        entries.slice(i, i + BATCH_SIZE).forEach((entry) => {
+          const transcriptRef = doc(collection(db, 'meetings', meetingId, 'transcripts'));
+          batch.set(transcriptRef, convertDatesToTimestamps(entry));
+          createdIds.push(transcriptRef.id);
+        });
+        await batch.commit();
+      }
+
       return createdIds;
     } catch (error) {
       throw new DatabaseError(
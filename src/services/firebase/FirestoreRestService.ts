@@ -46,7 +46,8 @@ import type {
   TranscriptEntry, 
   SpeakerProfile, 
   CustomRule, 
-  MeetingType
+  MeetingType,
+  MeetingNote
 } from '@/types';
 
 // Firebase config (same as client config)
@@ -455,6 +456,64 @@ export class FirestoreRestService {
     return () => pollingManager.stopPolling(pollId);
   }
 
+  /**
+   * Listen to meeting notes via polling
+   */
+  static listenToMeetingNotes(
+    meetingId: string,
+    callback: (update: RestUpdate<MeetingNote>) => void,
+    options: { limit?: number } = {},
+    config?: Partial<PollingConfig>
+  ): () => void {
+    const pollConfig = { ...DEFAULT_POLLING_CONFIG, ...config };
+    const pollId = `notes-${meetingId}`;
+
+    const fetchNotes = async (): Promise<RestUpdate<MeetingNote>> => {
+      try {
+        const { limit: queryLimit = 200 } = options;
+
+        const notesQuery = query(
+          collection(db, 'meetings', meetingId, 'notes'),
+          orderBy('timestamp', 'asc'),
+          limit(queryLimit)
+        );
+
+        const snapshot = await getDocs(notesQuery);
+        const notes: MeetingNote[] = [];
+
+        snapshot.docs.forEach((doc) => {
+          notes.push(convertTimestamps({ 
+            id: doc.id, 
+            ...doc.data() 
+          }) as MeetingNote);
+        });
+
+        return {
+          changes: notes.map(note => ({
+            type: 'added' as DocumentChangeType,
+            doc: note
+          })),
+          data: notes,
+          metadata: {
+            hasPendingWrites: false,
+            isFromCache: false
+          }
+        };
+      } catch (error) {
+        throw new FirestoreRestError(
+          `Failed to fetch notes for meeting ${meetingId}`,
+          'MEETING_NOTES_FETCH_FAILED',
+          'fetchNotes',
+          error as Error
+        );
+      }
+    };
+
+    pollingManager.startPolling(pollId, fetchNotes, callback, pollConfig);
+
+    return () => pollingManager.stopPolling(pollId);
+  }
+
   /**
    * Listen to voice profiles via polling
    */
@@ -17,7 +17,8 @@ import type {
   TranscriptEntry, 
   SpeakerProfile, 
   CustomRule,
-  MeetingType 
+  MeetingType,
+  MeetingNote
 } from '@/types';
 
 // Utility function for timestamp conversion (reused from DatabaseService)
@@ -70,6 +71,7 @@ export type MeetingListListener = (update: RealtimeUpdate<Meeting>) => void;
 export type TranscriptListener = (update: RealtimeUpdate<TranscriptEntry>) => void;
 export type VoiceProfileListener = (update: RealtimeUpdate<SpeakerProfile>) => void;
 export type CustomRuleListener = (update: RealtimeUpdate<CustomRule>) => void;
+export type MeetingNotesListener = (update: RealtimeUpdate<MeetingNote>) => void;
 
 // Error handling for real-time operations
 export class RealtimeError extends Error {
@@ -490,6 +492,80 @@ export class RealtimeService {
     }
   }
 
+  // ============ MEETING NOTES LISTENERS ============
+
+  /**
+   * Listen to notes taken for a meeting
+   */
+  static listenToMeetingNotes(
+    meetingId: string,
+    callback: MeetingNotesListener,
+    options: { limit?: number } = {}
+  ): Unsubscribe {
+    try {
+      const { limit: queryLimit = 200 } = options;
+
+      const notesQuery = query(
+        collection(db, 'meetings', meetingId, 'notes'),
+        orderBy('timestamp', 'asc'),
+        limit(queryLimit)
+      );
+
+      return onSnapshot(
+        notesQuery,
+        (snapshot) => {
+          const changes: DocumentChange<MeetingNote>[] = [];
+          const notes: MeetingNote[] = [];
+
+          snapshot.docChanges().forEach((change) => {
+            const noteData = convertTimestamps({ 
+              id: change.doc.id, 
+              ...change.doc.data() 
+            }) as MeetingNote;
+
+            changes.push({
+              type: change.type,
+              doc: noteData,
+              oldIndex: change.oldIndex,
+              newIndex: change.newIndex
+            });
+          });
+
+          snapshot.docs.forEach((doc) => {
+            notes.push(convertTimestamps({ 
+              id: doc.id, 
+              ...doc.data() 
+            }) as MeetingNote);
+          });
+
+          callback({
+            changes,
+            data: notes,
+            metadata: {
+              hasPendingWrites: snapshot.metadata.hasPendingWrites,
+              isFromCache: snapshot.metadata.fromCache
+            }
+          });
+        },
+        (error) => {
+          console.error('Meeting notes listener error:', error);
+          callback({
+            changes: [],
+            data: [],
+            metadata: { hasPendingWrites: false, isFromCache: false }
+          });
+        }
+      );
+    } catch (error) {
+      throw new RealtimeError(
+        `Failed to set up notes listener for meeting ${meetingId}`,
+        'MEETING_NOTES_LISTENER_FAILED',
+        'listenToMeetingNotes',
+        error as Error
+      );
+    }
+  }
+
   // ============ VOICE PROFILE LISTENERS ============
 
   /**
@@ -19,7 +19,8 @@ import type {
   TranscriptEntry, 
   SpeakerProfile, 
   CustomRule, 
-  MeetingType 
+  MeetingType,
+  MeetingNote
 } from '@/types';
 
 // Re-export types for compatibility
@@ -33,6 +34,7 @@ export type MeetingListListener = (update: RealtimeUpdate<Meeting>) => void;
 export type TranscriptListener = (update: RealtimeUpdate<TranscriptEntry>) => void;
 export type VoiceProfileListener = (update: RealtimeUpdate<SpeakerProfile>) => void;
 export type CustomRuleListener = (update: RealtimeUpdate<CustomRule>) => void;
+export type MeetingNotesListener = (update: RealtimeUpdate<MeetingNote>) => void;
 
 // Error handling (compatible with both services)
 export class UnifiedRealtimeError extends Error {
@@ -264,6 +266,28 @@ export class UnifiedRealtimeService {
     }
   }
 
+  // ============ MEETING NOTES LISTENERS ============
+
+  /**
+   * Listen to notes taken for a meeting
+   */
+  static listenToMeetingNotes(
+    meetingId: string,
+    callback: MeetingNotesListener,
+    options: { limit?: number } = {}
+  ): () => void {
+    if (this.useRestMode) {
+      return FirestoreRestService.listenToMeetingNotes(meetingId, callback, options, {
+        interval: this.config.pollingInterval,
+        maxRetries: this.config.maxRetries,
+        backoffMultiplier: this.config.backoffMultiplier,
+        maxBackoffDelay: this.config.maxBackoffDelay,
+      });
+    } else {
+      return RealtimeService.listenToMeetingNotes(meetingId, callback, options);
+    }
+  }
+
   // ============ VOICE PROFILE LISTENERS ============
 
   /**
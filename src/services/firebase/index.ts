@@ -24,7 +24,8 @@ export type {
   MeetingListListener,
   TranscriptListener,
   VoiceProfileListener,
-  CustomRuleListener
+  CustomRuleListener,
+  MeetingNotesListener
 } from './RealtimeService';
 
 // Usage examples and integration classes
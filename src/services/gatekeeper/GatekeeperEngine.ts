@@ -1,6 +1,10 @@
 import { MeetingType } from '@/types';
 import type { MeetingTypeConfig } from '@/types/gatekeeper/meetingTypes';
-import type { Rule } from '@/config/gatekeeper/ruleDefinitions';
+import { createDefaultRuleMap, isCompositeCondition } from '@/config/gatekeeper/ruleDefinitions';
+import type { LeafRuleCondition, MessageIntent, Rule, RuleAction, RuleCondition } from '@/config/gatekeeper/ruleDefinitions';
+import type { MeetingNote } from '@/types';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { getTopTerms, summarizeMessages, SummaryInput, SummaryStyle, tokenize } from './utils/RollingSummarizer';
 
 export interface SpeakerProfile {
   id: string;
@@ -19,109 +23,367 @@ export interface MeetingContext {
   type: MeetingType;
   participants: SpeakerProfile[];
   messageCount: number;
+  startTime?: number;
+}
+
+// Side effects of rule actions; injectable so the engine can run without Firestore
+export interface GatekeeperActionHandlers {
+  summarize(messages: SummaryInput[], style: SummaryStyle): Promise<string>;
+  saveNote(meetingId: string, note: Omit<MeetingNote, 'id' | 'meetingId' | 'createdAt'>): Promise<string>;
+}
+
+const DEFAULT_SWITCH_WINDOW = 10;
+const DEFAULT_TOPIC_WINDOW = 20;
+// Messages kept for conditions and summaries; older ones are dropped
+const MAX_HISTORY = 500;
+
+const defaultActionHandlers: GatekeeperActionHandlers = {
+  summarize: async (messages, style) => summarizeMessages(messages, style),
+  saveNote: (meetingId, note) => DatabaseService.addMeetingNote(meetingId, note),
+};
+
+interface HistoryEntry {
+  message: Message;
+  sender: SpeakerProfile;
+}
+
+export interface ConditionTrace {
+  type: RuleCondition['type'];
+  operator?: LeafRuleCondition['operator'];
+  value?: unknown;
+  matched: boolean;
+  reason: string;
+  children?: ConditionTrace[];
+}
+
+export interface RuleTrace {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  status: 'matched' | 'failed' | 'skipped' | 'not_evaluated';
+  reason: string;
+  conditions: ConditionTrace[];
+}
+
+export interface DecisionTrace {
+  meetingType: MeetingType;
+  intent: MessageIntent;
+  sender: { id: string; role?: string };
+  rules: RuleTrace[];
+  selectedRuleId?: string;
 }
 
 export interface RuleResult {
   shouldHandle: boolean;
-  action?: any;
-  response?: string;
+  actions: RuleAction[];
+  responses: string[];
+  noteIds: string[];
   confidence?: number;
+  conditions: ConditionTrace[];
 }
 
 export interface GatekeeperDecision {
   action: any;
+  actions?: RuleAction[];
   response?: string;
-  metadata?: { ruleId?: string; confidence?: number };
+  metadata?: { ruleId?: string; confidence?: number; noteIds?: string[] };
+  trace: DecisionTrace;
 }
 
 export class GatekeeperEngine {
   private rules: Map<string, Rule[]> = new Map();
   private meetingType: MeetingType;
   private context: MeetingContext;
+  private handlers: GatekeeperActionHandlers;
+  private history: HistoryEntry[] = [];
+  private lastSummaryIndex = 0;
+  private startTime: number;
 
-  constructor(meetingType: MeetingType, context: MeetingContext, meetingRules?: Map<string, Rule[]>) {
+  constructor(
+    meetingType: MeetingType,
+    context: MeetingContext,
+    meetingRules?: Map<string, Rule[]>,
+    handlers: Partial<GatekeeperActionHandlers> = {}
+  ) {
     this.meetingType = meetingType;
     this.context = context;
-    if (meetingRules) {
-      this.rules = meetingRules;
-    }
+    this.rules = meetingRules || createDefaultRuleMap();
+    this.handlers = { ...defaultActionHandlers, ...handlers };
+    this.startTime = context.startTime ?? Date.now();
   }
 
   async processMessage(message: Message, sender: SpeakerProfile): Promise<GatekeeperDecision> {
+    this.history.push({ message, sender });
+    if (this.history.length > MAX_HISTORY) {
+      const dropped = this.history.length - MAX_HISTORY;
+      this.history.splice(0, dropped);
+      this.lastSummaryIndex = Math.max(0, this.lastSummaryIndex - dropped);
+    }
+    this.context.messageCount += 1;
+
     const intent = await this.classifyIntent(message);
+    const trace: DecisionTrace = {
+      meetingType: this.meetingType,
+      intent,
+      sender: { id: sender.id, role: sender.role },
+      rules: [],
+    };
+
+    const candidates = [...(this.rules.get(this.meetingType) || [])].sort((a, b) => b.priority - a.priority);
     const applicableRules = this.getApplicableRules(this.meetingType, intent, sender);
+    const applicableIds = new Set(applicableRules.map(rule => rule.id));
 
+    // Rules filtered out by intent or role are still listed so the trace is complete
+    candidates
+      .filter(rule => !applicableIds.has(rule.id))
+      .forEach(rule => trace.rules.push(this.traceRule(rule, 'skipped', this.getSkipReason(rule, intent, sender) || 'filtered')));
+
+    let decision: GatekeeperDecision | null = null;
     for (const rule of applicableRules) {
-      const result = await this.applyRule(rule, message);
-      if (result.shouldHandle) {
-        return {
-          action: result.action,
-          response: result.response,
-          metadata: { ruleId: rule.id, confidence: result.confidence },
-        };
+      if (decision) {
+        trace.rules.push(this.traceRule(rule, 'not_evaluated', `lower priority than matched rule ${decision.metadata?.ruleId}`));
+        continue;
+      }
+
+      const result = await this.applyRule(rule, message, sender);
+      if (!result.shouldHandle) {
+        const failed = result.conditions.filter(condition => !condition.matched).length;
+        trace.rules.push(this.traceRule(rule, 'failed', `${failed} of ${result.conditions.length} conditions failed`, result.conditions));
+        continue;
       }
+
+      trace.rules.push(this.traceRule(rule, 'matched', 'all conditions matched', result.conditions));
+      trace.selectedRuleId = rule.id;
+      decision = {
+        action: result.actions[0],
+        actions: result.actions,
+        response: result.responses.length > 0 ? result.responses.join(' ') : undefined,
+        metadata: {
+          ruleId: rule.id,
+          confidence: result.confidence,
+          ...(result.noteIds.length > 0 ? { noteIds: result.noteIds } : {}),
+        },
+        trace,
+      };
     }
 
-    return this.getDefaultDecision(message, intent);
+    return decision || this.getDefaultDecision(message, intent, trace);
   }
 
-  private async classifyIntent(message: Message): Promise<string> {
+  private async classifyIntent(message: Message): Promise<MessageIntent> {
     // Simple heuristic intent classification
     const text = message.text.toLowerCase();
     if (/[?]/.test(text)) return 'question';
     if (/action|todo|next steps/.test(text)) return 'action_item';
     if (/block(ed|er)|issue|stuck/.test(text)) return 'blocker';
+    if (/we decided|decision|agreed|let's go with/.test(text)) return 'decision';
     return 'statement';
   }
 
-  private getApplicableRules(meetingType: MeetingType, intent: string, sender: SpeakerProfile): Rule[] {
+  private getApplicableRules(meetingType: MeetingType, intent: MessageIntent, sender: SpeakerProfile): Rule[] {
     const rules = this.rules.get(meetingType) || [];
-    return [...rules].sort((a, b) => b.priority - a.priority);
+    return rules
+      .filter(rule => !this.getSkipReason(rule, intent, sender))
+      .sort((a, b) => b.priority - a.priority);
   }
 
-  private async applyRule(rule: Rule, message: Message): Promise<RuleResult> {
-    const conditionsMet = rule.conditions.every(condition => this.evaluateCondition(condition, message));
-    if (!conditionsMet) return { shouldHandle: false };
+  private getSkipReason(rule: Rule, intent: MessageIntent, sender: SpeakerProfile): string | null {
+    if (rule.intents?.length && !rule.intents.includes(intent)) {
+      return `intent '${intent}' not in [${rule.intents.join(', ')}]`;
+    }
+    if (rule.roles?.length && (!sender.role || !rule.roles.includes(sender.role))) {
+      return `speaker role '${sender.role || 'unknown'}' not in [${rule.roles.join(', ')}]`;
+    }
+    return null;
+  }
+
+  private async applyRule(rule: Rule, message: Message, sender: SpeakerProfile): Promise<RuleResult> {
+    // Evaluate every condition (no short-circuit) so the trace explains each one
+    const conditions = rule.conditions.map(condition => this.evaluateCondition(condition, message, sender));
+    if (!conditions.every(condition => condition.matched)) {
+      return { shouldHandle: false, actions: [], responses: [], noteIds: [], conditions };
+    }
+
+    const responses: string[] = [];
+    const noteIds: string[] = [];
+    for (const action of rule.actions) {
+      const outcome = await this.executeAction(action, rule, message, sender);
+      if (outcome.response) responses.push(outcome.response);
+      if (outcome.noteId) noteIds.push(outcome.noteId);
+    }
 
-    // Execute first action that applies
-    const firstAction = rule.actions[0];
-    const response = this.executeAction(firstAction, message);
     return {
       shouldHandle: true,
-      action: firstAction,
-      response,
+      actions: rule.actions,
+      responses,
+      noteIds,
       confidence: rule.confidence,
+      conditions,
     };
   }
 
-  private evaluateCondition(condition: any, message: Message): boolean {
+  private evaluateCondition(condition: RuleCondition, message: Message, sender: SpeakerProfile): ConditionTrace {
+    if (isCompositeCondition(condition)) {
+      const children = condition.conditions.map(child => this.evaluateCondition(child, message, sender));
+      const matchedCount = children.filter(child => child.matched).length;
+      const matched = condition.type === 'any'
+        ? matchedCount > 0
+        : condition.type === 'all'
+          ? matchedCount === children.length
+          : matchedCount === 0;
+      return {
+        type: condition.type,
+        matched,
+        reason: `${matchedCount} of ${children.length} child conditions matched`,
+        children,
+      };
+    }
+
+    // Narrowing does not carry into the closures below
+    const leaf: LeafRuleCondition = condition;
+    const text = message.text.toLowerCase();
+    const result = (matched: boolean, reason: string): ConditionTrace => ({
+      type: leaf.type,
+      operator: leaf.operator,
+      value: leaf.value instanceof RegExp ? leaf.value.toString() : leaf.value,
+      matched,
+      reason,
+    });
+    const compare = (actual: number, label: string): ConditionTrace => {
+      const expected = Number(leaf.value);
+      const matched = leaf.operator === 'greater'
+        ? actual > expected
+        : leaf.operator === 'less'
+          ? actual < expected
+          : leaf.operator === 'equals' && Math.floor(actual) === expected;
+      return result(matched, `${label} ${actual} is ${matched ? '' : 'not '}${leaf.operator} ${expected}`);
+    };
+
     switch (condition.type) {
-      case 'keyword':
-        return (condition.value as string[]).some((kw: string) => message.text.toLowerCase().includes(kw));
-      case 'pattern':
-        return (condition.value as RegExp).test(message.text);
-      case 'messageCount':
-        if (condition.operator === 'equals') return this.context.messageCount % Number(condition.value) === 0;
-        return false;
-      case 'questionDetected':
+      case 'keyword': {
+        const keywords: string[] = Array.isArray(condition.value) ? condition.value : [String(condition.value)];
+        const hit = keywords.find(kw => text.includes(kw.toLowerCase()));
+        return hit ? result(true, `keyword '${hit}' found`) : result(false, `none of [${keywords.join(', ')}] found`);
+      }
+      case 'pattern': {
+        let pattern: RegExp;
+        try {
+          pattern = condition.value instanceof RegExp ? condition.value : new RegExp(String(condition.value), 'i');
+        } catch (error) {
+          return result(false, `invalid pattern: ${(error as Error).message}`);
+        }
+        return pattern.test(message.text)
+          ? result(true, `pattern ${pattern} matched`)
+          : result(false, `pattern ${pattern} did not match`);
+      }
+      case 'messageCount': {
+        if (condition.operator !== 'equals') {
+          return compare(this.context.messageCount, 'message count');
+        }
+        const every = Number(condition.value);
+        const matched = every > 0 && this.context.messageCount % every === 0;
+        return result(matched, `message ${this.context.messageCount} ${matched ? 'is' : 'is not'} a multiple of ${every}`);
+      }
+      case 'questionDetected': {
         const isQuestion = /\?/.test(message.text);
-        return condition.operator === 'equals' ? isQuestion === Boolean(condition.value) : false;
+        const matched = condition.operator === 'equals' ? isQuestion === Boolean(condition.value) : false;
+        return result(matched, `message ${isQuestion ? 'is' : 'is not'} a question`);
+      }
+      case 'elapsedTime': {
+        const minutes = Math.max(0, (message.timestamp - this.startTime) / 60000);
+        return compare(Math.round(minutes * 10) / 10, 'elapsed minutes');
+      }
+      case 'speaker': {
+        const expected: string[] = (Array.isArray(condition.value) ? condition.value : [condition.value]).map(String);
+        const candidates = [sender.id, sender.name].filter((c): c is string => Boolean(c));
+        let patterns: RegExp[] = [];
+        if (condition.operator === 'matches') {
+          try {
+            patterns = expected.map(value => new RegExp(value, 'i'));
+          } catch (error) {
+            return result(false, `invalid speaker pattern: ${(error as Error).message}`);
+          }
+        }
+        const hit = candidates.find(candidate => expected.some((value, index) => {
+          if (condition.operator === 'matches') return patterns[index].test(candidate);
+          if (condition.operator === 'contains') return candidate.toLowerCase().includes(value.toLowerCase());
+          return candidate.toLowerCase() === value.toLowerCase();
+        }));
+        return hit ? result(true, `speaker '${hit}' matched`) : result(false, `speaker '${sender.name || sender.id}' did not match`);
+      }
+      case 'speakerRole': {
+        const roles: string[] = (Array.isArray(condition.value) ? condition.value : [condition.value]).map(String);
+        const matched = Boolean(sender.role && roles.includes(sender.role));
+        return result(matched, `speaker role '${sender.role || 'unknown'}' ${matched ? 'is' : 'is not'} in [${roles.join(', ')}]`);
+      }
+      case 'silence': {
+        const previous = this.history[this.history.length - 2];
+        if (!previous) return result(false, 'no previous message');
+        return compare(Math.max(0, (message.timestamp - previous.message.timestamp) / 1000), 'silence seconds');
+      }
+      case 'speakerSwitches': {
+        const recent = this.history.slice(-(condition.window || DEFAULT_SWITCH_WINDOW));
+        const switches = recent.filter((entry, index) => index > 0 && entry.sender.id !== recent[index - 1].sender.id).length;
+        return compare(switches, `speaker switches in last ${recent.length} messages`);
+      }
+      case 'repeatedTopic': {
+        const terms = new Set(tokenize(message.text));
+        const recent = this.history.slice(-(condition.window || DEFAULT_TOPIC_WINDOW));
+        const counts = new Map<string, number>();
+        recent.forEach(entry => {
+          new Set(tokenize(entry.message.text)).forEach(term => {
+            if (terms.has(term)) counts.set(term, (counts.get(term) || 0) + 1);
+          });
+        });
+        const [topic, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] || ['', 0];
+        return compare(count, topic ? `topic '${topic}' mentions` : 'topic mentions');
+      }
       default:
-        return false;
+        return result(false, `unsupported condition type '${(condition as RuleCondition).type}'`);
     }
   }
 
-  private executeAction(action: any, message: Message): string | undefined {
-    if (action.type === 'respond' && action.template) {
-      return action.template.replace('{topic}', this.extractTopic(message.text));
-    }
-    if (action.type === 'summarize') {
-      return 'Here are the key points so far: ...';
-    }
-    if (action.type === 'note') {
-      return undefined; // side-effect in real impl
+  private async executeAction(
+    action: RuleAction,
+    rule: Rule,
+    message: Message,
+    sender: SpeakerProfile
+  ): Promise<{ response?: string; noteId?: string }> {
+    switch (action.type) {
+      case 'respond':
+        return { response: action.template?.replace('{topic}', this.extractTopic(message.text)) };
+
+      case 'summarize': {
+        // Rolling summary: only what was said since the previous summary
+        const window = this.history.slice(this.lastSummaryIndex).map(({ message: entry, sender: speaker }) => ({
+          text: entry.text,
+          speakerName: speaker.name,
+          timestamp: entry.timestamp,
+        }));
+        this.lastSummaryIndex = this.history.length;
+        return { response: await this.handlers.summarize(window, action.style || 'short') };
+      }
+
+      case 'note':
+        try {
+          const noteId = await this.handlers.saveNote(this.context.meetingId, {
+            content: message.text,
+            speakerId: sender.id,
+            speakerName: sender.name,
+            category: action.category || 'general',
+            keywords: getTopTerms([{ text: message.text, timestamp: message.timestamp }]),
+            source: `gatekeeper:${rule.id}`,
+            timestamp: new Date(message.timestamp),
+          });
+          return { noteId };
+        } catch (error) {
+          console.error(`GatekeeperEngine: Failed to save note for rule ${rule.id}:`, error);
+          return {};
+        }
+
+      default:
+        return {};
     }
-    return undefined;
   }
 
   private extractTopic(text: string): string {
@@ -129,9 +391,11 @@ export class GatekeeperEngine {
     return words.slice(0, 3).join(' ');
   }
 
-  private getDefaultDecision(message: Message, intent: string): GatekeeperDecision {
-    return { action: { type: 'none', intent }, response: undefined };
+  private traceRule(rule: Rule, status: RuleTrace['status'], reason: string, conditions: ConditionTrace[] = []): RuleTrace {
+    return { ruleId: rule.id, ruleName: rule.name, priority: rule.priority, status, reason, conditions };
   }
-}
-
 
+  private getDefaultDecision(message: Message, intent: MessageIntent, trace: DecisionTrace): GatekeeperDecision {
+    return { action: { type: 'none', intent }, response: undefined, trace };
+  }
+}
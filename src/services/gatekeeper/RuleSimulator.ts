@@ -0,0 +1,207 @@
+/**
+ * RuleSimulator - Replays a recorded transcript through the gatekeeper and custom rules
+ * without touching Firestore, so rules can be tuned before they run in a live meeting
+ */
+
+import type { AIModel, CustomRule, Meeting, TranscriptEntry } from '@/types';
+import type { CostEstimation } from '@/types/cost';
+import type { AgentDataAccess } from '@/types/agent/agentInterface';
+import { createDefaultRuleMap } from '@/config/gatekeeper/ruleDefinitions';
+import type { Rule, RuleAction } from '@/config/gatekeeper/ruleDefinitions';
+import { ContextSourcingAgent } from '@/agents/ContextSourcingAgent';
+import type { RuleActionOutput } from '@/agents/utils/customRuleEvaluator';
+import { useCostStore } from '@/stores/costStore';
+import { DecisionTrace, GatekeeperEngine } from './GatekeeperEngine';
+
+export type CostEstimator = (prompt: string, model: AIModel, context?: string[]) => CostEstimation;
+
+export interface RuleSimulationOptions {
+  userId: string;
+  // Custom rules evaluated by ContextSourcingAgent; none when omitted
+  customRules?: CustomRule[];
+  gatekeeperRules?: Rule[];
+  includeBuiltInRules: boolean;
+  model: AIModel;
+  maxUtterances: number;
+  estimateCost?: CostEstimator;
+}
+
+export interface SimulatedFiring {
+  entryId: string;
+  timestamp: Date;
+  speakerId: string;
+  speakerName?: string;
+  text: string;
+  gatekeeper?: {
+    ruleId: string;
+    actions: RuleAction[];
+    response?: string;
+    trace: DecisionTrace;
+  };
+  customRules: RuleActionOutput[];
+  responses: string[];
+  estimatedCost: number;
+}
+
+export interface RuleHitSummary {
+  ruleId: string;
+  ruleName: string;
+  source: 'gatekeeper' | 'custom';
+  count: number;
+}
+
+export interface RuleSimulationResult {
+  meetingId: string;
+  meetingType: Meeting['type'];
+  utterancesProcessed: number;
+  truncated: boolean;
+  firings: SimulatedFiring[];
+  ruleHits: RuleHitSummary[];
+  totalEstimatedCost: number;
+  model: AIModel;
+}
+
+const DEFAULT_OPTIONS: Omit<RuleSimulationOptions, 'userId'> = {
+  includeBuiltInRules: true,
+  model: 'gpt-4o-mini',
+  maxUtterances: 2000,
+};
+
+// Reads return the rules under test; anything that would write is refused
+function createSimulationDataAccess(meeting: Meeting, customRules: CustomRule[]): AgentDataAccess {
+  const readOnly = async (): Promise<never> => {
+    throw new Error('Writes are disabled during rule simulation');
+  };
+  return {
+    getMeeting: async () => meeting,
+    updateMeeting: readOnly,
+    addMeetingNote: readOnly,
+    getMeetingNotes: async () => [],
+    searchMeetingNotes: async () => [],
+    getUserCustomRules: async () => customRules,
+    createCustomRule: readOnly,
+    updateCustomRule: readOnly,
+  };
+}
+
+function toTime(value: Date | string | number | undefined): number {
+  if (value === undefined) return Date.now();
+  return new Date(value).getTime();
+}
+
+export async function simulateRules(
+  meeting: Meeting,
+  transcript: TranscriptEntry[],
+  options: Partial<RuleSimulationOptions> & Pick<RuleSimulationOptions, 'userId'>
+): Promise<RuleSimulationResult> {
+  const config: RuleSimulationOptions = { ...DEFAULT_OPTIONS, ...options };
+  const estimateCost = config.estimateCost || useCostStore.getState().estimateCost;
+
+  const entries = [...transcript]
+    .filter(entry => (entry.text || entry.content || '').trim())
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+  const replayed = entries.slice(0, config.maxUtterances);
+  const startTime = meeting.startTime ? toTime(meeting.startTime) : toTime(replayed[0]?.timestamp);
+
+  const rules = config.includeBuiltInRules ? createDefaultRuleMap().get(meeting.type) || [] : [];
+  const ruleMap = new Map<string, Rule[]>([[meeting.type, [...rules, ...(config.gatekeeperRules || [])]]]);
+  const ruleNames = new Map((ruleMap.get(meeting.type) || []).map(rule => [rule.id, rule.name]));
+
+  let noteCount = 0;
+  const engine = new GatekeeperEngine(
+    meeting.type,
+    {
+      meetingId: meeting.meetingId,
+      type: meeting.type,
+      participants: (meeting.participants || []).map(p => ({ id: p.userId || p.id, name: p.displayName || p.userName, role: p.role })),
+      messageCount: 0,
+      startTime,
+    },
+    ruleMap,
+    {
+      saveNote: async () => `simulated_note_${++noteCount}`,
+    }
+  );
+
+  // A fresh agent so the live agent's rule cache is neither used nor polluted
+  const agent = new ContextSourcingAgent();
+  const db = createSimulationDataAccess(meeting, config.customRules || []);
+
+  const firings: SimulatedFiring[] = [];
+  const hits = new Map<string, RuleHitSummary>();
+  const countHit = (ruleId: string, ruleName: string, source: RuleHitSummary['source']) => {
+    const key = `${source}:${ruleId}`;
+    const hit = hits.get(key) || { ruleId, ruleName, source, count: 0 };
+    hit.count += 1;
+    hits.set(key, hit);
+  };
+
+  for (const entry of replayed) {
+    const text = entry.text || entry.content;
+    const timestamp = toTime(entry.timestamp);
+    const participant = (meeting.participants || []).find(p => (p.userId || p.id) === entry.speakerId);
+    const speakerName = entry.speakerName || participant?.displayName;
+
+    const decision = await engine.processMessage(
+      { id: entry.id, text, timestamp },
+      { id: entry.speakerId, name: speakerName, role: participant?.role }
+    );
+
+    const agentResult = await agent.execute({
+      meetingId: meeting.meetingId,
+      userId: config.userId,
+      meetingType: meeting.type,
+      transcript: text,
+      speakerId: entry.speakerId,
+      speakerName,
+      timestamp: new Date(timestamp),
+      meetingStartTime: new Date(startTime),
+      db,
+    });
+    const customOutputs: RuleActionOutput[] = agentResult.success ? agentResult.data?.ruleOutputs || [] : [];
+
+    const ruleId = decision.metadata?.ruleId;
+    if (!ruleId && customOutputs.length === 0) continue;
+
+    const responses = [
+      ...(decision.response ? [decision.response] : []),
+      ...customOutputs.flatMap(output =>
+        output.actions
+          .filter(action => action.type === 'respond')
+          .map(action => action.parameters?.message || action.parameters?.template)
+          .filter((message): message is string => Boolean(message))
+      ),
+    ];
+
+    // Only spoken responses would have needed a model round-trip
+    const estimatedCost = responses.length > 0 ? estimateCost(text, config.model, responses).estimatedCost : 0;
+
+    if (ruleId) countHit(ruleId, ruleNames.get(ruleId) || ruleId, 'gatekeeper');
+    customOutputs.forEach(output => countHit(output.ruleId, output.ruleName, 'custom'));
+
+    firings.push({
+      entryId: entry.id,
+      timestamp: new Date(timestamp),
+      speakerId: entry.speakerId,
+      speakerName,
+      text,
+      gatekeeper: ruleId
+        ? { ruleId, actions: decision.actions || [], response: decision.response, trace: decision.trace }
+        : undefined,
+      customRules: customOutputs,
+      responses,
+      estimatedCost,
+    });
+  }
+
+  return {
+    meetingId: meeting.meetingId,
+    meetingType: meeting.type,
+    utterancesProcessed: replayed.length,
+    truncated: entries.length > replayed.length,
+    firings,
+    ruleHits: Array.from(hits.values()).sort((a, b) => b.count - a.count),
+    totalEstimatedCost: firings.reduce((sum, firing) => sum + firing.estimatedCost, 0),
+    model: config.model,
+  };
+}
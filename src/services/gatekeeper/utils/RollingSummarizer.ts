@@ -0,0 +1,107 @@
+/**
+ * RollingSummarizer - Extractive summaries of the conversation window since the last summary
+ * Scores sentences by term frequency so no AI round-trip is needed mid-meeting
+ */
+
+export type SummaryStyle = 'bullet_points' | 'short' | 'detailed';
+
+export interface SummaryInput {
+  text: string;
+  speakerName?: string;
+  timestamp: number;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are',
+  'was', 'were', 'be', 'been', 'it', 'this', 'that', 'we', 'i', 'you', 'they', 'so', 'just', 'like',
+  'um', 'uh', 'yeah', 'okay', 'ok', 'have', 'has', 'do', 'did', 'can', 'will', 'would', 'there', 'what',
+]);
+
+// Sentences carrying outcomes are worth more than chatter of the same length
+const OUTCOME_PATTERN = /\b(?:decided|agreed|will|blocked|deadline|next steps?|action|done|finished|completed|risk)\b/i;
+
+const SENTENCE_LIMITS: Record<SummaryStyle, number> = {
+  short: 2,
+  bullet_points: 5,
+  detailed: 8,
+};
+
+interface ScoredSentence {
+  text: string;
+  speakerName?: string;
+  order: number;
+  score: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.split(/\s+/).length >= 3);
+}
+
+export function getTopTerms(inputs: SummaryInput[], limit = 5): string[] {
+  const frequency = new Map<string, number>();
+  inputs.forEach(input => tokenize(input.text).forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1)));
+  return Array.from(frequency.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+export function summarizeMessages(inputs: SummaryInput[], style: SummaryStyle = 'short'): string {
+  if (inputs.length === 0) {
+    return 'Nothing new has been discussed since the last summary.';
+  }
+
+  const frequency = new Map<string, number>();
+  inputs.forEach(input => tokenize(input.text).forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1)));
+
+  const sentences: ScoredSentence[] = [];
+  inputs.forEach(input => {
+    splitSentences(input.text).forEach(sentence => {
+      const words = tokenize(sentence);
+      if (words.length === 0) return;
+      const termScore = words.reduce((sum, word) => sum + (frequency.get(word) || 0), 0) / Math.sqrt(words.length);
+      sentences.push({
+        text: sentence,
+        speakerName: input.speakerName,
+        order: sentences.length,
+        score: termScore * (OUTCOME_PATTERN.test(sentence) ? 1.5 : 1),
+      });
+    });
+  });
+
+  // Keep the highest scoring sentences, then restore conversation order
+  const selected = [...sentences]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, SENTENCE_LIMITS[style])
+    .sort((a, b) => a.order - b.order);
+
+  if (selected.length === 0) {
+    return `Brief exchange about ${getTopTerms(inputs, 3).join(', ') || 'general topics'}.`;
+  }
+
+  const attribute = (sentence: ScoredSentence) =>
+    sentence.speakerName ? `${sentence.speakerName}: ${sentence.text}` : sentence.text;
+
+  switch (style) {
+    case 'bullet_points':
+      return ['Key points so far:', ...selected.map(sentence => `- ${attribute(sentence)}`)].join('\n');
+    case 'detailed': {
+      const speakers = new Set(inputs.map(input => input.speakerName).filter(Boolean));
+      const header = `Over the last ${inputs.length} messages${speakers.size > 0 ? ` from ${speakers.size} speaker${speakers.size === 1 ? '' : 's'}` : ''}, the discussion focused on ${getTopTerms(inputs, 3).join(', ')}.`;
+      return [header, ...selected.map(attribute)].join(' ');
+    }
+    case 'short':
+    default:
+      return selected.map(sentence => sentence.text).join(' ');
+  }
+}
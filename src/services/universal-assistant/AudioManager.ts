@@ -3,8 +3,10 @@ import { createConversationInputHandlers } from '@/services/gating/ConversationI
 import { EnhancedInputGatekeeper } from '@/services/gatekeeper/EnhancedInputGatekeeper';
 import { ConcurrentGatekeeper } from '@/services/gatekeeper/ConcurrentGatekeeper';
 import { ConversationResponse } from '@/services/universal-assistant/ConversationProcessor';
+import { echoSuppressionService } from './EchoSuppressionService';
 
 export interface AudioManagerConfig {
+  // Ignore input while the assistant speaks; only applies when echo suppression is off
   enableInputGating: boolean;
   enableConcurrentProcessing: boolean;
   chunkInterval: number;
@@ -26,6 +28,14 @@ export interface AudioManagerConfig {
   };
 }
 
+// Where playback was when someone talked over it
+export interface InterruptedPlayback {
+  url: string;
+  // Seconds into the audio
+  position: number;
+  interruptedAt: number;
+}
+
 export class AudioManager {
     private audioContext: AudioContext | null = null;
     private mediaRecorder: MediaRecorder | null = null;
@@ -34,6 +44,12 @@ export class AudioManager {
     private activeAudio: HTMLAudioElement | null = null;
     private audioQueue: HTMLAudioElement[] = [];
     private activeAudioElements: Set<HTMLAudioElement> = new Set();
+    // Kept so the last thing the assistant said can be played again
+    private lastPlaybackUrl: string | null = null;
+    private playbackVolume: number = 1;
+    // Fraction of the playback volume while ducked under someone talking, or null
+    private duckLevel: number | null = null;
+    private interruptedPlayback: InterruptedPlayback | null = null;
     private recordingCallbacks: ((chunk: Blob) => void)[] = [];
     private inputGatekeeper: InputGatekeeper;
     private enhancedInputGatekeeper: EnhancedInputGatekeeper | null = null;
@@ -644,6 +660,17 @@ export class AudioManager {
       this.activeAudio = null;
     }
 
+    pausePlayback(): boolean {
+      let paused = false;
+      this.activeAudioElements.forEach(audio => {
+        if (!audio.paused) {
+          audio.pause();
+          paused = true;
+        }
+      });
+      return paused;
+    }
+
     resumePlayback(): void {
       // Resume playback for all paused audio elements
       this.activeAudioElements.forEach(audio => {
@@ -657,6 +684,105 @@ export class AudioManager {
       return !!this.activeAudio && !this.activeAudio.paused;
     }
 
+    hasPausedPlayback(): boolean {
+      return Array.from(this.activeAudioElements).some(audio => audio.paused && audio.currentTime > 0);
+    }
+
+    /**
+     * Play the most recent playback again. Returns false when nothing has been played.
+     */
+    async replayLast(): Promise<boolean> {
+      if (!this.lastPlaybackUrl) {
+        return false;
+      }
+      await this.play(this.lastPlaybackUrl);
+      return true;
+    }
+
+    setPlaybackVolume(volume: number): void {
+      this.playbackVolume = Math.max(0, Math.min(1, volume));
+      this.applyPlaybackVolume();
+    }
+
+    /**
+     * Lower playback to a fraction of its volume without changing the volume setting
+     */
+    duckPlayback(level: number): void {
+      this.duckLevel = Math.max(0, Math.min(1, level));
+      this.applyPlaybackVolume();
+    }
+
+    unduckPlayback(): void {
+      if (this.duckLevel === null) return;
+      this.duckLevel = null;
+      this.applyPlaybackVolume();
+    }
+
+    isDucked(): boolean {
+      return this.duckLevel !== null;
+    }
+
+    /**
+     * Stop playback and remember where it stopped, so it can be picked up again.
+     * Returns null when nothing was playing.
+     */
+    interruptPlayback(): InterruptedPlayback | null {
+      const audio = this.activeAudio;
+      const url = this.lastPlaybackUrl;
+      if (!audio || audio.paused || !url) {
+        return null;
+      }
+
+      this.interruptedPlayback = { url, position: audio.currentTime, interruptedAt: Date.now() };
+      this.stopAllAudio();
+      this.unduckPlayback();
+      return { ...this.interruptedPlayback };
+    }
+
+    getInterruptedPlayback(): InterruptedPlayback | null {
+      return this.interruptedPlayback ? { ...this.interruptedPlayback } : null;
+    }
+
+    /**
+     * Continue interrupted playback from where it stopped. Returns false when there is none.
+     */
+    async resumeInterruptedPlayback(): Promise<boolean> {
+      const interrupted = this.interruptedPlayback;
+      if (!interrupted) {
+        return false;
+      }
+      this.interruptedPlayback = null;
+      await this.play(interrupted.url, undefined, interrupted.position);
+      return true;
+    }
+
+    private applyPlaybackVolume(): void {
+      const volume = this.playbackVolume * (this.duckLevel ?? 1);
+      this.activeAudioElements.forEach(audio => {
+        audio.volume = volume;
+      });
+    }
+
+    getPlaybackVolume(): number {
+      return this.playbackVolume;
+    }
+
+    // Muting keeps the recording running, so unmuting does not restart the transcription session
+    setMicrophoneMuted(muted: boolean): boolean {
+      if (!this.audioStream) {
+        return false;
+      }
+      this.audioStream.getAudioTracks().forEach(track => {
+        track.enabled = !muted;
+      });
+      return true;
+    }
+
+    isMicrophoneMuted(): boolean {
+      const tracks = this.audioStream?.getAudioTracks() || [];
+      return tracks.length > 0 && tracks.every(track => !track.enabled);
+    }
+
     private cleanupAudio(audio: HTMLAudioElement): void {
       const index = this.audioQueue.indexOf(audio);
       if (index > -1) {
@@ -752,10 +878,11 @@ export class AudioManager {
     }
 
     // Enhanced TTS gating with concurrent processing support
-    async play(url: string, speakerId?: string): Promise<void> {
-      // Gate input during TTS playback if enabled
-      if (this.config.enableInputGating) {
-        const playbackPromise = this.performPlayback(url);
+    async play(url: string, speakerId?: string, startAt?: number): Promise<void> {
+      // Echo suppression already removes the assistant's voice from transcripts, and gating
+      // would also drop what people say over a reply, so input is only gated without it
+      if (this.config.enableInputGating && !echoSuppressionService.isEnabled()) {
+        const playbackPromise = this.performPlayback(url, startAt);
         
         // Use enhanced gatekeeper if available
         if (this.config.enableConcurrentProcessing && this.enhancedInputGatekeeper && speakerId) {
@@ -767,14 +894,24 @@ export class AudioManager {
         
         return playbackPromise;
       } else {
-        return this.performPlayback(url);
+        return this.performPlayback(url, startAt);
       }
     }
 
-    private async performPlayback(url: string): Promise<void> {
+    private async performPlayback(url: string, startAt?: number): Promise<void> {
       this.stopAllAudio();
+      this.duckLevel = null;
+      // Something new is being said, so the interrupted reply is no longer worth resuming
+      if (startAt === undefined) {
+        this.interruptedPlayback = null;
+      }
 
       this.activeAudio = new Audio(url);
+      this.activeAudio.volume = this.playbackVolume;
+      if (startAt) {
+        this.activeAudio.currentTime = startAt;
+      }
+      this.lastPlaybackUrl = url;
       this.audioQueue.push(this.activeAudio);
       this.activeAudioElements.add(this.activeAudio);
 
@@ -0,0 +1,191 @@
+/**
+ * BargeInDetector - Stops the assistant when someone starts talking over it.
+ *
+ * Keyword interrupts wait for a transcript, which arrives too late and only when
+ * the right word is said. This detector follows the microphone's voice activity
+ * instead: while the assistant is speaking, sustained speech first ducks playback
+ * and then stops it. The microphone also hears the assistant itself, so speech only
+ * counts when it is clearly louder than the echo level learned during playback.
+ */
+
+import type { AudioManager } from './AudioManager';
+import type { EnhancedAudioManager, VoiceActivityState } from './EnhancedAudioManager';
+
+export interface BargeInConfig {
+  enabled: boolean;
+  // Speech confidence from voice activity detection needed to count as talking, 0-1
+  minConfidence: number;
+  // Lowest level counted as talking, whatever the echo level
+  minLevel: number;
+  // Level relative to the learned echo level needed to count as someone else talking
+  echoMarginRatio: number;
+  // Start of each playback used only to learn the echo level
+  echoCalibrationMs: number;
+  // Continuous speech before playback ducks, then stops
+  duckAfterMs: number;
+  stopAfterMs: number;
+  // Fraction of the playback volume while ducked
+  duckLevel: number;
+  // Gap in speech that still counts as the same barge-in
+  maxSpeechGapMs: number;
+}
+
+export interface BargeInEvent {
+  timestamp: number;
+  // How long the person had been talking when playback stopped
+  speechDurationMs: number;
+  level: number;
+  echoLevel: number;
+  confidence: number;
+}
+
+export type BargeInListener = (event: BargeInEvent) => unknown;
+
+const DEFAULT_CONFIG: BargeInConfig = {
+  enabled: true,
+  minConfidence: 0.7,
+  minLevel: 0.02,
+  echoMarginRatio: 2.5,
+  echoCalibrationMs: 300,
+  duckAfterMs: 120,
+  stopAfterMs: 400,
+  duckLevel: 0.3,
+  maxSpeechGapMs: 150,
+};
+
+// Weight of each new frame in the echo level
+const ECHO_SMOOTHING = 0.1;
+
+export class BargeInDetector {
+  private config: BargeInConfig;
+  private listeners: Set<BargeInListener> = new Set();
+  private attached = false;
+  // Echo level carries over between replies, since the room rarely changes mid-meeting
+  private echoLevel = 0;
+  private playbackStartedAt: number | null = null;
+  private speechStartedAt: number | null = null;
+  private lastSpeechAt = 0;
+  private hasDucked = false;
+
+  constructor(
+    private recorder: EnhancedAudioManager,
+    private playback: AudioManager,
+    config: Partial<BargeInConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Follow the recorder's voice activity. Frames only arrive while it is recording.
+   */
+  attach(): void {
+    if (this.attached) return;
+    this.attached = true;
+    this.recorder.setVoiceActivityListeners({
+      onAudioLevelChange: () => this.process(this.recorder.getVoiceActivityState()),
+    });
+  }
+
+  detach(): void {
+    if (!this.attached) return;
+    this.attached = false;
+    this.recorder.setVoiceActivityListeners({ onAudioLevelChange: undefined });
+    this.resetSpeech();
+    this.playbackStartedAt = null;
+  }
+
+  /**
+   * Handle one voice activity frame
+   */
+  process(state: Pick<VoiceActivityState, 'level' | 'confidence'>, now: number = Date.now()): void {
+    if (!this.config.enabled || !this.playback.isPlaying()) {
+      this.resetSpeech();
+      this.playbackStartedAt = null;
+      return;
+    }
+
+    if (this.playbackStartedAt === null) {
+      this.playbackStartedAt = now;
+    }
+
+    // The first moments of each reply are assumed to be the assistant alone
+    if (now - this.playbackStartedAt < this.config.echoCalibrationMs) {
+      this.learnEcho(state.level, 2 * ECHO_SMOOTHING);
+      return;
+    }
+
+    const threshold = Math.max(this.config.minLevel, this.echoLevel * this.config.echoMarginRatio);
+    const isSpeech = state.confidence >= this.config.minConfidence && state.level >= threshold;
+
+    if (!isSpeech) {
+      if (this.speechStartedAt !== null && now - this.lastSpeechAt > this.config.maxSpeechGapMs) {
+        this.resetSpeech();
+      }
+      if (this.speechStartedAt === null) {
+        this.learnEcho(state.level, ECHO_SMOOTHING);
+      }
+      return;
+    }
+
+    this.lastSpeechAt = now;
+    if (this.speechStartedAt === null) {
+      this.speechStartedAt = now;
+    }
+
+    const speechDurationMs = now - this.speechStartedAt;
+    if (speechDurationMs >= this.config.stopAfterMs) {
+      const event: BargeInEvent = {
+        timestamp: now,
+        speechDurationMs,
+        level: state.level,
+        echoLevel: this.echoLevel,
+        confidence: state.confidence,
+      };
+      // Ducking is undone when playback stops
+      this.speechStartedAt = null;
+      this.hasDucked = false;
+      this.playbackStartedAt = null;
+      this.emit(event);
+    } else if (speechDurationMs >= this.config.duckAfterMs && !this.hasDucked) {
+      this.hasDucked = true;
+      this.playback.duckPlayback(this.config.duckLevel);
+    }
+  }
+
+  onBargeIn(listener: BargeInListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  updateConfig(config: Partial<BargeInConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (!this.config.enabled) {
+      this.resetSpeech();
+    }
+  }
+
+  getEchoLevel(): number {
+    return this.echoLevel;
+  }
+
+  // A short burst of speech was not a barge-in, so playback goes back to full volume
+  private resetSpeech(): void {
+    this.speechStartedAt = null;
+    if (this.hasDucked) {
+      this.hasDucked = false;
+      this.playback.unduckPlayback();
+    }
+  }
+
+  private learnEcho(level: number, weight: number): void {
+    this.echoLevel = this.echoLevel === 0 ? level : this.echoLevel + (level - this.echoLevel) * weight;
+  }
+
+  private emit(event: BargeInEvent): void {
+    this.listeners.forEach(listener => {
+      Promise.resolve().then(() => listener(event)).catch(error => {
+        console.error('BargeInDetector: Listener failed:', error);
+      });
+    });
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * BatchTranscriptionService - Server-side transcription of recorded audio.
+ *
+ * Two providers sit behind the BatchSTTProvider interface:
+ * - Deepgram's prerecorded API, using DEEPGRAM_API_KEY
+ * - A self-hosted Whisper-compatible server at LOCAL_STT_URL (whisper.cpp, faster-whisper
+ *   and similar expose the OpenAI /v1/audio/transcriptions endpoint), for deployments
+ *   that cannot send audio to a third party
+ *
+ * STT_PROVIDER selects the default. When Deepgram is unreachable and a local server is
+ * configured, transcribeAudio fails over to it. Server only: reads secrets from the
+ * environment.
+ */
+
+import { createClient, DeepgramApiError } from '@deepgram/sdk';
+import {
+  STTUnavailableError,
+  type BatchSTTProvider,
+  type BatchTranscription,
+  type BatchTranscriptionOptions,
+  type BatchTranscriptionSegment,
+  type STTProviderName,
+  type TranscriptionWord,
+} from './STTProvider';
+import { toDeepgramKeywords } from './DeepgramSTT';
+
+const DEFAULT_DEEPGRAM_MODEL = 'nova-2';
+const DEFAULT_LOCAL_MODEL = 'whisper-1';
+const LOCAL_REQUEST_TIMEOUT_MS = 120000;
+// Whisper only reads the last 224 tokens of its prompt
+const MAX_LOCAL_PROMPT_LENGTH = 800;
+
+export class DeepgramBatchProvider implements BatchSTTProvider {
+  readonly name = 'deepgram' as const;
+
+  constructor(private apiKey: string | undefined = process.env.DEEPGRAM_API_KEY) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async transcribe(audio: ArrayBuffer, options: BatchTranscriptionOptions = {}): Promise<BatchTranscription> {
+    if (!this.apiKey) {
+      throw new STTUnavailableError(this.name, 'DEEPGRAM_API_KEY is not configured');
+    }
+
+    const client = createClient(this.apiKey);
+    const model = options.model || DEFAULT_DEEPGRAM_MODEL;
+    const keywords = toDeepgramKeywords(options.keywords, model);
+    const { result, error } = await client.listen.prerecorded.transcribeFile(Buffer.from(audio), {
+      model,
+      language: options.language || 'en',
+      diarize: options.diarize ?? true,
+      punctuate: true,
+      smart_format: true,
+      utterances: true,
+      ...(options.mimeType && { mimetype: options.mimeType }),
+      ...(keywords.values.length > 0 && { [keywords.param]: keywords.values }),
+    });
+
+    if (error) {
+      // Client errors such as an unsupported format would fail on any provider
+      if (error instanceof DeepgramApiError && error.status < 500 && error.status !== 429) {
+        throw new Error(`Deepgram rejected the audio: ${error.message}`);
+      }
+      throw new STTUnavailableError(this.name, `Deepgram API unavailable: ${error.message}`);
+    }
+
+    const alternative = result.results.channels[0]?.alternatives[0];
+    const words: TranscriptionWord[] = (alternative?.words || []).map(word => ({
+      word: word.word,
+      punctuatedWord: word.punctuated_word,
+      start: word.start,
+      end: word.end,
+      confidence: word.confidence,
+      speaker: word.speaker,
+    }));
+    const segments: BatchTranscriptionSegment[] = (result.results.utterances || []).map(utterance => ({
+      text: utterance.transcript,
+      start: utterance.start,
+      end: utterance.end,
+      confidence: utterance.confidence,
+      speaker: utterance.speaker,
+    }));
+
+    return {
+      text: alternative?.transcript || '',
+      confidence: alternative?.confidence || 0,
+      language: result.results.channels[0]?.detected_language || options.language || 'en',
+      words,
+      segments,
+      provider: this.name,
+    };
+  }
+}
+
+interface WhisperVerboseResponse {
+  text: string;
+  language?: string;
+  segments?: Array<{ start: number; end: number; text: string; avg_logprob?: number }>;
+  words?: Array<{ word: string; start: number; end: number; probability?: number }>;
+}
+
+export class LocalWhisperProvider implements BatchSTTProvider {
+  readonly name = 'local' as const;
+
+  constructor(
+    private baseUrl: string | undefined = process.env.LOCAL_STT_URL,
+    private model: string = process.env.LOCAL_STT_MODEL || DEFAULT_LOCAL_MODEL
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async transcribe(audio: ArrayBuffer, options: BatchTranscriptionOptions = {}): Promise<BatchTranscription> {
+    if (!this.baseUrl) {
+      throw new STTUnavailableError(this.name, 'LOCAL_STT_URL is not configured');
+    }
+
+    const mimeType = options.mimeType || 'audio/webm';
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimeType }), `audio.${mimeType.split('/')[1]?.split(';')[0] || 'webm'}`);
+    // Request model names are Deepgram's; the server's own model is set by LOCAL_STT_MODEL
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+    form.append('timestamp_granularities[]', 'word');
+    if (options.language) {
+      // Whisper takes ISO 639-1 codes
+      form.append('language', options.language.split('-')[0]);
+    }
+    if (options.keywords?.length) {
+      // Whisper has no keyword boosting; terms in the prompt make their spelling likelier
+      let prompt = 'Glossary:';
+      for (const keyword of options.keywords) {
+        if (prompt.length + keyword.length + 2 > MAX_LOCAL_PROMPT_LENGTH) break;
+        prompt += `${prompt.endsWith(':') ? ' ' : ', '}${keyword}`;
+      }
+      form.append('prompt', `${prompt}.`);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(new URL('/v1/audio/transcriptions', this.baseUrl), {
+        method: 'POST',
+        body: form,
+        signal: AbortSignal.timeout(LOCAL_REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new STTUnavailableError(this.name, `Local STT server unreachable: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      if (response.status >= 500) {
+        throw new STTUnavailableError(this.name, `Local STT server error ${response.status}: ${detail}`);
+      }
+      throw new Error(`Local STT server rejected the audio (${response.status}): ${detail}`);
+    }
+
+    const data = await response.json() as WhisperVerboseResponse;
+    const segments: BatchTranscriptionSegment[] = (data.segments || []).map(segment => ({
+      text: segment.text.trim(),
+      start: segment.start,
+      end: segment.end,
+      // Whisper reports the mean log probability of the segment's tokens
+      confidence: segment.avg_logprob !== undefined ? Math.exp(segment.avg_logprob) : 0.8,
+    }));
+    const words: TranscriptionWord[] = (data.words || []).map(word => ({
+      word: word.word.trim(),
+      start: word.start,
+      end: word.end,
+      confidence: word.probability ?? segments.find(s => word.start >= s.start && word.start < s.end)?.confidence ?? 0.8,
+    }));
+    const confidence = segments.length
+      ? segments.reduce((sum, segment) => sum + segment.confidence, 0) / segments.length
+      : 0;
+
+    return {
+      text: data.text.trim(),
+      confidence,
+      language: data.language || options.language || 'en',
+      words,
+      segments,
+      provider: this.name,
+    };
+  }
+}
+
+const providers: Record<STTProviderName, BatchSTTProvider> = {
+  deepgram: new DeepgramBatchProvider(),
+  local: new LocalWhisperProvider(),
+};
+
+/**
+ * Provider used when a request does not name one: STT_PROVIDER, else Deepgram
+ */
+export function getDefaultBatchProviderName(): STTProviderName {
+  return process.env.STT_PROVIDER === 'local' ? 'local' : 'deepgram';
+}
+
+export function getBatchSTTProvider(name: STTProviderName): BatchSTTProvider {
+  return providers[name];
+}
+
+/**
+ * Transcribe with the requested or default provider, falling back to the local server
+ * when Deepgram is unreachable and a local server is configured
+ */
+export async function transcribeAudio(
+  audio: ArrayBuffer,
+  options: BatchTranscriptionOptions & { provider?: STTProviderName } = {}
+): Promise<BatchTranscription> {
+  const { provider: requested, ...transcriptionOptions } = options;
+  // A local-only deployment ignores requests for Deepgram
+  const defaultName = getDefaultBatchProviderName();
+  const primary = getBatchSTTProvider(defaultName === 'local' ? 'local' : requested || defaultName);
+
+  try {
+    return await primary.transcribe(audio, transcriptionOptions);
+  } catch (error) {
+    // Only Deepgram fails over; audio meant for the local server must never go to a third party
+    const fallback = getBatchSTTProvider('local');
+    if (!(error instanceof STTUnavailableError) || primary.name !== 'deepgram' || !fallback.isConfigured()) {
+      throw error;
+    }
+
+    console.warn(`BatchTranscriptionService: ${error.message}; falling back to ${fallback.name}`);
+    return fallback.transcribe(audio, transcriptionOptions);
+  }
+}
@@ -1,14 +1,32 @@
 'use client';
 
-import { AudioManager, AudioManagerConfig } from './AudioManager';
+import { AudioManager, AudioManagerConfig, audioManager as playbackAudioManager } from './AudioManager';
 import { ConversationProcessor, ConversationProcessorConfig } from './ConversationProcessor';
 import { DeepgramSTT } from './DeepgramSTT';
+import { EnhancedAudioManager } from './EnhancedAudioManager';
+import { BargeInDetector } from './BargeInDetector';
+import { echoSuppressionService } from './EchoSuppressionService';
+import { streamingTTSService } from './StreamingTTSService';
+import { FailoverSTT } from './FailoverSTT';
+import { LocalSTT } from './LocalSTT';
+import type { STTProvider, STTProviderName } from './STTProvider';
 import { FragmentProcessor, FragmentProcessorConfig } from './FragmentProcessor';
+import { OverlapDetectionService, SegmentOverlap, createOverlapDetectionService } from './OverlapDetectionService';
 import { GatekeeperService } from './GatekeeperService';
-import { SpeakerIdentificationService } from './SpeakerIdentificationService';
+import { SpeakerIdentificationService, speakerIdentificationService } from './SpeakerIdentificationService';
+import { diarizationService } from './DiarizationService';
 import { VocalInterruptService } from './VocalInterruptService';
+import { InterruptExecutionService } from './InterruptExecutionService';
 import { AIService } from './AIService';
 import { TTSApiClient } from './TTSApiClient';
+import { LiveRuleExecutor, createLiveRuleExecutor } from './LiveRuleExecutor';
+import { AgentOrchestrator, createAgentOrchestrator } from '@/agents/AgentOrchestrator';
+
+export interface STTConfig {
+  provider: STTProviderName;
+  // Used for the rest of a session when the provider cannot be reached; null disables failover
+  fallbackProvider: STTProviderName | null;
+}
 
 /**
  * Client-side service container that manages lazy initialization of all Universal Assistant services.
@@ -21,20 +39,31 @@ export class ClientServiceContainer {
   private _audioManager: AudioManager | null = null;
   private _conversationProcessor: ConversationProcessor | null = null;
   private _deepgramSTT: DeepgramSTT | null = null;
+  private _sttProvider: STTProvider | null = null;
   private _fragmentProcessor: FragmentProcessor | null = null;
   private _gatekeeperService: GatekeeperService | null = null;
   private _speakerIdentificationService: SpeakerIdentificationService | null = null;
   private _vocalInterruptService: VocalInterruptService | null = null;
   private _aiService: AIService | null = null;
   private _ttsApiClient: TTSApiClient | null = null;
+  private _agentOrchestrator: AgentOrchestrator | null = null;
+  private detachAgentOrchestrator: (() => void) | null = null;
+  private _liveRuleExecutor: LiveRuleExecutor | null = null;
+  private detachLiveRules: (() => void) | null = null;
+  private _bargeInDetector: BargeInDetector | null = null;
+  private detachBargeIn: (() => void) | null = null;
   
   // Service configurations
   private audioManagerConfig: Partial<AudioManagerConfig>;
   private conversationProcessorConfig: Partial<ConversationProcessorConfig>;
   private fragmentProcessorConfig: Partial<FragmentProcessorConfig>;
+  private sttConfig: STTConfig;
   
   // Minimal duplicate suppression cache per speaker
   private recentFinalsBySpeaker: Map<string, { text: string; timestamp: number } > = new Map();
+
+  // Splits multi-speaker results and flags overlapping speech
+  private overlapDetection: OverlapDetectionService = createOverlapDetectionService();
   
   private constructor() {
     // Default configurations
@@ -67,6 +96,14 @@ export class ClientServiceContainer {
       enableEmotionDetection: true,
       enableActionItemExtraction: true,
     };
+
+    // NEXT_PUBLIC_STT_PROVIDER=local keeps all audio on the self-hosted server. Failing over to it
+    // is opt-in with NEXT_PUBLIC_STT_FALLBACK=local, since most deployments do not run one
+    const provider: STTProviderName = process.env.NEXT_PUBLIC_STT_PROVIDER === 'local' ? 'local' : 'deepgram';
+    this.sttConfig = {
+      provider,
+      fallbackProvider: provider === 'deepgram' && process.env.NEXT_PUBLIC_STT_FALLBACK === 'local' ? 'local' : null,
+    };
   }
   
   /**
@@ -138,6 +175,19 @@ export class ClientServiceContainer {
     return this._deepgramSTT;
   }
   
+  /**
+   * Get or create the configured speech-to-text provider, wrapped for failover when a
+   * fallback is configured
+   */
+  public getSTTProvider(): STTProvider {
+    this.ensureBrowserEnvironment();
+    
+    if (!this._sttProvider) {
+      this._sttProvider = this.createSTTProvider(this.sttConfig);
+    }
+    return this._sttProvider;
+  }
+  
   /**
    * Get or create FragmentProcessor instance
    */
@@ -186,6 +236,20 @@ export class ClientServiceContainer {
     return this._vocalInterruptService;
   }
   
+  /**
+   * Get or create the barge-in detector. Needs voice activity detection, so there is
+   * none unless the recording manager is an EnhancedAudioManager.
+   */
+  public getBargeInDetector(): BargeInDetector | null {
+    this.ensureBrowserEnvironment();
+
+    const recorder = this.getAudioManager();
+    if (!this._bargeInDetector && recorder instanceof EnhancedAudioManager) {
+      this._bargeInDetector = new BargeInDetector(recorder, playbackAudioManager || recorder);
+    }
+    return this._bargeInDetector;
+  }
+
   /**
    * Get or create AIService instance
    */
@@ -210,6 +274,30 @@ export class ClientServiceContainer {
     return this._ttsApiClient;
   }
   
+  /**
+   * Get or create AgentOrchestrator instance
+   */
+  public getAgentOrchestrator(): AgentOrchestrator {
+    this.ensureBrowserEnvironment();
+    
+    if (!this._agentOrchestrator) {
+      this._agentOrchestrator = this.createAgentOrchestrator();
+    }
+    return this._agentOrchestrator;
+  }
+  
+  /**
+   * Get or create the executor that acts on rules matched during a meeting
+   */
+  public getLiveRuleExecutor(): LiveRuleExecutor {
+    this.ensureBrowserEnvironment();
+    
+    if (!this._liveRuleExecutor) {
+      this._liveRuleExecutor = this.createLiveRuleExecutor();
+    }
+    return this._liveRuleExecutor;
+  }
+  
   /**
    * Initialize and connect all services for real-time transcription
    */
@@ -221,10 +309,11 @@ export class ClientServiceContainer {
       timestamp: Date;
       confidence: number;
       isFinal: boolean;
+      overlap?: SegmentOverlap;
     }) => void;
   }): Promise<{
     audioManager: AudioManager;
-    deepgramSTT: DeepgramSTT;
+    sttProvider: STTProvider;
     fragmentProcessor: FragmentProcessor;
     conversationProcessor: ConversationProcessor;
   }> {
@@ -233,16 +322,16 @@ export class ClientServiceContainer {
     try {
       // Get all required services
       const audioManager = this.getAudioManager();
-      const deepgramSTT = this.getDeepgramSTT();
+      const sttProvider = this.getSTTProvider();
       const fragmentProcessor = this.getFragmentProcessor();
       const conversationProcessor = this.getConversationProcessor();
       
-      // Connect the pipeline: AudioManager → DeepgramSTT → FragmentProcessor → ConversationProcessor
-      this.connectTranscriptionPipeline(audioManager, deepgramSTT, fragmentProcessor, conversationProcessor, options?.onTranscriptEntry);
+      // Connect the pipeline: AudioManager → STT provider → FragmentProcessor → ConversationProcessor
+      this.connectTranscriptionPipeline(audioManager, sttProvider, fragmentProcessor, conversationProcessor, options?.onTranscriptEntry);
       
       return {
         audioManager,
-        deepgramSTT,
+        sttProvider,
         fragmentProcessor,
         conversationProcessor,
       };
@@ -257,7 +346,7 @@ export class ClientServiceContainer {
    */
   private connectTranscriptionPipeline(
     audioManager: AudioManager,
-    deepgramSTT: DeepgramSTT,
+    sttProvider: STTProvider,
     fragmentProcessor: FragmentProcessor,
     conversationProcessor: ConversationProcessor,
     onTranscriptEntry?: (entry: {
@@ -267,19 +356,47 @@ export class ClientServiceContainer {
       timestamp: Date;
       confidence: number;
       isFinal: boolean;
+      overlap?: SegmentOverlap;
     }) => void
   ): void {
-    // Connect DeepgramSTT transcription handler
-    console.log('[ClientServiceContainer] Setting transcription handler for DeepgramSTT');
-    deepgramSTT.setTranscriptionHandler((result) => {
-      console.log('[ClientServiceContainer] Transcription handler called with result:', result);
-      const timestamp = Date.now();
-      
+    // Route finalized utterances from the ConversationProcessor to the agents
+    const agentOrchestrator = this.getAgentOrchestrator();
+    this.detachAgentOrchestrator?.();
+    this.detachAgentOrchestrator = conversationProcessor.onFinalizedTranscript((transcript) => {
+      agentOrchestrator.handleTranscript(transcript).catch((error) => {
+        console.error('[ClientServiceContainer] Agent orchestration failed:', error);
+      });
+    });
+    this.detachLiveRules?.();
+    this.detachLiveRules = this.getLiveRuleExecutor().attach(agentOrchestrator);
+
+    // Talking over the assistant stops it without waiting for a transcript
+    this.detachBargeIn?.();
+    this.detachBargeIn = null;
+    const bargeInDetector = this.getBargeInDetector();
+    if (bargeInDetector) {
+      const vocalInterruptService = this.getVocalInterruptService();
+      const unsubscribe = bargeInDetector.onBargeIn(event => vocalInterruptService.handleBargeIn(event));
+      bargeInDetector.attach();
+      this.detachBargeIn = () => {
+        unsubscribe();
+        bargeInDetector.detach();
+      };
+    }
+
+    // Each speaker's part of a result goes through fragment processing on its own
+    const handleUtterance = (
+      text: string,
+      speakerKey: string,
+      confidence: number,
+      resultUtteranceKey?: string,
+      overlap?: SegmentOverlap,
+      timestamp: number = Date.now()
+    ) => {
       // Process through FragmentProcessor
-      console.log('[ClientServiceContainer] Sending transcript to FragmentProcessor:', result.transcript);
       const processResult = fragmentProcessor.processInput(
-        result.transcript,
-        result.speaker?.toString() || 'unknown',
+        text,
+        speakerKey,
         timestamp,
         {
           speakerChanged: false, // This would need speaker detection
@@ -287,14 +404,12 @@ export class ClientServiceContainer {
           previousUtterances: []  // This would be conversation history
         }
       );
-      console.log('[ClientServiceContainer] FragmentProcessor result:', processResult);
       
       // If we have a complete thought or aggregated text, send to ConversationProcessor
       if (processResult.type === 'COMPLETE' || processResult.type === 'AGGREGATED') {
         if (processResult.text) {
           // Duplicate suppression: avoid emitting identical finals twice within a short window
-          const speakerKey = result.speaker?.toString() || 'unknown';
-          const utteranceKey = result.utteranceKey ? `${speakerKey}|${result.utteranceKey}` : undefined;
+          const utteranceKey = resultUtteranceKey ? `${speakerKey}|${resultUtteranceKey}` : undefined;
           const recent = this.recentFinalsBySpeaker.get(speakerKey);
           const newText = processResult.text.trim();
           const now = timestamp;
@@ -341,9 +456,9 @@ export class ClientServiceContainer {
             type: 'transcript' as const,
             data: {
               text: processResult.text,
-              speakerId: result.speaker?.toString() || 'unknown',
+              speakerId: speakerKey,
               timestamp,
-              confidence: processResult.confidence || result.confidence,
+              confidence: processResult.confidence || confidence,
               silenceDuration: 0, // Would need to be calculated from audio
               previousSpeaker: undefined // Would need speaker tracking
             }
@@ -356,16 +471,98 @@ export class ClientServiceContainer {
             onTranscriptEntry({
               id: `transcript_${Date.now()}`,
               text: processResult.text,
-              speakerId: result.speaker?.toString() || 'unknown',
+              speakerId: speakerKey,
               timestamp: new Date(timestamp),
-              confidence: processResult.confidence || result.confidence,
+              confidence: processResult.confidence || confidence,
               isFinal: true,
+              ...(overlap && { overlap }),
               // carry a stable clientId for dedupe across optimistic + realtime
               // (meetingStore will persist within metadata)
             });
           }
         }
       }
+    };
+
+    // Level analysis confirms overlaps when the enhanced audio manager is recording
+    const energyProbe = audioManager instanceof EnhancedAudioManager
+      ? (startMs: number, endMs: number) => audioManager.getEnergyRatio(startMs, endMs)
+      : undefined;
+
+    // Voice clustering over each utterance's own audio decides who spoke; the provider's
+    // label stands in when there is too little audio. Results are attributed one at a
+    // time so the clusters see utterances in order.
+    const attributeSpeaker = async (
+      text: string,
+      label: string,
+      timestamp: number,
+      span?: { startMs: number; endMs: number }
+    ): Promise<string> => {
+      const segment = span && audioManager instanceof EnhancedAudioManager
+        ? audioManager.getAudioSegment(span.startMs, span.endMs)
+        : null;
+      try {
+        return segment
+          ? await diarizationService.processSpeakerSegment(segment.samples, text, label, timestamp, segment.sampleRate)
+          : await diarizationService.processSpeakerSegment(new Float32Array(0), text, label, timestamp);
+      } catch (error) {
+        console.error('[ClientServiceContainer] Speaker attribution failed:', error);
+        return label;
+      }
+    };
+    const attributeOverlap = (overlap?: SegmentOverlap): SegmentOverlap | undefined => overlap && {
+      ...overlap,
+      speakerId: diarizationService.getSpeakerForLabel(overlap.speakerId) || overlap.speakerId,
+    };
+    let attribution: Promise<void> = Promise.resolve();
+    this.overlapDetection.reset();
+
+    // The assistant's own replies come back through the microphone; drop those words
+    // instead of gating input, so people talking over a reply are still heard
+    if (streamingTTSService) {
+      echoSuppressionService.trackStreamingTTS(streamingTTSService);
+    }
+
+    // Interim results let the wake phrase be heard before the speaker finishes
+    sttProvider.setInterimTranscriptionHandler?.((result) => {
+      const transcript = echoSuppressionService.filterText(result.transcript, result.timestamp);
+      if (transcript) {
+        conversationProcessor.processInterimTranscript(transcript, result.timestamp);
+      }
+    });
+
+    // Connect the STT provider's transcription handler
+    sttProvider.setTranscriptionHandler((rawResult) => {
+      // Nothing is left when the result was only the assistant's own speech
+      const result = echoSuppressionService.filterResult(rawResult);
+      if (!result) return;
+
+      // One result can hold several speakers' words; split it so each voice gets its own entry
+      const segments = result.words?.length
+        ? this.overlapDetection.segment(result.words, { audioStartMs: result.audioStartMs, energyProbe })
+        : [];
+      const spanOf = (start: number, end: number) => result.audioStartMs !== undefined
+        ? { startMs: result.audioStartMs + start * 1000, endMs: result.audioStartMs + end * 1000 }
+        : undefined;
+
+      attribution = attribution.then(async () => {
+        if (segments.length <= 1) {
+          const timestamp = Date.now();
+          const span = segments[0] && spanOf(segments[0].start, segments[0].end);
+          const speakerId = await attributeSpeaker(result.transcript, result.speaker?.toString() || 'unknown', timestamp, span);
+          handleUtterance(result.transcript, speakerId, result.confidence, result.utteranceKey, attributeOverlap(segments[0]?.overlap), timestamp);
+          return;
+        }
+
+        for (const [index, segment] of segments.entries()) {
+          const timestamp = Date.now();
+          const utteranceKey = result.utteranceKey ? `${result.utteranceKey}|${index}` : undefined;
+          const speakerId = await attributeSpeaker(segment.text, segment.speakerId, timestamp, spanOf(segment.start, segment.end));
+          handleUtterance(segment.text, speakerId, segment.confidence, utteranceKey, attributeOverlap(segment.overlap), timestamp);
+        }
+      }).catch((error) => {
+        console.error('[ClientServiceContainer] Failed to handle transcription result:', error);
+      });
     });
   }
   
@@ -376,6 +573,7 @@ export class ClientServiceContainer {
     audioManager?: Partial<AudioManagerConfig>;
     conversationProcessor?: Partial<ConversationProcessorConfig>;
     fragmentProcessor?: Partial<FragmentProcessorConfig>;
+    stt?: Partial<STTConfig>;
   }): void {
     if (configs.audioManager) {
       this.audioManagerConfig = { ...this.audioManagerConfig, ...configs.audioManager };
@@ -386,6 +584,12 @@ export class ClientServiceContainer {
     if (configs.fragmentProcessor) {
       this.fragmentProcessorConfig = { ...this.fragmentProcessorConfig, ...configs.fragmentProcessor };
     }
+    if (configs.stt) {
+      this.sttConfig = { ...this.sttConfig, ...configs.stt };
+      // Picked up by the next initializeTranscriptionPipeline call
+      this._sttProvider?.cleanup();
+      this._sttProvider = null;
+    }
   }
   
   /**
@@ -398,10 +602,27 @@ export class ClientServiceContainer {
       this._audioManager.cleanup();
       this._audioManager = null;
     }
+    if (this._sttProvider) {
+      this._sttProvider.cleanup();
+      this._sttProvider = null;
+    }
     if (this._deepgramSTT) {
       this._deepgramSTT.cleanup();
       this._deepgramSTT = null;
     }
+    if (this.detachAgentOrchestrator) {
+      this.detachAgentOrchestrator();
+      this.detachAgentOrchestrator = null;
+    }
+    if (this.detachLiveRules) {
+      this.detachLiveRules();
+      this.detachLiveRules = null;
+    }
+    if (this.detachBargeIn) {
+      this.detachBargeIn();
+      this.detachBargeIn = null;
+    }
+    this._bargeInDetector = null;
     if (this._conversationProcessor) {
       this._conversationProcessor = null;
     }
@@ -415,6 +636,8 @@ export class ClientServiceContainer {
     this._vocalInterruptService = null;
     this._aiService = null;
     this._ttsApiClient = null;
+    this._agentOrchestrator = null;
+    this._liveRuleExecutor = null;
     
     console.log('ClientServiceContainer: Cleanup completed');
   }
@@ -431,17 +654,39 @@ export class ClientServiceContainer {
   
   // Factory methods for creating service instances
   private createAudioManager(config: Partial<AudioManagerConfig>): AudioManager {
-    return new AudioManager(config);
+    // The enhanced manager adds level analysis on top of its own voice activity settings,
+    // so input gating configured here is applied once it exists
+    const { voiceActivityDetection, ...baseConfig } = config;
+    const audioManager = new EnhancedAudioManager(baseConfig);
+    if (voiceActivityDetection) {
+      audioManager.updateConfig({ voiceActivityDetection });
+    }
+    return audioManager;
   }
   
   private createConversationProcessor(config: Partial<ConversationProcessorConfig>): ConversationProcessor {
-    return new ConversationProcessor(undefined, undefined, undefined, config);
+    // Voice commands heard in the transcript act on this container's audio
+    return new ConversationProcessor(undefined, undefined, this.getVocalInterruptService(), config);
   }
   
   private createDeepgramSTT(apiKey: string): DeepgramSTT {
     return new DeepgramSTT(apiKey);
   }
   
+  private createSTTProvider(config: STTConfig): STTProvider {
+    const create = (name: STTProviderName): STTProvider => (name === 'local' ? new LocalSTT() : this.getDeepgramSTT());
+    const primary = create(config.provider);
+    if (!config.fallbackProvider || config.fallbackProvider === config.provider) {
+      return primary;
+    }
+    
+    const failover = new FailoverSTT(primary, create(config.fallbackProvider));
+    failover.setFailoverHandler((from, to, reason) => {
+      console.warn(`[ClientServiceContainer] Speech-to-text switched from ${from} to ${to}: ${reason}`);
+    });
+    return failover;
+  }
+  
   private createFragmentProcessor(config: Partial<FragmentProcessorConfig>): FragmentProcessor {
     return new FragmentProcessor(config);
   }
@@ -451,14 +696,21 @@ export class ClientServiceContainer {
   }
   
   private createSpeakerIdentificationService(): SpeakerIdentificationService {
-    // Create placeholder services - these would need proper implementation
-    const nameRecognitionService = {} as any; // Placeholder
-    const diarizationService = {} as any; // Placeholder
-    return new SpeakerIdentificationService(nameRecognitionService, diarizationService);
+    // Shared with the meeting UI so pending name confirmations live in one place
+    return speakerIdentificationService;
   }
   
   private createVocalInterruptService(): VocalInterruptService {
-    return new VocalInterruptService();
+    const service = new VocalInterruptService();
+    // The assistant's replies are played through the shared playback manager, not the recording one
+    service.setExecutionService(new InterruptExecutionService(
+      this.getAudioManager(),
+      undefined,
+      undefined,
+      undefined,
+      playbackAudioManager || undefined
+    ));
+    return service;
   }
   
   private createAIService(): AIService {
@@ -468,6 +720,14 @@ export class ClientServiceContainer {
   private createTTSApiClient(): TTSApiClient {
     return new TTSApiClient();
   }
+  
+  private createAgentOrchestrator(): AgentOrchestrator {
+    return createAgentOrchestrator();
+  }
+
+  private createLiveRuleExecutor(): LiveRuleExecutor {
+    return createLiveRuleExecutor();
+  }
 }
 
 /**
@@ -488,6 +748,7 @@ export async function initializeTranscription(options?: {
     timestamp: Date;
     confidence: number;
     isFinal: boolean;
+    overlap?: SegmentOverlap;
   }) => void;
 }) {
   const container = getServiceContainer();
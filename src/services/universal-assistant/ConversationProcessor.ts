@@ -2,11 +2,13 @@ import { FragmentProcessor, ProcessResult } from './FragmentProcessor';
 import { improvedFragmentAggregator } from '@/services/fragments/ImprovedFragmentAggregator';
 import { ContextTracker } from './ContextTracker';
 import { VocalInterruptService } from './VocalInterruptService';
+import { WakeWordDetector, WakeWordStateListener, WakeWordState, DEFAULT_WAKE_PHRASE } from './WakeWordDetector';
 import { InputGatekeeper, createInputGatekeeper } from '@/services/gating/InputGatekeeper';
 import { createConversationInputHandlers } from '@/services/gating/ConversationInputHandlers';
 import { performanceMonitor } from '@/services/monitoring/PerformanceMonitor';
 import { ConcurrentGatekeeper } from '@/services/gatekeeper/ConcurrentGatekeeper';
 import { EnhancedInputGatekeeper } from '@/services/gatekeeper/EnhancedInputGatekeeper';
+import type { AssistantActivationMode } from '@/types';
 
 export interface ConversationEvent {
   type: 'transcript' | 'silence' | 'speaker_change' | 'interrupt';
@@ -34,6 +36,25 @@ export interface ConversationResponse {
   };
 }
 
+export interface FinalizedTranscript {
+  text: string;
+  speakerId: string;
+  timestamp: number;
+  confidence?: number;
+  // Only set in wake word mode: whether the utterance was a request made by wake phrase
+  addressed?: boolean;
+}
+
+export type FinalizedTranscriptListener = (transcript: FinalizedTranscript) => void;
+
+export interface AddressedRequest {
+  text: string;
+  speakerId: string;
+  timestamp: number;
+}
+
+export type AddressedRequestListener = (request: AddressedRequest) => void;
+
 export interface ConversationProcessorConfig {
   enableContextTracking: boolean;
   enableInterruptDetection: boolean;
@@ -41,12 +62,16 @@ export interface ConversationProcessorConfig {
   enableConcurrentProcessing: boolean;
   responseDelayMs: number;
   maxSpeakers: number;
+  activationMode: AssistantActivationMode;
+  wakePhrases: string[];
+  wakeListeningWindowMs: number;
 }
 
 export class ConversationProcessor {
   private fragmentProcessor: FragmentProcessor;
   private contextTracker: ContextTracker;
   private vocalInterruptService: VocalInterruptService;
+  private wakeWordDetector: WakeWordDetector;
   private inputGatekeeper: InputGatekeeper | null = null;
   private concurrentGatekeeper: ConcurrentGatekeeper | null = null;
   private enhancedInputGatekeeper: EnhancedInputGatekeeper | null = null;
@@ -55,6 +80,8 @@ export class ConversationProcessor {
   private conversationHistory: Map<string, string[]> = new Map();
   private lastProcessedTime: number = 0;
   private activeSpeekers: Set<string> = new Set();
+  private finalizedTranscriptListeners: Set<FinalizedTranscriptListener> = new Set();
+  private addressedRequestListeners: Set<AddressedRequestListener> = new Set();
 
   constructor(
     fragmentProcessor?: FragmentProcessor,
@@ -73,9 +100,17 @@ export class ConversationProcessor {
       enableConcurrentProcessing: false, // Disabled by default for backward compatibility
       responseDelayMs: 1000,
       maxSpeakers: 10,
+      activationMode: 'always',
+      wakePhrases: [DEFAULT_WAKE_PHRASE],
+      wakeListeningWindowMs: 8000,
       ...config,
     };
 
+    this.wakeWordDetector = new WakeWordDetector({
+      wakePhrases: this.config.wakePhrases,
+      listeningWindowMs: this.config.wakeListeningWindowMs,
+    });
+
     // Initialize gatekeepers if enabled
     if (this.config.enableInputGating) {
       this.initializeInputGatekeeper();
@@ -118,8 +153,22 @@ export class ConversationProcessor {
           }
         }
 
+        // In wake word mode the request is what follows the wake phrase
+        let utterance = text;
+        if (this.config.activationMode === 'wake_word') {
+          const match = this.wakeWordDetector.detect(text);
+          if (match) {
+            this.wakeWordDetector.listen(match.phrase, timestamp);
+            if (!match.remainder) {
+              // The phrase on its own; the request comes within the listening window
+              return this.createNoActionResponse();
+            }
+            utterance = match.remainder;
+          }
+        }
+
         // Use coordinated fragment processing: try improved aggregator first, fallback to original
-        const aggResult = improvedFragmentAggregator.aggregate(text, speakerId, timestamp);
+        const aggResult = improvedFragmentAggregator.aggregate(utterance, speakerId, timestamp);
         
         if (aggResult.type === 'complete') {
           // Improved aggregator found a complete fragment
@@ -138,7 +187,7 @@ export class ConversationProcessor {
         } else {
           // Fallback to original fragment processor for incomplete fragments
           processResult = this.fragmentProcessor.processInput(
-            text,
+            utterance,
             speakerId,
             timestamp,
             {
@@ -150,11 +199,11 @@ export class ConversationProcessor {
         }
 
         // Update conversation history
-        this.updateConversationHistory(speakerId, text);
+        this.updateConversationHistory(speakerId, utterance);
 
         // Track context if enabled
         if (this.config.enableContextTracking) {
-          await this.contextTracker.processTranscript(text, speakerId);
+          await this.contextTracker.processTranscript(utterance, speakerId);
         }
 
         break;
@@ -186,8 +235,22 @@ export class ConversationProcessor {
         return this.createNoActionResponse();
     }
 
+    // Decided before the transcript goes out, so its listeners know whether it was addressed
+    const activatedResult = this.applyActivationMode(processResult, speakerId || 'unknown', timestamp);
+
+    // Silence and speaker changes flush buffered text too; a speaker change flushes the previous speaker's
+    if ((activatedResult.type === 'COMPLETE' || activatedResult.type === 'AGGREGATED') && activatedResult.text) {
+      this.emitFinalizedTranscript({
+        text: activatedResult.text,
+        speakerId: (type === 'speaker_change' ? previousSpeaker : speakerId) || 'unknown',
+        timestamp,
+        confidence: confidence ?? activatedResult.confidence,
+        ...(this.config.activationMode === 'wake_word' && { addressed: activatedResult.shouldRespond }),
+      });
+    }
+
         // Create response based on process result
-        return this.createResponse(processResult, speakerId || 'unknown', timestamp, interruptDetected);
+        return this.createResponse(activatedResult, speakerId || 'unknown', timestamp, interruptDetected);
       },
       { eventType: event.type, speakerId: event.data.speakerId }
     );
@@ -265,6 +328,25 @@ export class ConversationProcessor {
     };
   }
 
+  /**
+   * In wake word mode, answer only the first complete request heard within the
+   * listening window, whether or not it is phrased as a question
+   */
+  private applyActivationMode(processResult: ProcessResult, speakerId: string, timestamp: number): ProcessResult {
+    if (this.config.activationMode !== 'wake_word') {
+      return processResult;
+    }
+
+    const isRequest = (processResult.type === 'COMPLETE' || processResult.type === 'AGGREGATED') && !!processResult.text;
+    if (!isRequest || !this.wakeWordDetector.isListening(timestamp)) {
+      return { ...processResult, shouldRespond: false };
+    }
+
+    this.wakeWordDetector.stopListening();
+    this.emitAddressedRequest({ text: processResult.text!, speakerId, timestamp });
+    return { ...processResult, shouldRespond: true };
+  }
+
   private createInterruptResponse(text: string, speakerId: string, timestamp: number): ConversationResponse {
     return {
       shouldRespond: true,
@@ -338,7 +420,70 @@ export class ConversationProcessor {
     return this.conversationHistory.get(speakerId) || [];
   }
 
+  private emitFinalizedTranscript(transcript: FinalizedTranscript): void {
+    this.finalizedTranscriptListeners.forEach(listener => {
+      try {
+        listener(transcript);
+      } catch (error) {
+        console.error('ConversationProcessor: Finalized transcript listener failed:', error);
+      }
+    });
+  }
+
+  private emitAddressedRequest(request: AddressedRequest): void {
+    this.addressedRequestListeners.forEach(listener => {
+      try {
+        listener(request);
+      } catch (error) {
+        console.error('ConversationProcessor: Addressed request listener failed:', error);
+      }
+    });
+  }
+
   // Public utility methods
+  public onFinalizedTranscript(listener: FinalizedTranscriptListener): () => void {
+    this.finalizedTranscriptListeners.add(listener);
+    return () => this.finalizedTranscriptListeners.delete(listener);
+  }
+
+  /**
+   * Requests made to the assistant by wake phrase. Only emitted in wake word mode.
+   */
+  public onAddressedRequest(listener: AddressedRequestListener): () => void {
+    this.addressedRequestListeners.add(listener);
+    return () => this.addressedRequestListeners.delete(listener);
+  }
+
+  public onWakeWordStateChange(listener: WakeWordStateListener): () => void {
+    return this.wakeWordDetector.onStateChange(listener);
+  }
+
+  public getWakeWordState(): WakeWordState {
+    return this.wakeWordDetector.getState();
+  }
+
+  public getActivationMode(): AssistantActivationMode {
+    return this.config.activationMode;
+  }
+
+  /**
+   * Check an interim transcript for the wake phrase, so listening starts while the
+   * speaker is still talking. Interim text is not otherwise processed; the final
+   * transcript still goes through processConversationEvent.
+   */
+  public processInterimTranscript(text: string, timestamp: number = Date.now()): boolean {
+    if (this.config.activationMode !== 'wake_word' || !text) {
+      return false;
+    }
+
+    const match = this.wakeWordDetector.detect(text);
+    if (!match) {
+      return false;
+    }
+    this.wakeWordDetector.listen(match.phrase, timestamp);
+    return true;
+  }
+
   public getConversationSummary(): string {
     if (!this.config.enableContextTracking) {
       return 'Context tracking disabled';
@@ -364,6 +509,16 @@ export class ConversationProcessor {
   public updateConfig(config: Partial<ConversationProcessorConfig>): void {
     const oldConfig = { ...this.config };
     this.config = { ...this.config, ...config };
+
+    if (oldConfig.wakePhrases !== this.config.wakePhrases || oldConfig.wakeListeningWindowMs !== this.config.wakeListeningWindowMs) {
+      this.wakeWordDetector.updateConfig({
+        wakePhrases: this.config.wakePhrases,
+        listeningWindowMs: this.config.wakeListeningWindowMs,
+      });
+    }
+    if (this.config.activationMode !== 'wake_word') {
+      this.wakeWordDetector.stopListening();
+    }
     
     // Reinitialize gatekeepers if settings changed
     if (oldConfig.enableInputGating !== this.config.enableInputGating) {
@@ -0,0 +1,194 @@
+/**
+ * CustomVocabulary - Terms transcription should get right, such as product and people's names.
+ *
+ * The vocabulary of a meeting is the user's glossary from settings plus terms seeded
+ * from the meeting's keywords and participant names. The terms are sent to the STT
+ * provider as keywords, and finalized transcript text is corrected afterwards by
+ * replacing each term's known misspellings and phonetic spellings with the term.
+ * Seeded terms are only used as keywords: they carry no misspellings, and only
+ * glossary terms written with capitals fix the casing of the term itself, so a
+ * keyword like "roadmap" never rewrites ordinary speech.
+ */
+
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import type { GlossaryTerm, Meeting } from '@/types';
+
+export interface CustomVocabularyConfig {
+  // Deepgram accepts around a hundred keywords per request
+  maxKeywords: number;
+}
+
+export interface VocabularyCorrection {
+  from: string;
+  to: string;
+}
+
+export interface VocabularyCorrectionResult {
+  text: string;
+  corrections: VocabularyCorrection[];
+}
+
+const DEFAULT_CONFIG: CustomVocabularyConfig = {
+  maxKeywords: 100,
+};
+
+// Glossary terms are sent ahead of seeded ones when there are too many keywords
+const SOURCE_PRIORITY: Record<GlossaryTerm['source'], number> = {
+  manual: 0,
+  participant: 1,
+  meeting_keyword: 2,
+};
+
+function normalizeSpelling(value: string): string {
+  return value.trim().toLowerCase().split(/[\s-]+/).filter(Boolean).join(' ');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function uniqueSpellings(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = normalizeSpelling(value);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Vocabulary terms for a meeting's keywords and participant names
+ */
+export function seedGlossaryTerms(meeting: Pick<Meeting, 'keywords' | 'participants'>): GlossaryTerm[] {
+  const now = new Date();
+  const seed = (term: string, source: GlossaryTerm['source']): GlossaryTerm => ({
+    termId: `${source}:${normalizeSpelling(term)}`,
+    term: term.trim(),
+    phoneticHints: [],
+    replacements: [],
+    source,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const names = (meeting.participants || [])
+    .flatMap(participant => [participant.displayName, participant.userName])
+    // Participants without a name fall back to their email address
+    .filter(name => name && !name.includes('@'));
+
+  return [
+    ...names.map(name => seed(name, 'participant')),
+    ...(meeting.keywords || []).map(keyword => seed(keyword, 'meeting_keyword')),
+  ].filter(term => term.term);
+}
+
+export class CustomVocabulary {
+  private config: CustomVocabularyConfig;
+  private entries: GlossaryTerm[] = [];
+  // Normalized misspelling -> term it is corrected to
+  private corrections = new Map<string, string>();
+  private pattern: RegExp | null = null;
+
+  constructor(terms: GlossaryTerm[] = [], config: Partial<CustomVocabularyConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.setTerms(terms);
+  }
+
+  get terms(): GlossaryTerm[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Replace the vocabulary. Terms that differ only in case are merged into the first.
+   */
+  setTerms(terms: GlossaryTerm[]): void {
+    const merged = new Map<string, GlossaryTerm>();
+    for (const term of terms) {
+      const key = normalizeSpelling(term.term);
+      if (!key) continue;
+
+      const existing = merged.get(key);
+      merged.set(key, existing
+        ? {
+          ...existing,
+          phoneticHints: uniqueSpellings([...existing.phoneticHints, ...term.phoneticHints]),
+          replacements: uniqueSpellings([...existing.replacements, ...term.replacements]),
+        }
+        : term);
+    }
+
+    this.entries = Array.from(merged.values());
+    this.compile();
+  }
+
+  /**
+   * Load the user's glossary, plus the terms seeded from a meeting
+   */
+  async load(userId: string, meeting?: Pick<Meeting, 'keywords' | 'participants'>): Promise<void> {
+    const glossary = await DatabaseService.getUserGlossary(userId);
+    this.setTerms([...glossary, ...(meeting ? seedGlossaryTerms(meeting) : [])]);
+  }
+
+  clear(): void {
+    this.setTerms([]);
+  }
+
+  /**
+   * Terms to pass to the STT provider as keywords
+   */
+  getKeywords(): string[] {
+    return [...this.entries]
+      .sort((a, b) => SOURCE_PRIORITY[a.source] - SOURCE_PRIORITY[b.source])
+      .map(term => term.term)
+      .slice(0, this.config.maxKeywords);
+  }
+
+  /**
+   * Replace known misspellings in finalized transcript text with their terms
+   */
+  correct(text: string): VocabularyCorrectionResult {
+    if (!this.pattern || !text) {
+      return { text, corrections: [] };
+    }
+
+    const corrections: VocabularyCorrection[] = [];
+    const corrected = text.replace(this.pattern, match => {
+      const term = this.corrections.get(normalizeSpelling(match));
+      if (!term || term === match) return match;
+      corrections.push({ from: match, to: term });
+      return term;
+    });
+
+    return { text: corrected, corrections };
+  }
+
+  private compile(): void {
+    this.corrections.clear();
+    for (const term of this.entries) {
+      const spellings = [...term.replacements, ...term.phoneticHints];
+      if (term.source === 'manual' && term.term !== term.term.toLowerCase()) {
+        spellings.push(term.term);
+      }
+      for (const spelling of spellings) {
+        const key = normalizeSpelling(spelling);
+        if (key && !this.corrections.has(key)) {
+          this.corrections.set(key, term.term);
+        }
+      }
+    }
+
+    if (this.corrections.size === 0) {
+      this.pattern = null;
+      return;
+    }
+
+    // Longest first so a multi-word spelling wins over a word inside it
+    const alternatives = Array.from(this.corrections.keys())
+      .sort((a, b) => b.length - a.length)
+      .map(key => key.split(' ').map(escapeRegExp).join('[\\s-]+'));
+    this.pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  }
+}
+
+export const customVocabulary = new CustomVocabulary();
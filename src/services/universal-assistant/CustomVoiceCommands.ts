@@ -0,0 +1,259 @@
+/**
+ * CustomVoiceCommands - Phrases users bind to assistant actions in settings.
+ *
+ * A phrase can hold slots in braces, such as "add action item {text} for {person}".
+ * The words around the slots are matched loosely, one word at a time, so a slightly
+ * misheard word still triggers the command; each slot takes whatever was said in its
+ * place. Custom commands are stored as trimmed down VoiceCommands and run through
+ * VocalInterruptService like the built-in ones, cooldowns included.
+ */
+
+import type { AIModel } from '@/types';
+import { modelConfigs } from '@/config/modelConfigs';
+import type { VocalInterruptAction, VoiceCommand } from './VocalInterruptService';
+
+export type CustomVoiceCommandAction = Extract<
+  VocalInterruptAction,
+  'create_note' | 'create_action_item' | 'change_voice' | 'switch_model' | 'mark_decision'
+>;
+
+// Stored in appStore under audioSettings.vocalInterrupts.customCommands, keyed by id
+export interface CustomVoiceCommand extends Pick<VoiceCommand, 'id' | 'keyword' | 'aliases' | 'cooldownPeriod' | 'description'> {
+  action: CustomVoiceCommandAction;
+  enabled: boolean;
+  // A fixed voice or model; without one the command reads it from a {voice} or {model} slot
+  parameters?: {
+    voiceId?: string;
+    model?: AIModel;
+  };
+}
+
+export interface CustomCommandMatch {
+  command: VoiceCommand;
+  slots: Record<string, string>;
+  // Mean similarity of the phrase's words to what was said, from 0 to 1
+  score: number;
+}
+
+export const CUSTOM_COMMAND_ACTIONS: Record<CustomVoiceCommandAction, { label: string; example: string }> = {
+  create_note: { label: 'Create note', example: 'take a note {text}' },
+  create_action_item: { label: 'Create action item', example: 'add action item {text} for {person}' },
+  mark_decision: { label: 'Mark decision', example: 'mark decision {text}' },
+  change_voice: { label: 'Change assistant voice', example: 'switch voice to {voice}' },
+  switch_model: { label: 'Switch AI model', example: 'use model {model}' },
+};
+
+export const COMMAND_VOICES: Array<{ voiceId: string; name: string }> = [
+  { voiceId: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel' },
+  { voiceId: 'pNInz6obpgDQGcFmaJgB', name: 'Adam' },
+  { voiceId: 'Yko7PKHZNXotIFUBG7I9', name: 'Sam' },
+];
+
+// Leading words like "okay so" before a phrase, and trailing ones like "please" after it
+const MAX_LEADING_WORDS = 3;
+const MAX_TRAILING_WORDS = 2;
+// Longer utterances are dictation, not commands
+const MAX_WORDS = 60;
+
+interface Word {
+  original: string;
+  normalized: string;
+}
+
+type PatternToken = { literal: string } | { slot: string };
+
+interface PartialMatch {
+  slots: Record<string, string>;
+  similarity: number;
+  literals: number;
+}
+
+function normalizeWord(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function toWords(text: string): Word[] {
+  return text
+    .split(/\s+/)
+    .map(original => ({ original, normalized: normalizeWord(original) }))
+    .filter(word => word.normalized);
+}
+
+function parsePattern(pattern: string): PatternToken[] {
+  return pattern.split(/\s+/).flatMap<PatternToken>(part => {
+    const slot = part.match(/^\{(\w+)\}$/);
+    if (slot) return [{ slot: slot[1] }];
+    const literal = normalizeWord(part);
+    return literal ? [{ literal }] : [];
+  });
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two words from 0 to 1. Short words have to match exactly at the
+ * usual thresholds, since one wrong letter in "for" makes a different word.
+ */
+export function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 0 : 1 - editDistance(a, b) / length;
+}
+
+function slotValue(words: Word[]): string {
+  return words.map(word => word.original).join(' ').replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+function matchFrom(
+  tokens: PatternToken[],
+  words: Word[],
+  tokenIndex: number,
+  wordIndex: number,
+  threshold: number
+): PartialMatch | null {
+  if (tokenIndex === tokens.length) {
+    return words.length - wordIndex <= MAX_TRAILING_WORDS ? { slots: {}, similarity: 0, literals: 0 } : null;
+  }
+
+  const token = tokens[tokenIndex];
+  if ('literal' in token) {
+    if (wordIndex >= words.length) return null;
+    const similarity = wordSimilarity(token.literal, words[wordIndex].normalized);
+    if (similarity < threshold) return null;
+    const rest = matchFrom(tokens, words, tokenIndex + 1, wordIndex + 1, threshold);
+    return rest && { ...rest, similarity: rest.similarity + similarity, literals: rest.literals + 1 };
+  }
+
+  // A slot at the end takes everything left
+  if (tokenIndex === tokens.length - 1) {
+    const value = slotValue(words.slice(wordIndex));
+    return value ? { slots: { [token.slot]: value }, similarity: 0, literals: 0 } : null;
+  }
+
+  // Otherwise try every length, longest first, and keep the closest fit
+  let best: PartialMatch | null = null;
+  for (let end = words.length - 1; end > wordIndex; end--) {
+    const rest = matchFrom(tokens, words, tokenIndex + 1, end, threshold);
+    if (!rest) continue;
+    const value = slotValue(words.slice(wordIndex, end));
+    if (!value) continue;
+    if (!best || rest.similarity / Math.max(1, rest.literals) > best.similarity / Math.max(1, best.literals)) {
+      best = { ...rest, slots: { ...rest.slots, [token.slot]: value } };
+    }
+  }
+  return best;
+}
+
+/**
+ * Match one phrase against what was said. `threshold` is the similarity each of the
+ * phrase's words needs, from 0 to 1.
+ */
+export function matchCommandPattern(
+  pattern: string,
+  text: string,
+  threshold: number = 0.75
+): { slots: Record<string, string>; score: number } | null {
+  const tokens = parsePattern(pattern);
+  const words = toWords(text);
+  if (tokens.length === 0 || words.length === 0 || words.length > MAX_WORDS) return null;
+
+  // Phrases that open with a slot have nothing to anchor leading words to
+  const maxStart = 'literal' in tokens[0] ? Math.min(MAX_LEADING_WORDS, words.length - 1) : 0;
+  for (let start = 0; start <= maxStart; start++) {
+    const match = matchFrom(tokens, words, 0, start, threshold);
+    if (match) {
+      return {
+        slots: match.slots,
+        score: match.literals > 0 ? match.similarity / match.literals : 1,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * The best matching command, comparing each command's keyword and aliases
+ */
+export function matchCustomCommand(
+  commands: VoiceCommand[],
+  text: string,
+  threshold?: number
+): CustomCommandMatch | null {
+  let best: CustomCommandMatch | null = null;
+
+  for (const command of commands) {
+    for (const phrase of [command.keyword, ...command.aliases]) {
+      const match = matchCommandPattern(phrase, text, threshold);
+      if (match && (!best || match.score > best.score)) {
+        best = { command, ...match };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * The command VocalInterruptService runs for a custom command
+ */
+export function toVoiceCommand(custom: CustomVoiceCommand): VoiceCommand {
+  return {
+    id: custom.id,
+    keyword: custom.keyword,
+    aliases: custom.aliases,
+    action: custom.action,
+    confidence: 0.8,
+    priority: 'normal',
+    requiresConfirmation: false,
+    confirmationTimeout: 5000,
+    cooldownPeriod: custom.cooldownPeriod,
+    description: custom.description,
+    parameters: { ...custom.parameters, custom: true },
+    contextSensitive: false,
+    validContexts: [],
+  };
+}
+
+function compact(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Voice named in a slot, e.g. "Adam" or "Adam please"
+ */
+export function resolveVoice(name: string): { voiceId: string; name: string } | null {
+  const words = toWords(name);
+  return COMMAND_VOICES.find(voice =>
+    words.some(word => wordSimilarity(normalizeWord(voice.name), word.normalized) >= 0.75)
+  ) || null;
+}
+
+/**
+ * Model named in a slot. Spaces and punctuation are ignored, so "GPT 4o mini" finds gpt-4o-mini.
+ */
+export function resolveModel(name: string): AIModel | null {
+  const key = compact(name);
+  if (!key) return null;
+  // Names like claude-3-5-sonnet and claude-3-7-sonnet differ by one character, so take the closest
+  let best: { model: AIModel; similarity: number } | null = null;
+  for (const model of Object.keys(modelConfigs) as AIModel[]) {
+    const similarity = wordSimilarity(compact(model), key);
+    if (similarity >= 0.8 && (!best || similarity > best.similarity)) {
+      best = { model, similarity };
+    }
+  }
+  return best?.model ?? null;
+}
@@ -14,22 +14,62 @@
  * Audio Flow: AudioManager (Blob) → ArrayBuffer → WebSocket → Deepgram → TranscriptionResult
  */
 
-export interface TranscriptionResult {
+import type {
+  ConnectionStatus,
+  LiveTranscriptionOptions,
+  STTProvider,
+  TranscriptionResult,
+  TranscriptionWord,
+} from './STTProvider';
+
+export type { ConnectionStatus, TranscriptionResult, TranscriptionWord } from './STTProvider';
+
+// A word in a live Results message; times are seconds from the start of the stream
+interface DeepgramWord {
+  word: string;
+  punctuated_word?: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  speaker?: number;
+}
+
+// One transcription hypothesis in channel.alternatives of a live Results message
+interface DeepgramAlternative {
   transcript: string;
-  confidence: number;
-  timestamp: number;
-  isFinal: boolean;
+  confidence?: number;
+  words?: DeepgramWord[];
   speaker?: number;
-  utteranceKey?: string;
 }
 
-export interface ConnectionStatus {
-  status: 'connecting' | 'connected' | 'disconnected' | 'error' | 'reconnecting';
-  error?: string;
-  reconnectAttempts?: number;
+/**
+ * Query parameter and values for keyword boosting on a Deepgram model. Nova-3 boosts
+ * whole key terms; earlier models only boost single words.
+ */
+export function toDeepgramKeywords(
+  keywords: string[] = [],
+  model: string
+): { param: 'keyterm' | 'keywords'; values: string[] } {
+  const seen = new Set<string>();
+  const unique = (values: string[]) => values.filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (model.startsWith('nova-3')) {
+    return { param: 'keyterm', values: unique(keywords.map(keyword => keyword.trim())) };
+  }
+  const words = keywords
+    .flatMap(keyword => keyword.split(/\s+/))
+    .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter(word => word.length > 1);
+  return { param: 'keywords', values: unique(words) };
 }
 
-export class DeepgramSTT {
+export class DeepgramSTT implements STTProvider {
+  readonly name = 'deepgram' as const;
   private apiKey: string;
   private websocket: WebSocket | null = null;
   private onTranscription: ((result: TranscriptionResult) => void) | null = null;
@@ -56,19 +96,14 @@ export class DeepgramSTT {
   private recentFinalTtlMs: number = 10000;
   private recentFinalTexts: Map<string, number> = new Map();
   private recentFinalTextTtlMs: number = 5000;
+  // Set when the first chunk of a connection is sent; Deepgram times restart with every connection
+  private audioStartMs: number | null = null;
 
   constructor(apiKey: string) {
     this.apiKey = apiKey;
   }
 
-  async startLiveTranscription(options?: {
-    model?: string;
-    language?: string;
-    punctuate?: boolean;
-    diarize?: boolean;
-    smart_format?: boolean;
-    utterances?: boolean;
-  }): Promise<void> {
+  async startLiveTranscription(options?: LiveTranscriptionOptions): Promise<void> {
     try {
       console.log('[DeepgramSTT] Starting live transcription...');
       this.isIntentionalDisconnect = false;
@@ -78,6 +113,8 @@ export class DeepgramSTT {
       await this.establishWebSocketConnection(options);
     } catch (error) {
       console.error('[DeepgramSTT] Failed to start live transcription:', error);
+      // The caller handles a failed start; do not keep retrying in the background
+      this.isIntentionalDisconnect = true;
       this.updateConnectionStatus({ 
         status: 'error', 
         error: error instanceof Error ? error.message : 'Unknown error' 
@@ -86,14 +123,7 @@ export class DeepgramSTT {
     }
   }
 
-  private async establishWebSocketConnection(options?: {
-    model?: string;
-    language?: string;
-    punctuate?: boolean;
-    diarize?: boolean;
-    smart_format?: boolean;
-    utterances?: boolean;
-  }): Promise<void> {
+  private async establishWebSocketConnection(options?: LiveTranscriptionOptions): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
         console.log('[DeepgramSTT] Establishing WebSocket connection...');
@@ -117,6 +147,11 @@ export class DeepgramSTT {
           wsUrl.searchParams.set('utterances', 'true');
         }
 
+        const keywords = toDeepgramKeywords(options?.keywords, wsUrl.searchParams.get('model') || '');
+        for (const keyword of keywords.values) {
+          wsUrl.searchParams.append(keywords.param, keyword);
+        }
+
         console.log('[DeepgramSTT] WebSocket URL:', wsUrl.toString());
         console.log('[DeepgramSTT] Audio format configuration (WebM containerized):', {
           encoding: 'auto-detected from WebM container',
@@ -132,6 +167,8 @@ export class DeepgramSTT {
 
         // Create WebSocket connection using subprotocol authentication (Deepgram standard)
         this.websocket = new WebSocket(wsUrl.toString(), ['token', this.apiKey]);
+        // The socket is already CLOSED when a failed handshake reports its error
+        let hasOpened = false;
 
         // Set up connection timeout
         const connectionTimeout = setTimeout(() => {
@@ -143,10 +180,12 @@ export class DeepgramSTT {
         }, 10000);
 
         this.websocket.onopen = () => {
+          hasOpened = true;
           clearTimeout(connectionTimeout);
           console.log('[DeepgramSTT] WebSocket connection established');
           this.updateConnectionStatus({ status: 'connected' });
           this.reconnectAttempts = 0;
+          this.audioStartMs = null;
           this.startHeartbeat();
           
           // PERFORMANCE OPTIMIZATION: Process any queued chunks
@@ -170,7 +209,7 @@ export class DeepgramSTT {
             error: 'WebSocket connection error' 
           });
           
-          if (this.websocket?.readyState === WebSocket.CONNECTING) {
+          if (!hasOpened) {
             reject(new Error('WebSocket connection failed'));
           }
         };
@@ -218,6 +257,9 @@ export class DeepgramSTT {
         // Send all queued chunks
         const chunksToSend = [...this.chunkQueue];
         this.chunkQueue = [];
+        if (this.audioStartMs === null) {
+          this.audioStartMs = Date.now();
+        }
         
         for (const chunk of chunksToSend) {
           this.websocket.send(chunk);
@@ -280,7 +322,7 @@ export class DeepgramSTT {
         console.log(`[DeepgramSTT] Processing Results message with ${data.channel.alternatives.length} alternatives`);
         
         if (data.channel.alternatives.length > 0) {
-          const alternative = data.channel.alternatives[0];
+          const alternative: DeepgramAlternative = data.channel.alternatives[0];
           console.log('[DeepgramSTT] Alternative data:', {
             transcript: alternative.transcript,
             transcriptLength: alternative.transcript?.length || 0,
@@ -309,7 +351,9 @@ export class DeepgramSTT {
               timestamp: Date.now(),
               isFinal: data.is_final || false,
               speaker: this.extractSpeakerId(alternative),
-              utteranceKey
+              utteranceKey,
+              words: this.extractWords(alternative),
+              ...(this.audioStartMs !== null && { audioStartMs: this.audioStartMs })
             };
 
             // CRITICAL FIX: Filter interim results to prevent duplicates
@@ -390,7 +434,7 @@ export class DeepgramSTT {
     }
   }
 
-  private extractSpeakerId(alternative: any): number | undefined {
+  private extractSpeakerId(alternative: DeepgramAlternative): number | undefined {
     // Try to get speaker ID from words array
     if (alternative.words && alternative.words.length > 0) {
       const firstWord = alternative.words[0];
@@ -407,6 +451,21 @@ export class DeepgramSTT {
     return undefined;
   }
 
+  private extractWords(alternative: DeepgramAlternative): TranscriptionWord[] | undefined {
+    if (!Array.isArray(alternative.words) || alternative.words.length === 0) {
+      return undefined;
+    }
+
+    return alternative.words.map((word) => ({
+      word: word.word,
+      punctuatedWord: word.punctuated_word,
+      start: word.start,
+      end: word.end,
+      confidence: word.confidence ?? 0,
+      speaker: word.speaker,
+    }));
+  }
+
   stopTranscription(): void {
     console.log('[DeepgramSTT] Stopping transcription...');
     this.isIntentionalDisconnect = true;
@@ -505,6 +564,10 @@ export class DeepgramSTT {
     this.onTranscription = handler;
   }
 
+  setInterimTranscriptionHandler(handler: (result: TranscriptionResult) => void): void {
+    this.onInterimTranscription = handler;
+  }
+
   setConnectionChangeHandler(handler: (status: ConnectionStatus) => void): void {
     this.onConnectionChange = handler;
   }
@@ -537,6 +600,7 @@ export class DeepgramSTT {
     console.log('[DeepgramSTT] Cleaning up resources...');
     this.stopTranscription();
     this.onTranscription = null;
+    this.onInterimTranscription = null;
     this.onConnectionChange = null;
   }
 
@@ -546,14 +610,7 @@ export class DeepgramSTT {
   }
 
   // Method to manually trigger reconnection (useful for testing)
-  async forceReconnect(options?: {
-    model?: string;
-    language?: string;
-    punctuate?: boolean;
-    diarize?: boolean;
-    smart_format?: boolean;
-    utterances?: boolean;
-  }): Promise<void> {
+  async forceReconnect(options?: LiveTranscriptionOptions): Promise<void> {
     console.log('[DeepgramSTT] Force reconnecting...');
     this.isIntentionalDisconnect = true; // Prevent auto-reconnection
     
@@ -1,3 +1,5 @@
+import { cosineSimilarity, EmbeddingAudio, InsufficientSpeechError, SpeakerEmbeddingExtractor, speakerEmbeddingExtractor } from './SpeakerEmbeddingExtractor';
+
 export interface Speaker {
     id: string;
     name?: string;
@@ -15,157 +17,460 @@ export interface Speaker {
       confidence: number;
     }>;
   }
-  
+
+  export interface DiarizationConfig {
+    // Minimum centroid similarity for a segment to join an existing speaker
+    assignThreshold: number;
+    // Centroid similarity at which two speakers are considered the same voice
+    mergeThreshold: number;
+    // Floor for absorbing a small cluster that looks like a typical member of a larger one
+    minMergeSimilarity: number;
+    // Mean cosine distance from the centroid above which a speaker is checked for a split
+    splitSpreadThreshold: number;
+    minSegmentsToSplit: number;
+    maxSegmentsPerCluster: number;
+    // Apply merge/split proposals immediately instead of waiting for applyProposal()
+    autoApplyCorrections: boolean;
+  }
+
+  // Retroactive relabel: utterances previously attributed to fromSpeakerId now belong to toSpeakerId
+  export interface SpeakerCorrection {
+    type: 'merge' | 'split';
+    fromSpeakerId: string;
+    toSpeakerId: string;
+    // Timestamps of the utterances that moved; undefined means all of them
+    timestamps?: number[];
+  }
+
+  export interface SpeakerClusterProposal {
+    id: string;
+    type: 'merge' | 'split';
+    // merge: [speaker kept, speaker absorbed]; split: [speaker being split]
+    speakerIds: string[];
+    // merge: centroid similarity; split: similarity between the two halves
+    similarity: number;
+    // split: utterances that would move to the new speaker
+    timestamps?: number[];
+  }
+
+  interface ClusterSegment {
+    timestamp: number;
+    embedding: number[];
+  }
+
+  interface SpeakerCluster {
+    speakerId: string;
+    centroid: number[];
+    segments: ClusterSegment[];
+  }
+
+  type SpeakerChangeCallback = (speakerId: string, correction?: SpeakerCorrection) => void;
+
+  const DEFAULT_CONFIG: DiarizationConfig = {
+    assignThreshold: 0.7,
+    mergeThreshold: 0.82,
+    minMergeSimilarity: 0.5,
+    splitSpreadThreshold: 0.1,
+    minSegmentsToSplit: 6,
+    maxSegmentsPerCluster: 100,
+    autoApplyCorrections: true,
+  };
+
   export class DiarizationService {
     private speakers: Map<string, Speaker> = new Map();
     private activeSpeaker: string | null = null;
-    private speakerChangeCallbacks: Set<(speakerId: string) => void> = new Set();
-    private voiceEmbeddings: Map<string, number[]> = new Map();
-  
+    private speakerChangeCallbacks: Set<SpeakerChangeCallback> = new Set();
+    private clusters: Map<string, SpeakerCluster> = new Map();
+    private proposals: Map<string, SpeakerClusterProposal> = new Map();
+    // Upstream speaker labels and the speaker each was last clustered as
+    private labelSpeakers: Map<string, string> = new Map();
+    private nextSpeakerNumber = 1;
+    private config: DiarizationConfig;
+
+    constructor(config: Partial<DiarizationConfig> = {}) {
+      this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /**
+     * Attribute a segment to a speaker by voice. The upstream label (e.g. Deepgram's)
+     * is only a hint, used when the segment holds too little speech to cluster.
+     */
     async processSpeakerSegment(
-      audioData: ArrayBuffer,
+      audioData: EmbeddingAudio,
       transcript: string,
-      speakerId?: string,
-      timestamp?: number
+      speakerLabel?: string,
+      timestamp?: number,
+      sampleRate?: number
     ): Promise<string> {
-      // Generate or retrieve speaker ID
-      const id = speakerId || await this.identifySpeaker(audioData);
-      
+      const time = timestamp || Date.now();
+
+      let id: string;
+      let clustered = false;
+      try {
+        id = await this.identifySpeaker(audioData, time, sampleRate);
+        clustered = true;
+      } catch (error) {
+        const fallback = this.getFallbackSpeaker(speakerLabel);
+        if (!(error instanceof InsufficientSpeechError) || !fallback) throw error;
+        id = fallback;
+      }
+
       // Update or create speaker
       let speaker = this.speakers.get(id);
       if (!speaker) {
         speaker = {
           id,
-          lastActiveTime: timestamp || Date.now(),
+          lastActiveTime: time,
           totalSpeakingTime: 0,
           utterances: [],
         };
         this.speakers.set(id, speaker);
       }
-  
+
       // Add utterance
       const utterance = {
         text: transcript,
-        timestamp: timestamp || Date.now(),
-        duration: 0, // Calculate from audio if needed
+        timestamp: time,
+        duration: audioData instanceof Float32Array && sampleRate ? Math.round((audioData.length / sampleRate) * 1000) : 0,
         confidence: 0.95,
       };
       speaker.utterances.push(utterance);
       speaker.lastActiveTime = utterance.timestamp;
-  
+      speaker.totalSpeakingTime += utterance.duration;
+
       // Handle speaker change
       if (this.activeSpeaker !== id) {
         this.activeSpeaker = id;
         this.notifySpeakerChange(id);
       }
-  
-      return id;
+
+      if (clustered) {
+        this.reconsiderCluster(id);
+      }
+
+      const resolved = this.resolveSpeakerId(id);
+      if (speakerLabel && clustered) {
+        this.labelSpeakers.set(speakerLabel, resolved);
+      }
+      return resolved;
     }
-  
-    private async identifySpeaker(audioData: ArrayBuffer): Promise<string> {
-      // Extract voice features (simplified - would use actual voice embedding model)
-      const embedding = await this.extractVoiceEmbedding(audioData);
-      
-      // Compare with known speakers
+
+    /**
+     * Speaker an upstream label was last clustered as
+     */
+    getSpeakerForLabel(label: string): string | undefined {
+      return this.labelSpeakers.get(label);
+    }
+
+    // Without enough speech: the speaker the label was last clustered as; the label itself
+    // while nothing has been clustered (no audio is available); else whoever is talking
+    private getFallbackSpeaker(label?: string): string | null {
+      const clusteredAs = label ? this.labelSpeakers.get(label) : undefined;
+      if (clusteredAs) return clusteredAs;
+      if (label && this.clusters.size === 0) return label;
+      return this.activeSpeaker;
+    }
+
+    private async identifySpeaker(audioData: EmbeddingAudio, timestamp: number, sampleRate?: number): Promise<string> {
+      const embedding = await this.extractVoiceEmbedding(audioData, sampleRate);
+
+      // Compare with known speaker centroids
       let bestMatch: { id: string; similarity: number } | null = null;
-      for (const [speakerId, knownEmbedding] of this.voiceEmbeddings) {
-        const similarity = this.cosineSimilarity(embedding, knownEmbedding);
+      for (const cluster of this.clusters.values()) {
+        const similarity = cosineSimilarity(embedding, cluster.centroid);
         if (!bestMatch || similarity > bestMatch.similarity) {
-          bestMatch = { id: speakerId, similarity };
+          bestMatch = { id: cluster.speakerId, similarity };
         }
       }
-  
+
       // Threshold for new speaker detection
-      if (!bestMatch || bestMatch.similarity < 0.7) {
-        const newId = `speaker_${this.speakers.size + 1}`;
-        this.voiceEmbeddings.set(newId, embedding);
+      if (!bestMatch || bestMatch.similarity < this.config.assignThreshold) {
+        const newId = this.createSpeakerId();
+        this.clusters.set(newId, { speakerId: newId, centroid: embedding, segments: [{ timestamp, embedding }] });
         return newId;
       }
-  
+
+      const cluster = this.clusters.get(bestMatch.id)!;
+      cluster.segments.push({ timestamp, embedding });
+      if (cluster.segments.length > this.config.maxSegmentsPerCluster) {
+        cluster.segments.shift();
+      }
+      cluster.centroid = SpeakerEmbeddingExtractor.averageEmbeddings(cluster.segments.map(segment => segment.embedding));
       return bestMatch.id;
     }
-  
-    private async extractVoiceEmbedding(audioData: ArrayBuffer): Promise<number[]> {
-      // Placeholder - would use actual voice embedding model
-      // In production, use pyannote.audio or similar
-      const view = new DataView(audioData);
-      const embedding: number[] = [];
-      const sampleSize = Math.min(512, view.byteLength / 4);
-          
-    for (let i = 0; i < sampleSize; i++) {
-        embedding.push(view.getFloat32(i * 4, true));
-      }
-      
-      return embedding;
-    }
-  
-    private cosineSimilarity(a: number[], b: number[]): number {
-      if (a.length !== b.length) return 0;
-      
-      let dotProduct = 0;
-      let normA = 0;
-      let normB = 0;
-      
-      for (let i = 0; i < a.length; i++) {
-        dotProduct += a[i] * b[i];
-        normA += a[i] * a[i];
-        normB += b[i] * b[i];
-      }
-      
-      return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-    }
-  
-    private notifySpeakerChange(speakerId: string): void {
-      this.speakerChangeCallbacks.forEach(callback => callback(speakerId));
-    }
-  
-    onSpeakerChange(callback: (speakerId: string) => void): () => void {
+
+    private async extractVoiceEmbedding(audioData: EmbeddingAudio, sampleRate?: number): Promise<number[]> {
+      return speakerEmbeddingExtractor.extract(audioData, sampleRate);
+    }
+
+    private createSpeakerId(): string {
+      let id = `speaker_${this.nextSpeakerNumber++}`;
+      while (this.speakers.has(id) || this.clusters.has(id)) {
+        id = `speaker_${this.nextSpeakerNumber++}`;
+      }
+      return id;
+    }
+
+    // A speaker merged away while its segment was processed resolves to the survivor
+    private resolveSpeakerId(id: string): string {
+      return this.speakers.has(id) ? id : this.activeSpeaker || id;
+    }
+
+    /**
+     * Look for a speaker this cluster has converged with, or signs that it holds two voices
+     */
+    private reconsiderCluster(speakerId: string): void {
+      const cluster = this.clusters.get(speakerId);
+      if (!cluster) return;
+
+      for (const other of this.clusters.values()) {
+        if (other.speakerId === speakerId) continue;
+        const similarity = cosineSimilarity(cluster.centroid, other.centroid);
+        if (similarity >= this.getMergeThreshold(cluster, other)) {
+          const [keep, absorb] = this.chooseMergeOrder(cluster.speakerId, other.speakerId);
+          this.propose({ id: `merge:${keep}:${absorb}`, type: 'merge', speakerIds: [keep, absorb], similarity });
+          return;
+        }
+      }
+
+      const split = this.findSplit(cluster);
+      if (split) {
+        this.propose(split);
+      }
+    }
+
+    /**
+     * Centroids of two established speakers must converge past mergeThreshold. A small
+     * cluster, usually spawned by one noisy segment early on, only has to look like a
+     * typical member of the larger one: within two deviations of its member similarity.
+     */
+    private getMergeThreshold(a: SpeakerCluster, b: SpeakerCluster): number {
+      const [small, large] = a.segments.length <= b.segments.length ? [a, b] : [b, a];
+      if (small.segments.length >= this.config.minSegmentsToSplit || large.segments.length < 3) {
+        return this.config.mergeThreshold;
+      }
+
+      const similarities = large.segments.map(segment => cosineSimilarity(segment.embedding, large.centroid));
+      const mean = similarities.reduce((sum, value) => sum + value, 0) / similarities.length;
+      const deviation = Math.sqrt(similarities.reduce((sum, value) => sum + (value - mean) ** 2, 0) / similarities.length);
+      return Math.min(this.config.mergeThreshold, Math.max(this.config.minMergeSimilarity, mean - 2 * deviation));
+    }
+
+    // Named speakers keep their identity, then the speaker with more evidence
+    private chooseMergeOrder(a: string, b: string): [string, string] {
+      const speakerA = this.speakers.get(a);
+      const speakerB = this.speakers.get(b);
+      if (speakerA?.name && !speakerB?.name) return [a, b];
+      if (speakerB?.name && !speakerA?.name) return [b, a];
+      const sizeA = this.clusters.get(a)?.segments.length || 0;
+      const sizeB = this.clusters.get(b)?.segments.length || 0;
+      if (sizeA !== sizeB) return sizeA > sizeB ? [a, b] : [b, a];
+      return a < b ? [a, b] : [b, a];
+    }
+
+    /**
+     * Two-means split of a cluster whose segments have drifted apart. The half holding
+     * the earliest segment keeps the speaker ID.
+     */
+    private findSplit(cluster: SpeakerCluster): SpeakerClusterProposal | null {
+      const { segments } = cluster;
+      if (segments.length < this.config.minSegmentsToSplit) return null;
+
+      const spread = segments.reduce((sum, segment) => sum + (1 - cosineSimilarity(segment.embedding, cluster.centroid)), 0) / segments.length;
+      if (spread < this.config.splitSpreadThreshold) return null;
+
+      // Seed with the outlier and the segment farthest from it
+      const farthestFrom = (reference: number[]) => segments.reduce((best, segment) =>
+        cosineSimilarity(segment.embedding, reference) < cosineSimilarity(best.embedding, reference) ? segment : best
+      );
+      let centroidA = farthestFrom(cluster.centroid).embedding;
+      let centroidB = farthestFrom(centroidA).embedding;
+      let inA: boolean[] = [];
+
+      for (let iteration = 0; iteration < 5; iteration++) {
+        inA = segments.map(segment => cosineSimilarity(segment.embedding, centroidA) >= cosineSimilarity(segment.embedding, centroidB));
+        centroidA = SpeakerEmbeddingExtractor.averageEmbeddings(segments.filter((_, i) => inA[i]).map(segment => segment.embedding));
+        centroidB = SpeakerEmbeddingExtractor.averageEmbeddings(segments.filter((_, i) => !inA[i]).map(segment => segment.embedding));
+      }
+
+      const sizeA = inA.filter(Boolean).length;
+      const minimumSize = Math.max(2, Math.floor(this.config.minSegmentsToSplit / 3));
+      if (sizeA < minimumSize || segments.length - sizeA < minimumSize) return null;
+
+      const similarity = cosineSimilarity(centroidA, centroidB);
+      if (similarity >= this.config.assignThreshold) return null;
+
+      const earliest = segments.reduce((first, segment, i) => (segment.timestamp < segments[first].timestamp ? i : first), 0);
+      const moving = segments.filter((_, i) => inA[i] !== inA[earliest]).map(segment => segment.timestamp);
+
+      return {
+        id: `split:${cluster.speakerId}`,
+        type: 'split',
+        speakerIds: [cluster.speakerId],
+        similarity,
+        timestamps: moving,
+      };
+    }
+
+    private propose(proposal: SpeakerClusterProposal): void {
+      this.proposals.set(proposal.id, proposal);
+      if (this.config.autoApplyCorrections) {
+        this.applyProposal(proposal.id);
+      }
+    }
+
+    getProposals(): SpeakerClusterProposal[] {
+      return Array.from(this.proposals.values());
+    }
+
+    applyProposal(proposalId: string): boolean {
+      const proposal = this.proposals.get(proposalId);
+      if (!proposal) return false;
+      this.proposals.delete(proposalId);
+
+      if (proposal.type === 'merge') {
+        const [keep, absorb] = proposal.speakerIds;
+        if (!this.speakers.has(keep) || !this.speakers.has(absorb)) return false;
+        this.mergeSpeakers(keep, absorb);
+        return true;
+      }
+
+      return this.splitSpeaker(proposal.speakerIds[0], proposal.timestamps || []) !== null;
+    }
+
+    dismissProposal(proposalId: string): void {
+      this.proposals.delete(proposalId);
+    }
+
+    /**
+     * Move the utterances at `timestamps` to a new speaker. Returns the new speaker ID.
+     */
+    splitSpeaker(speakerId: string, timestamps: number[]): string | null {
+      const speaker = this.speakers.get(speakerId);
+      if (!speaker || timestamps.length === 0) return null;
+
+      const moving = new Set(timestamps);
+      const newId = this.createSpeakerId();
+      const movedUtterances = speaker.utterances.filter(utterance => moving.has(utterance.timestamp));
+      speaker.utterances = speaker.utterances.filter(utterance => !moving.has(utterance.timestamp));
+
+      this.speakers.set(newId, {
+        id: newId,
+        lastActiveTime: Math.max(0, ...movedUtterances.map(utterance => utterance.timestamp)),
+        totalSpeakingTime: movedUtterances.reduce((sum, utterance) => sum + utterance.duration, 0),
+        utterances: movedUtterances,
+      });
+      speaker.totalSpeakingTime = speaker.utterances.reduce((sum, utterance) => sum + utterance.duration, 0);
+
+      const cluster = this.clusters.get(speakerId);
+      if (cluster) {
+        const movedSegments = cluster.segments.filter(segment => moving.has(segment.timestamp));
+        cluster.segments = cluster.segments.filter(segment => !moving.has(segment.timestamp));
+        cluster.centroid = SpeakerEmbeddingExtractor.averageEmbeddings(cluster.segments.map(segment => segment.embedding));
+        this.clusters.set(newId, {
+          speakerId: newId,
+          centroid: SpeakerEmbeddingExtractor.averageEmbeddings(movedSegments.map(segment => segment.embedding)),
+          segments: movedSegments,
+        });
+      }
+
+      if (this.activeSpeaker === speakerId && moving.has(speaker.lastActiveTime)) {
+        this.activeSpeaker = newId;
+      }
+      this.proposals.delete(`split:${speakerId}`);
+
+      this.notifySpeakerChange(newId, { type: 'split', fromSpeakerId: speakerId, toSpeakerId: newId, timestamps });
+      return newId;
+    }
+
+    private notifySpeakerChange(speakerId: string, correction?: SpeakerCorrection): void {
+      this.speakerChangeCallbacks.forEach(callback => callback(speakerId, correction));
+    }
+
+    /**
+     * Fires when the active speaker changes, and with a `correction` when earlier
+     * utterances are relabeled by a merge or split
+     */
+    onSpeakerChange(callback: SpeakerChangeCallback): () => void {
       this.speakerChangeCallbacks.add(callback);
       return () => this.speakerChangeCallbacks.delete(callback);
     }
-  
+
     getSpeaker(id: string): Speaker | undefined {
       return this.speakers.get(id);
     }
-  
+
     getAllSpeakers(): Speaker[] {
       return Array.from(this.speakers.values());
     }
-  
+
+    // Centroid of the speaker's voice cluster, for matching against stored profiles
+    getSpeakerEmbedding(speakerId: string): number[] | undefined {
+      return this.clusters.get(speakerId)?.centroid;
+    }
+
     assignName(speakerId: string, name: string): void {
       const speaker = this.speakers.get(speakerId);
       if (speaker) {
         speaker.name = name;
       }
     }
-  
+
     mergeSpeakers(speakerId1: string, speakerId2: string): void {
       const speaker1 = this.speakers.get(speakerId1);
       const speaker2 = this.speakers.get(speakerId2);
-      
+
       if (speaker1 && speaker2) {
         // Merge utterances
         speaker1.utterances.push(...speaker2.utterances);
         speaker1.utterances.sort((a, b) => a.timestamp - b.timestamp);
-        
+
         // Update stats
         speaker1.totalSpeakingTime += speaker2.totalSpeakingTime;
         speaker1.lastActiveTime = Math.max(
           speaker1.lastActiveTime,
           speaker2.lastActiveTime
         );
-        
+        speaker1.name = speaker1.name || speaker2.name;
+
+        // Merge voice clusters
+        const cluster1 = this.clusters.get(speakerId1);
+        const cluster2 = this.clusters.get(speakerId2);
+        if (cluster1 && cluster2) {
+          cluster1.segments = [...cluster1.segments, ...cluster2.segments]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .slice(-this.config.maxSegmentsPerCluster);
+          cluster1.centroid = SpeakerEmbeddingExtractor.averageEmbeddings(cluster1.segments.map(segment => segment.embedding));
+        } else if (cluster2) {
+          this.clusters.set(speakerId1, { ...cluster2, speakerId: speakerId1 });
+        }
+
         // Remove speaker2
         this.speakers.delete(speakerId2);
-        this.voiceEmbeddings.delete(speakerId2);
+        this.clusters.delete(speakerId2);
+        Array.from(this.proposals.values())
+          .filter(proposal => proposal.speakerIds.includes(speakerId2))
+          .forEach(proposal => this.proposals.delete(proposal.id));
+
+        if (this.activeSpeaker === speakerId2) {
+          this.activeSpeaker = speakerId1;
+        }
+        this.labelSpeakers.forEach((speakerId, label) => {
+          if (speakerId === speakerId2) this.labelSpeakers.set(label, speakerId1);
+        });
+
+        this.notifySpeakerChange(speakerId1, { type: 'merge', fromSpeakerId: speakerId2, toSpeakerId: speakerId1 });
       }
     }
-  
+
     reset(): void {
       this.speakers.clear();
-      this.voiceEmbeddings.clear();
+      this.clusters.clear();
+      this.proposals.clear();
+      this.labelSpeakers.clear();
       this.activeSpeaker = null;
+      this.nextSpeakerNumber = 1;
     }
   }
-  
-  export const diarizationService = new DiarizationService();
\ No newline at end of file
+
+  export const diarizationService = new DiarizationService();
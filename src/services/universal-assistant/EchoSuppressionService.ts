@@ -0,0 +1,309 @@
+/**
+ * EchoSuppressionService - Takes the assistant's own voice out of transcripts.
+ *
+ * Played through speakers, the assistant's replies reach the microphone and come
+ * back as if a participant had said them. Gating input while the assistant talks
+ * also drops whatever people say over it, so instead every reply is kept as a
+ * reference, with its text and when it played. Transcript words that follow a
+ * reference's wording, at about the time the reference was playing, are removed.
+ * Anything else in the same result, such as someone talking over the reply, stays.
+ */
+
+import { nanoid } from 'nanoid';
+import { wordSimilarity } from './CustomVoiceCommands';
+import type { TranscriptionResult, TranscriptionWord } from './STTProvider';
+import type { StreamingTTSService } from './StreamingTTSService';
+
+export interface EchoSuppressionConfig {
+  enabled: boolean;
+  // Speaking rate used to estimate how long a reply plays when its length is unknown
+  wordsPerSecond: number;
+  // Allowance for speaker to microphone delay and transcription timing error
+  alignmentToleranceMs: number;
+  // Similarity a transcript word needs to count as the reply's word
+  minWordSimilarity: number;
+  // Matching words in a row needed before they are removed; shorter results must match entirely
+  minRunWords: number;
+  // References are dropped this long after they should have finished
+  retentionMs: number;
+}
+
+export interface EchoReference {
+  id: string;
+  text: string;
+  startedAt: number;
+  // Set once playback is known to have ended; estimated from the text until then
+  endedAt?: number;
+  durationMs: number;
+}
+
+interface Token {
+  normalized: string;
+  // Wall-clock time the word was heard, when the provider gives word timings
+  heardAt?: number;
+}
+
+const DEFAULT_CONFIG: EchoSuppressionConfig = {
+  enabled: true,
+  wordsPerSecond: 2.6,
+  alignmentToleranceMs: 2500,
+  minWordSimilarity: 0.8,
+  minRunWords: 3,
+  retentionMs: 10000,
+};
+
+// Words of the reply that may be lost in transcription inside a matching run
+const MAX_SKIPPED_REFERENCE_WORDS = 2;
+
+function normalizeWord(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function toNormalizedWords(text: string): string[] {
+  return text.split(/\s+/).map(normalizeWord).filter(Boolean);
+}
+
+export class EchoSuppressionService {
+  private config: EchoSuppressionConfig;
+  private references: EchoReference[] = [];
+  private suppressedWordCount = 0;
+
+  constructor(config: Partial<EchoSuppressionConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  updateConfig(config: Partial<EchoSuppressionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Note that the assistant started saying something. Returns an id for endReference.
+   */
+  addReference(text: string, options: { startedAt?: number; durationMs?: number } = {}): string {
+    const reference: EchoReference = {
+      id: nanoid(),
+      text,
+      startedAt: options.startedAt ?? Date.now(),
+      durationMs: options.durationMs ?? this.estimateDuration(text),
+    };
+    this.prune(reference.startedAt);
+    this.references.push(reference);
+    return reference.id;
+  }
+
+  endReference(id: string, endedAt: number = Date.now()): void {
+    const reference = this.references.find(r => r.id === id);
+    if (reference) {
+      reference.endedAt = endedAt;
+    }
+  }
+
+  /**
+   * Follow what StreamingTTSService generates. Audio plays as it streams in, so a
+   * session's reply is heard from its start until its estimated length after it completes.
+   */
+  trackStreamingTTS(service: Pick<StreamingTTSService, 'setEventListeners'>): void {
+    const referenceIds = new Map<string, string>();
+    const finish = (sessionId: string, at: number) => {
+      const id = referenceIds.get(sessionId);
+      if (id) {
+        this.endReference(id, at);
+        referenceIds.delete(sessionId);
+      }
+    };
+
+    service.setEventListeners({
+      onStreamStart: (session) => {
+        referenceIds.set(session.sessionId, this.addReference(session.text, {
+          startedAt: session.startTime,
+          ...(session.estimatedDuration && { durationMs: session.estimatedDuration }),
+        }));
+      },
+      onStreamComplete: (session) => {
+        const reference = this.references.find(r => r.id === referenceIds.get(session.sessionId));
+        if (reference) {
+          reference.durationMs = Math.max(reference.durationMs, (session.endTime ?? Date.now()) - reference.startedAt);
+        }
+        referenceIds.delete(session.sessionId);
+      },
+      onStreamError: (session) => finish(session.sessionId, session.endTime ?? Date.now()),
+    });
+  }
+
+  /**
+   * A transcription result without the assistant's own words, or null when nothing
+   * else was said. Results with nothing to remove come back unchanged.
+   */
+  filterResult(result: TranscriptionResult): TranscriptionResult | null {
+    if (!this.config.enabled || this.references.length === 0) {
+      return result;
+    }
+
+    if (result.words?.length) {
+      const tokens = result.words.map(word => ({
+        normalized: normalizeWord(word.punctuatedWord || word.word),
+        ...(result.audioStartMs !== undefined && { heardAt: result.audioStartMs + word.start * 1000 }),
+      }));
+      const echo = this.findEcho(tokens, result.timestamp);
+      if (echo.size === 0) return result;
+
+      const words = result.words.filter((_, index) => !echo.has(index));
+      if (words.length === 0) return null;
+      return { ...result, words, transcript: this.joinWords(words) };
+    }
+
+    const text = this.filterText(result.transcript, result.timestamp);
+    if (text === result.transcript) return result;
+    return text ? { ...result, transcript: text } : null;
+  }
+
+  /**
+   * Text without the assistant's own words, for results that have no word timings
+   */
+  filterText(text: string, heardAt: number = Date.now()): string {
+    if (!this.config.enabled || this.references.length === 0) {
+      return text;
+    }
+
+    const originals = text.split(/\s+/).filter(word => normalizeWord(word));
+    const echo = this.findEcho(originals.map(word => ({ normalized: normalizeWord(word) })), heardAt);
+    if (echo.size === 0) return text;
+    return originals.filter((_, index) => !echo.has(index)).join(' ');
+  }
+
+  getReferences(): EchoReference[] {
+    return this.references.map(reference => ({ ...reference }));
+  }
+
+  // Words removed so far, for diagnostics
+  getSuppressedWordCount(): number {
+    return this.suppressedWordCount;
+  }
+
+  reset(): void {
+    this.references = [];
+    this.suppressedWordCount = 0;
+  }
+
+  private findEcho(tokens: Token[], heardAt: number): Set<number> {
+    this.prune(heardAt);
+    const echo = new Set<number>();
+    if (tokens.length === 0) return echo;
+
+    for (const reference of this.references) {
+      if (!this.overlapsInTime(reference, tokens, heardAt)) continue;
+
+      const referenceWords = toNormalizedWords(reference.text);
+      for (const run of this.matchingRuns(tokens, referenceWords)) {
+        const isWholeResult = run.length === tokens.length && tokens.length >= 2;
+        if (run.length < this.config.minRunWords && !isWholeResult) continue;
+        if (!this.isAligned(reference, tokens, referenceWords.length, run)) continue;
+        run.forEach(([tokenIndex]) => echo.add(tokenIndex));
+      }
+    }
+
+    this.suppressedWordCount += echo.size;
+    return echo;
+  }
+
+  /**
+   * Runs of transcript words that follow the reference's wording in order.
+   * Each entry pairs a transcript index with a reference index.
+   */
+  private matchingRuns(tokens: Token[], referenceWords: string[]): Array<Array<[number, number]>> {
+    const matches = (i: number, j: number) =>
+      wordSimilarity(tokens[i].normalized, referenceWords[j]) >= this.config.minWordSimilarity;
+
+    // Longest common subsequence, allowing close spellings
+    const rows = tokens.length + 1;
+    const cols = referenceWords.length + 1;
+    const lengths: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+    for (let i = tokens.length - 1; i >= 0; i--) {
+      for (let j = referenceWords.length - 1; j >= 0; j--) {
+        lengths[i][j] = matches(i, j)
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < tokens.length && j < referenceWords.length) {
+      if (matches(i, j) && lengths[i][j] === lengths[i + 1][j + 1] + 1) {
+        pairs.push([i, j]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    // Consecutive transcript words over nearly consecutive reference words
+    const runs: Array<Array<[number, number]>> = [];
+    for (const pair of pairs) {
+      const run = runs[runs.length - 1];
+      const last = run?.[run.length - 1];
+      if (last && pair[0] === last[0] + 1 && pair[1] - last[1] <= MAX_SKIPPED_REFERENCE_WORDS + 1) {
+        run.push(pair);
+      } else {
+        runs.push([pair]);
+      }
+    }
+    return runs;
+  }
+
+  private overlapsInTime(reference: EchoReference, tokens: Token[], heardAt: number): boolean {
+    const tolerance = this.config.alignmentToleranceMs;
+    const end = this.referenceEnd(reference);
+    const times = tokens.map(token => token.heardAt).filter((time): time is number => time !== undefined);
+    // Without word timings the result arrived some time after it was said
+    const first = times.length > 0 ? Math.min(...times) : heardAt - tolerance;
+    const last = times.length > 0 ? Math.max(...times) : heardAt;
+    return first <= end + tolerance && last >= reference.startedAt - tolerance;
+  }
+
+  /**
+   * With word timings, the run must be heard about when the reply reached those words
+   */
+  private isAligned(reference: EchoReference, tokens: Token[], referenceLength: number, run: Array<[number, number]>): boolean {
+    const [tokenIndex, referenceIndex] = run[0];
+    const heardAt = tokens[tokenIndex].heardAt;
+    if (heardAt === undefined || referenceLength === 0) return true;
+
+    const duration = this.referenceEnd(reference) - reference.startedAt;
+    const expectedAt = reference.startedAt + (referenceIndex / referenceLength) * duration;
+    // Speaking rate is only estimated, so allow more slack further into long replies
+    return Math.abs(heardAt - expectedAt) <= this.config.alignmentToleranceMs + 0.25 * duration;
+  }
+
+  private referenceEnd(reference: EchoReference): number {
+    return reference.endedAt ?? reference.startedAt + reference.durationMs;
+  }
+
+  private estimateDuration(text: string): number {
+    return (toNormalizedWords(text).length / this.config.wordsPerSecond) * 1000;
+  }
+
+  private joinWords(words: TranscriptionWord[]): string {
+    return words.map(word => word.punctuatedWord || word.word).join(' ');
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.config.retentionMs;
+    this.references = this.references.filter(reference => this.referenceEnd(reference) >= cutoff);
+  }
+}
+
+export function createEchoSuppressionService(config?: Partial<EchoSuppressionConfig>): EchoSuppressionService {
+  return new EchoSuppressionService(config);
+}
+
+// Shared so every place that plays the assistant's voice feeds the same filter
+export const echoSuppressionService = createEchoSuppressionService();
@@ -3,6 +3,7 @@ import { InputGatekeeper, InputItem, createInputGatekeeper } from '../gating/Inp
 import { createConversationInputHandlers } from '../gating/ConversationInputHandlers';
 import { EnhancedInputGatekeeper } from '../gatekeeper/EnhancedInputGatekeeper';
 import { ConcurrentGatekeeper } from '../gatekeeper/ConcurrentGatekeeper';
+import { AudioSegment, UtteranceAudioBuffer } from './UtteranceAudioBuffer';
 
 // Voice Activity Detection Configuration
 export interface VoiceActivityConfig {
@@ -106,6 +107,11 @@ export class EnhancedAudioManager extends AudioManager {
   private timeBuffer: Uint8Array = new Uint8Array();
   private energyHistory: number[] = [];
   private frequencyHistory: number[] = [];
+  // Timestamped levels kept long enough to line up with late transcription results
+  private energyTimeline: Array<{ timestamp: number; level: number }> = [];
+  private energyTimelineMs: number = 30000;
+  // Raw samples over the same window, for slicing out each utterance's audio
+  private utteranceAudio = new UtteranceAudioBuffer({ retentionMs: 30000 });
   
   constructor(config?: Partial<EnhancedAudioManagerConfig>) {
     // Initialize base AudioManager with enhanced config
@@ -210,9 +216,14 @@ export class EnhancedAudioManager extends AudioManager {
       return;
     }
     
-    // Initialize audio analysis if enabled
+    // Initialize audio analysis if enabled; recording works without it
     if (this.enhancedConfig.audioAnalysis.enabled) {
-      await this.initializeAudioAnalysis();
+      this.energyTimeline = [];
+      try {
+        await this.initializeAudioAnalysis();
+      } catch (error) {
+        console.warn('EnhancedAudioManager: Continuing without audio analysis');
+      }
     }
     
     // Start voice activity detection
@@ -234,6 +245,7 @@ export class EnhancedAudioManager extends AudioManager {
   stopRecording(): Blob | null {
     this.recordingActive = false;
     this.stopEnhancedFeatures();
+    this.utteranceAudio.detach();
     return super.stopRecording();
   }
   
@@ -257,6 +269,10 @@ export class EnhancedAudioManager extends AudioManager {
       // Connect audio stream to analyser
       const source = audioContext.createMediaStreamSource(audioStream);
       source.connect(this.analyser);
+
+      if (!this.utteranceAudio.attach(audioContext, audioStream)) {
+        console.warn('EnhancedAudioManager: Raw audio capture unavailable; speakers are labelled by the transcription service');
+      }
       
       // Start audio analysis loop
       this.startAudioAnalysis();
@@ -290,6 +306,7 @@ export class EnhancedAudioManager extends AudioManager {
       // Calculate audio analysis metrics
       const analysisData = this.calculateAudioMetrics();
       this.audioAnalysisData = analysisData;
+      this.recordEnergy(analysisData);
       
       // Process voice activity detection
       if (this.enhancedConfig.voiceActivityDetection.enabled) {
@@ -385,6 +402,17 @@ export class EnhancedAudioManager extends AudioManager {
     };
   }
   
+  /**
+   * Append the current level to the energy timeline and drop expired points
+   */
+  private recordEnergy(analysisData: AudioAnalysisData): void {
+    this.energyTimeline.push({ timestamp: analysisData.timestamp, level: analysisData.audioLevel });
+    const cutoff = analysisData.timestamp - this.energyTimelineMs;
+    while (this.energyTimeline.length > 0 && this.energyTimeline[0].timestamp < cutoff) {
+      this.energyTimeline.shift();
+    }
+  }
+
   /**
    * Process voice activity detection
    */
@@ -654,6 +682,33 @@ export class EnhancedAudioManager extends AudioManager {
     return { ...this.enhancedConfig };
   }
   
+  /**
+   * Mean level between two wall-clock times relative to the median level of speech
+   * in the recent timeline. Two voices at once add their energy, so overlapping
+   * speech usually reads well above 1. Returns null when too little audio was analysed.
+   */
+  getEnergyRatio(startMs: number, endMs: number): number | null {
+    const window = this.energyTimeline.filter(point => point.timestamp >= startMs && point.timestamp <= endMs);
+    const speechLevels = this.energyTimeline
+      .map(point => point.level)
+      .filter(level => level > this.voiceActivityState.adaptiveThreshold)
+      .sort((a, b) => a - b);
+    if (window.length < 2 || speechLevels.length < 10) {
+      return null;
+    }
+
+    const baseline = speechLevels[Math.floor(speechLevels.length / 2)];
+    const mean = window.reduce((sum, point) => sum + point.level, 0) / window.length;
+    return baseline > 0 ? mean / baseline : null;
+  }
+
+  /**
+   * Microphone audio between two wall-clock times, or null when it was not captured
+   */
+  getAudioSegment(startMs: number, endMs: number): AudioSegment | null {
+    return this.utteranceAudio.getSegment(startMs, endMs);
+  }
+
   /**
    * Check if speaking is currently detected
    */
@@ -0,0 +1,181 @@
+/**
+ * FailoverSTT - Runs a primary STT provider and switches to a fallback when the
+ * primary cannot be reached.
+ *
+ * Failover happens when the primary fails to connect, or when it keeps failing to
+ * reconnect partway through a session. Each new session tries the primary again. The
+ * fallback is handed the session's first audio chunk before any new ones, since it
+ * carries the WebM header needed to decode the rest, followed by the audio sent while
+ * the primary was down, so nothing said during the outage is lost.
+ */
+
+import type {
+  ConnectionStatus,
+  LiveTranscriptionOptions,
+  STTProvider,
+  STTProviderName,
+  TranscriptionResult,
+} from './STTProvider';
+
+export interface FailoverSTTConfig {
+  // Reconnection attempts by the primary before giving up on it for the session
+  failoverAfterReconnectAttempts: number;
+  // Chunks kept for the fallback while the primary is down; about a minute of 100ms chunks
+  maxReplayChunks: number;
+}
+
+const DEFAULT_CONFIG: FailoverSTTConfig = {
+  failoverAfterReconnectAttempts: 2,
+  maxReplayChunks: 600,
+};
+
+export class FailoverSTT implements STTProvider {
+  private config: FailoverSTTConfig;
+  private active: STTProvider;
+  private onConnectionChange: ((status: ConnectionStatus) => void) | null = null;
+  private onFailover: ((from: STTProviderName, to: STTProviderName, reason: string) => void) | null = null;
+  private options: LiveTranscriptionOptions | undefined;
+  private firstChunk: ArrayBuffer | null = null;
+  // Chunks sent since the primary was last connected, which it may never transcribe
+  private unconfirmedChunks: ArrayBuffer[] = [];
+  private primaryConnected = false;
+  // Chunks wait here while the fallback starts
+  private isFailingOver = false;
+  private isRunning = false;
+  // Settles startLiveTranscription when the primary never finishes connecting
+  private resolveStart: (() => void) | null = null;
+
+  constructor(
+    private primary: STTProvider,
+    private fallback: STTProvider,
+    config: Partial<FailoverSTTConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.active = primary;
+    primary.setConnectionChangeHandler(status => this.handlePrimaryStatus(status));
+    fallback.setConnectionChangeHandler(status => {
+      if (this.active === fallback) this.onConnectionChange?.(status);
+    });
+  }
+
+  get name(): STTProviderName {
+    return this.active.name;
+  }
+
+  async startLiveTranscription(options?: LiveTranscriptionOptions): Promise<void> {
+    this.options = options;
+    this.firstChunk = null;
+    this.unconfirmedChunks = [];
+    this.primaryConnected = false;
+    this.isFailingOver = false;
+    this.isRunning = true;
+    this.active = this.primary;
+
+    await new Promise<void>((resolve, reject) => {
+      this.resolveStart = resolve;
+      this.primary.startLiveTranscription(options).then(resolve, (error: unknown) => {
+        const reason = error instanceof Error ? error.message : 'connection failed';
+        this.failover(reason).then(resolve, reject);
+      });
+    }).finally(() => {
+      this.resolveStart = null;
+    });
+  }
+
+  sendAudioChunk(chunk: ArrayBuffer): void {
+    if (!this.firstChunk) {
+      this.firstChunk = chunk;
+    }
+    if (this.isFailingOver || (this.active === this.primary && !this.primaryConnected)) {
+      this.unconfirmedChunks.push(chunk);
+      if (this.unconfirmedChunks.length > this.config.maxReplayChunks) {
+        this.unconfirmedChunks.shift();
+      }
+    }
+    if (!this.isFailingOver) {
+      this.active.sendAudioChunk(chunk);
+    }
+  }
+
+  stopTranscription(): void {
+    this.isRunning = false;
+    this.active.stopTranscription();
+  }
+
+  setTranscriptionHandler(handler: (result: TranscriptionResult) => void): void {
+    this.primary.setTranscriptionHandler(handler);
+    this.fallback.setTranscriptionHandler(handler);
+  }
+
+  setInterimTranscriptionHandler(handler: (result: TranscriptionResult) => void): void {
+    this.primary.setInterimTranscriptionHandler?.(handler);
+    this.fallback.setInterimTranscriptionHandler?.(handler);
+  }
+
+  setConnectionChangeHandler(handler: (status: ConnectionStatus) => void): void {
+    this.onConnectionChange = handler;
+  }
+
+  setFailoverHandler(handler: (from: STTProviderName, to: STTProviderName, reason: string) => void): void {
+    this.onFailover = handler;
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return this.active.getConnectionStatus();
+  }
+
+  isConnected(): boolean {
+    return this.active.isConnected();
+  }
+
+  cleanup(): void {
+    this.isRunning = false;
+    this.primary.cleanup();
+    this.fallback.cleanup();
+    this.onConnectionChange = null;
+    this.onFailover = null;
+  }
+
+  private handlePrimaryStatus(status: ConnectionStatus): void {
+    if (this.active !== this.primary) return;
+    this.primaryConnected = status.status === 'connected';
+    if (this.primaryConnected) {
+      // The primary sends what it queued while down once it reconnects
+      this.unconfirmedChunks = [];
+    }
+    this.onConnectionChange?.(status);
+
+    const attempts = status.reconnectAttempts || 0;
+    if (this.isRunning && status.status === 'reconnecting' && attempts >= this.config.failoverAfterReconnectAttempts) {
+      this.failover(`${attempts} reconnection attempts failed`)
+        .then(() => this.resolveStart?.())
+        .catch(error => {
+          console.error('[FailoverSTT] Fallback provider failed to start:', error);
+          this.onConnectionChange?.({ status: 'error', error: error instanceof Error ? error.message : 'Failover failed' });
+        });
+    }
+  }
+
+  private async failover(reason: string): Promise<void> {
+    if (this.active === this.fallback) return;
+
+    console.warn(`[FailoverSTT] ${this.primary.name} unavailable (${reason}); switching to ${this.fallback.name}`);
+    // Switch first so the primary's disconnect is not reported as the session's status
+    this.active = this.fallback;
+    this.isFailingOver = true;
+    this.primary.stopTranscription();
+
+    try {
+      await this.fallback.startLiveTranscription(this.options);
+    } finally {
+      this.isFailingOver = false;
+    }
+    const replay = this.unconfirmedChunks;
+    this.unconfirmedChunks = [];
+    if (this.firstChunk && replay[0] !== this.firstChunk) {
+      this.fallback.sendAudioChunk(this.firstChunk);
+    }
+    replay.forEach(chunk => this.fallback.sendAudioChunk(chunk));
+    this.onFailover?.(this.primary.name, this.fallback.name, reason);
+  }
+}
@@ -61,6 +61,8 @@ export interface ActionItem {
   type: 'task' | 'reminder' | 'decision' | 'follow_up';
   confidence: number;
   dueContext?: string;
+  owner?: string;
+  dueDate?: Date;
 }
 
 export interface ProcessResult {
@@ -1,10 +1,56 @@
-import { AudioManager } from './AudioManager';
+import type { AudioManager, InterruptedPlayback } from './AudioManager';
+import type { CommandContext, CommandResult, VocalInterruptAction, VoiceCommand } from './VocalInterruptService';
+import { enhancedMessageQueueManager, type EnhancedMessageQueueManager } from './EnhancedMessageQueueManager';
+import { streamingTTSService } from './StreamingTTSService';
+import { integrateWithAudioManager, speakText } from './TTSApiClient';
+import { resolveModel, resolveVoice } from './CustomVoiceCommands';
+import { formatActionItem } from './MeetingFinalizationService';
+import type { ActionItem } from './FragmentProcessor';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { modelConfigs } from '@/config/modelConfigs';
+import { useAppStore } from '@/stores/appStore';
+import { useMeetingStore } from '@/stores/meetingStore';
+import type { AIModel, Meeting, TranscriptEntry } from '@/types';
 
 export interface InterruptExecutionConfig {
   stopAudio: boolean;
   clearQueue: boolean;
   resetTTS: boolean;
   activateMicrophone: boolean;
+  // Change per volume command, from 0 to 1
+  volumeStep: number;
+  // Speak the outcome of commands that have nothing to show on screen, such as a summary
+  spokenFeedback: boolean;
+}
+
+// A queue of pending messages that an interrupt empties, such as MessageQueueManager
+export interface InterruptibleMessageQueue {
+  clear(): void;
+}
+
+// Text-to-speech state that an interrupt returns to idle
+export interface ResettableTTSState {
+  reset(): void;
+}
+
+function formatTimestamp(timestamp: Date | string): string {
+  const date = timestamp instanceof Date ? timestamp : new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleTimeString();
+}
+
+/**
+ * Plain text transcript, one line per entry
+ */
+export function formatTranscriptExport(meeting: Pick<Meeting, 'title' | 'startTime'> | null, transcript: TranscriptEntry[]): string {
+  const header = meeting
+    ? [`${meeting.title}`, `${new Date(meeting.startTime).toLocaleString()}`, '']
+    : [];
+  const lines = transcript.map(entry => {
+    const time = formatTimestamp(entry.timestamp);
+    const speaker = entry.speakerName || entry.speakerId || 'Unknown';
+    return `${time ? `[${time}] ` : ''}${speaker}: ${entry.text}`;
+  });
+  return [...header, ...lines].join('\n');
 }
 
 export class InterruptExecutionService {
@@ -13,13 +59,17 @@ export class InterruptExecutionService {
     clearQueue: true,
     resetTTS: true,
     activateMicrophone: true,
+    volumeStep: 0.1,
+    spokenFeedback: true,
   };
 
   constructor(
-    private audioManager: AudioManager,
-    private messageQueue?: any, // Will be properly typed when integrated
-    private ttsState?: any,     // Will be properly typed when integrated
-    private startListening?: () => Promise<void>
+    private audioManager?: AudioManager,
+    private messageQueue?: InterruptibleMessageQueue,
+    private ttsState?: ResettableTTSState,
+    private startListening?: () => Promise<void>,
+    // The assistant's speech may be played by a different manager than the one recording
+    private playbackManager?: AudioManager
   ) {}
 
   configure(config: Partial<InterruptExecutionConfig>): void {
@@ -32,18 +82,18 @@ export class InterruptExecutionService {
     try {
       // 1. Stop all audio playback
       if (this.config.stopAudio) {
-        this.audioManager.stopAllAudio();
+        this.stopPlayback();
         console.log('Audio playback stopped');
       }
 
       // 2. Clear message queue if available
-      if (this.config.clearQueue && this.messageQueue?.clear) {
+      if (this.config.clearQueue && this.messageQueue) {
         this.messageQueue.clear();
         console.log('Message queue cleared');
       }
 
       // 3. Reset TTS state if available
-      if (this.config.resetTTS && this.ttsState?.reset) {
+      if (this.config.resetTTS && this.ttsState) {
         this.ttsState.reset();
         console.log('TTS state reset');
       }
@@ -61,14 +111,342 @@ export class InterruptExecutionService {
     }
   }
 
+  /**
+   * Carry out a voice command. Errors are thrown; results that simply did nothing,
+   * such as repeating before anything was said, come back with success false.
+   */
+  async executeAction(command: VoiceCommand, context: CommandContext): Promise<CommandResult> {
+    const action = command.action;
+
+    switch (action) {
+      case 'stop_playback':
+        await this.executeInterrupt();
+        return this.result(action, true, 'Playback stopped');
+
+      case 'pause_playback': {
+        const paused = this.getPlaybackManager()?.pausePlayback() ?? false;
+        return paused
+          ? this.result(action, true, 'Playback paused')
+          : this.result(action, false, undefined, 'Nothing is playing');
+      }
+
+      case 'resume_playback': {
+        const playback = this.getPlaybackManager();
+        if (playback?.hasPausedPlayback()) {
+          playback.resumePlayback();
+          return this.result(action, true, 'Playback resumed');
+        }
+        // A reply cut off by someone talking over it carries on from where it stopped
+        if (await playback?.resumeInterruptedPlayback()) {
+          return this.result(action, true, 'Picking up where I left off');
+        }
+        return this.result(action, false, undefined, 'Nothing is paused');
+      }
+
+      case 'skip_message':
+        return this.skipMessage(action);
+
+      case 'repeat_message':
+        return this.repeatMessage(action);
+
+      case 'clear_queue': {
+        const queue = this.getMessageQueue();
+        const cleared = queue?.getEnhancedQueueStatus().queueSize ?? 0;
+        queue?.clearEnhanced();
+        this.messageQueue?.clear();
+        return this.result(action, true, cleared > 0 ? `Cleared ${cleared} queued messages` : 'Queue cleared');
+      }
+
+      case 'mute_microphone':
+      case 'unmute_microphone': {
+        const muted = action === 'mute_microphone';
+        if (!this.audioManager?.setMicrophoneMuted(muted)) {
+          return this.result(action, false, undefined, 'The microphone is not recording');
+        }
+        return this.result(action, true, muted ? 'Microphone muted' : 'Microphone unmuted');
+      }
+
+      case 'increase_volume':
+      case 'decrease_volume':
+        return this.changeVolume(action);
+
+      case 'save_transcript':
+        return this.saveTranscript(action);
+
+      case 'summarize_meeting':
+        return this.summarizeMeeting(action);
+
+      case 'end_meeting': {
+        const ended = await useMeetingStore.getState().endMeeting();
+        return ended
+          ? this.result(action, true, 'Meeting ended')
+          : this.result(action, false, undefined, useMeetingStore.getState().meetingError?.message || 'No meeting in progress');
+      }
+
+      case 'create_note':
+      case 'mark_decision':
+        return this.addNote(action, context);
+
+      case 'create_action_item':
+        return this.addActionItem(action, context);
+
+      case 'change_voice':
+        return this.changeVoice(action, command, context);
+
+      case 'switch_model':
+        return this.switchModel(action, command, context);
+
+      default:
+        return this.result(action, false, undefined, 'Action not implemented');
+    }
+  }
+
+  /**
+   * Stop the assistant because someone started talking over it. The reply that was
+   * cut off is returned, and saying "resume" picks it up again.
+   */
+  async bargeIn(): Promise<InterruptedPlayback | null> {
+    const interrupted = this.getPlaybackManager()?.interruptPlayback() ?? null;
+    this.stopPlayback();
+    if (this.config.activateMicrophone && this.startListening) {
+      await this.startListening();
+    }
+    return interrupted;
+  }
+
+  /**
+   * Say something as the assistant, through the playback manager when there is one
+   */
+  async speak(text: string): Promise<void> {
+    const voiceId = useAppStore.getState().ttsSettings?.voiceId;
+    const playback = this.getPlaybackManager();
+
+    if (playback) {
+      await integrateWithAudioManager(playback).playTTS(text, { voiceId, useCache: true });
+    } else {
+      await speakText(text, { voiceId, options: { useCache: true } });
+    }
+  }
+
   // Method to update dependencies at runtime
   updateDependencies(deps: {
-    messageQueue?: any;
-    ttsState?: any;
+    audioManager?: AudioManager;
+    playbackManager?: AudioManager;
+    messageQueue?: InterruptibleMessageQueue;
+    ttsState?: ResettableTTSState;
     startListening?: () => Promise<void>;
   }): void {
+    if (deps.audioManager) this.audioManager = deps.audioManager;
+    if (deps.playbackManager) this.playbackManager = deps.playbackManager;
     if (deps.messageQueue) this.messageQueue = deps.messageQueue;
     if (deps.ttsState) this.ttsState = deps.ttsState;
     if (deps.startListening) this.startListening = deps.startListening;
   }
+
+  private getPlaybackManager(): AudioManager | undefined {
+    return this.playbackManager || this.audioManager;
+  }
+
+  // The streaming queue singleton is null during SSR
+  private getMessageQueue(): EnhancedMessageQueueManager | null {
+    return enhancedMessageQueueManager || null;
+  }
+
+  private stopPlayback(): void {
+    this.getPlaybackManager()?.stopAllAudio();
+    this.getMessageQueue()?.interrupt();
+    const sessions = streamingTTSService?.getActiveSessions?.() || [];
+    sessions.forEach((session: { sessionId: string }) => {
+      streamingTTSService.cancelSession(session.sessionId);
+    });
+  }
+
+  private skipMessage(action: VocalInterruptAction): CommandResult {
+    const playback = this.getPlaybackManager();
+    const wasPlaying = playback?.isPlaying() ?? false;
+    // Only the message being spoken is dropped; queued messages play as usual
+    playback?.stopAllAudio();
+
+    const sessions = streamingTTSService?.getActiveSessions?.() || [];
+    const current = sessions.find((session: { status: string }) => session.status === 'streaming') || sessions[0];
+    if (current) {
+      streamingTTSService.cancelSession(current.sessionId);
+    }
+
+    return wasPlaying || current
+      ? this.result(action, true, 'Message skipped')
+      : this.result(action, false, undefined, 'Nothing is playing');
+  }
+
+  private async repeatMessage(action: VocalInterruptAction): Promise<CommandResult> {
+    if (await this.getPlaybackManager()?.replayLast()) {
+      return this.result(action, true, 'Repeating the last message');
+    }
+
+    // Messages spoken through the streaming queue are queued again instead
+    const queue = this.getMessageQueue();
+    const currentMessage = queue?.getCurrentMessage();
+    if (queue && currentMessage?.text) {
+      queue.addEnhancedMessage({
+        text: currentMessage.text,
+        type: 'ai',
+        priority: Date.now(),
+        urgency: 'high',
+        maxDelay: 100,
+        maxRetries: 3,
+      });
+      return this.result(action, true, 'Repeating the last message');
+    }
+
+    return this.result(action, false, undefined, 'Nothing to repeat yet');
+  }
+
+  private changeVolume(action: VocalInterruptAction): CommandResult {
+    const appStore = useAppStore.getState();
+    const step = action === 'increase_volume' ? this.config.volumeStep : -this.config.volumeStep;
+    const volume = Math.round(Math.max(0, Math.min(1, appStore.audioSettings.volume + step)) * 100) / 100;
+
+    appStore.updateAudioSettings({ volume });
+    this.getPlaybackManager()?.setPlaybackVolume(volume);
+
+    const direction = action === 'increase_volume' ? 'increased' : 'decreased';
+    return this.result(action, true, `Volume ${direction} to ${Math.round(volume * 100)}%`);
+  }
+
+  private saveTranscript(action: VocalInterruptAction): CommandResult {
+    const { currentMeeting, transcript } = useMeetingStore.getState();
+    if (!currentMeeting || transcript.length === 0) {
+      return this.result(action, false, undefined, 'There is no transcript to save yet');
+    }
+    if (typeof document === 'undefined') {
+      return this.result(action, false, undefined, 'Transcripts can only be saved in the browser');
+    }
+
+    const blob = new Blob([formatTranscriptExport(currentMeeting, transcript)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${currentMeeting.title || 'meeting'}-transcript-${new Date().toISOString().split('T')[0]}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    return this.result(action, true, `Transcript saved (${transcript.length} entries)`);
+  }
+
+  private async summarizeMeeting(action: VocalInterruptAction): Promise<CommandResult> {
+    const meetingId = useMeetingStore.getState().currentMeeting?.meetingId;
+    if (!meetingId) {
+      return this.result(action, false, undefined, 'No meeting in progress');
+    }
+
+    const finalized = await useMeetingStore.getState().finalizeMeeting(meetingId);
+    const summary = useMeetingStore.getState().currentMeeting?.summary;
+    if (!finalized || !summary) {
+      return this.result(action, false, undefined, 'The meeting could not be summarized');
+    }
+
+    if (this.config.spokenFeedback) {
+      await this.speak(summary);
+    }
+    return this.result(action, true, summary);
+  }
+
+  // What the user dictated: the {text} slot, or every slot when the phrase names them differently
+  private dictatedText(context: CommandContext): string {
+    const slots = context.slots || {};
+    return (slots.text ?? Object.values(slots).join(' ')).trim();
+  }
+
+  private async addNote(action: VocalInterruptAction, context: CommandContext): Promise<CommandResult> {
+    const meetingId = useMeetingStore.getState().currentMeeting?.meetingId;
+    if (!meetingId) {
+      return this.result(action, false, undefined, 'No meeting in progress');
+    }
+    const content = this.dictatedText(context);
+    if (!content) {
+      return this.result(action, false, undefined, 'Say what the note should say after the command');
+    }
+
+    // The notes listener adds it to the meeting's notes
+    const isDecision = action === 'mark_decision';
+    await DatabaseService.addMeetingNote(meetingId, {
+      content,
+      speakerId: context.speakerId,
+      category: isDecision ? 'decision' : 'note',
+      keywords: [],
+      source: 'voice_command',
+      timestamp: new Date(context.timestamp),
+    });
+    return this.result(action, true, isDecision ? `Decision recorded: ${content}` : `Note added: ${content}`);
+  }
+
+  private async addActionItem(action: VocalInterruptAction, context: CommandContext): Promise<CommandResult> {
+    const { currentMeeting, updateMeeting } = useMeetingStore.getState();
+    if (!currentMeeting) {
+      return this.result(action, false, undefined, 'No meeting in progress');
+    }
+    const { text, person, owner, ...rest } = context.slots || {};
+    const itemText = (text ?? Object.values(rest).join(' ')).trim();
+    const assignee = (person || owner)?.trim();
+    if (!itemText) {
+      return this.result(action, false, undefined, 'Say what the action item is after the command');
+    }
+
+    const item: ActionItem = {
+      text: itemText,
+      type: 'task',
+      confidence: 1,
+      ...(assignee && { owner: assignee }),
+    };
+    const updated = await updateMeeting(currentMeeting.meetingId, {
+      actionItems: [...(currentMeeting.actionItems || []), formatActionItem(item)],
+      actionItemDetails: [...(currentMeeting.actionItemDetails || []), item],
+    });
+
+    return updated
+      ? this.result(action, true, `Action item added: ${formatActionItem(item)}`)
+      : this.result(action, false, undefined, 'The action item could not be saved');
+  }
+
+  private async changeVoice(action: VocalInterruptAction, command: VoiceCommand, context: CommandContext): Promise<CommandResult> {
+    const spoken = context.slots?.voice;
+    const voice = command.parameters?.voiceId
+      ? { voiceId: command.parameters.voiceId as string, name: spoken || 'the new voice' }
+      : spoken ? resolveVoice(spoken) : null;
+    if (!voice) {
+      return this.result(action, false, undefined, spoken ? `There is no voice called ${spoken}` : 'No voice was named');
+    }
+
+    useAppStore.getState().updateTTSSettings({ voiceId: voice.voiceId });
+    const feedback = `Voice changed to ${voice.name}`;
+    // Heard in the new voice
+    if (this.config.spokenFeedback) {
+      await this.speak(feedback);
+    }
+    return this.result(action, true, feedback);
+  }
+
+  private switchModel(action: VocalInterruptAction, command: VoiceCommand, context: CommandContext): CommandResult {
+    const spoken = context.slots?.model;
+    const model = (command.parameters?.model as AIModel | undefined) || (spoken ? resolveModel(spoken) : null);
+    if (!model || !modelConfigs[model]) {
+      return this.result(action, false, undefined, spoken ? `There is no model called ${spoken}` : 'No model was named');
+    }
+
+    useAppStore.getState().updateAISettings({ defaultModel: model });
+    return this.result(action, true, `Switched to ${model}`);
+  }
+
+  private result(action: VocalInterruptAction, success: boolean, feedback?: string, error?: string): CommandResult {
+    return {
+      success,
+      action,
+      executedAt: Date.now(),
+      duration: 0,
+      ...(feedback && { feedback }),
+      ...(error && { error }),
+    };
+  }
 }
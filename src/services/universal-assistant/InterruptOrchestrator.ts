@@ -1,5 +1,5 @@
 import { VocalInterruptService } from './VocalInterruptService';
-import { InterruptExecutionService } from './InterruptExecutionService';
+import { InterruptExecutionService, type InterruptibleMessageQueue, type ResettableTTSState } from './InterruptExecutionService';
 import { AudioManager } from './AudioManager';
 
 export interface InterruptOrchestratorConfig {
@@ -110,8 +110,8 @@ export class InterruptOrchestrator {
 export function createInterruptOrchestrator(
   audioManager: AudioManager,
   dependencies?: {
-    messageQueue?: any;
-    ttsState?: any;
+    messageQueue?: InterruptibleMessageQueue;
+    ttsState?: ResettableTTSState;
     startListening?: () => Promise<void>;
   }
 ): InterruptOrchestrator {
@@ -122,6 +122,7 @@ export function createInterruptOrchestrator(
     dependencies?.ttsState,
     dependencies?.startListening
   );
+  vocalInterruptService.setExecutionService(interruptExecutionService);
 
   return new InterruptOrchestrator(vocalInterruptService, interruptExecutionService);
 }
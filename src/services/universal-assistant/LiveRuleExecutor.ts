@@ -0,0 +1,271 @@
+/**
+ * LiveRuleExecutor - Carries out meeting rules during a meeting.
+ *
+ * Two kinds of rules run here. The built-in gatekeeper rule pack for the meeting type,
+ * when turned on, runs through a GatekeeperEngine kept per meeting. The user's custom rules are matched
+ * by ContextSourcingAgent, and this service takes those matches from the orchestrator's
+ * results and acts on them: replies are spoken, summaries cover what was said since the
+ * last one, highlights are saved as meeting notes and notifications go to the app.
+ *
+ * At most one reply is spoken per utterance. Custom rules are the user's own, so their
+ * replies win over the gatekeeper's; an 'ignore' action keeps the assistant quiet. In
+ * wake word mode only utterances addressed to the assistant by wake phrase get a spoken reply.
+ */
+
+import type { AgentOrchestrator, MeetingProvider, OrchestrationResult } from '@/agents/AgentOrchestrator';
+import type { RuleActionOutput } from '@/agents/utils/customRuleEvaluator';
+import { AgentType } from '@/types/agent/agentInterface';
+import type { Meeting, MeetingNote } from '@/types';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { GatekeeperEngine } from '@/services/gatekeeper/GatekeeperEngine';
+import { getTopTerms, summarizeMessages, SummaryInput, SummaryStyle } from '@/services/gatekeeper/utils/RollingSummarizer';
+import { useAppStore } from '@/stores/appStore';
+import { audioManager as playbackAudioManager } from './AudioManager';
+import { integrateWithAudioManager, speakText } from './TTSApiClient';
+
+// Side effects of rule actions; injectable so the executor can run without audio or Firestore
+export interface LiveRuleHandlers {
+  speak(text: string): Promise<void>;
+  summarize(messages: SummaryInput[], style: SummaryStyle): Promise<string>;
+  saveNote(meetingId: string, note: Omit<MeetingNote, 'id' | 'meetingId' | 'createdAt'>): Promise<string>;
+  notify(title: string, message: string): void;
+}
+
+export interface LiveRuleExecutorConfig {
+  enabled: boolean;
+  // Run the built-in gatekeeper rules for the meeting type alongside custom rules
+  gatekeeperEnabled: boolean;
+  // Say replies aloud; notes and notifications happen either way
+  speakReplies: boolean;
+  // Utterances kept per meeting for summaries
+  maxHistory: number;
+}
+
+export interface LiveRuleOutcome {
+  meetingId: string;
+  firedRuleIds: string[];
+  gatekeeperRuleId?: string;
+  // The reply chosen for the utterance, whether or not it was spoken
+  response?: string;
+  noteIds: string[];
+  notifications: number;
+  ignored: boolean;
+}
+
+interface MeetingState {
+  history: SummaryInput[];
+  lastSummaryAt: number;
+  // Rules that only depend on the clock, which would otherwise fire on every utterance
+  firedOnce: Set<string>;
+  engine?: GatekeeperEngine;
+  engineMeetingType?: Meeting['type'];
+}
+
+const DEFAULT_CONFIG: LiveRuleExecutorConfig = {
+  enabled: true,
+  // The packs reply to common phrases, so they stay off unless asked for
+  gatekeeperEnabled: false,
+  speakReplies: true,
+  maxHistory: 500,
+};
+
+const defaultHandlers: LiveRuleHandlers = {
+  speak: async (text) => {
+    const voiceId = useAppStore.getState().ttsSettings?.voiceId;
+    if (playbackAudioManager) {
+      await integrateWithAudioManager(playbackAudioManager).playTTS(text, { voiceId, useCache: true });
+    } else {
+      await speakText(text, { voiceId, options: { useCache: true } });
+    }
+  },
+  summarize: async (messages, style) => summarizeMessages(messages, style),
+  saveNote: (meetingId, note) => DatabaseService.addMeetingNote(meetingId, note),
+  notify: (title, message) => {
+    useAppStore.getState().addNotification({ type: 'info', title, message, persistent: false });
+  },
+};
+
+function isTimeOnly(output: RuleActionOutput): boolean {
+  return output.matchedConditions.length > 0
+    && output.matchedConditions.every(evaluation => evaluation.condition.type === 'time');
+}
+
+export class LiveRuleExecutor {
+  private config: LiveRuleExecutorConfig;
+  private handlers: LiveRuleHandlers;
+  private meetingProvider: MeetingProvider | null = null;
+  private meetings: Map<string, MeetingState> = new Map();
+
+  constructor(handlers: Partial<LiveRuleHandlers> = {}, config: Partial<LiveRuleExecutorConfig> = {}) {
+    this.handlers = { ...defaultHandlers, ...handlers };
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  setMeetingProvider(provider: MeetingProvider | null): void {
+    this.meetingProvider = provider;
+  }
+
+  updateConfig(config: Partial<LiveRuleExecutorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Act on every result the orchestrator produces. Returns the unsubscribe function.
+   */
+  attach(orchestrator: AgentOrchestrator): () => void {
+    return orchestrator.onResult((result) => {
+      this.handleResult(result).catch((error) => {
+        console.error('LiveRuleExecutor: Failed to execute rule actions:', error);
+      });
+    });
+  }
+
+  async handleResult(result: OrchestrationResult): Promise<LiveRuleOutcome> {
+    const outcome: LiveRuleOutcome = {
+      meetingId: result.meetingId,
+      firedRuleIds: [],
+      noteIds: [],
+      notifications: 0,
+      ignored: false,
+    };
+    if (!this.config.enabled) return outcome;
+
+    const state = this.getMeetingState(result.meetingId);
+    const { transcript } = result;
+    const meeting = this.meetingProvider?.() ?? null;
+    const participant = meeting?.meetingId === result.meetingId
+      ? (meeting.participants || []).find(p => (p.userId || p.id) === transcript.speakerId)
+      : undefined;
+    const speakerName = participant?.displayName || participant?.userName;
+    state.history.push({ text: transcript.text, speakerName, timestamp: transcript.timestamp });
+    if (state.history.length > this.config.maxHistory) {
+      state.history.splice(0, state.history.length - this.config.maxHistory);
+    }
+
+    const outputs = result.agentResults
+      .filter(agentResult => agentResult.success && agentResult.agentType === AgentType.CONTEXT_SOURCING)
+      .flatMap(agentResult => (agentResult.data?.ruleOutputs || []) as RuleActionOutput[])
+      .filter(output => !state.firedOnce.has(output.ruleId))
+      .sort((a, b) => b.priority - a.priority);
+
+    const responses: string[] = [];
+    for (const output of outputs) {
+      if (isTimeOnly(output)) state.firedOnce.add(output.ruleId);
+      outcome.firedRuleIds.push(output.ruleId);
+
+      for (const action of output.actions) {
+        switch (action.type) {
+          case 'respond': {
+            const message = action.parameters?.message || action.parameters?.template;
+            if (message) responses.push(String(message));
+            break;
+          }
+          case 'summarize': {
+            const window = state.history.filter(entry => entry.timestamp > state.lastSummaryAt);
+            state.lastSummaryAt = transcript.timestamp;
+            responses.push(await this.handlers.summarize(window, action.parameters?.style || 'short'));
+            break;
+          }
+          case 'highlight':
+            try {
+              outcome.noteIds.push(await this.handlers.saveNote(result.meetingId, {
+                content: transcript.text,
+                speakerId: transcript.speakerId,
+                speakerName,
+                category: action.parameters?.category || 'highlight',
+                keywords: getTopTerms([{ text: transcript.text, timestamp: transcript.timestamp }]),
+                source: `custom_rule:${output.ruleId}`,
+                timestamp: new Date(transcript.timestamp),
+              }));
+            } catch (error) {
+              console.error(`LiveRuleExecutor: Failed to save highlight for rule ${output.ruleId}:`, error);
+            }
+            break;
+          case 'notify':
+            this.handlers.notify(output.ruleName, action.parameters?.message || transcript.text);
+            outcome.notifications += 1;
+            break;
+          case 'ignore':
+            outcome.ignored = true;
+            break;
+        }
+      }
+    }
+
+    let gatekeeperResponse: string | undefined;
+    const engine = meeting?.meetingId === result.meetingId ? this.getEngine(state, meeting) : null;
+    if (engine) {
+      try {
+        const decision = await engine.processMessage(
+          { id: `${result.meetingId}_${transcript.timestamp}`, text: transcript.text, timestamp: transcript.timestamp },
+          { id: transcript.speakerId, name: speakerName, role: participant?.role }
+        );
+        outcome.gatekeeperRuleId = decision.metadata?.ruleId;
+        outcome.noteIds.push(...(decision.metadata?.noteIds || []));
+        gatekeeperResponse = decision.response;
+      } catch (error) {
+        console.error('LiveRuleExecutor: Gatekeeper rules failed:', error);
+      }
+    }
+
+    if (responses.length === 0 && gatekeeperResponse) {
+      responses.push(gatekeeperResponse);
+    }
+    if (!outcome.ignored && responses.length > 0) {
+      outcome.response = responses.join(' ');
+      if (this.config.speakReplies && transcript.addressed !== false) {
+        await this.handlers.speak(outcome.response);
+      }
+    }
+
+    return outcome;
+  }
+
+  clearMeetingState(meetingId?: string): void {
+    if (meetingId) {
+      this.meetings.delete(meetingId);
+    } else {
+      this.meetings.clear();
+    }
+  }
+
+  private getMeetingState(meetingId: string): MeetingState {
+    let state = this.meetings.get(meetingId);
+    if (!state) {
+      state = { history: [], lastSummaryAt: 0, firedOnce: new Set() };
+      this.meetings.set(meetingId, state);
+    }
+    return state;
+  }
+
+  // A new engine when the meeting type changes, so the matching rule pack applies
+  private getEngine(state: MeetingState, meeting: Meeting): GatekeeperEngine | null {
+    if (!this.config.gatekeeperEnabled) return null;
+    if (!state.engine || state.engineMeetingType !== meeting.type) {
+      state.engine = new GatekeeperEngine(
+        meeting.type,
+        {
+          meetingId: meeting.meetingId,
+          type: meeting.type,
+          participants: (meeting.participants || []).map(p => ({ id: p.userId || p.id, name: p.displayName || p.userName, role: p.role })),
+          messageCount: 0,
+          startTime: meeting.startTime ? new Date(meeting.startTime).getTime() : undefined,
+        },
+        undefined,
+        { summarize: this.handlers.summarize, saveNote: this.handlers.saveNote }
+      );
+      state.engineMeetingType = meeting.type;
+    }
+    return state.engine;
+  }
+}
+
+/**
+ * Factory function to create a live rule executor
+ */
+export function createLiveRuleExecutor(
+  handlers?: Partial<LiveRuleHandlers>,
+  config?: Partial<LiveRuleExecutorConfig>
+): LiveRuleExecutor {
+  return new LiveRuleExecutor(handlers, config);
+}
@@ -0,0 +1,253 @@
+/**
+ * LocalSTT - Live transcription through the self-hosted speech-to-text server.
+ *
+ * Audio is collected into windows of a few seconds and posted to the transcribe route
+ * with provider=local, which passes it to the on-prem Whisper-compatible server, so no
+ * audio reaches a third party. Whisper does not diarize, so results carry no speaker.
+ * MediaRecorder writes the WebM header only into its first chunk, and later chunks
+ * continue clusters opened in earlier ones. Every later window is sent with the header
+ * and, when it starts partway through a cluster, that cluster's opening, so each one
+ * can be decoded on its own. Word timings are offset by the window's stream time.
+ */
+
+import { auth } from '@/lib/firebase/client';
+import type {
+  BatchTranscriptionSegment,
+  ConnectionStatus,
+  LiveTranscriptionOptions,
+  STTProvider,
+  TranscriptionResult,
+  TranscriptionWord,
+} from './STTProvider';
+import { readWebmChunk, type WebmCluster } from './WebmChunkReader';
+
+export interface LocalSTTConfig {
+  endpoint: string;
+  // Audio sent per request; longer windows transcribe better but arrive later
+  windowMs: number;
+  mimeType: string;
+}
+
+interface LocalTranscriptionResponse {
+  success?: boolean;
+  error?: string;
+  transcription?: {
+    text: string;
+    confidence: number;
+    segments: BatchTranscriptionSegment[];
+    words: TranscriptionWord[];
+  };
+}
+
+const DEFAULT_CONFIG: LocalSTTConfig = {
+  endpoint: '/api/universal-assistant/transcribe',
+  windowMs: 5000,
+  mimeType: 'audio/webm',
+};
+
+export class LocalSTT implements STTProvider {
+  readonly name = 'local' as const;
+  private config: LocalSTTConfig;
+  private onTranscription: ((result: TranscriptionResult) => void) | null = null;
+  private onConnectionChange: ((status: ConnectionStatus) => void) | null = null;
+  private connectionStatus: ConnectionStatus = { status: 'disconnected' };
+  private language = 'en';
+  private keywords: string[] = [];
+  private windowTimer: NodeJS.Timeout | null = null;
+  // The container header, without the audio MediaRecorder wrote after it
+  private header: Uint8Array<ArrayBuffer> | null = null;
+  // Other formats cannot be cut, so their whole first chunk serves as the header
+  private isWebm = true;
+  private cluster: WebmCluster | null = null;
+  private windowChunks: ArrayBuffer[] = [];
+  private windowStartMs: number | null = null;
+  // Opening of the cluster the window starts partway through
+  private windowCluster: WebmCluster | null = null;
+  // Stream time of the window's first block
+  private windowAudioMs: number | null = null;
+  private windowIndex = 0;
+  // Wall-clock time of the first chunk; window word timings are offset from it
+  private audioStartMs: number | null = null;
+  // Windows are transcribed one at a time so results arrive in order
+  private pending: Promise<void> = Promise.resolve();
+  private consecutiveFailures = 0;
+
+  constructor(config: Partial<LocalSTTConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async startLiveTranscription(options?: LiveTranscriptionOptions): Promise<void> {
+    this.stopWindowTimer();
+    this.language = options?.language || 'en';
+    this.keywords = options?.keywords || [];
+    this.header = null;
+    this.isWebm = true;
+    this.cluster = null;
+    this.windowChunks = [];
+    this.windowStartMs = null;
+    this.windowCluster = null;
+    this.windowAudioMs = null;
+    this.windowIndex = 0;
+    this.audioStartMs = null;
+    this.consecutiveFailures = 0;
+
+    this.windowTimer = setInterval(() => this.flushWindow(), this.config.windowMs);
+    this.updateConnectionStatus({ status: 'connected' });
+  }
+
+  sendAudioChunk(chunk: ArrayBuffer): void {
+    if (!this.windowTimer) return;
+
+    const now = Date.now();
+    const bytes = new Uint8Array(chunk);
+    const layout = this.isWebm ? readWebmChunk(bytes, this.cluster) : null;
+    if (!this.header) {
+      this.isWebm = layout?.headerLength != null;
+      this.header = bytes.slice(0, layout?.headerLength ?? bytes.length);
+      this.audioStartMs = now;
+    }
+    if (this.windowStartMs === null) {
+      this.windowStartMs = now;
+      this.windowCluster = layout?.continuesCluster ? this.cluster : null;
+      this.windowAudioMs = layout?.firstBlockMs ?? null;
+    }
+    if (layout) this.cluster = layout.cluster;
+    this.windowChunks.push(chunk);
+  }
+
+  stopTranscription(): void {
+    if (!this.windowTimer) return;
+
+    this.stopWindowTimer();
+    // Whatever was said since the last window is still transcribed
+    this.flushWindow();
+    this.updateConnectionStatus({ status: 'disconnected' });
+  }
+
+  setTranscriptionHandler(handler: (result: TranscriptionResult) => void): void {
+    this.onTranscription = handler;
+  }
+
+  setConnectionChangeHandler(handler: (status: ConnectionStatus) => void): void {
+    this.onConnectionChange = handler;
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return { ...this.connectionStatus };
+  }
+
+  isConnected(): boolean {
+    return this.connectionStatus.status === 'connected';
+  }
+
+  cleanup(): void {
+    this.stopTranscription();
+    this.onTranscription = null;
+    this.onConnectionChange = null;
+  }
+
+  private stopWindowTimer(): void {
+    if (this.windowTimer) {
+      clearInterval(this.windowTimer);
+      this.windowTimer = null;
+    }
+  }
+
+  private flushWindow(): void {
+    if (!this.header || this.windowChunks.length === 0 || this.windowStartMs === null) return;
+
+    // The first window already starts with the header
+    const parts: BlobPart[] = this.windowIndex === 0
+      ? this.windowChunks
+      : [this.header, ...(this.windowCluster ? [this.windowCluster.opener] : []), ...this.windowChunks];
+    const audio = new Blob(parts, { type: this.config.mimeType });
+    // Arrival times only approximate where the window starts when blocks cannot be read
+    const offsetSeconds = this.windowAudioMs !== null
+      ? this.windowAudioMs / 1000
+      : (this.windowStartMs - (this.audioStartMs ?? this.windowStartMs)) / 1000;
+    const index = this.windowIndex++;
+
+    this.windowChunks = [];
+    this.windowStartMs = null;
+    this.windowCluster = null;
+    this.windowAudioMs = null;
+    this.pending = this.pending.then(() => this.transcribeWindow(audio, offsetSeconds, index));
+  }
+
+  private async transcribeWindow(audio: Blob, offsetSeconds: number, index: number): Promise<void> {
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      if (!token) {
+        throw new Error('Sign in to use local transcription');
+      }
+
+      const form = new FormData();
+      form.append('audio', audio, `window-${index}.webm`);
+      form.append('language', this.language);
+      form.append('provider', 'local');
+      this.keywords.forEach(keyword => form.append('keywords', keyword));
+
+      const response = await fetch(this.config.endpoint, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        body: form,
+      });
+      const data = await response.json() as LocalTranscriptionResponse;
+      if (!response.ok || !data.transcription) {
+        throw new Error(data.error || `Local transcription failed (${response.status})`);
+      }
+
+      if (this.consecutiveFailures > 0 && this.windowTimer) {
+        this.updateConnectionStatus({ status: 'connected' });
+      }
+      this.consecutiveFailures = 0;
+      this.emitResults(data.transcription, offsetSeconds, index);
+    } catch (error) {
+      this.consecutiveFailures++;
+      console.error('[LocalSTT] Window transcription failed:', error);
+      this.updateConnectionStatus({
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Local transcription failed',
+        reconnectAttempts: this.consecutiveFailures,
+      });
+    }
+  }
+
+  private emitResults(
+    transcription: NonNullable<LocalTranscriptionResponse['transcription']>,
+    offsetSeconds: number,
+    index: number
+  ): void {
+    const words = transcription.words.map(word => ({
+      ...word,
+      start: word.start + offsetSeconds,
+      end: word.end + offsetSeconds,
+    }));
+    // Servers that return no segments still return the window's text
+    const segments = transcription.segments.length > 0
+      ? transcription.segments
+      : [{ text: transcription.text, start: 0, end: Infinity, confidence: transcription.confidence }];
+
+    segments.forEach((segment, segmentIndex) => {
+      const text = segment.text.trim();
+      if (!text) return;
+
+      const start = segment.start + offsetSeconds;
+      const end = segment.end + offsetSeconds;
+      this.onTranscription?.({
+        transcript: text,
+        confidence: segment.confidence,
+        timestamp: Date.now(),
+        isFinal: true,
+        utteranceKey: `local|${index}|${segmentIndex}`,
+        words: words.filter(word => word.start >= start && word.start < end),
+        ...(this.audioStartMs !== null && { audioStartMs: this.audioStartMs }),
+      });
+    });
+  }
+
+  private updateConnectionStatus(status: ConnectionStatus): void {
+    this.connectionStatus = { ...status };
+    this.onConnectionChange?.(this.connectionStatus);
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * MeetingFinalizationService - Builds the post-meeting summary, action items and
+ * transcript metrics once a meeting ends. Long transcripts are summarized chunk by
+ * chunk (map) and the partial summaries are then combined (reduce).
+ */
+
+import { AIService } from './AIService';
+import type { ActionItem } from './FragmentProcessor';
+import type { AIModel, Meeting, TranscriptEntry } from '@/types';
+import { estimateTokens } from '@/config/modelConfigs';
+import { getTopTerms, summarizeMessages } from '@/services/gatekeeper/utils/RollingSummarizer';
+import type { SummaryInput } from '@/services/gatekeeper/utils/RollingSummarizer';
+
+export type MeetingMetadata = NonNullable<Meeting['metadata']>;
+
+export interface MeetingFinalizationConfig {
+  model: AIModel;
+  // Transcript tokens per map prompt; kept well under the model context
+  maxChunkTokens: number;
+  maxTopics: number;
+  maxActionItems: number;
+}
+
+export interface MeetingFinalizationResult {
+  summary: string;
+  actionItems: ActionItem[];
+  metadata: MeetingMetadata;
+  chunkCount: number;
+  // True when any chunk or the reduce step fell back to extractive summarizing
+  usedFallback: boolean;
+  cost: number;
+}
+
+interface PartialSummary {
+  summary: string;
+  topics: string[];
+  actionItems: ActionItem[];
+}
+
+const DEFAULT_CONFIG: MeetingFinalizationConfig = {
+  model: 'gpt-4o-mini',
+  maxChunkTokens: 3000,
+  maxTopics: 8,
+  maxActionItems: 25,
+};
+
+const ACTION_TYPES: ActionItem['type'][] = ['task', 'reminder', 'decision', 'follow_up'];
+
+const ACTION_PATTERNS: { pattern: RegExp; type: ActionItem['type'] }[] = [
+  { pattern: /\b(?:i'll|i will|we'll|we will|need to|have to|going to)\s+(.+?)(?=[.!?]|$)/gi, type: 'task' },
+  { pattern: /\b(?:remind me|don't forget|remember to)\s+(.+?)(?=[.!?]|$)/gi, type: 'reminder' },
+  { pattern: /\b(?:we decided|we agreed|let's go with)\s+(.+?)(?=[.!?]|$)/gi, type: 'decision' },
+  { pattern: /\b(?:follow up|check back|get back to)\s+(.+?)(?=[.!?]|$)/gi, type: 'follow_up' },
+];
+
+const DUE_PATTERN = /\b(?:(?:by|before|until|on)\s+)?(today|tonight|tomorrow|end of (?:the )?(?:day|week|month)|next week|this week|(?:next\s+)?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)|\d{4}-\d{2}-\d{2})\b/i;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function toTime(value: Date | string | number | undefined): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : time;
+}
+
+function entryText(entry: TranscriptEntry): string {
+  return (entry.text || entry.content || '').trim();
+}
+
+function speakerLabel(entry: TranscriptEntry): string {
+  return entry.speakerName || entry.speaker || entry.speakerId || 'Unknown';
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Word, speaker, pace and overlap statistics for the transcript. Pace is measured
+ * over the meeting's wall-clock duration, falling back to the span of the transcript.
+ */
+export function computeMeetingMetrics(
+  meeting: Pick<Meeting, 'startTime' | 'startedAt' | 'endTime' | 'endedAt'>,
+  transcript: TranscriptEntry[]
+): Omit<MeetingMetadata, 'topics'> {
+  const spoken = transcript.filter(entry => entryText(entry));
+  const totalWords = spoken.reduce((sum, entry) => sum + countWords(entryText(entry)), 0);
+  const totalSpeakers = new Set(spoken.map(entry => entry.speakerId || speakerLabel(entry))).size;
+
+  const timestamps = spoken.map(entry => toTime(entry.timestamp)).filter((t): t is number => t !== undefined);
+  const start = toTime(meeting.startedAt) ?? toTime(meeting.startTime) ?? (timestamps.length ? Math.min(...timestamps) : undefined);
+  const end = toTime(meeting.endedAt) ?? toTime(meeting.endTime) ?? (timestamps.length ? Math.max(...timestamps) : undefined);
+  const minutes = start !== undefined && end !== undefined ? (end - start) / 60000 : 0;
+
+  // Both entries of an overlapping pair point at each other, so count pairs once
+  const overlapPairs = new Set(
+    transcript
+      .filter(entry => entry.overlapsWith)
+      .map(entry => [entry.id, entry.overlapsWith].sort().join('|'))
+  );
+  const interruptionsBySpeaker: Record<string, number> = {};
+  transcript
+    .filter(entry => entry.interruptedSpeakerId)
+    .forEach(entry => {
+      const speaker = speakerLabel(entry);
+      interruptionsBySpeaker[speaker] = (interruptionsBySpeaker[speaker] || 0) + 1;
+    });
+
+  return {
+    totalWords,
+    totalSpeakers,
+    averageWPM: minutes > 0 ? Math.round(totalWords / minutes) : 0,
+    overlapCount: overlapPairs.size,
+    interruptionsBySpeaker,
+  };
+}
+
+/**
+ * Split transcript lines into chunks of at most `maxTokens` estimated tokens,
+ * never breaking a line across chunks
+ */
+export function chunkTranscript(lines: string[], maxTokens: number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  lines.forEach(line => {
+    const tokens = estimateTokens(line);
+    if (current.length > 0 && currentTokens + tokens > maxTokens) {
+      chunks.push(current.join('\n'));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(line);
+    currentTokens += tokens;
+  });
+
+  if (current.length > 0) {
+    chunks.push(current.join('\n'));
+  }
+  return chunks;
+}
+
+/**
+ * Resolve phrases like "by Friday" or "tomorrow" against the meeting date
+ */
+export function resolveDueDate(dueContext: string, reference: Date): Date | undefined {
+  const phrase = dueContext.toLowerCase().replace(/^(?:by|before|until|on)\s+/, '').trim();
+  const date = new Date(reference);
+  date.setHours(17, 0, 0, 0);
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(phrase)) {
+    const parsed = new Date(`${phrase}T17:00:00`);
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+  if (phrase === 'today' || phrase === 'tonight' || /^end of (?:the )?day$/.test(phrase)) {
+    return date;
+  }
+  if (phrase === 'tomorrow') {
+    date.setDate(date.getDate() + 1);
+    return date;
+  }
+  if (phrase === 'this week' || /^end of (?:the )?week$/.test(phrase)) {
+    date.setDate(date.getDate() + ((5 - date.getDay() + 7) % 7));
+    return date;
+  }
+  if (phrase === 'next week') {
+    date.setDate(date.getDate() + ((1 - date.getDay() + 7) % 7 || 7));
+    return date;
+  }
+  if (/^end of (?:the )?month$/.test(phrase)) {
+    return new Date(date.getFullYear(), date.getMonth() + 1, 0, 17);
+  }
+
+  const weekday = phrase.match(/^(next\s+)?(\w+)$/);
+  const dayIndex = weekday ? WEEKDAYS.indexOf(weekday[2]) : -1;
+  if (weekday && dayIndex >= 0) {
+    // "next friday" means the Friday of next week, a bare "friday" the next one to come
+    const daysUntil = weekday[1]
+      ? ((1 - date.getDay() + 7) % 7 || 7) + ((dayIndex + 6) % 7)
+      : ((dayIndex - date.getDay() + 7) % 7 || 7);
+    date.setDate(date.getDate() + daysUntil);
+    return date;
+  }
+  return undefined;
+}
+
+/**
+ * One-line form stored in `Meeting.actionItems`
+ */
+export function formatActionItem(item: ActionItem): string {
+  const due = item.dueDate ? ` (due ${item.dueDate.toISOString().slice(0, 10)})` : item.dueContext ? ` (${item.dueContext})` : '';
+  const line = `${item.owner ? `${item.owner}: ` : ''}${item.text}${due}`;
+  return line.length > 500 ? `${line.slice(0, 497)}...` : line;
+}
+
+function extractJson(responseText: string): Record<string, any> | null {
+  const match = responseText.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+}
+
+function normalizeActionItems(raw: unknown, reference: Date): ActionItem[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((item): item is Record<string, any> => Boolean(item) && typeof item.text === 'string' && item.text.trim())
+    .map(item => {
+      const dueContext = typeof item.due === 'string' && item.due.trim() ? item.due.trim() : undefined;
+      const owner = typeof item.owner === 'string' && item.owner.trim() ? item.owner.trim() : undefined;
+      const dueDate = dueContext ? resolveDueDate(dueContext, reference) : undefined;
+      return {
+        text: item.text.trim(),
+        type: ACTION_TYPES.includes(item.type) ? item.type : 'task',
+        confidence: 0.85,
+        ...(dueContext && { dueContext }),
+        ...(owner && { owner }),
+        ...(dueDate && { dueDate }),
+      };
+    });
+}
+
+function dedupeActionItems(items: ActionItem[]): ActionItem[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function buildMapPrompt(meeting: Meeting, chunk: string, index: number, total: number): string {
+  return [
+    `You are summarizing part ${index + 1} of ${total} of a ${meeting.type.replace(/_/g, ' ')} meeting titled "${meeting.title}".`,
+    'Reply with a JSON object only, using this schema:',
+    '{"summary": string (3-5 sentences), "topics": string[] (short noun phrases),',
+    ' "actionItems": [{"text": string, "owner": string|null, "due": string|null, "type": "task"|"reminder"|"decision"|"follow_up"}]}',
+    'Owners must be speaker names from the transcript. Copy due dates as spoken (e.g. "by Friday"). Omit anything not committed to.',
+    'Transcript:',
+    chunk,
+  ].join('\n');
+}
+
+function buildReducePrompt(meeting: Meeting, partials: PartialSummary[]): string {
+  return [
+    `Combine these section summaries of the ${meeting.type.replace(/_/g, ' ')} meeting "${meeting.title}" into one summary.`,
+    'Reply with a JSON object only: {"summary": string (one paragraph, at most 8 sentences), "topics": string[]}',
+    ...partials.map((partial, index) => `Section ${index + 1}: ${partial.summary}\nTopics: ${partial.topics.join(', ')}`),
+  ].join('\n');
+}
+
+export class MeetingFinalizationService {
+  private config: MeetingFinalizationConfig;
+
+  constructor(private aiService: AIService = new AIService(), config: Partial<MeetingFinalizationConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async finalize(
+    meeting: Meeting,
+    transcript: TranscriptEntry[],
+    options: { userId?: string } = {}
+  ): Promise<MeetingFinalizationResult> {
+    const entries = transcript
+      .filter(entry => entryText(entry))
+      .sort((a, b) => (toTime(a.timestamp) ?? 0) - (toTime(b.timestamp) ?? 0));
+    const metrics = computeMeetingMetrics(meeting, entries);
+    const reference = new Date(toTime(meeting.startTime) ?? Date.now());
+
+    if (entries.length === 0) {
+      return {
+        summary: 'No transcript was recorded for this meeting.',
+        actionItems: [],
+        metadata: { ...metrics, topics: [] },
+        chunkCount: 0,
+        usedFallback: false,
+        cost: 0,
+      };
+    }
+
+    const lines = entries.map(entry => `${speakerLabel(entry)}: ${entryText(entry)}`);
+    const chunks = chunkTranscript(lines, this.config.maxChunkTokens);
+    const metadata = { userId: options.userId, meetingId: meeting.meetingId, operation: 'meeting_summary' };
+    let usedFallback = false;
+    let cost = 0;
+
+    // Map: summarize each chunk independently
+    const partials: PartialSummary[] = [];
+    for (let index = 0; index < chunks.length; index++) {
+      try {
+        const response = await this.aiService.generateResponse(
+          buildMapPrompt(meeting, chunks[index], index, chunks.length),
+          this.config.model,
+          undefined,
+          metadata
+        );
+        cost += response.cost || 0;
+        const raw = extractJson(response.text);
+        if (!raw || typeof raw.summary !== 'string') {
+          throw new Error('Summary response was not valid JSON');
+        }
+        partials.push({
+          summary: raw.summary.trim(),
+          topics: Array.isArray(raw.topics) ? raw.topics.filter((t: unknown) => typeof t === 'string') : [],
+          actionItems: normalizeActionItems(raw.actionItems, reference),
+        });
+      } catch (error) {
+        console.warn(`MeetingFinalizationService: chunk ${index + 1} fell back to extractive summary:`, error);
+        usedFallback = true;
+        partials.push(this.summarizeChunkHeuristically(chunks[index], reference));
+      }
+    }
+
+    // Reduce: a single chunk is already the whole meeting
+    let summary = partials[0].summary;
+    let topics = partials.flatMap(partial => partial.topics);
+    if (partials.length > 1) {
+      try {
+        const response = await this.aiService.generateResponse(
+          buildReducePrompt(meeting, partials),
+          this.config.model,
+          undefined,
+          metadata
+        );
+        cost += response.cost || 0;
+        const raw = extractJson(response.text);
+        if (!raw || typeof raw.summary !== 'string') {
+          throw new Error('Reduce response was not valid JSON');
+        }
+        summary = raw.summary.trim();
+        if (Array.isArray(raw.topics)) {
+          topics = raw.topics.filter((t: unknown) => typeof t === 'string');
+        }
+      } catch (error) {
+        console.warn('MeetingFinalizationService: reduce step fell back to extractive summary:', error);
+        usedFallback = true;
+        summary = summarizeMessages(
+          partials.map((partial, index) => ({ text: partial.summary, timestamp: index })),
+          'detailed'
+        );
+      }
+    }
+
+    return {
+      summary: summary.length > 5000 ? `${summary.slice(0, 4997)}...` : summary,
+      actionItems: dedupeActionItems(partials.flatMap(partial => partial.actionItems)).slice(0, this.config.maxActionItems),
+      metadata: {
+        ...metrics,
+        topics: Array.from(new Set(topics.map(topic => topic.trim().toLowerCase()).filter(Boolean))).slice(0, this.config.maxTopics),
+      },
+      chunkCount: chunks.length,
+      usedFallback,
+      cost,
+    };
+  }
+
+  /**
+   * Fields written back to the meeting document
+   */
+  toMeetingUpdates(result: MeetingFinalizationResult): Partial<Meeting> {
+    return {
+      summary: result.summary,
+      actionItems: result.actionItems.map(formatActionItem),
+      actionItemDetails: result.actionItems,
+      metadata: result.metadata,
+      finalizedAt: new Date(),
+    };
+  }
+
+  private summarizeChunkHeuristically(chunk: string, reference: Date): PartialSummary {
+    const inputs: SummaryInput[] = chunk.split('\n').map((line, index) => {
+      const separator = line.indexOf(': ');
+      return separator > 0
+        ? { speakerName: line.slice(0, separator), text: line.slice(separator + 2), timestamp: index }
+        : { text: line, timestamp: index };
+    });
+
+    const actionItems: ActionItem[] = [];
+    inputs.forEach(input => {
+      ACTION_PATTERNS.forEach(({ pattern, type }) => {
+        pattern.lastIndex = 0;
+        let match;
+        while ((match = pattern.exec(input.text)) !== null) {
+          const dueContext = match[0].match(DUE_PATTERN)?.[0];
+          const dueDate = dueContext ? resolveDueDate(dueContext, reference) : undefined;
+          actionItems.push({
+            text: match[1].trim(),
+            type,
+            confidence: 0.6,
+            ...(input.speakerName && { owner: input.speakerName }),
+            ...(dueContext && { dueContext }),
+            ...(dueDate && { dueDate }),
+          });
+        }
+      });
+    });
+
+    return {
+      summary: summarizeMessages(inputs, 'short'),
+      topics: getTopTerms(inputs, 5),
+      actionItems,
+    };
+  }
+}
+
+/**
+ * Factory function to create a meeting finalization service
+ */
+export function createMeetingFinalizationService(
+  config?: Partial<MeetingFinalizationConfig>
+): MeetingFinalizationService {
+  return new MeetingFinalizationService(new AIService(), config);
+}
@@ -30,6 +30,10 @@ export interface NameRecognitionConfig {
   maxNameLength: number;
   enableLearning: boolean;
   requireConfirmation: boolean;
+  // Rejections across speakers before a word stops being treated as a name
+  rejectionsBeforeIgnoring: number;
+  // Weight multiplier applied to a context clue each time a suggestion it produced is rejected
+  rejectionPenalty: number;
 }
 
 export interface NameContext {
@@ -54,6 +58,10 @@ export class NameRecognitionService {
   ]);
   private speakerNameMap: Map<string, string> = new Map();
   private pendingSuggestions: Map<string, NameSuggestion[]> = new Map();
+  // Negative evidence from rejected suggestions
+  private rejectedNamesBySpeaker: Map<string, Set<string>> = new Map();
+  private rejectionCounts: Map<string, number> = new Map();
+  private clueMultipliers: Map<string, number> = new Map();
   private config: NameRecognitionConfig;
 
   constructor(
@@ -68,6 +76,8 @@ export class NameRecognitionService {
       maxNameLength: 20,
       enableLearning: true,
       requireConfirmation: false,
+      rejectionsBeforeIgnoring: 2,
+      rejectionPenalty: 0.95,
       ...config,
     };
 
@@ -107,7 +117,7 @@ export class NameRecognitionService {
     this.namePatterns.set('fullName', /\b([A-Z][a-z]+)\s+([A-Z][a-z]+)\b/g);
     this.namePatterns.set('firstName', /\b([A-Z][a-z]{1,15})\b/g);
     this.namePatterns.set('title', /\b(Mr|Mrs|Ms|Dr|Professor|Sir|Madam)\.?\s+([A-Z][a-z]+)\b/g);
-    this.namePatterns.set('introduction', /(?:name is|call me|i am|i'm)\s+([A-Z][a-z]+)/gi);
+    this.namePatterns.set('introduction', /(?:[Nn]ame is|[Cc]all me|[Ii] am|[Ii]'m)\s+([A-Z][a-z]+)/g);
   }
 
   private async loadKnownNames(): Promise<void> {
@@ -186,7 +196,8 @@ export class NameRecognitionService {
 
   private detectIntroductionNames(transcript: string, context: NameContext): DetectedName[] {
     const names: DetectedName[] = [];
-    const introPattern = /(?:name is|call me|i am|i'm|my name)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/gi;
+    // Only the lead-in is case-insensitive; names must be capitalized so "I'm going" is not an introduction
+    const introPattern = /(?:[Nn]ame is|[Cc]all me|[Ii] am|[Ii]'m)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g;
     
     let match;
     while ((match = introPattern.exec(transcript)) !== null) {
@@ -194,7 +205,7 @@ export class NameRecognitionService {
       if (this.isValidName(name)) {
         names.push({
           name,
-          confidence: 0.9,
+          confidence: 0.9 * this.getClueMultiplier(match[0]),
           context: match[0],
           position: { start: match.index, end: match.index + match[0].length },
           type: 'introduction',
@@ -264,7 +275,7 @@ export class NameRecognitionService {
         if (this.isValidName(name)) {
           names.push({
             name,
-            confidence: 0.6 + (index * 0.1),
+            confidence: (0.6 + (index * 0.1)) * this.getClueMultiplier(match[0]),
             context: match[0],
             position: { start: match.index, end: match.index + match[0].length },
             type: 'reference',
@@ -286,7 +297,7 @@ export class NameRecognitionService {
         if (this.isValidName(name)) {
           names.push({
             name: name.trim(),
-            confidence: patternName === 'introduction' ? 0.9 : 0.6,
+            confidence: patternName === 'introduction' ? 0.9 * this.getClueMultiplier(match[0]) : 0.6,
             context: match[0],
             position: { start: match.index, end: match.index + match[0].length },
             type: patternName === 'introduction' ? 'introduction' : 'mention',
@@ -317,12 +328,13 @@ export class NameRecognitionService {
     const excludedWords = new Set([
       'The', 'This', 'That', 'These', 'Those', 'What', 'When', 'Where', 'Why', 'How',
       'Yes', 'No', 'Ok', 'Okay', 'Sure', 'Right', 'Good', 'Great', 'Well', 'So',
+      'I', "I'm", "I've", "I'll", "I'd",
       'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
       'January', 'February', 'March', 'April', 'May', 'June',
       'July', 'August', 'September', 'October', 'November', 'December',
     ]);
 
-    return !excludedWords.has(word);
+    return !excludedWords.has(word) && !this.isIgnoredName(word);
   }
 
   private isSentenceStart(words: string[], index: number): boolean {
@@ -343,7 +355,7 @@ export class NameRecognitionService {
     // Check for context clues
     this.contextClues.forEach((weight, clue) => {
       if (contextText.includes(clue)) {
-        score += weight;
+        score += weight * (this.clueMultipliers.get(clue) ?? 1);
       }
     });
 
@@ -385,7 +397,36 @@ export class NameRecognitionService {
       return false;
     }
 
-    return true;
+    return !this.isIgnoredName(trimmed);
+  }
+
+  private isIgnoredName(name: string): boolean {
+    return (this.rejectionCounts.get(name.toLowerCase()) || 0) >= this.config.rejectionsBeforeIgnoring;
+  }
+
+  // Longest context clue contained in the matched text, e.g. "my name" over "name is"
+  private findClue(context: string): string | undefined {
+    const text = context.toLowerCase();
+    let best: string | undefined;
+    this.contextClues.forEach((_weight, clue) => {
+      if (text.includes(clue) && (!best || clue.length > best.length)) {
+        best = clue;
+      }
+    });
+    return best;
+  }
+
+  private getClueMultiplier(context: string): number {
+    const clue = this.findClue(context);
+    return clue ? this.clueMultipliers.get(clue) ?? 1 : 1;
+  }
+
+  private adjustClue(context: string, factor: number): void {
+    const clue = this.findClue(context);
+    if (!clue) return;
+
+    const multiplier = Math.min(1, Math.max(0.5, (this.clueMultipliers.get(clue) ?? 1) * factor));
+    this.clueMultipliers.set(clue, multiplier);
   }
 
   private filterAndRankNames(names: DetectedName[], transcript: string): DetectedName[] {
@@ -396,7 +437,14 @@ export class NameRecognitionService {
       const key = name.name.toLowerCase();
       const existing = nameMap.get(key);
       
-      if (!existing || name.confidence > existing.confidence) {
+      // A self-introduction outranks other sightings of the same name
+      const isIntroduction = name.type === 'introduction';
+      const existingIsIntroduction = existing?.type === 'introduction';
+      if (
+        !existing ||
+        (isIntroduction && !existingIsIntroduction) ||
+        (isIntroduction === existingIsIntroduction && name.confidence > existing.confidence)
+      ) {
         nameMap.set(key, name);
       }
     });
@@ -422,8 +470,11 @@ export class NameRecognitionService {
         name.type === 'introduction' && name.confidence > 0.8
       );
 
-      if (selfIntroductions.length > 0) {
-        const bestIntroduction = selfIntroductions[0];
+      const rejected = this.rejectedNamesBySpeaker.get(currentSpeaker);
+      const candidates = selfIntroductions.filter(name => !rejected?.has(name.name.toLowerCase()));
+
+      if (candidates.length > 0) {
+        const bestIntroduction = candidates[0];
         suggestions.push({
           speakerId: currentSpeaker,
           suggestedName: bestIntroduction.name,
@@ -454,6 +505,7 @@ export class NameRecognitionService {
       this.diarizationService.assignName(suggestion.speakerId, suggestion.suggestedName);
       this.speakerNameMap.set(suggestion.speakerId, suggestion.suggestedName);
       this.knownNames.add(suggestion.suggestedName.toLowerCase());
+      suggestion.evidence.forEach(evidence => this.adjustClue(evidence, 1 / this.config.rejectionPenalty));
 
       // Update voice profile if available
       if (this.voiceProfileService) {
@@ -463,6 +515,27 @@ export class NameRecognitionService {
     }
   }
 
+  /**
+   * Learn from a suggestion the user turned down: the name is not offered for that
+   * speaker again, repeated rejections stop the word being read as a name, and the
+   * phrasing that produced it counts for less in future detections
+   */
+  recordRejection(suggestion: NameSuggestion): void {
+    if (!this.config.enableLearning) return;
+
+    const name = suggestion.suggestedName.toLowerCase();
+    const rejected = this.rejectedNamesBySpeaker.get(suggestion.speakerId) || new Set<string>();
+    rejected.add(name);
+    this.rejectedNamesBySpeaker.set(suggestion.speakerId, rejected);
+    this.rejectionCounts.set(name, (this.rejectionCounts.get(name) || 0) + 1);
+
+    suggestion.evidence.forEach(evidence => this.adjustClue(evidence, this.config.rejectionPenalty));
+  }
+
+  isRejected(speakerId: string, name: string): boolean {
+    return this.rejectedNamesBySpeaker.get(speakerId)?.has(name.toLowerCase()) || false;
+  }
+
   getKnownNames(): string[] {
     return Array.from(this.knownNames);
   }
@@ -484,6 +557,9 @@ export class NameRecognitionService {
     this.knownNames.clear();
     this.speakerNameMap.clear();
     this.pendingSuggestions.clear();
+    this.rejectedNamesBySpeaker.clear();
+    this.rejectionCounts.clear();
+    this.clueMultipliers.clear();
   }
 }
 
@@ -0,0 +1,220 @@
+import { AIService } from './AIService';
+import { AIModel, MeetingType } from '@/types';
+import type { CustomRule, RuleAction, RuleCondition } from '@/types';
+
+export type RuleDraft = Omit<CustomRule, 'ruleId' | 'userId' | 'createdAt' | 'lastUsed'>;
+
+export interface ParsedRule {
+  input: string;
+  draft: RuleDraft;
+  source: 'ai' | 'heuristic';
+}
+
+export interface NaturalLanguageRuleParserConfig {
+  model: AIModel;
+  useHeuristicFallback: boolean;
+}
+
+const DEFAULT_CONFIG: NaturalLanguageRuleParserConfig = {
+  model: 'gpt-4o-mini',
+  useHeuristicFallback: true,
+};
+
+function buildPrompt(text: string, meetingTypes: MeetingType[]): string {
+  return [
+    'Convert the meeting assistant rule below into JSON. Reply with the JSON object only.',
+    'Schema:',
+    '{"name": string, "description": string, "meetingTypes": string[], "priority": number (1-10),',
+    ' "conditions": [{"type": "keyword"|"speaker"|"time"|"pattern", "operator": string, "value": string|number}],',
+    ' "actions": [{"type": "respond"|"summarize"|"ignore"|"highlight"|"notify", "parameters": object}]}',
+    'Operators: keyword -> contains|equals|matches, speaker -> equals|contains|matches,',
+    'time (minutes since the meeting started) -> greater|less|equals, pattern -> matches|contains.',
+    'Prefer keyword conditions with comma-separated words over regex patterns; only use a pattern when keywords cannot express it.',
+    'All conditions must match for the rule to fire. Respond actions take {"message": string}; summarize takes {"style": "bullet_points"|"short"|"detailed"}.',
+    `Valid meeting types: ${Object.values(MeetingType).join(', ')}. Use [] for every meeting type.`,
+    meetingTypes.length > 0 ? `The user is creating this rule for: ${meetingTypes.join(', ')}.` : '',
+    `Rule: "${text}"`,
+  ].filter(Boolean).join('\n');
+}
+
+function extractJson(responseText: string): Record<string, any> | null {
+  const match = responseText.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+}
+
+function truncateName(text: string): string {
+  const trimmed = text.trim().replace(/[.!?]+$/, '');
+  return trimmed.length > 60 ? `${trimmed.slice(0, 57)}...` : trimmed;
+}
+
+/**
+ * Coerce model output into the CustomRule shape. Unknown condition and action
+ * types are kept so validation can explain them instead of silently dropping them.
+ */
+export function normalizeRuleDraft(raw: Record<string, any>, input: string, meetingTypes: MeetingType[] = []): RuleDraft {
+  const conditions: RuleCondition[] = (Array.isArray(raw.conditions) ? raw.conditions : [])
+    .filter((condition: any) => condition && typeof condition === 'object')
+    .map((condition: any) => ({
+      type: condition.type,
+      operator: condition.operator || (condition.type === 'pattern' ? 'matches' : 'contains'),
+      value: Array.isArray(condition.value) ? condition.value.join(', ') : condition.value,
+    }));
+
+  const actions: RuleAction[] = (Array.isArray(raw.actions) ? raw.actions : [])
+    .filter((action: any) => action && typeof action === 'object')
+    .map((action: any) => ({
+      type: action.type,
+      parameters: action.parameters && typeof action.parameters === 'object' ? action.parameters : {},
+    }));
+
+  const priority = Number(raw.priority);
+
+  return {
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : truncateName(input),
+    description: typeof raw.description === 'string' && raw.description.trim() ? raw.description.trim() : input.trim(),
+    meetingTypes: Array.isArray(raw.meetingTypes) && raw.meetingTypes.length > 0 ? raw.meetingTypes : meetingTypes,
+    conditions,
+    actions,
+    priority: Number.isFinite(priority) ? priority : 5,
+    enabled: true,
+  };
+}
+
+const HEURISTIC_VERBS = 'ask|say|respond(?: with)?|reply(?: with)?|summarize|highlight|flag|notify me|ignore';
+
+function buildHeuristicAction(verb: string, rest: string): RuleAction {
+  const lowerVerb = verb.toLowerCase();
+  const detail = rest.trim().replace(/[.]+$/, '');
+  if (lowerVerb.startsWith('summarize')) {
+    const style = /bullet/i.test(detail) ? 'bullet_points' : /detail/i.test(detail) ? 'detailed' : 'short';
+    return { type: 'summarize', parameters: { style } };
+  }
+  if (lowerVerb === 'highlight' || lowerVerb === 'flag') {
+    return { type: 'highlight', parameters: {} };
+  }
+  if (lowerVerb === 'notify me') {
+    return { type: 'notify', parameters: detail ? { message: detail } : {} };
+  }
+  if (lowerVerb === 'ignore') {
+    return { type: 'ignore', parameters: {} };
+  }
+  const message = lowerVerb === 'ask'
+    ? `${detail.charAt(0).toUpperCase()}${detail.slice(1)}`.replace(/\??$/, '?')
+    : detail;
+  return { type: 'respond', parameters: { message } };
+}
+
+// "standup", "team standup" or "one on one" as written in a sentence
+function findMeetingType(phrase: string): MeetingType | undefined {
+  const normalized = phrase.toLowerCase().replace(/[-_]/g, ' ').trim();
+  return Object.values(MeetingType).find(type => type.replace(/_/g, ' ') === normalized);
+}
+
+/**
+ * Best-effort parse for the common "when someone says X, ask Y" and "after N
+ * minutes in a standup, summarize" phrasings, used when no AI provider is
+ * configured or the model reply is not valid JSON.
+ */
+export function parseRuleHeuristically(text: string, meetingTypes: MeetingType[] = []): RuleDraft | null {
+  const timed = text.match(new RegExp(
+    `^\\s*after\\s+(\\d+)\\s+min(?:ute)?s?(?:\\s+(?:in|into)\\s+(?:an?\\s+|the\\s+)?(.+?))?\\s*[,;]?\\s*(?:then\\s+)?(${HEURISTIC_VERBS})(?:\\s+(.*))?$`,
+    'i'
+  ));
+  if (timed) {
+    const [, minutes, meetingPhrase, verb, rest = ''] = timed;
+    const meetingType = meetingPhrase ? findMeetingType(meetingPhrase) : undefined;
+    if (meetingPhrase && !meetingType) return null;
+
+    return normalizeRuleDraft(
+      {
+        conditions: [{ type: 'time', operator: 'greater', value: Number(minutes) }],
+        actions: [buildHeuristicAction(verb, rest)],
+        meetingTypes: meetingType ? [meetingType] : [],
+      },
+      text,
+      meetingTypes
+    );
+  }
+
+  const match = text.match(new RegExp(
+    `\\b(?:when(?:ever)?|if)\\s+(?:(someone|anyone|somebody|.+?)\\s+)?(?:says|mentions|talks about|brings up|asks about)\\s+["']?(.+?)["']?\\s*[,;]?\\s*(?:then\\s+)?(${HEURISTIC_VERBS})(?:\\s+(.*))?$`,
+    'i'
+  ));
+  if (!match) return null;
+
+  const [, who, phrase, verb, rest = ''] = match;
+  const keywords = phrase.split(/\s*(?:,|\bor\b)\s*/i).map(k => k.trim()).filter(Boolean);
+  const conditions: RuleCondition[] = [{ type: 'keyword', operator: 'contains', value: keywords.join(', ') }];
+  if (who && !/^(someone|anyone|somebody)$/i.test(who)) {
+    conditions.push({ type: 'speaker', operator: 'contains', value: who.trim() });
+  }
+
+  return normalizeRuleDraft({ conditions, actions: [buildHeuristicAction(verb, rest)] }, text, meetingTypes);
+}
+
+/**
+ * Turns plain-English rule descriptions into CustomRule drafts for the user
+ * to review before saving.
+ */
+export class NaturalLanguageRuleParser {
+  private config: NaturalLanguageRuleParserConfig;
+
+  constructor(private aiService: AIService = new AIService(), config: Partial<NaturalLanguageRuleParserConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async parse(
+    text: string,
+    options: { meetingTypes?: MeetingType[]; userId?: string } = {}
+  ): Promise<ParsedRule> {
+    const input = text.trim();
+    if (!input) {
+      throw new Error('Rule description is empty');
+    }
+
+    const meetingTypes = options.meetingTypes || [];
+    let draft: RuleDraft | null = null;
+    let source: ParsedRule['source'] = 'ai';
+
+    try {
+      const response = await this.aiService.generateResponse(
+        buildPrompt(input, meetingTypes),
+        this.config.model,
+        undefined,
+        { userId: options.userId, operation: 'rule_authoring' }
+      );
+      const raw = extractJson(response.text);
+      if (raw) {
+        draft = normalizeRuleDraft(raw, input, meetingTypes);
+      }
+    } catch (error) {
+      if (!this.config.useHeuristicFallback) throw error;
+      console.warn('NaturalLanguageRuleParser: AI parse failed, falling back to heuristics:', error);
+    }
+
+    if (!draft && this.config.useHeuristicFallback) {
+      draft = parseRuleHeuristically(input, meetingTypes);
+      source = 'heuristic';
+    }
+
+    if (!draft) {
+      throw new Error('Could not understand the rule. Try phrasing it as "When someone says ..., ask ..."');
+    }
+
+    return { input, draft, source };
+  }
+}
+
+/**
+ * Factory function to create a rule parser
+ */
+export function createNaturalLanguageRuleParser(
+  config?: Partial<NaturalLanguageRuleParserConfig>
+): NaturalLanguageRuleParser {
+  return new NaturalLanguageRuleParser(new AIService(), config);
+}
@@ -0,0 +1,145 @@
+/**
+ * OverlapDetectionService - Finds places where two people talk at the same time.
+ *
+ * Deepgram labels every word with a speaker but attributes each result to the
+ * speaker of its first word. This service splits results into per-speaker
+ * segments and flags a segment as overlapping the previous speaker when it
+ * starts before, or right as, that speaker stops. When local audio analysis is
+ * available, the level around the handover must also be raised, since two voices
+ * at once add their energy.
+ */
+
+import type { TranscriptionWord } from './STTProvider';
+
+export interface OverlapDetectionConfig {
+  // A new speaker starting within this many seconds of the last word counts as talking over it
+  maxTurnGapSeconds: number;
+  // Level around the handover relative to single-voice speech needed to confirm an overlap
+  minEnergyRatio: number;
+  // Audio analysed on each side of the handover
+  energyWindowSeconds: number;
+}
+
+export interface SegmentOverlap {
+  // Speaker whose segment this one was spoken over
+  speakerId: string;
+  // The other speaker had not finished their sentence
+  isInterruption: boolean;
+}
+
+export interface SpeakerSegment {
+  speakerId: string;
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+  overlap?: SegmentOverlap;
+}
+
+// Returns the energy ratio between two wall-clock times, or null when unknown
+export type EnergyProbe = (startMs: number, endMs: number) => number | null;
+
+export interface SegmentOptions {
+  // Wall-clock time of stream offset 0, needed to consult the energy probe
+  audioStartMs?: number;
+  energyProbe?: EnergyProbe;
+}
+
+const DEFAULT_CONFIG: OverlapDetectionConfig = {
+  maxTurnGapSeconds: 0.1,
+  minEnergyRatio: 1.3,
+  energyWindowSeconds: 0.25,
+};
+
+const SENTENCE_END = /[.!?]["')\]]*$/;
+
+export class OverlapDetectionService {
+  private config: OverlapDetectionConfig;
+  // Last segment of the previous result, so overlaps across results are found too
+  private lastSegment: SpeakerSegment | null = null;
+
+  constructor(config: Partial<OverlapDetectionConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Split a result's words into consecutive per-speaker segments and mark the
+   * ones spoken over another speaker
+   */
+  segment(words: TranscriptionWord[], options: SegmentOptions = {}): SpeakerSegment[] {
+    const segments: SpeakerSegment[] = [];
+    let confidenceSum = 0;
+    let wordCount = 0;
+
+    for (const word of words) {
+      const speakerId = word.speaker?.toString() || 'unknown';
+      const text = word.punctuatedWord || word.word;
+      const current = segments[segments.length - 1];
+
+      if (current && current.speakerId === speakerId) {
+        current.text += ` ${text}`;
+        current.end = word.end;
+        confidenceSum += word.confidence;
+        wordCount++;
+        continue;
+      }
+
+      if (current) current.confidence = confidenceSum / wordCount;
+      segments.push({ speakerId, text, start: word.start, end: word.end, confidence: 0 });
+      confidenceSum = word.confidence;
+      wordCount = 1;
+    }
+    if (segments.length === 0) return segments;
+    segments[segments.length - 1].confidence = confidenceSum / wordCount;
+
+    const history = this.lastSegment ? [this.lastSegment, ...segments] : segments;
+    const offset = history.length - segments.length;
+
+    segments.forEach((segment, index) => {
+      const previous = history[offset + index - 1];
+      if (!previous || previous.speakerId === segment.speakerId) return;
+      if (!this.isOverlap(previous, segment, options)) return;
+
+      // Someone who carries on right after was only talked over, not cut off,
+      // and picking up one's own turn after a brief interjection cuts off nobody
+      const resumes = segments[index + 1]?.speakerId === previous.speakerId;
+      const returns = history[offset + index - 2]?.speakerId === segment.speakerId;
+      segment.overlap = {
+        speakerId: previous.speakerId,
+        isInterruption: !resumes && !returns && !SENTENCE_END.test(previous.text.trim()),
+      };
+    });
+
+    this.lastSegment = segments[segments.length - 1];
+    return segments;
+  }
+
+  /**
+   * Forget the previous result, e.g. when a new recording starts
+   */
+  reset(): void {
+    this.lastSegment = null;
+  }
+
+  private isOverlap(previous: SpeakerSegment, segment: SpeakerSegment, options: SegmentOptions): boolean {
+    // Stream times restart after a reconnect
+    if (segment.start < previous.start) return false;
+
+    const gap = segment.start - previous.end;
+    if (gap > this.config.maxTurnGapSeconds) return false;
+
+    // Deepgram occasionally reports truly overlapping word times
+    if (gap < 0) return true;
+
+    if (!options.energyProbe || options.audioStartMs === undefined) return true;
+
+    const windowMs = this.config.energyWindowSeconds * 1000;
+    const handoverMs = options.audioStartMs + segment.start * 1000;
+    const ratio = options.energyProbe(handoverMs - windowMs, handoverMs + windowMs);
+    return ratio === null || ratio >= this.config.minEnergyRatio;
+  }
+}
+
+export function createOverlapDetectionService(config?: Partial<OverlapDetectionConfig>): OverlapDetectionService {
+  return new OverlapDetectionService(config);
+}
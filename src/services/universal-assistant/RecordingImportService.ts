@@ -0,0 +1,619 @@
+/**
+ * RecordingImportService - Turns a recording made in another meeting tool into a meeting.
+ *
+ * The file is decoded in the browser and split into chunks of a few minutes, each cut
+ * at the quietest point near its nominal end so no word is split. Every chunk goes to
+ * the transcribe route with diarization. Diarization labels only hold within one
+ * chunk, so each chunk's speakers are matched to the speakers found so far by voice
+ * embedding. The original file is stored with the meeting and the transcript is
+ * written once every chunk is done; a failed or cancelled import removes the meeting.
+ * The user's glossary is sent with each chunk and applied to the finished text.
+ */
+
+import { auth } from '@/lib/firebase/client';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { MeetingType, type TranscriptEntry } from '@/types';
+import { CustomVocabulary } from './CustomVocabulary';
+import type { BatchTranscriptionSegment } from './STTProvider';
+import {
+  cosineSimilarity,
+  InsufficientSpeechError,
+  resample,
+  SpeakerEmbeddingExtractor,
+  speakerEmbeddingExtractor,
+} from './SpeakerEmbeddingExtractor';
+import { encodeWav } from './VoiceEnrollmentService';
+
+export interface RecordingImportConfig {
+  transcribeEndpoint: string;
+  // Rate chunks are decoded and sent at; speech needs no more than 16 kHz
+  sampleRate: number;
+  chunkSeconds: number;
+  // Chunks end at the quietest point within this distance of the nominal boundary
+  boundarySearchSeconds: number;
+  maxFileBytes: number;
+  // Decoded audio is held in memory, so very long recordings are refused
+  maxDurationSeconds: number;
+  speakerMatchThreshold: number;
+  // Speech per chunk speaker used for their voice embedding
+  maxEmbeddingSeconds: number;
+  // Further attempts for a chunk while the transcription provider is unavailable
+  chunkRetries: number;
+}
+
+export type RecordingImportStage = 'decoding' | 'uploading' | 'transcribing' | 'saving';
+
+export interface RecordingImportProgress {
+  stage: RecordingImportStage;
+  // Overall progress of the import, 0-100
+  progress: number;
+  message: string;
+}
+
+export interface RecordingImportOptions {
+  title?: string;
+  type?: MeetingType;
+  language?: string;
+  // When the recording started; defaults to the file's modification time minus its length
+  recordedAt?: Date;
+  onProgress?: (progress: RecordingImportProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface RecordingImportResult {
+  meetingId: string;
+  entryCount: number;
+  speakerCount: number;
+  durationSeconds: number;
+  // Voice embedding of each speaker, keyed by transcript speaker ID
+  speakerEmbeddings: Record<string, number[]>;
+}
+
+export type RecordingImportErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'UNSUPPORTED_FORMAT'
+  | 'FILE_TOO_LARGE'
+  | 'RECORDING_TOO_LONG'
+  | 'DECODE_FAILED'
+  | 'UPLOAD_FAILED'
+  | 'TRANSCRIPTION_FAILED'
+  | 'NO_SPEECH'
+  | 'CANCELLED';
+
+export class RecordingImportError extends Error {
+  constructor(message: string, public readonly code: RecordingImportErrorCode) {
+    super(message);
+    this.name = 'RecordingImportError';
+  }
+}
+
+// MIME types the recording route accepts, by file extension for files the browser leaves untyped
+export const SUPPORTED_RECORDING_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/x-m4a',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+};
+
+const ACCEPTED_MIME_TYPES = new Set([
+  ...Object.values(SUPPORTED_RECORDING_TYPES),
+  'audio/mp4',
+  'audio/x-wav',
+  'video/webm',
+]);
+
+const DEFAULT_CONFIG: RecordingImportConfig = {
+  transcribeEndpoint: '/api/universal-assistant/transcribe',
+  sampleRate: 16000,
+  chunkSeconds: 300,
+  boundarySearchSeconds: 10,
+  maxFileBytes: 200 * 1024 * 1024,
+  maxDurationSeconds: 3 * 60 * 60,
+  speakerMatchThreshold: 0.75,
+  maxEmbeddingSeconds: 30,
+  chunkRetries: 2,
+};
+
+// Share of the overall progress bar given to each stage
+const STAGE_RANGES: Record<RecordingImportStage, [number, number]> = {
+  decoding: [0, 10],
+  uploading: [10, 30],
+  transcribing: [30, 90],
+  saving: [90, 100],
+};
+
+interface TranscribeResponse {
+  success?: boolean;
+  error?: string;
+  transcription?: {
+    text: string;
+    confidence: number;
+    segments: BatchTranscriptionSegment[];
+  };
+}
+
+interface ImportedSpeaker {
+  speakerId: string;
+  embeddings: number[][];
+  centroid: number[] | null;
+}
+
+// Segments of one chunk speaker; without diarization every segment is its own group
+interface SegmentGroup {
+  label?: number;
+  segments: BatchTranscriptionSegment[];
+  embedding?: number[];
+}
+
+function cancelled(): RecordingImportError {
+  return new RecordingImportError('Import cancelled', 'CANCELLED');
+}
+
+/**
+ * Matches the speakers of each chunk to the speakers of the whole recording
+ */
+class ChunkSpeakerLinker {
+  readonly speakers: ImportedSpeaker[] = [];
+  // Speaker each diarization label mapped to in the previous chunk
+  private previousLabels = new Map<number, ImportedSpeaker>();
+  private lastSpeaker: ImportedSpeaker | null = null;
+
+  constructor(private threshold: number) {}
+
+  /**
+   * Assign each group a recording speaker. Diarized groups of one chunk are different
+   * people, so no two of them share a speaker.
+   */
+  assign(groups: SegmentGroup[]): Map<SegmentGroup, ImportedSpeaker> {
+    const assignment = new Map<SegmentGroup, ImportedSpeaker>();
+    const taken = new Set<ImportedSpeaker>();
+
+    const candidates = groups
+      .flatMap(group => group.embedding
+        ? this.speakers
+          .filter(speaker => speaker.centroid)
+          .map(speaker => ({ group, speaker, similarity: cosineSimilarity(group.embedding!, speaker.centroid!) }))
+        : [])
+      .filter(candidate => candidate.similarity >= this.threshold)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    for (const { group, speaker } of candidates) {
+      if (assignment.has(group) || (group.label !== undefined && taken.has(speaker))) continue;
+      assignment.set(group, speaker);
+      if (group.label !== undefined) taken.add(speaker);
+    }
+
+    const labels = new Map<number, ImportedSpeaker>();
+    for (const group of groups) {
+      let speaker = assignment.get(group);
+      if (!speaker && !group.embedding) {
+        // Too little speech to recognize the voice: keep the label's speaker from the
+        // previous chunk, or without diarization the speaker before
+        const carried = group.label !== undefined ? this.previousLabels.get(group.label) : this.lastSpeaker;
+        if (carried && !(group.label !== undefined && taken.has(carried))) {
+          speaker = carried;
+        }
+      }
+      if (!speaker) {
+        speaker = { speakerId: `speaker_${this.speakers.length + 1}`, embeddings: [], centroid: null };
+        this.speakers.push(speaker);
+      }
+
+      if (group.embedding) {
+        speaker.embeddings.push(group.embedding);
+        speaker.centroid = SpeakerEmbeddingExtractor.averageEmbeddings(speaker.embeddings);
+      }
+      assignment.set(group, speaker);
+      if (group.label !== undefined) {
+        taken.add(speaker);
+        labels.set(group.label, speaker);
+      }
+      this.lastSpeaker = speaker;
+    }
+
+    this.previousLabels = labels;
+    return assignment;
+  }
+}
+
+export class RecordingImportService {
+  private config: RecordingImportConfig;
+
+  constructor(
+    private extractor: SpeakerEmbeddingExtractor = speakerEmbeddingExtractor,
+    config: Partial<RecordingImportConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * MIME type the recording is stored as, or null when the format is not supported
+   */
+  static getRecordingType(file: File): string | null {
+    if (ACCEPTED_MIME_TYPES.has(file.type)) return file.type;
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    return SUPPORTED_RECORDING_TYPES[extension] || null;
+  }
+
+  async importRecording(file: File, options: RecordingImportOptions = {}): Promise<RecordingImportResult> {
+    const { signal } = options;
+    const report = (stage: RecordingImportStage, fraction: number, message: string) => {
+      const [from, to] = STAGE_RANGES[stage];
+      options.onProgress?.({ stage, progress: Math.round(from + (to - from) * fraction), message });
+    };
+
+    const user = auth.currentUser;
+    if (!user) {
+      throw new RecordingImportError('Sign in to import recordings', 'NOT_AUTHENTICATED');
+    }
+    const mimeType = RecordingImportService.getRecordingType(file);
+    if (!mimeType) {
+      throw new RecordingImportError(
+        `Unsupported recording format. Use ${Object.keys(SUPPORTED_RECORDING_TYPES).join(', ')}`,
+        'UNSUPPORTED_FORMAT'
+      );
+    }
+    if (file.size > this.config.maxFileBytes) {
+      throw new RecordingImportError(
+        `Recordings can be at most ${Math.round(this.config.maxFileBytes / (1024 * 1024))} MB`,
+        'FILE_TOO_LARGE'
+      );
+    }
+
+    report('decoding', 0, 'Decoding recording');
+    const samples = await this.decode(file);
+    if (signal?.aborted) throw cancelled();
+
+    const durationSeconds = samples.length / this.config.sampleRate;
+    if (durationSeconds > this.config.maxDurationSeconds) {
+      throw new RecordingImportError(
+        `Recordings can be at most ${Math.round(this.config.maxDurationSeconds / 3600)} hours long`,
+        'RECORDING_TOO_LONG'
+      );
+    }
+
+    const recordedAt = options.recordedAt || new Date(file.lastModified - durationSeconds * 1000);
+    const language = options.language || 'en-US';
+    const vocabulary = await this.loadVocabulary(user.uid);
+    const meetingId = await DatabaseService.createMeeting({
+      id: '',
+      title: options.title || file.name.replace(/\.[^.]+$/, ''),
+      type: options.type || MeetingType.GENERAL,
+      status: 'ended',
+      hostId: user.uid,
+      createdBy: user.uid,
+      participants: [],
+      transcript: [],
+      notes: [],
+      keywords: [],
+      appliedRules: [],
+      startTime: recordedAt,
+      endTime: new Date(recordedAt.getTime() + durationSeconds * 1000),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    try {
+      report('uploading', 0, 'Uploading recording');
+      const path = await this.uploadRecording(meetingId, file, mimeType, signal, fraction =>
+        report('uploading', fraction, 'Uploading recording')
+      );
+      // Duration in seconds
+      await DatabaseService.updateMeeting(meetingId, { recording: { url: path, duration: durationSeconds } });
+
+      const chunks = this.splitIntoChunks(samples);
+      const linker = new ChunkSpeakerLinker(this.config.speakerMatchThreshold);
+      const entries: Array<Omit<TranscriptEntry, 'id'>> = [];
+
+      for (const [index, { start, end }] of chunks.entries()) {
+        if (signal?.aborted) throw cancelled();
+        report('transcribing', index / chunks.length, `Transcribing part ${index + 1} of ${chunks.length}`);
+
+        const chunk = samples.subarray(start, end);
+        const segments = await this.transcribeChunk(chunk, index, language, vocabulary.getKeywords(), signal);
+        const groups = this.groupSegments(segments);
+        for (const group of groups) {
+          group.embedding = await this.embed(chunk, group.segments);
+        }
+
+        const offsetMs = recordedAt.getTime() + (start / this.config.sampleRate) * 1000;
+        for (const [group, speaker] of Array.from(linker.assign(groups).entries())) {
+          for (const segment of group.segments) {
+            const { text } = vocabulary.correct(segment.text);
+            entries.push({
+              meetingId,
+              content: text,
+              speaker: speaker.speakerId,
+              speakerId: speaker.speakerId,
+              speakerName: speaker.speakerId,
+              text,
+              timestamp: new Date(offsetMs + segment.start * 1000),
+              duration: segment.end - segment.start,
+              confidence: segment.confidence,
+              language,
+              isFragment: false,
+              isComplete: true,
+              isProcessed: false,
+            });
+          }
+        }
+      }
+
+      if (entries.length === 0) {
+        throw new RecordingImportError('No speech was found in this recording', 'NO_SPEECH');
+      }
+
+      report('saving', 0, 'Saving transcript');
+      entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      await DatabaseService.batchCreateTranscriptEntries(meetingId, entries);
+      report('saving', 1, 'Import complete');
+
+      const speakers = linker.speakers.filter(speaker => entries.some(entry => entry.speakerId === speaker.speakerId));
+      return {
+        meetingId,
+        entryCount: entries.length,
+        speakerCount: speakers.length,
+        durationSeconds,
+        speakerEmbeddings: Object.fromEntries(
+          speakers.flatMap(speaker => speaker.centroid ? [[speaker.speakerId, speaker.centroid]] : [])
+        ),
+      };
+    } catch (error) {
+      await this.discardMeeting(meetingId);
+      throw error;
+    }
+  }
+
+  private async decode(file: File): Promise<Float32Array> {
+    const data = await file.arrayBuffer();
+    // decodeAudioData resamples to the context's rate
+    const context = new OfflineAudioContext(1, 1, this.config.sampleRate);
+
+    let buffer: AudioBuffer;
+    try {
+      buffer = await context.decodeAudioData(data);
+    } catch {
+      throw new RecordingImportError('This file could not be decoded as audio', 'DECODE_FAILED');
+    }
+
+    const mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      for (let i = 0; i < mono.length; i++) {
+        mono[i] += channelData[i] / buffer.numberOfChannels;
+      }
+    }
+
+    return buffer.sampleRate === this.config.sampleRate
+      ? mono
+      : resample(mono, buffer.sampleRate, this.config.sampleRate);
+  }
+
+  /**
+   * Sample ranges of each chunk, cut at the quietest 100ms near each nominal boundary
+   */
+  private splitIntoChunks(samples: Float32Array): Array<{ start: number; end: number }> {
+    const chunkLength = Math.round(this.config.chunkSeconds * this.config.sampleRate);
+    const searchLength = Math.round(this.config.boundarySearchSeconds * this.config.sampleRate);
+    const frameLength = Math.round(0.1 * this.config.sampleRate);
+    const chunks: Array<{ start: number; end: number }> = [];
+
+    let start = 0;
+    while (samples.length - start > chunkLength + searchLength) {
+      const target = start + chunkLength;
+      let boundary = target;
+      let lowestEnergy = Infinity;
+
+      for (let frame = target - searchLength; frame + frameLength <= target + searchLength; frame += frameLength) {
+        let energy = 0;
+        for (let i = frame; i < frame + frameLength; i++) {
+          energy += samples[i] * samples[i];
+        }
+        if (energy < lowestEnergy) {
+          lowestEnergy = energy;
+          boundary = frame + Math.floor(frameLength / 2);
+        }
+      }
+
+      chunks.push({ start, end: boundary });
+      start = boundary;
+    }
+    chunks.push({ start, end: samples.length });
+
+    return chunks;
+  }
+
+  private async transcribeChunk(
+    chunk: Float32Array,
+    index: number,
+    language: string,
+    keywords: string[],
+    signal?: AbortSignal
+  ): Promise<BatchTranscriptionSegment[]> {
+    const audio = new Blob([encodeWav(chunk, this.config.sampleRate)], { type: 'audio/wav' });
+    const chunkSeconds = chunk.length / this.config.sampleRate;
+    let lastError = '';
+
+    for (let attempt = 0; attempt <= this.config.chunkRetries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt)));
+      }
+      if (signal?.aborted) throw cancelled();
+
+      const form = new FormData();
+      form.append('audio', audio, `part-${index + 1}.wav`);
+      form.append('language', language);
+      form.append('enableSpeakerDiarization', 'true');
+      keywords.forEach(keyword => form.append('keywords', keyword));
+
+      let response: Response;
+      let data: TranscribeResponse;
+      try {
+        response = await fetch(this.config.transcribeEndpoint, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${await this.getToken()}` },
+          body: form,
+          signal,
+        });
+        data = await response.json().catch(() => ({})) as TranscribeResponse;
+      } catch (error) {
+        if (signal?.aborted) throw cancelled();
+        if (error instanceof RecordingImportError) throw error;
+        lastError = (error as Error).message;
+        continue;
+      }
+
+      if (response.ok && data.transcription) {
+        const { segments, text, confidence } = data.transcription;
+        // Providers that return no segments still return the chunk's text
+        const usable = segments.length > 0 ? segments : [{ text, start: 0, end: chunkSeconds, confidence }];
+        return usable
+          .map(segment => ({ ...segment, text: segment.text.trim() }))
+          .filter(segment => segment.text);
+      }
+
+      lastError = data.error || `status ${response.status}`;
+      // Only an unavailable provider is worth another attempt
+      if (response.status !== 503) break;
+    }
+
+    throw new RecordingImportError(`Part ${index + 1} could not be transcribed: ${lastError}`, 'TRANSCRIPTION_FAILED');
+  }
+
+  private groupSegments(segments: BatchTranscriptionSegment[]): SegmentGroup[] {
+    const groups: SegmentGroup[] = [];
+    const byLabel = new Map<number, SegmentGroup>();
+
+    for (const segment of segments) {
+      if (segment.speaker === undefined) {
+        groups.push({ segments: [segment] });
+        continue;
+      }
+      let group = byLabel.get(segment.speaker);
+      if (!group) {
+        group = { label: segment.speaker, segments: [] };
+        byLabel.set(segment.speaker, group);
+        groups.push(group);
+      }
+      group.segments.push(segment);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Voice embedding of a group's speech, or undefined when there is too little of it
+   */
+  private async embed(chunk: Float32Array, segments: BatchTranscriptionSegment[]): Promise<number[] | undefined> {
+    const rate = this.config.sampleRate;
+    const maxLength = Math.round(this.config.maxEmbeddingSeconds * rate);
+    const parts: Float32Array[] = [];
+    let length = 0;
+
+    for (const segment of segments) {
+      if (length >= maxLength) break;
+      const start = Math.max(0, Math.floor(segment.start * rate));
+      const end = Math.min(chunk.length, Math.ceil(segment.end * rate), start + maxLength - length);
+      if (end > start) {
+        parts.push(chunk.subarray(start, end));
+        length += end - start;
+      }
+    }
+    if (length === 0) return undefined;
+
+    const speech = new Float32Array(length);
+    let offset = 0;
+    for (const part of parts) {
+      speech.set(part, offset);
+      offset += part.length;
+    }
+
+    try {
+      return await this.extractor.extract(speech, rate);
+    } catch (error) {
+      if (!(error instanceof InsufficientSpeechError)) {
+        console.warn('[RecordingImportService] Speaker embedding failed:', error);
+      }
+      return undefined;
+    }
+  }
+
+  private async uploadRecording(
+    meetingId: string,
+    file: File,
+    mimeType: string,
+    signal: AbortSignal | undefined,
+    onProgress: (fraction: number) => void
+  ): Promise<string> {
+    const token = await this.getToken();
+    if (signal?.aborted) throw cancelled();
+
+    // XMLHttpRequest rather than fetch, which cannot report upload progress
+    return new Promise<string>((resolve, reject) => {
+      const request = new XMLHttpRequest();
+      request.open('POST', `/api/meetings/${meetingId}/recording`);
+      request.setRequestHeader('Authorization', `Bearer ${token}`);
+      request.setRequestHeader('Content-Type', mimeType);
+
+      request.upload.onprogress = event => {
+        if (event.lengthComputable) onProgress(event.loaded / event.total);
+      };
+      request.onload = () => {
+        let data: { success?: boolean; path?: string; error?: string } = {};
+        try {
+          data = JSON.parse(request.responseText);
+        } catch {
+          // Reported below from the status
+        }
+        if (request.status >= 200 && request.status < 300 && data.success && data.path) {
+          resolve(data.path);
+        } else {
+          reject(new RecordingImportError(data.error || `Upload failed (${request.status})`, 'UPLOAD_FAILED'));
+        }
+      };
+      request.onerror = () => reject(new RecordingImportError('Upload failed: network error', 'UPLOAD_FAILED'));
+      request.onabort = () => reject(cancelled());
+      signal?.addEventListener('abort', () => request.abort(), { once: true });
+
+      request.send(file);
+    });
+  }
+
+  /**
+   * Remove the meeting and any stored recording of an import that did not finish
+   */
+  private async discardMeeting(meetingId: string): Promise<void> {
+    try {
+      await fetch(`/api/meetings/${meetingId}/recording`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${await this.getToken()}` },
+      });
+      await DatabaseService.deleteMeeting(meetingId);
+    } catch (error) {
+      console.error('[RecordingImportService] Failed to remove unfinished import:', error);
+    }
+  }
+
+  // A missing glossary only costs accuracy
+  private async loadVocabulary(userId: string): Promise<CustomVocabulary> {
+    const vocabulary = new CustomVocabulary();
+    try {
+      await vocabulary.load(userId);
+    } catch (error) {
+      console.warn('[RecordingImportService] Failed to load glossary:', error);
+    }
+    return vocabulary;
+  }
+
+  private async getToken(): Promise<string> {
+    const token = await auth.currentUser?.getIdToken();
+    if (!token) {
+      throw new RecordingImportError('Sign in to import recordings', 'NOT_AUTHENTICATED');
+    }
+    return token;
+  }
+}
+
+export const recordingImportService = new RecordingImportService();
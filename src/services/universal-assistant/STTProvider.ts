@@ -0,0 +1,103 @@
+/**
+ * STTProvider - Common interface for speech-to-text engines.
+ *
+ * Live providers receive MediaRecorder chunks from the AudioManager and emit final
+ * TranscriptionResults. Deepgram streams audio to its API over a WebSocket; the local
+ * provider sends short windows to our own transcribe route, which runs them through
+ * a self-hosted Whisper-compatible server so audio never leaves the deployment.
+ * Batch providers do the same for whole recordings on the server.
+ */
+
+export type STTProviderName = 'deepgram' | 'local';
+
+// Word timings are in seconds from the start of the audio stream
+export interface TranscriptionWord {
+  word: string;
+  punctuatedWord?: string;
+  start: number;
+  end: number;
+  confidence: number;
+  speaker?: number;
+}
+
+export interface TranscriptionResult {
+  transcript: string;
+  confidence: number;
+  timestamp: number;
+  isFinal: boolean;
+  speaker?: number;
+  utteranceKey?: string;
+  words?: TranscriptionWord[];
+  // Wall-clock time (ms) of stream offset 0, for lining words up with local audio analysis
+  audioStartMs?: number;
+}
+
+export interface ConnectionStatus {
+  status: 'connecting' | 'connected' | 'disconnected' | 'error' | 'reconnecting';
+  error?: string;
+  reconnectAttempts?: number;
+}
+
+export interface LiveTranscriptionOptions {
+  model?: string;
+  language?: string;
+  punctuate?: boolean;
+  diarize?: boolean;
+  smart_format?: boolean;
+  utterances?: boolean;
+  // Terms recognition should favour, such as names and product terms
+  keywords?: string[];
+}
+
+export interface STTProvider {
+  readonly name: STTProviderName;
+  startLiveTranscription(options?: LiveTranscriptionOptions): Promise<void>;
+  sendAudioChunk(chunk: ArrayBuffer): void;
+  stopTranscription(): void;
+  setTranscriptionHandler(handler: (result: TranscriptionResult) => void): void;
+  // Partial results while someone is still speaking, for providers that stream them
+  setInterimTranscriptionHandler?(handler: (result: TranscriptionResult) => void): void;
+  setConnectionChangeHandler(handler: (status: ConnectionStatus) => void): void;
+  getConnectionStatus(): ConnectionStatus;
+  isConnected(): boolean;
+  cleanup(): void;
+}
+
+export interface BatchTranscriptionOptions {
+  language?: string;
+  model?: string;
+  diarize?: boolean;
+  mimeType?: string;
+  keywords?: string[];
+}
+
+export interface BatchTranscriptionSegment {
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+  speaker?: number;
+}
+
+export interface BatchTranscription {
+  text: string;
+  confidence: number;
+  language: string;
+  words: TranscriptionWord[];
+  segments: BatchTranscriptionSegment[];
+  provider: STTProviderName;
+}
+
+export interface BatchSTTProvider {
+  readonly name: STTProviderName;
+  isConfigured(): boolean;
+  transcribe(audio: ArrayBuffer, options?: BatchTranscriptionOptions): Promise<BatchTranscription>;
+}
+
+// The provider could not be reached or failed on its side; another provider may succeed
+export class STTUnavailableError extends Error {
+  constructor(public readonly provider: STTProviderName, message: string) {
+    super(message);
+    this.name = 'STTUnavailableError';
+  }
+}
@@ -2,6 +2,8 @@ import { UniversalAssistantCoordinator } from './UniversalAssistantCoordinator';
 import type { TranscriptEntry } from '@/types';
 import { useMeetingStore, type MeetingState, type MeetingActions } from '@/stores/meetingStore';
 import { useAppStore, type AppState, type AppActions } from '@/stores/appStore';
+import { diarizationService } from './DiarizationService';
+import { speakerIdentificationService } from './SpeakerIdentificationService';
 import type { StoreApi } from 'zustand';
 
 /**
@@ -60,6 +62,36 @@ export class ServiceBridge {
     });
 
     this.stateSubscriptions.push(coordinatorUnsubscribe);
+
+    // Relabel earlier transcript entries when diarization merges or splits speakers
+    const diarizationUnsubscribe = diarizationService.onSpeakerChange((speakerId, correction) => {
+      if (correction && this.meetingStore) {
+        void this.meetingStore.getState().applySpeakerCorrection(correction);
+      } else if (!correction) {
+        void this.identifyEnrolledSpeaker(speakerId);
+      }
+    });
+
+    this.stateSubscriptions.push(() => {
+      diarizationUnsubscribe();
+    });
+  }
+
+  /**
+   * Name a diarized speaker when their voice matches an enrolled participant
+   */
+  private async identifyEnrolledSpeaker(speakerId: string): Promise<void> {
+    if (!this.meetingStore) return;
+
+    const meetingId = this.meetingStore.getState().currentMeeting?.meetingId;
+    const name = await speakerIdentificationService.identifyEnrolledSpeaker(speakerId, meetingId);
+    if (!name) return;
+
+    try {
+      await this.meetingStore.getState().nameSpeaker(speakerId, name);
+    } catch (error) {
+      console.error('ServiceBridge: Failed to name enrolled speaker:', error);
+    }
   }
 
   /**
@@ -0,0 +1,481 @@
+/**
+ * SpeakerEmbeddingExtractor - CPU speaker embeddings for diarization and voice profiles.
+ *
+ * Audio is resampled to 16 kHz, silent frames are dropped, and the remaining frames are
+ * reduced to utterance-level MFCC and log-mel statistics. When a TensorFlow.js model URL
+ * is configured, its output over the log-mel frames is appended as a further block.
+ * Every block is L2-normalized before concatenation so the final vector is unit length
+ * and no block dominates cosine similarity.
+ */
+
+import type { LayersModel, Tensor } from '@tensorflow/tfjs';
+
+export interface SpeakerEmbeddingConfig {
+  // Rate all audio is analysed at, so embeddings do not depend on the capture device
+  sampleRate: number;
+  // Assumed rate for headerless PCM16 input
+  inputSampleRate: number;
+  frameLengthMs: number;
+  frameShiftMs: number;
+  fftSize: number;
+  melBands: number;
+  mfccCount: number;
+  minFrequency: number;
+  maxFrequency: number;
+  preEmphasis: number;
+  // Frames quieter than the loudest frame by more than this are treated as silence
+  silenceThresholdDb: number;
+  minVoicedFrames: number;
+  // Optional tfjs LayersModel taking [1, frames, melBands] log-mel input
+  modelUrl?: string;
+}
+
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export type EmbeddingAudio = ArrayBuffer | Float32Array;
+
+const DEFAULT_CONFIG: SpeakerEmbeddingConfig = {
+  sampleRate: 16000,
+  inputSampleRate: 16000,
+  frameLengthMs: 25,
+  frameShiftMs: 10,
+  fftSize: 512,
+  melBands: 40,
+  mfccCount: 20,
+  minFrequency: 60,
+  maxFrequency: 7600,
+  preEmphasis: 0.97,
+  silenceThresholdDb: 35,
+  minVoicedFrames: 20,
+};
+
+// Sinusoidal lifter length; evens out the scale of higher cepstral coefficients
+const LIFTER = 22;
+
+export const SPEAKER_EMBEDDING_VERSION = 'mfcc-stats-v1';
+
+export class InsufficientSpeechError extends Error {
+  constructor(public readonly voicedFrames: number) {
+    super(`Not enough speech to extract a speaker embedding (${voicedFrames} voiced frames)`);
+    this.name = 'InsufficientSpeechError';
+  }
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return text;
+}
+
+/**
+ * Decode a WAV file (PCM 8/16/24/32-bit or 32-bit float) to mono samples. Buffers
+ * without a RIFF header are treated as little-endian PCM16 at `fallbackSampleRate`.
+ */
+export function decodeAudio(data: ArrayBuffer, fallbackSampleRate: number = DEFAULT_CONFIG.inputSampleRate): DecodedAudio {
+  const view = new DataView(data);
+
+  if (view.byteLength < 12 || readAscii(view, 0, 4) !== 'RIFF' || readAscii(view, 8, 4) !== 'WAVE') {
+    const samples = new Float32Array(Math.floor(view.byteLength / 2));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = view.getInt16(i * 2, true) / 32768;
+    }
+    return { samples, sampleRate: fallbackSampleRate };
+  }
+
+  let format = 1;
+  let channels = 1;
+  let sampleRate = fallbackSampleRate;
+  let bitsPerSample = 16;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readAscii(view, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE stores the real format in the sub-format GUID
+      if (format === 0xfffe && chunkSize >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (chunkId === 'data') {
+      const bytesPerSample = bitsPerSample / 8;
+      const dataLength = Math.min(chunkSize, view.byteLength - body);
+      const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+      const samples = new Float32Array(frameCount);
+
+      for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          const position = body + (frame * channels + channel) * bytesPerSample;
+          if (format === 3 && bitsPerSample === 32) {
+            sum += view.getFloat32(position, true);
+          } else if (bitsPerSample === 8) {
+            sum += (view.getUint8(position) - 128) / 128;
+          } else if (bitsPerSample === 16) {
+            sum += view.getInt16(position, true) / 32768;
+          } else if (bitsPerSample === 24) {
+            const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+            sum += value / 8388608;
+          } else if (bitsPerSample === 32) {
+            sum += view.getInt32(position, true) / 2147483648;
+          } else {
+            throw new Error(`Unsupported WAV sample size: ${bitsPerSample} bits`);
+          }
+        }
+        samples[frame] = sum / channels;
+      }
+
+      return { samples, sampleRate };
+    }
+
+    // Chunks are word aligned
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+/**
+ * Linear-interpolation resampler; adequate for the band the features use
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const next = index + 1 < samples.length ? samples[index + 1] : samples[index];
+    output[i] = samples[index] * (1 - fraction) + next * fraction;
+  }
+  return output;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function l2Normalize(values: number[]): number[] {
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? values.map(value => value / norm) : values.map(() => 0);
+}
+
+function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+export class SpeakerEmbeddingExtractor {
+  private config: SpeakerEmbeddingConfig;
+  private window: Float32Array;
+  private melFilters: Float32Array[];
+  private dctMatrix: Float32Array[];
+  private twiddleCos: Float32Array;
+  private twiddleSin: Float32Array;
+  private model: LayersModel | null = null;
+  private modelPromise: Promise<LayersModel> | null = null;
+
+  constructor(config: Partial<SpeakerEmbeddingConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    const frameLength = this.frameLength;
+    if (frameLength > this.config.fftSize) {
+      throw new Error(`fftSize ${this.config.fftSize} is shorter than a ${this.config.frameLengthMs}ms frame`);
+    }
+
+    this.window = new Float32Array(frameLength);
+    for (let i = 0; i < frameLength; i++) {
+      this.window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (frameLength - 1));
+    }
+
+    this.twiddleCos = new Float32Array(this.config.fftSize / 2);
+    this.twiddleSin = new Float32Array(this.config.fftSize / 2);
+    for (let i = 0; i < this.config.fftSize / 2; i++) {
+      this.twiddleCos[i] = Math.cos((-2 * Math.PI * i) / this.config.fftSize);
+      this.twiddleSin[i] = Math.sin((-2 * Math.PI * i) / this.config.fftSize);
+    }
+
+    this.melFilters = this.createMelFilterbank();
+    this.dctMatrix = this.createDctMatrix();
+  }
+
+  /**
+   * Length of the statistics block; the full embedding also includes the model
+   * output when a model is configured
+   */
+  get statisticsDimension(): number {
+    return this.config.mfccCount * 3 + this.config.melBands;
+  }
+
+  get version(): string {
+    return this.config.modelUrl ? `${SPEAKER_EMBEDDING_VERSION}+model` : SPEAKER_EMBEDDING_VERSION;
+  }
+
+  async extract(audio: EmbeddingAudio, sampleRate?: number): Promise<number[]> {
+    const decoded = audio instanceof Float32Array
+      ? { samples: audio, sampleRate: sampleRate || this.config.inputSampleRate }
+      : decodeAudio(audio, sampleRate || this.config.inputSampleRate);
+
+    const samples = resample(decoded.samples, decoded.sampleRate, this.config.sampleRate);
+    const logMel = this.computeLogMelFrames(samples);
+    if (logMel.length < this.config.minVoicedFrames) {
+      throw new InsufficientSpeechError(logMel.length);
+    }
+
+    const blocks = this.computeStatistics(logMel);
+    if (this.config.modelUrl) {
+      blocks.push(await this.runModel(logMel));
+    }
+
+    const scale = 1 / Math.sqrt(blocks.length);
+    return blocks.flatMap(block => l2Normalize(block).map(value => value * scale));
+  }
+
+  /**
+   * Average several embeddings of the same speaker into one unit-length vector
+   */
+  static averageEmbeddings(embeddings: number[][]): number[] {
+    const valid = embeddings.filter(embedding => embedding.length > 0 && embedding.length === embeddings[0].length);
+    if (valid.length === 0) return [];
+    const sum = new Array(valid[0].length).fill(0);
+    valid.forEach(embedding => embedding.forEach((value, i) => { sum[i] += value; }));
+    return l2Normalize(sum);
+  }
+
+  private get frameLength(): number {
+    return Math.round((this.config.sampleRate * this.config.frameLengthMs) / 1000);
+  }
+
+  private get frameShift(): number {
+    return Math.round((this.config.sampleRate * this.config.frameShiftMs) / 1000);
+  }
+
+  /**
+   * Log-mel energies of the voiced frames
+   */
+  private computeLogMelFrames(samples: Float32Array): Float32Array[] {
+    const { fftSize, preEmphasis } = this.config;
+    const frameLength = this.frameLength;
+    const frameShift = this.frameShift;
+    const frames: Float32Array[] = [];
+    const energies: number[] = [];
+    const real = new Float32Array(fftSize);
+    const imag = new Float32Array(fftSize);
+
+    for (let start = 0; start + frameLength <= samples.length; start += frameShift) {
+      real.fill(0);
+      imag.fill(0);
+
+      // Remove DC, pre-emphasize and window
+      let mean = 0;
+      for (let i = 0; i < frameLength; i++) mean += samples[start + i];
+      mean /= frameLength;
+
+      let energy = 0;
+      let previous = samples[start] - mean;
+      for (let i = 0; i < frameLength; i++) {
+        const current = samples[start + i] - mean;
+        real[i] = (current - preEmphasis * previous) * this.window[i];
+        previous = current;
+        energy += current * current;
+      }
+
+      this.fft(real, imag);
+
+      const bins = fftSize / 2 + 1;
+      const power = new Float32Array(bins);
+      for (let k = 0; k < bins; k++) {
+        power[k] = (real[k] * real[k] + imag[k] * imag[k]) / fftSize;
+      }
+
+      const logMel = new Float32Array(this.config.melBands);
+      this.melFilters.forEach((filter, band) => {
+        let sum = 0;
+        for (let k = 0; k < bins; k++) sum += filter[k] * power[k];
+        logMel[band] = Math.log(sum + 1e-10);
+      });
+
+      frames.push(logMel);
+      energies.push(10 * Math.log10(energy / frameLength + 1e-12));
+    }
+
+    if (frames.length === 0) return [];
+
+    const loudest = Math.max(...energies);
+    return frames.filter((_, i) => energies[i] > loudest - this.config.silenceThresholdDb && energies[i] > -70);
+  }
+
+  /**
+   * Utterance statistics: MFCC mean, MFCC deviation, delta-MFCC deviation and the
+   * mean spectral envelope with overall loudness removed
+   */
+  private computeStatistics(logMel: Float32Array[]): number[][] {
+    const { mfccCount, melBands } = this.config;
+    const mfccs = logMel.map(frame => this.toMfcc(frame));
+    const frameCount = mfccs.length;
+
+    const mean = new Array(mfccCount).fill(0);
+    mfccs.forEach(mfcc => mfcc.forEach((value, i) => { mean[i] += value / frameCount; }));
+
+    const deviation = new Array(mfccCount).fill(0);
+    mfccs.forEach(mfcc => mfcc.forEach((value, i) => { deviation[i] += (value - mean[i]) ** 2 / frameCount; }));
+
+    // Deltas over a +/-2 frame regression window
+    const deltaDeviation = new Array(mfccCount).fill(0);
+    for (let t = 0; t < frameCount; t++) {
+      for (let i = 0; i < mfccCount; i++) {
+        let numerator = 0;
+        for (let n = 1; n <= 2; n++) {
+          const ahead = mfccs[Math.min(frameCount - 1, t + n)][i];
+          const behind = mfccs[Math.max(0, t - n)][i];
+          numerator += n * (ahead - behind);
+        }
+        deltaDeviation[i] += (numerator / 10) ** 2 / frameCount;
+      }
+    }
+
+    const envelope = new Array(melBands).fill(0);
+    logMel.forEach(frame => frame.forEach((value, band) => { envelope[band] += value / frameCount; }));
+    const level = envelope.reduce((sum, value) => sum + value, 0) / melBands;
+
+    return [
+      mean,
+      deviation.map(Math.sqrt),
+      deltaDeviation.map(Math.sqrt),
+      envelope.map(value => value - level),
+    ];
+  }
+
+  /**
+   * Liftered cepstral coefficients 1..mfccCount; c0 only tracks loudness
+   */
+  private toMfcc(logMel: Float32Array): number[] {
+    return this.dctMatrix.map((row, index) => {
+      let sum = 0;
+      for (let band = 0; band < row.length; band++) sum += row[band] * logMel[band];
+      const n = index + 1;
+      return sum * (1 + (LIFTER / 2) * Math.sin((Math.PI * n) / LIFTER));
+    });
+  }
+
+  private createMelFilterbank(): Float32Array[] {
+    const { fftSize, melBands, sampleRate, minFrequency } = this.config;
+    const maxFrequency = Math.min(this.config.maxFrequency, sampleRate / 2);
+    const bins = fftSize / 2 + 1;
+    const minMel = hzToMel(minFrequency);
+    const maxMel = hzToMel(maxFrequency);
+
+    const edges = Array.from({ length: melBands + 2 }, (_, i) =>
+      (melToHz(minMel + ((maxMel - minMel) * i) / (melBands + 1)) * fftSize) / sampleRate
+    );
+
+    return Array.from({ length: melBands }, (_, band) => {
+      const filter = new Float32Array(bins);
+      const [left, center, right] = [edges[band], edges[band + 1], edges[band + 2]];
+      for (let k = 0; k < bins; k++) {
+        if (k > left && k <= center) filter[k] = (k - left) / (center - left);
+        else if (k > center && k < right) filter[k] = (right - k) / (right - center);
+      }
+      return filter;
+    });
+  }
+
+  private createDctMatrix(): Float32Array[] {
+    const { melBands, mfccCount } = this.config;
+    const scale = Math.sqrt(2 / melBands);
+    return Array.from({ length: mfccCount }, (_, index) => {
+      const n = index + 1;
+      const row = new Float32Array(melBands);
+      for (let band = 0; band < melBands; band++) {
+        row[band] = scale * Math.cos((Math.PI * n * (band + 0.5)) / melBands);
+      }
+      return row;
+    });
+  }
+
+  /**
+   * In-place iterative radix-2 FFT
+   */
+  private fft(real: Float32Array, imag: Float32Array): void {
+    const size = real.length;
+
+    for (let i = 1, j = 0; i < size; i++) {
+      let bit = size >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let length = 2; length <= size; length <<= 1) {
+      const half = length >> 1;
+      const step = size / length;
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < half; k++) {
+          const cos = this.twiddleCos[k * step];
+          const sin = this.twiddleSin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tre = real[b] * cos - imag[b] * sin;
+          const tim = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tre;
+          imag[b] = imag[a] - tim;
+          real[a] += tre;
+          imag[a] += tim;
+        }
+      }
+    }
+  }
+
+  private async runModel(logMel: Float32Array[]): Promise<number[]> {
+    const tf = await import('@tensorflow/tfjs');
+
+    if (!this.model) {
+      this.modelPromise = this.modelPromise || tf.loadLayersModel(this.config.modelUrl!);
+      this.model = await this.modelPromise;
+    }
+    const model = this.model;
+
+    // Per-utterance mean normalization, matching how such models are usually trained
+    const { melBands } = this.config;
+    const bandMeans = new Array(melBands).fill(0);
+    logMel.forEach(frame => frame.forEach((value, band) => { bandMeans[band] += value / logMel.length; }));
+    const input = logMel.map(frame => Array.from(frame, (value, band) => value - bandMeans[band]));
+
+    return tf.tidy(() => {
+      const output = model.predict(tf.tensor3d([input])) as Tensor;
+      return Array.from(output.dataSync());
+    });
+  }
+}
+
+export const speakerEmbeddingExtractor = new SpeakerEmbeddingExtractor();
@@ -1,6 +1,7 @@
 import { NameRecognitionService, NameDetectionResult, NameSuggestion } from './NameRecognitionService';
-import { DiarizationService } from './DiarizationService';
+import { DiarizationService, SpeakerCorrection } from './DiarizationService';
 import { ConversationProcessor, ConversationEvent } from './ConversationProcessor';
+import { VoiceProfileManager, voiceProfileManager } from './VoiceProfileManager';
 
 export interface SpeakerIdentificationResult {
   speakerId: string;
@@ -18,16 +19,21 @@ export interface SpeakerIdentificationConfig {
   learningEnabled: boolean;
 }
 
+type PendingConfirmationsCallback = (pending: NameSuggestion[]) => void;
+
 export class SpeakerIdentificationService {
   private pendingConfirmations: Map<string, NameSuggestion[]> = new Map();
   private conversationHistory: Map<string, string[]> = new Map();
+  private pendingCallbacks: Set<PendingConfirmationsCallback> = new Set();
+  private enrolledProfilesMeetingId: string | null = null;
   private config: SpeakerIdentificationConfig;
 
   constructor(
     private nameRecognitionService: NameRecognitionService,
     private diarizationService: DiarizationService,
     private conversationProcessor?: ConversationProcessor,
-    config?: Partial<SpeakerIdentificationConfig>
+    config?: Partial<SpeakerIdentificationConfig>,
+    private voiceProfiles: VoiceProfileManager = voiceProfileManager
   ) {
     this.config = {
       autoApplyHighConfidenceNames: true,
@@ -42,15 +48,25 @@ export class SpeakerIdentificationService {
 
   private setupEventListeners(): void {
     // Listen for speaker changes
-    this.diarizationService.onSpeakerChange((speakerId) => {
-      this.handleSpeakerChange(speakerId);
+    this.diarizationService.onSpeakerChange((speakerId, correction) => {
+      if (correction) {
+        this.handleSpeakerCorrection(correction);
+      } else {
+        this.handleSpeakerChange(speakerId);
+      }
     });
   }
 
+  /**
+   * Look for the speaker's name in what they said. `speakerId` is the speaker diarization
+   * attributed the utterance's audio to; with `meetingId`, the speaker's voice is also
+   * matched against the enrolled voices of the meeting's participants.
+   */
   async processTranscript(
     transcript: string,
     speakerId: string,
-    timestamp: number
+    timestamp: number,
+    meetingId?: string
   ): Promise<SpeakerIdentificationResult> {
     // Update conversation history
     this.updateConversationHistory(speakerId, transcript);
@@ -66,9 +82,9 @@ export class SpeakerIdentificationService {
     // Detect names in the transcript
     const nameDetection = await this.nameRecognitionService.detectNames(transcript, context);
 
-    // Get current speaker info
+    // Get current speaker info; a voice that matches an enrollment names the speaker outright
     const speaker = this.diarizationService.getSpeaker(speakerId);
-    const currentName = speaker?.name;
+    const currentName = speaker?.name || (await this.identifyEnrolledSpeaker(speakerId, meetingId)) || undefined;
 
     // Process name detection results
     const result: SpeakerIdentificationResult = {
@@ -98,8 +114,8 @@ export class SpeakerIdentificationService {
     for (const suggestion of suggestions) {
       const speaker = this.diarizationService.getSpeaker(suggestion.speakerId);
       
-      // Skip if speaker already has a name
-      if (speaker?.name) {
+      // Skip if speaker already has a name or the user turned this one down
+      if (speaker?.name || this.nameRecognitionService.isRejected(suggestion.speakerId, suggestion.suggestedName)) {
         continue;
       }
 
@@ -135,7 +151,8 @@ export class SpeakerIdentificationService {
     for (const mention of mentionedNames) {
       // Check if this name matches any unnamed speakers
       const unnamedSpeakers = this.diarizationService.getAllSpeakers()
-        .filter(speaker => !speaker.name && speaker.id !== currentSpeakerId);
+        .filter(speaker => !speaker.name && speaker.id !== currentSpeakerId)
+        .filter(speaker => !this.nameRecognitionService.isRejected(speaker.id, mention.name));
 
       if (unnamedSpeakers.length > 0) {
         // Create suggestion for the most recent unnamed speaker
@@ -171,9 +188,15 @@ export class SpeakerIdentificationService {
     if (!exists && pending.length < this.config.maxPendingSuggestions) {
       pending.push(suggestion);
       pending.sort((a, b) => b.confidence - a.confidence);
+      this.notifyPendingChange();
     }
   }
 
+  private notifyPendingChange(): void {
+    const pending = this.listPendingConfirmations();
+    this.pendingCallbacks.forEach(callback => callback(pending));
+  }
+
   private updateConversationHistory(speakerId: string, transcript: string): void {
     if (!this.conversationHistory.has(speakerId)) {
       this.conversationHistory.set(speakerId, []);
@@ -223,36 +246,101 @@ export class SpeakerIdentificationService {
     }
   }
 
+  private handleSpeakerCorrection(correction: SpeakerCorrection): void {
+    // A split only moves some utterances, so history and suggestions stay with the original speaker
+    if (correction.type !== 'merge') return;
+
+    const history = this.conversationHistory.get(correction.fromSpeakerId);
+    if (history) {
+      const merged = [...(this.conversationHistory.get(correction.toSpeakerId) || []), ...history];
+      this.conversationHistory.set(correction.toSpeakerId, merged.slice(-20));
+      this.conversationHistory.delete(correction.fromSpeakerId);
+    }
+
+    const pending = this.pendingConfirmations.get(correction.fromSpeakerId);
+    if (pending) {
+      const moved = pending.map(suggestion => ({ ...suggestion, speakerId: correction.toSpeakerId }));
+      const combined = [...(this.pendingConfirmations.get(correction.toSpeakerId) || []), ...moved];
+      this.pendingConfirmations.set(correction.toSpeakerId, combined.slice(0, this.config.maxPendingSuggestions));
+      this.pendingConfirmations.delete(correction.fromSpeakerId);
+      this.notifyPendingChange();
+    }
+  }
+
+  /**
+   * Name a speaker whose voice matches an enrolled participant. The speaker's embedding
+   * is the centroid of the embeddings diarization extracted from their audio.
+   * Returns the name, or null when there is no confident match.
+   */
+  async identifyEnrolledSpeaker(speakerId: string, meetingId?: string): Promise<string | null> {
+    const speaker = this.diarizationService.getSpeaker(speakerId);
+    const embedding = this.diarizationService.getSpeakerEmbedding(speakerId);
+    if (!speaker || !embedding) return null;
+    if (speaker.name) return speaker.name;
+
+    try {
+      if (meetingId && meetingId !== this.enrolledProfilesMeetingId) {
+        this.enrolledProfilesMeetingId = meetingId;
+        await this.voiceProfiles.loadEnrolledProfilesForMeeting(meetingId);
+      }
+      if (this.voiceProfiles.getEnrolledProfiles().length === 0) return null;
+
+      const speakerNumber = parseInt(speakerId.replace(/\D+/g, ''), 10) || 0;
+      const match = await this.voiceProfiles.matchSpeaker(embedding, speakerNumber, undefined, { createProfiles: false });
+      if (!match?.enrolled) return null;
+
+      // Another utterance may have named the speaker while matching
+      const current = this.diarizationService.getSpeaker(speakerId);
+      if (current?.name) return current.name;
+      this.diarizationService.assignName(speakerId, match.userName);
+      if (this.pendingConfirmations.delete(speakerId)) {
+        this.notifyPendingChange();
+      }
+      return match.userName;
+    } catch (error) {
+      console.error('SpeakerIdentificationService: Failed to match enrolled speaker:', error);
+      return null;
+    }
+  }
+
   // Public methods for external control
   async applySuggestion(suggestion: NameSuggestion): Promise<void> {
     await this.nameRecognitionService.applySuggestion(suggestion);
     
-    // Remove from pending confirmations
-    const pending = this.pendingConfirmations.get(suggestion.speakerId);
-    if (pending) {
-      const index = pending.findIndex(p => 
-        p.suggestedName === suggestion.suggestedName
-      );
-      if (index >= 0) {
-        pending.splice(index, 1);
-      }
-      if (pending.length === 0) {
-        this.pendingConfirmations.delete(suggestion.speakerId);
-      }
+    // The speaker is named now, so other suggestions for them are moot
+    if (this.pendingConfirmations.delete(suggestion.speakerId)) {
+      this.notifyPendingChange();
     }
   }
 
   rejectSuggestion(speakerId: string, suggestedName: string): void {
     const pending = this.pendingConfirmations.get(speakerId);
-    if (pending) {
-      const index = pending.findIndex(p => p.suggestedName === suggestedName);
-      if (index >= 0) {
-        pending.splice(index, 1);
-      }
-      if (pending.length === 0) {
-        this.pendingConfirmations.delete(speakerId);
-      }
+    const index = pending ? pending.findIndex(p => p.suggestedName === suggestedName) : -1;
+    const suggestion = index >= 0
+      ? pending!.splice(index, 1)[0]
+      : { speakerId, suggestedName, confidence: 0, evidence: [], needsConfirmation: true };
+
+    if (pending && pending.length === 0) {
+      this.pendingConfirmations.delete(speakerId);
     }
+
+    // Rejections are negative evidence for future detections
+    this.nameRecognitionService.recordRejection(suggestion);
+    this.notifyPendingChange();
+  }
+
+  /**
+   * All suggestions awaiting confirmation, most confident first
+   */
+  listPendingConfirmations(): NameSuggestion[] {
+    return Array.from(this.pendingConfirmations.values())
+      .flat()
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  onPendingConfirmationsChange(callback: PendingConfirmationsCallback): () => void {
+    this.pendingCallbacks.add(callback);
+    return () => this.pendingCallbacks.delete(callback);
   }
 
   getPendingConfirmations(speakerId?: string): Map<string, NameSuggestion[]> | NameSuggestion[] {
@@ -265,7 +353,9 @@ export class SpeakerIdentificationService {
   assignNameManually(speakerId: string, name: string): void {
     this.diarizationService.assignName(speakerId, name);
     // Clear any pending suggestions for this speaker
-    this.pendingConfirmations.delete(speakerId);
+    if (this.pendingConfirmations.delete(speakerId)) {
+      this.notifyPendingChange();
+    }
   }
 
   getSpeakerSummary(): Array<{
@@ -291,6 +381,7 @@ export class SpeakerIdentificationService {
   reset(): void {
     this.pendingConfirmations.clear();
     this.conversationHistory.clear();
+    this.notifyPendingChange();
   }
 }
 
@@ -0,0 +1,372 @@
+/**
+ * SpeakerIdentityRegistry - Links the speakers of each meeting to the same person
+ * across meetings.
+ *
+ * VoiceProfileManager only keeps the voices of the current session. When a meeting
+ * ends, each diarized speaker is matched to a stored identity by enrolled voice
+ * profile, confirmed name or voice embedding, and the meeting's talk time and common
+ * phrases are recorded on that person. Identities live under
+ * users/{uid}/speakerIdentities so the dashboard can list every meeting a person
+ * spoke in.
+ */
+
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import type { Meeting, SpeakerAppearance, SpeakerIdentity, TranscriptEntry } from '@/types';
+import { DiarizationService, diarizationService } from './DiarizationService';
+import { cosineSimilarity, speakerEmbeddingExtractor } from './SpeakerEmbeddingExtractor';
+import { extractPhrases, VoiceProfileManager, voiceProfileManager } from './VoiceProfileManager';
+
+export interface SpeakerIdentityConfig {
+  embeddingMatchThreshold: number;
+  // Used to estimate talk time when entries carry no duration
+  wordsPerMinute: number;
+  phrasesPerMeeting: number;
+  phrasesPerIdentity: number;
+  // Caps how much one meeting can move a well-established voice embedding
+  maxEmbeddingWeight: number;
+}
+
+// One diarized speaker of a finished meeting
+export interface MeetingSpeaker {
+  speakerId: string;
+  // Null until the speaker was named during the meeting
+  name: string | null;
+  voiceProfileId?: string;
+  embedding?: number[];
+  embeddingVersion?: string;
+  talkTimeSeconds: number;
+  utteranceCount: number;
+  commonPhrases: string[];
+}
+
+export interface SpeakerSearchResult {
+  identity: SpeakerIdentity;
+  meetings: Meeting[];
+}
+
+const DEFAULT_CONFIG: SpeakerIdentityConfig = {
+  embeddingMatchThreshold: 0.8,
+  wordsPerMinute: 150,
+  phrasesPerMeeting: 10,
+  phrasesPerIdentity: 10,
+  maxEmbeddingWeight: 10,
+};
+
+// Labels assigned by diarization or Deepgram rather than by a person
+const GENERIC_SPEAKER_NAME = /^(speaker[\s_-]*\d+|unknown( speaker)?)$/i;
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function speakerName(entry: TranscriptEntry): string | null {
+  const name = (entry.speakerName || '').trim();
+  if (!name || name === entry.speakerId || GENERIC_SPEAKER_NAME.test(name)) return null;
+  return name;
+}
+
+/**
+ * Rank phrases by how often they occur and keep the top ones, skipping phrases
+ * already contained in a longer kept phrase
+ */
+function topPhrases(counts: Map<string, number>, minCount: number, max: number): string[] {
+  const ranked = Array.from(counts.entries())
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length);
+
+  const kept: string[] = [];
+  for (const [phrase] of ranked) {
+    if (kept.length >= max) break;
+    if (!kept.some(existing => existing.includes(phrase))) {
+      kept.push(phrase);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Group a meeting transcript by speaker with talk time, utterance count and the
+ * phrases each speaker repeated
+ */
+export function summarizeMeetingSpeakers(
+  transcript: TranscriptEntry[],
+  config: Partial<SpeakerIdentityConfig> = {}
+): MeetingSpeaker[] {
+  const settings = { ...DEFAULT_CONFIG, ...config };
+  const speakers = new Map<string, MeetingSpeaker & { phraseCounts: Map<string, number> }>();
+
+  for (const entry of transcript) {
+    const text = (entry.text || entry.content || '').trim();
+    const speakerId = entry.speakerId || entry.speaker;
+    if (!text || !speakerId) continue;
+
+    let speaker = speakers.get(speakerId);
+    if (!speaker) {
+      speaker = { speakerId, name: null, talkTimeSeconds: 0, utteranceCount: 0, commonPhrases: [], phraseCounts: new Map() };
+      speakers.set(speakerId, speaker);
+    }
+
+    // Later entries carry the most recent correction
+    speaker.name = speakerName(entry) ?? speaker.name;
+    speaker.utteranceCount++;
+    const words = text.split(/\s+/).filter(Boolean).length;
+    speaker.talkTimeSeconds += entry.duration > 0 ? entry.duration : (words / settings.wordsPerMinute) * 60;
+
+    for (const phrase of extractPhrases(text.toLowerCase())) {
+      speaker.phraseCounts.set(phrase, (speaker.phraseCounts.get(phrase) || 0) + 1);
+    }
+  }
+
+  return Array.from(speakers.values()).map(({ phraseCounts, ...speaker }) => ({
+    ...speaker,
+    commonPhrases: topPhrases(phraseCounts, 2, settings.phrasesPerMeeting),
+  }));
+}
+
+export class SpeakerIdentityRegistry {
+  private config: SpeakerIdentityConfig;
+
+  constructor(
+    private diarization: DiarizationService = diarizationService,
+    private profiles: VoiceProfileManager = voiceProfileManager,
+    config: Partial<SpeakerIdentityConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Summarize the transcript and attach the voice embeddings and enrolled profiles
+   * known for each speaker in the current session. A live speaker's embedding is the
+   * centroid of the embeddings diarization extracted from their utterances. Meetings
+   * diarized outside the live session, such as imported recordings, pass their
+   * speakers' embeddings instead.
+   */
+  collectMeetingSpeakers(
+    transcript: TranscriptEntry[],
+    embeddings?: Record<string, number[]>
+  ): MeetingSpeaker[] {
+    const enrolled = this.profiles.getEnrolledProfiles();
+
+    return summarizeMeetingSpeakers(transcript, this.config).map(speaker => {
+      const embedding = embeddings
+        ? embeddings[speaker.speakerId]
+        : this.diarization.getSpeakerEmbedding(speaker.speakerId);
+      const profile = speaker.name ? enrolled.find(p => p.userName === speaker.name) : undefined;
+      return {
+        ...speaker,
+        ...(embedding && { embedding: [...embedding], embeddingVersion: speakerEmbeddingExtractor.version }),
+        ...(profile && { voiceProfileId: profile.speakerId }),
+      };
+    });
+  }
+
+  /**
+   * Record a finished meeting's speakers on the owner's identities. Unnamed speakers
+   * are only linked when their voice matches a known person. Linking the same meeting
+   * again replaces its earlier appearances. Returns the identities that changed.
+   */
+  async linkMeeting(
+    userId: string,
+    meeting: Pick<Meeting, 'meetingId' | 'title' | 'startTime'>,
+    speakers: MeetingSpeaker[]
+  ): Promise<SpeakerIdentity[]> {
+    const identities = await DatabaseService.getUserSpeakerIdentities(userId);
+    const changed = new Set<SpeakerIdentity>();
+    const relinked = new Set<SpeakerIdentity>();
+
+    for (const identity of identities) {
+      const remaining = identity.appearances.filter(appearance => appearance.meetingId !== meeting.meetingId);
+      if (remaining.length !== identity.appearances.length) {
+        identity.appearances = remaining;
+        relinked.add(identity);
+        changed.add(identity);
+      }
+    }
+
+    for (const speaker of speakers) {
+      let identity = this.findIdentity(identities, speaker);
+      if (!identity) {
+        if (!speaker.name) continue;
+        identity = this.newIdentity(speaker.name);
+        identities.push(identity);
+      }
+
+      // Re-linking must not count the same meeting's voice twice
+      if (!relinked.has(identity)) {
+        this.mergeEmbedding(identity, speaker);
+      }
+      if (speaker.voiceProfileId && !identity.voiceProfileIds.includes(speaker.voiceProfileId)) {
+        identity.voiceProfileIds.push(speaker.voiceProfileId);
+      }
+      this.addAppearance(identity, meeting, speaker);
+      changed.add(identity);
+    }
+
+    const saved: SpeakerIdentity[] = [];
+    for (const identity of Array.from(changed)) {
+      this.recomputeStats(identity);
+      const { identityId, ...data } = identity;
+      if (identityId && identity.appearances.length === 0) {
+        // Only ever seen in this meeting, and no longer linked to it
+        await DatabaseService.deleteSpeakerIdentity(userId, identityId);
+      } else if (identityId) {
+        await DatabaseService.updateSpeakerIdentity(userId, identityId, data);
+        saved.push(identity);
+      } else {
+        saved.push({ ...identity, identityId: await DatabaseService.createSpeakerIdentity(userId, data) });
+      }
+    }
+
+    return saved;
+  }
+
+  /**
+   * All identities of the user, most recently seen first
+   */
+  async listIdentities(userId: string): Promise<SpeakerIdentity[]> {
+    const identities = await DatabaseService.getUserSpeakerIdentities(userId);
+    return identities.sort((a, b) => new Date(b.lastSeen).getTime() - new Date(a.lastSeen).getTime());
+  }
+
+  /**
+   * Find people whose name contains `query` together with the meetings they spoke in,
+   * newest first. Meetings that were deleted or are no longer accessible are left out.
+   */
+  async findMeetingsBySpeaker(userId: string, query: string): Promise<SpeakerSearchResult[]> {
+    const key = normalizeName(query);
+    if (!key) return [];
+
+    const identities = (await DatabaseService.getUserSpeakerIdentities(userId))
+      .filter(identity => identity.nameKey.includes(key))
+      .sort((a, b) => Number(b.nameKey === key) - Number(a.nameKey === key) || b.totalTalkTimeSeconds - a.totalTalkTimeSeconds);
+
+    const meetingCache = new Map<string, Promise<Meeting | null>>();
+    const loadMeeting = (meetingId: string) => {
+      if (!meetingCache.has(meetingId)) {
+        meetingCache.set(meetingId, DatabaseService.getMeeting(meetingId).catch(() => null));
+      }
+      return meetingCache.get(meetingId)!;
+    };
+
+    return Promise.all(identities.map(async identity => {
+      const meetings = (await Promise.all(identity.meetingIds.map(loadMeeting)))
+        .filter((meeting): meeting is Meeting => meeting !== null)
+        .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+      return { identity, meetings };
+    }));
+  }
+
+  private findIdentity(identities: SpeakerIdentity[], speaker: MeetingSpeaker): SpeakerIdentity | undefined {
+    if (speaker.voiceProfileId) {
+      const byProfile = identities.find(identity => identity.voiceProfileIds.includes(speaker.voiceProfileId!));
+      if (byProfile) return byProfile;
+    }
+
+    // A confirmed name wins over a voice match to someone else
+    if (speaker.name) {
+      const key = normalizeName(speaker.name);
+      return identities.find(identity => identity.nameKey === key);
+    }
+
+    if (!speaker.embedding) return undefined;
+
+    let best: SpeakerIdentity | undefined;
+    let bestSimilarity = this.config.embeddingMatchThreshold;
+    for (const identity of identities) {
+      if (!identity.voiceEmbedding || identity.embeddingVersion !== speaker.embeddingVersion) continue;
+      const similarity = cosineSimilarity(identity.voiceEmbedding, speaker.embedding);
+      if (similarity >= bestSimilarity) {
+        best = identity;
+        bestSimilarity = similarity;
+      }
+    }
+    return best;
+  }
+
+  private newIdentity(name: string): SpeakerIdentity {
+    const now = new Date();
+    return {
+      identityId: '',
+      name: name.trim(),
+      nameKey: normalizeName(name),
+      voiceProfileIds: [],
+      meetingIds: [],
+      appearances: [],
+      totalTalkTimeSeconds: 0,
+      totalUtterances: 0,
+      commonPhrases: [],
+      firstSeen: now,
+      lastSeen: now,
+    };
+  }
+
+  private mergeEmbedding(identity: SpeakerIdentity, speaker: MeetingSpeaker): void {
+    if (!speaker.embedding) return;
+
+    if (!identity.voiceEmbedding || identity.embeddingVersion !== speaker.embeddingVersion
+      || identity.voiceEmbedding.length !== speaker.embedding.length) {
+      identity.voiceEmbedding = [...speaker.embedding];
+      identity.embeddingVersion = speaker.embeddingVersion;
+      return;
+    }
+
+    const weight = Math.min(identity.appearances.length, this.config.maxEmbeddingWeight);
+    identity.voiceEmbedding = identity.voiceEmbedding.map(
+      (value, i) => (value * weight + speaker.embedding![i]) / (weight + 1)
+    );
+  }
+
+  private addAppearance(
+    identity: SpeakerIdentity,
+    meeting: Pick<Meeting, 'meetingId' | 'title' | 'startTime'>,
+    speaker: MeetingSpeaker
+  ): void {
+    const existing = identity.appearances.find(appearance => appearance.meetingId === meeting.meetingId);
+    if (existing) {
+      // Diarization split the same person into several speakers
+      existing.speakerIds.push(speaker.speakerId);
+      existing.talkTimeSeconds += speaker.talkTimeSeconds;
+      existing.utteranceCount += speaker.utteranceCount;
+      existing.commonPhrases = Array.from(new Set([...existing.commonPhrases, ...speaker.commonPhrases]))
+        .slice(0, this.config.phrasesPerMeeting);
+      return;
+    }
+
+    const appearance: SpeakerAppearance = {
+      meetingId: meeting.meetingId,
+      meetingTitle: meeting.title,
+      meetingDate: new Date(meeting.startTime),
+      speakerIds: [speaker.speakerId],
+      talkTimeSeconds: speaker.talkTimeSeconds,
+      utteranceCount: speaker.utteranceCount,
+      commonPhrases: speaker.commonPhrases,
+    };
+    identity.appearances.push(appearance);
+  }
+
+  private recomputeStats(identity: SpeakerIdentity): void {
+    const { appearances } = identity;
+    identity.meetingIds = appearances.map(appearance => appearance.meetingId);
+    identity.totalTalkTimeSeconds = appearances.reduce((sum, appearance) => sum + appearance.talkTimeSeconds, 0);
+    identity.totalUtterances = appearances.reduce((sum, appearance) => sum + appearance.utteranceCount, 0);
+
+    // Phrases used in the most meetings describe the person better than one long meeting
+    const phraseCounts = new Map<string, number>();
+    appearances.forEach(appearance => appearance.commonPhrases.forEach(phrase => {
+      phraseCounts.set(phrase, (phraseCounts.get(phrase) || 0) + 1);
+    }));
+    identity.commonPhrases = topPhrases(phraseCounts, 1, this.config.phrasesPerIdentity);
+
+    const dates = appearances.map(appearance => new Date(appearance.meetingDate).getTime()).filter(time => !isNaN(time));
+    if (dates.length > 0) {
+      identity.firstSeen = new Date(Math.min(...dates));
+      identity.lastSeen = new Date(Math.max(...dates));
+    }
+  }
+}
+
+export function createSpeakerIdentityRegistry(config?: Partial<SpeakerIdentityConfig>): SpeakerIdentityRegistry {
+  return new SpeakerIdentityRegistry(diarizationService, voiceProfileManager, config);
+}
+
+export const speakerIdentityRegistry = new SpeakerIdentityRegistry();
@@ -1,4 +1,5 @@
 import type { TTSRequest, TTSResponse } from '@/app/api/universal-assistant/tts/route';
+import { echoSuppressionService } from './EchoSuppressionService';
 
 export interface TTSClientOptions {
   baseUrl?: string;
@@ -102,6 +103,22 @@ export class TTSApiClient {
         });
       }
 
+      // Let the echo filter know what is about to come out of the speakers
+      let echoReferenceId: string | null = null;
+      audio.addEventListener('play', () => {
+        echoReferenceId = echoSuppressionService.addReference(text, {
+          ...(Number.isFinite(audio.duration) && { durationMs: (audio.duration - audio.currentTime) * 1000 }),
+        });
+      });
+      const endEchoReference = () => {
+        if (echoReferenceId) {
+          echoSuppressionService.endReference(echoReferenceId);
+          echoReferenceId = null;
+        }
+      };
+      audio.addEventListener('pause', endEchoReference);
+      audio.addEventListener('ended', endEchoReference);
+
       // Auto-play if requested
       if (playbackOptions.autoPlay !== false) {
         await audio.play();
@@ -321,6 +338,7 @@ export function integrateWithAudioManager(audioManager: any): {
         });
 
         if (response.success && response.audioUrl) {
+          echoSuppressionService.addReference(text);
           // Use AudioManager's play method for consistency
           await audioManager.play(response.audioUrl, options.speakerId);
         } else {
@@ -1,5 +1,6 @@
 import { conversationProcessor } from './ConversationProcessor';
 import { audioManager } from './AudioManager';
+import { echoSuppressionService } from './EchoSuppressionService';
 import { performanceMonitor } from '@/services/monitoring/PerformanceMonitor';
 import { TTSApiClient } from './TTSApiClient';
 import type { TranscriptEntry } from '@/types';
@@ -472,6 +473,8 @@ export class UniversalAssistantCoordinator {
       });
 
       if (response.success && response.audioUrl) {
+        // The reply will be heard by the microphone; keep it out of the transcript
+        echoSuppressionService.addReference(text);
         await this.playAudio(response.audioUrl);
       } else {
         throw new Error(response.error || 'TTS generation failed');
@@ -0,0 +1,123 @@
+/**
+ * UtteranceAudioBuffer - Keeps the last few seconds of microphone audio as PCM.
+ *
+ * MediaRecorder only yields compressed WebM chunks, which cannot be cut at a word
+ * boundary. This taps the same microphone stream through Web Audio and keeps
+ * timestamped sample blocks, so once a transcription result arrives the audio of
+ * each utterance can be sliced out by wall-clock time and used for speaker clustering.
+ */
+
+export interface UtteranceAudioBufferConfig {
+  // Results arrive some seconds after the speech, so keep at least that much audio
+  retentionMs: number;
+  // Samples per ScriptProcessor callback
+  blockSize: number;
+}
+
+export interface AudioSegment {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+interface SampleBlock {
+  startMs: number;
+  samples: Float32Array;
+}
+
+const DEFAULT_CONFIG: UtteranceAudioBufferConfig = {
+  retentionMs: 30000,
+  blockSize: 4096,
+};
+
+export class UtteranceAudioBuffer {
+  private config: UtteranceAudioBufferConfig;
+  private blocks: SampleBlock[] = [];
+  private sampleRate = 0;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private processor: ScriptProcessorNode | null = null;
+
+  constructor(config: Partial<UtteranceAudioBufferConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start capturing the stream. Returns false when the context cannot provide raw samples.
+   */
+  attach(context: AudioContext, stream: MediaStream): boolean {
+    this.detach();
+    this.clear();
+    if (typeof context.createScriptProcessor !== 'function') return false;
+
+    const sampleRate = context.sampleRate;
+    this.source = context.createMediaStreamSource(stream);
+    this.processor = context.createScriptProcessor(this.config.blockSize, 1, 1);
+    this.processor.onaudioprocess = (event) => {
+      const samples = new Float32Array(event.inputBuffer.getChannelData(0));
+      // The callback fires once the block has been captured, so it started one block ago
+      this.append(samples, Date.now() - (samples.length / sampleRate) * 1000, sampleRate);
+    };
+
+    this.source.connect(this.processor);
+    // Chrome only runs processors that reach the destination; the output stays silent
+    this.processor.connect(context.destination);
+    return true;
+  }
+
+  // Stop capturing; audio already buffered stays available for late results
+  detach(): void {
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+    if (this.source) {
+      this.source.disconnect();
+      this.source = null;
+    }
+  }
+
+  append(samples: Float32Array, startMs: number, sampleRate: number): void {
+    if (sampleRate !== this.sampleRate) {
+      this.blocks = [];
+      this.sampleRate = sampleRate;
+    }
+    this.blocks.push({ startMs, samples });
+
+    const cutoff = startMs - this.config.retentionMs;
+    while (this.blocks.length > 0 && this.blockEndMs(this.blocks[0]) < cutoff) {
+      this.blocks.shift();
+    }
+  }
+
+  /**
+   * Samples captured between two wall-clock times, or null when none are buffered
+   */
+  getSegment(startMs: number, endMs: number): AudioSegment | null {
+    if (endMs <= startMs || this.blocks.length === 0) return null;
+
+    const parts: Float32Array[] = [];
+    for (const block of this.blocks) {
+      if (this.blockEndMs(block) <= startMs || block.startMs >= endMs) continue;
+      const from = Math.max(0, Math.round(((startMs - block.startMs) * this.sampleRate) / 1000));
+      const to = Math.min(block.samples.length, Math.round(((endMs - block.startMs) * this.sampleRate) / 1000));
+      if (to > from) parts.push(block.samples.subarray(from, to));
+    }
+    if (parts.length === 0) return null;
+
+    const samples = new Float32Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      samples.set(part, offset);
+      offset += part.length;
+    }
+    return { samples, sampleRate: this.sampleRate };
+  }
+
+  clear(): void {
+    this.blocks = [];
+  }
+
+  private blockEndMs(block: SampleBlock): number {
+    return block.startMs + (block.samples.length / this.sampleRate) * 1000;
+  }
+}
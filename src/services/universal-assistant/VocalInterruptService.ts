@@ -1,7 +1,10 @@
 import type { EnhancedMessageQueueManager } from './EnhancedMessageQueueManager';
 import type { StreamingTTSService } from './StreamingTTSService';
+import type { InterruptedPlayback } from './AudioManager';
+import type { BargeInEvent } from './BargeInDetector';
 import { enhancedMessageQueueManager } from './EnhancedMessageQueueManager';
-import { streamingTTSService } from './StreamingTTSService';
+import { InterruptExecutionService } from './InterruptExecutionService';
+import { matchCustomCommand, toVoiceCommand, type CustomVoiceCommand } from './CustomVoiceCommands';
 import { useAppStore } from '@/stores/appStore';
 import { nanoid } from 'nanoid';
 
@@ -44,6 +47,12 @@ export type VocalInterruptAction =
   | 'save_transcript'
   | 'summarize_meeting'
   | 'end_meeting'
+  // Actions users can bind their own phrases to
+  | 'create_note'
+  | 'create_action_item'
+  | 'change_voice'
+  | 'switch_model'
+  | 'mark_decision'
   | 'legacy_interrupt'; // For backward compatibility
 
 export interface CommandContext {
@@ -53,6 +62,8 @@ export interface CommandContext {
   confidence: number;
   originalText: string;
   normalizedText: string;
+  // Values said in place of a custom command's slots, e.g. { person: 'Priya' }
+  slots?: Record<string, string>;
   currentState: {
     isRecording: boolean;
     isPlaying: boolean;
@@ -76,9 +87,22 @@ export interface VocalInterruptEvents {
   onCommandDetected: (command: VoiceCommand, context: CommandContext) => void;
   onCommandExecuted: (result: CommandResult) => void;
   onCommandFailed: (command: VoiceCommand, error: Error, context: CommandContext) => void;
+  onBargeIn: (event: BargeInEvent, interrupted: InterruptedPlayback | null) => void;
   onLegacyInterrupt: () => void; // For backward compatibility
 }
 
+export interface VocalInterruptAnalytics {
+  commandsExecuted: number;
+  commandsFailed: number;
+  commandsByAction: Partial<Record<VocalInterruptAction, number>>;
+  // Times someone talked over the assistant and it stopped
+  bargeIns: number;
+  // Barge-ins that cut off a reply which can be resumed
+  resumableBargeIns: number;
+  averageBargeInSpeechMs: number;
+  lastBargeInAt: number | null;
+}
+
 export class VocalInterruptService {
     // Legacy properties (maintained for backward compatibility)
     private config: InterruptConfig = {
@@ -98,9 +122,25 @@ export class VocalInterruptService {
     private commandCooldowns: Map<string, number> = new Map();
     private sessionId: string = nanoid();
     private confidenceThreshold: number = 0.7;
+    // Similarity each word of a custom command's phrase needs to what was said
+    private readonly customMatchThreshold: number = 0.75;
     private processedTranscripts: Set<string> = new Set();
     private executingCommands: Set<string> = new Set(); // Race condition protection
 
+    // Carries out commands; replaced with one wired to the live audio by the service container
+    private executionService: InterruptExecutionService = new InterruptExecutionService();
+    private analytics: VocalInterruptAnalytics = {
+      commandsExecuted: 0,
+      commandsFailed: 0,
+      commandsByAction: {},
+      bargeIns: 0,
+      resumableBargeIns: 0,
+      averageBargeInSpeechMs: 0,
+      lastBargeInAt: null,
+    };
+    // A command waiting for a spoken yes or no
+    private pendingConfirmation: { commandId: string; resolve: (confirmed: boolean) => void } | null = null;
+
     constructor() {
       this.initializeEnhancedCommands();
     }
@@ -208,6 +248,78 @@ export class VocalInterruptService {
           contextSensitive: false,
           validContexts: []
         },
+        {
+          id: 'clear_queue',
+          keyword: 'clear queue',
+          aliases: ['clear the queue', 'cancel all messages'],
+          action: 'clear_queue',
+          confidence: 0.8,
+          priority: 'normal',
+          requiresConfirmation: false,
+          confirmationTimeout: 5000,
+          cooldownPeriod: 1000,
+          description: 'Drop messages waiting to be spoken',
+          contextSensitive: false,
+          validContexts: []
+        },
+        // There is no default voice command to unmute, since a muted microphone cannot hear it
+        {
+          id: 'mute_microphone',
+          keyword: 'mute microphone',
+          aliases: ['mute the microphone', 'mute mic', 'mute my mic'],
+          action: 'mute_microphone',
+          confidence: 0.8,
+          priority: 'normal',
+          requiresConfirmation: false,
+          confirmationTimeout: 5000,
+          cooldownPeriod: 1000,
+          description: 'Mute the microphone',
+          contextSensitive: false,
+          validContexts: []
+        },
+        {
+          id: 'save_transcript',
+          keyword: 'save transcript',
+          aliases: ['save the transcript', 'export the transcript', 'download the transcript'],
+          action: 'save_transcript',
+          confidence: 0.8,
+          priority: 'normal',
+          requiresConfirmation: false,
+          confirmationTimeout: 5000,
+          cooldownPeriod: 5000,
+          description: 'Download the meeting transcript',
+          contextSensitive: false,
+          validContexts: []
+        },
+        {
+          id: 'summarize_meeting',
+          keyword: 'summarize the meeting',
+          aliases: ['summarize meeting', 'summarize so far', 'give me a summary'],
+          action: 'summarize_meeting',
+          confidence: 0.8,
+          priority: 'normal',
+          requiresConfirmation: false,
+          confirmationTimeout: 5000,
+          cooldownPeriod: 30000,
+          description: 'Summarize the meeting so far',
+          contextSensitive: false,
+          validContexts: []
+        },
+        {
+          id: 'end_meeting',
+          keyword: 'end the meeting',
+          aliases: ['end meeting', 'finish the meeting', 'close the meeting'],
+          action: 'end_meeting',
+          confidence: 0.85,
+          priority: 'high',
+          requiresConfirmation: true,
+          confirmationTimeout: 10000,
+          cooldownPeriod: 5000,
+          description: 'End the current meeting',
+          contextSensitive: false,
+          validContexts: [],
+          parameters: { confirmationPrompt: 'Do you want to end the meeting? Say yes to confirm.' }
+        },
         // Legacy interrupt commands mapped to enhanced system
         {
           id: 'legacy_stop',
@@ -284,6 +396,15 @@ export class VocalInterruptService {
      * Enhanced command detection with Phase 3 capabilities
      */
     private detectEnhancedCommands(transcript: string): boolean {
+      // A reply to a confirmation prompt is not treated as a command of its own
+      if (this.pendingConfirmation) {
+        const answer = this.parseConfirmationAnswer(this.normalizeText(transcript));
+        if (answer !== null) {
+          this.pendingConfirmation.resolve(answer);
+          return true;
+        }
+      }
+
       if (this.processedTranscripts.has(transcript)) {
         return false;
       }
@@ -298,9 +419,25 @@ export class VocalInterruptService {
 
       const text = transcript.toLowerCase().trim();
       const normalizedText = this.normalizeText(text);
+
+      // Custom commands come first, since they are more specific than "stop" or "skip"
+      const customMatch = matchCustomCommand(this.getCustomCommands(), transcript, this.customMatchThreshold);
+      if (customMatch) {
+        this.handleVoiceCommand(customMatch.command, {
+          timestamp: Date.now(),
+          sessionId: this.sessionId,
+          confidence: customMatch.score,
+          originalText: transcript,
+          normalizedText,
+          slots: customMatch.slots,
+          currentState: this.getCurrentState()
+        });
+        return true;
+      }
       
       // Try to match against voice commands
       for (const command of this.voiceCommands.values()) {
+        if (command.parameters?.custom) continue;
         if (this.matchesCommand(normalizedText, command)) {
           // Use confidenceThreshold to filter commands
           const confidence = Math.max(0.8, this.confidenceThreshold);
@@ -358,13 +495,25 @@ export class VocalInterruptService {
 
       // Execute command
       try {
+        if (command.requiresConfirmation && !(await this.requestConfirmation(command))) {
+          this.emitCommandResult({
+            success: false,
+            action: command.action,
+            executedAt: Date.now(),
+            duration: Date.now() - startTime,
+            error: 'Not confirmed',
+            feedback: `${command.description} cancelled`
+          });
+          return;
+        }
+
         const result = await this.executeCommand(command, context, startTime);
         
         // Set cooldown
         this.commandCooldowns.set(command.id, Date.now());
         
         // Emit result event
-        this.eventListeners.onCommandExecuted?.(result);
+        this.emitCommandResult(result);
 
         // Debug: Command executed successfully (remove in production)
         if (process.env.NODE_ENV === 'development') {
@@ -373,6 +522,13 @@ export class VocalInterruptService {
 
       } catch (error) {
         console.error(`VocalInterruptService: Failed to execute command ${command.action}:`, error);
+        this.emitCommandResult({
+          success: false,
+          action: command.action,
+          executedAt: Date.now(),
+          duration: Date.now() - startTime,
+          error: (error as Error).message
+        });
         this.eventListeners.onCommandFailed?.(command, error as Error, context);
       } finally {
         // Always remove command from executing set to prevent permanent locks
@@ -384,27 +540,6 @@ export class VocalInterruptService {
       let result: CommandResult;
 
       switch (command.action) {
-        case 'stop_playback':
-          result = await this.executeStopPlayback(command, context);
-          break;
-        case 'pause_playback':
-          result = await this.executePausePlayback(command, context);
-          break;
-        case 'resume_playback':
-          result = await this.executeResumePlayback(command, context);
-          break;
-        case 'skip_message':
-          result = await this.executeSkipMessage(command, context);
-          break;
-        case 'repeat_message':
-          result = await this.executeRepeatMessage(command, context);
-          break;
-        case 'increase_volume':
-          result = await this.executeIncreaseVolume(command, context);
-          break;
-        case 'decrease_volume':
-          result = await this.executeDecreaseVolume(command, context);
-          break;
         case 'legacy_interrupt':
           // Trigger legacy interrupt for backward compatibility
           this.triggerInterrupt();
@@ -417,126 +552,80 @@ export class VocalInterruptService {
           };
           break;
         default:
-          result = {
-            success: false,
-            action: command.action,
-            executedAt: Date.now(),
-            duration: Date.now() - startTime,
-            error: 'Action not implemented'
-          };
+          result = await this.executionService.executeAction(command, context);
       }
 
       result.duration = Date.now() - startTime;
       return result;
     }
 
-    // Command execution methods
-    private async executeStopPlayback(command: VoiceCommand, _context: CommandContext): Promise<CommandResult> {
-      // Guard against SSR or uninitialized singletons
-      enhancedMessageQueueManager?.interrupt?.();
-      const active = streamingTTSService?.getActiveSessions?.() || [];
-      active.forEach((session: any) => {
-        streamingTTSService?.cancelSession?.(session.sessionId);
-      });
-
-      return {
-        success: true,
-        action: command.action,
-        executedAt: Date.now(),
-        duration: 0,
-        feedback: 'Playback stopped'
-      };
-    }
-
-    private async executePausePlayback(command: VoiceCommand, _context: CommandContext): Promise<CommandResult> {
-      // Implementation would pause current audio playback
-      return {
-        success: true,
-        action: command.action,
-        executedAt: Date.now(),
-        duration: 0,
-        feedback: 'Playback paused'
-      };
-    }
-
-    private async executeResumePlayback(command: VoiceCommand, _context: CommandContext): Promise<CommandResult> {
-      // Implementation would resume paused audio playback
-      return {
-        success: true,
-        action: command.action,
-        executedAt: Date.now(),
-        duration: 0,
-        feedback: 'Playback resumed'
-      };
-    }
-
-    private async executeSkipMessage(command: VoiceCommand, _context: CommandContext): Promise<CommandResult> {
-      const currentMessage = enhancedMessageQueueManager?.getCurrentMessage?.();
-      if (currentMessage) {
-        enhancedMessageQueueManager?.interrupt?.();
+    private emitCommandResult(result: CommandResult): void {
+      if (result.success) {
+        this.analytics.commandsExecuted++;
+        this.analytics.commandsByAction[result.action] = (this.analytics.commandsByAction[result.action] || 0) + 1;
+      } else {
+        this.analytics.commandsFailed++;
       }
-
-      return {
-        success: true,
-        action: command.action,
-        executedAt: Date.now(),
-        duration: 0,
-        feedback: 'Message skipped'
-      };
+      this.eventListeners.onCommandExecuted?.(result);
     }
 
-    private async executeRepeatMessage(command: VoiceCommand, _context: CommandContext): Promise<CommandResult> {
-      const currentMessage = enhancedMessageQueueManager?.getCurrentMessage?.();
-      if (currentMessage) {
-        enhancedMessageQueueManager?.addEnhancedMessage?.({
-          text: currentMessage.text,
-          type: 'ai',
-          priority: Date.now(),
-          urgency: 'high',
-          maxDelay: 100,
-          maxRetries: 3
-        });
+    /**
+     * Someone talked over the assistant. Stops playback, keeping the reply that was
+     * cut off so "resume" can continue it.
+     */
+    async handleBargeIn(event: BargeInEvent): Promise<InterruptedPlayback | null> {
+      const interrupted = await this.executionService.bargeIn();
+
+      const count = this.analytics.bargeIns + 1;
+      this.analytics.averageBargeInSpeechMs =
+        (this.analytics.averageBargeInSpeechMs * this.analytics.bargeIns + event.speechDurationMs) / count;
+      this.analytics.bargeIns = count;
+      this.analytics.lastBargeInAt = event.timestamp;
+      if (interrupted) {
+        this.analytics.resumableBargeIns++;
       }
 
-      return {
-        success: true,
-        action: command.action,
-        executedAt: Date.now(),
-        duration: 0,
-        feedback: 'Message will repeat'
-      };
+      this.eventListeners.onBargeIn?.(event, interrupted);
+      return interrupted;
     }
 
-    private async executeIncreaseVolume(command: VoiceCommand, _context: CommandContext): Promise<CommandResult> {
-      const appStore = useAppStore.getState();
-      const currentVolume = appStore.audioSettings.volume;
-      const newVolume = Math.min(currentVolume + 0.1, 1.0);
-      
-      appStore.updateAudioSettings({ volume: newVolume });
+    /**
+     * Ask out loud whether to go ahead, and wait up to the command's confirmation
+     * timeout for a yes or no. Silence counts as no.
+     */
+    private requestConfirmation(command: VoiceCommand): Promise<boolean> {
+      this.pendingConfirmation?.resolve(false);
+
+      return new Promise(resolve => {
+        const timer = setTimeout(() => finish(false), command.confirmationTimeout);
+        const finish = (confirmed: boolean) => {
+          clearTimeout(timer);
+          if (this.pendingConfirmation?.commandId === command.id) {
+            this.pendingConfirmation = null;
+          }
+          resolve(confirmed);
+        };
+        this.pendingConfirmation = { commandId: command.id, resolve: finish };
 
-      return {
-        success: true,
-        action: command.action,
-        executedAt: Date.now(),
-        duration: 0,
-        feedback: `Volume increased to ${Math.round(newVolume * 100)}%`
-      };
+        const prompt = command.parameters?.confirmationPrompt || `${command.description}? Say yes to confirm.`;
+        this.executionService.speak(prompt).catch(error => {
+          console.error('VocalInterruptService: Failed to speak confirmation prompt:', error);
+        });
+      });
     }
 
-    private async executeDecreaseVolume(command: VoiceCommand, _context: CommandContext): Promise<CommandResult> {
-      const appStore = useAppStore.getState();
-      const currentVolume = appStore.audioSettings.volume;
-      const newVolume = Math.max(currentVolume - 0.1, 0.0);
-      
-      appStore.updateAudioSettings({ volume: newVolume });
-
-      return {
-        success: true,
-        action: command.action,
-        executedAt: Date.now(),
-        duration: 0,
-        feedback: `Volume decreased to ${Math.round(newVolume * 100)}%`
-      };
+    // Short replies only, so the prompt itself ("say yes to confirm") never answers it
+    private parseConfirmationAnswer(text: string): boolean | null {
+      if (!text || text.split(' ').length > 4) {
+        return null;
+      }
+      if (/^(yes|yeah|yep|confirm|confirmed|do it|go ahead)\b/.test(text)) {
+        return true;
+      }
+      if (/^(no|nope|cancel|don t|never mind)\b/.test(text)) {
+        return false;
+      }
+      return null;
     }
 
     // Utility methods
@@ -592,6 +681,7 @@ export class VocalInterruptService {
     }
 
     reset(): void {
+      this.pendingConfirmation?.resolve(false);
       this.lastInterruptTime = 0;
       this.commandCooldowns.clear();
       this.processedTranscripts.clear();
@@ -611,6 +701,14 @@ export class VocalInterruptService {
       }
     }
 
+    setExecutionService(executionService: InterruptExecutionService): void {
+      this.executionService = executionService;
+    }
+
+    getExecutionService(): InterruptExecutionService {
+      return this.executionService;
+    }
+
     setEventListeners(listeners: Partial<VocalInterruptEvents>): void {
       this.eventListeners = { ...this.eventListeners, ...listeners };
     }
@@ -634,6 +732,24 @@ export class VocalInterruptService {
       return removed;
     }
 
+    /**
+     * Replace the user's custom commands. Disabled commands are left out.
+     */
+    setCustomCommands(commands: CustomVoiceCommand[]): void {
+      this.getCustomCommands().forEach(command => this.voiceCommands.delete(command.id));
+      commands
+        .filter(command => command.enabled && !this.voiceCommands.has(command.id))
+        .forEach(command => this.voiceCommands.set(command.id, toVoiceCommand(command)));
+    }
+
+    getCustomCommands(): VoiceCommand[] {
+      return Array.from(this.voiceCommands.values()).filter(command => command.parameters?.custom);
+    }
+
+    getAnalytics(): VocalInterruptAnalytics {
+      return { ...this.analytics, commandsByAction: { ...this.analytics.commandsByAction } };
+    }
+
     getAvailableCommands(): VoiceCommand[] {
       return Array.from(this.voiceCommands.values());
     }
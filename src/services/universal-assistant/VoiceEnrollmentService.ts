@@ -0,0 +1,324 @@
+/**
+ * VoiceEnrollmentService - Records a known person's voice as a reference profile.
+ *
+ * The user reads a few prompted phrases. Each recording is checked for length, signal
+ * to noise ratio and clipping, then embedded with the SpeakerEmbeddingExtractor. The
+ * phrase embeddings are averaged into one reference stored under
+ * users/{uid}/voiceProfiles, and its ID is kept on the user document so new meetings
+ * attach it to the host's Participant.voiceProfileId.
+ */
+
+import { auth } from '@/lib/firebase/client';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import type { EnrollmentSample, SpeakerProfile } from '@/types';
+import {
+  cosineSimilarity,
+  InsufficientSpeechError,
+  SpeakerEmbeddingExtractor,
+  speakerEmbeddingExtractor,
+} from './SpeakerEmbeddingExtractor';
+
+export const ENROLLMENT_PHRASES = [
+  'The quick brown fox jumps over the lazy dog by the river.',
+  'Please move the project review to Thursday afternoon at three.',
+  'Could you summarize the action items before we wrap up today?',
+  'Seven large boxes of equipment arrived early this morning.',
+  'I usually join these meetings from my desk or from the office.',
+];
+
+export interface EnrollmentQualityConfig {
+  minDurationSeconds: number;
+  maxDurationSeconds: number;
+  minSpeechSeconds: number;
+  minSnrDb: number;
+  // Fraction of samples at or above CLIP_LEVEL
+  maxClippingRatio: number;
+  minPeak: number;
+  minPhrases: number;
+}
+
+export interface SampleQuality {
+  durationSeconds: number;
+  speechSeconds: number;
+  snrDb: number;
+  clippingRatio: number;
+  peak: number;
+  issues: string[];
+  acceptable: boolean;
+}
+
+export interface EnrollmentRecording {
+  phrase: string;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface ProcessedPhrase {
+  recording: EnrollmentRecording;
+  quality: SampleQuality;
+  // Null when the recording failed the quality checks
+  embedding: number[] | null;
+}
+
+export interface EnrollmentUser {
+  uid: string;
+  displayName: string;
+}
+
+const DEFAULT_QUALITY_CONFIG: EnrollmentQualityConfig = {
+  minDurationSeconds: 2,
+  maxDurationSeconds: 20,
+  minSpeechSeconds: 1.2,
+  minSnrDb: 15,
+  maxClippingRatio: 0.001,
+  minPeak: 0.05,
+  minPhrases: 3,
+};
+
+const CLIP_LEVEL = 0.99;
+const FRAME_MS = 20;
+// Frames this far above the noise floor count as speech
+const SPEECH_MARGIN_DB = 10;
+
+function powerToDb(power: number): number {
+  return 10 * Math.log10(Math.max(power, 1e-10));
+}
+
+/**
+ * Estimate duration, speech time, SNR and clipping for a mono recording.
+ *
+ * SNR compares the loudest half of 20 ms frames against the quietest tenth, so the
+ * recording needs a little silence around the phrase to measure the noise floor.
+ */
+export function assessSampleQuality(
+  samples: Float32Array,
+  sampleRate: number,
+  config: Partial<EnrollmentQualityConfig> = {}
+): SampleQuality {
+  const limits = { ...DEFAULT_QUALITY_CONFIG, ...config };
+  const durationSeconds = samples.length / sampleRate;
+  const frameLength = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+
+  let peak = 0;
+  let clipped = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const level = Math.abs(samples[i]);
+    if (level > peak) peak = level;
+    if (level >= CLIP_LEVEL) clipped++;
+  }
+
+  const framePowers: number[] = [];
+  for (let start = 0; start + frameLength <= samples.length; start += frameLength) {
+    let energy = 0;
+    for (let i = start; i < start + frameLength; i++) {
+      energy += samples[i] * samples[i];
+    }
+    framePowers.push(energy / frameLength);
+  }
+
+  const sorted = [...framePowers].sort((a, b) => a - b);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1);
+  const noisePower = mean(sorted.slice(0, Math.max(1, Math.floor(sorted.length * 0.1))));
+  const signalPower = mean(sorted.slice(Math.floor(sorted.length / 2)));
+  const snrDb = sorted.length > 0 ? powerToDb(signalPower) - powerToDb(noisePower) : 0;
+
+  const speechThreshold = noisePower * Math.pow(10, SPEECH_MARGIN_DB / 10);
+  const speechFrames = framePowers.filter(power => power > speechThreshold).length;
+  const speechSeconds = (speechFrames * frameLength) / sampleRate;
+  const clippingRatio = samples.length > 0 ? clipped / samples.length : 0;
+
+  const issues: string[] = [];
+  // Speech time is unreliable in noise, which gets its own message below
+  const tooLittleSpeech = snrDb >= limits.minSnrDb && speechSeconds < limits.minSpeechSeconds;
+  if (durationSeconds < limits.minDurationSeconds || tooLittleSpeech) {
+    issues.push('Recording is too short. Read the whole phrase before stopping.');
+  }
+  if (durationSeconds > limits.maxDurationSeconds) {
+    issues.push('Recording is too long. Stop once you have finished the phrase.');
+  }
+  if (peak < limits.minPeak) {
+    issues.push('Your voice is too quiet. Move closer to the microphone.');
+  } else if (snrDb < limits.minSnrDb) {
+    issues.push('Too much background noise. Find a quieter spot and try again.');
+  }
+  if (clippingRatio > limits.maxClippingRatio) {
+    issues.push('Your voice is distorting. Move back from the microphone or speak more softly.');
+  }
+
+  return {
+    durationSeconds,
+    speechSeconds,
+    snrDb,
+    clippingRatio,
+    peak,
+    issues,
+    acceptable: issues.length === 0,
+  };
+}
+
+/**
+ * Encode mono float samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return buffer;
+}
+
+export class VoiceEnrollmentService {
+  private config: EnrollmentQualityConfig;
+
+  constructor(
+    private extractor: SpeakerEmbeddingExtractor = speakerEmbeddingExtractor,
+    config: Partial<EnrollmentQualityConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_QUALITY_CONFIG, ...config };
+  }
+
+  get minPhrases(): number {
+    return this.config.minPhrases;
+  }
+
+  /**
+   * Check a recorded phrase and embed it if it is usable
+   */
+  async processPhrase(recording: EnrollmentRecording): Promise<ProcessedPhrase> {
+    const quality = assessSampleQuality(recording.samples, recording.sampleRate, this.config);
+    if (!quality.acceptable) {
+      return { recording, quality, embedding: null };
+    }
+
+    try {
+      const embedding = await this.extractor.extract(recording.samples, recording.sampleRate);
+      return { recording, quality, embedding };
+    } catch (error) {
+      if (!(error instanceof InsufficientSpeechError)) throw error;
+      const issues = [...quality.issues, 'Not enough clear speech was detected. Try reading the phrase again.'];
+      return { recording, quality: { ...quality, issues, acceptable: false }, embedding: null };
+    }
+  }
+
+  /**
+   * Save accepted phrases as the user's reference profile, replacing an earlier
+   * enrollment when `existingProfileId` is given. Returns the profile ID.
+   */
+  async enroll(user: EnrollmentUser, phrases: ProcessedPhrase[], existingProfileId?: string | null): Promise<string> {
+    const accepted = phrases.filter((phrase): phrase is ProcessedPhrase & { embedding: number[] } => phrase.embedding !== null);
+    if (accepted.length < this.config.minPhrases) {
+      throw new Error(`Record at least ${this.config.minPhrases} phrases that pass the quality checks`);
+    }
+
+    const voiceEmbedding = SpeakerEmbeddingExtractor.averageEmbeddings(accepted.map(phrase => phrase.embedding));
+    // How consistently the phrases agree with their average
+    const confidence = accepted.reduce((sum, phrase) => sum + cosineSimilarity(phrase.embedding, voiceEmbedding), 0) / accepted.length;
+    const enrollmentSamples: EnrollmentSample[] = accepted.map(phrase => ({
+      phrase: phrase.recording.phrase,
+      embedding: phrase.embedding,
+      durationSeconds: phrase.quality.durationSeconds,
+      snrDb: phrase.quality.snrDb,
+    }));
+
+    const profile: Omit<SpeakerProfile, 'speakerId' | 'lastSeen'> = {
+      voiceId: user.uid,
+      userName: user.displayName,
+      voiceEmbedding,
+      confidence,
+      sessionCount: 0,
+      enrolled: true,
+      userId: user.uid,
+      embeddingVersion: this.extractor.version,
+      enrollmentSamples,
+      enrolledAt: new Date(),
+      // Enrolling is the user agreeing to be recognized in their meetings
+      consentRecords: [{
+        consentedBy: user.uid,
+        consentedAt: new Date(),
+        scopes: ['identification', 'cross_meeting_recognition'],
+      }],
+    };
+
+    let profileId = existingProfileId || null;
+    if (profileId && await DatabaseService.getVoiceProfile(user.uid, profileId)) {
+      await DatabaseService.updateVoiceProfile(user.uid, profileId, profile);
+    } else {
+      profileId = await DatabaseService.createVoiceProfile(user.uid, profile);
+    }
+    await DatabaseService.updateUser(user.uid, { voiceProfileId: profileId });
+
+    // The raw sample lets the reference be rebuilt when the extractor changes
+    const best = accepted.reduce((a, b) => (b.quality.snrDb > a.quality.snrDb ? b : a));
+    await this.uploadReferenceSample(profileId, encodeWav(best.recording.samples, best.recording.sampleRate));
+
+    return profileId;
+  }
+
+  /**
+   * Remove the reference profile and its stored sample
+   */
+  async deleteEnrollment(userId: string, profileId: string): Promise<void> {
+    await DatabaseService.deleteVoiceProfile(userId, profileId);
+    await DatabaseService.updateUser(userId, { voiceProfileId: null });
+
+    try {
+      await this.requestSampleRoute(profileId, { method: 'DELETE' });
+    } catch (error) {
+      console.warn('VoiceEnrollmentService: Failed to delete reference sample:', error);
+    }
+  }
+
+  private async uploadReferenceSample(profileId: string, wav: ArrayBuffer): Promise<void> {
+    try {
+      await this.requestSampleRoute(profileId, {
+        method: 'POST',
+        headers: { 'Content-Type': 'audio/wav' },
+        body: wav,
+      });
+    } catch (error) {
+      // The embedding is already saved; the sample is only needed for re-extraction
+      console.warn('VoiceEnrollmentService: Failed to upload reference sample:', error);
+    }
+  }
+
+  private async requestSampleRoute(profileId: string, init: RequestInit): Promise<void> {
+    const token = await auth.currentUser?.getIdToken();
+    if (!token) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`/api/voice-profiles/${profileId}/sample`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+  }
+}
+
+export function createVoiceEnrollmentService(config?: Partial<EnrollmentQualityConfig>): VoiceEnrollmentService {
+  return new VoiceEnrollmentService(speakerEmbeddingExtractor, config);
+}
@@ -0,0 +1,321 @@
+/**
+ * VoiceProfileExport - Encrypted, versioned backup format for voice profiles.
+ *
+ * Voice embeddings are biometric data, so exports are never written in the clear.
+ * The profiles and their consent records are serialized to JSON and sealed with
+ * AES-GCM under a key derived from the user's password with PBKDF2. Imports are
+ * decrypted and checked against the expected shape before anything is replaced.
+ * Plain 1.0.0 exports written before encryption was added are still accepted and
+ * migrated, with no consent on record and flagged as awaiting it.
+ */
+
+import type { VoiceConsentRecord, VoiceConsentScope } from '@/types';
+import type { EnhancedSpeakerProfile } from './VoiceProfileManager';
+
+export const VOICE_PROFILE_EXPORT_FORMAT = 'universal-assistant/voice-profiles';
+export const VOICE_PROFILE_EXPORT_VERSION = 2;
+export const MIN_EXPORT_PASSWORD_LENGTH = 8;
+
+// Plain JSON written by VoiceProfileManager before exports were encrypted
+const LEGACY_EXPORT_VERSION = '1.0.0';
+
+const PBKDF2_ITERATIONS = 310000;
+// Bounds for iteration counts read from a file, so a tampered header cannot weaken or stall decryption
+const MIN_PBKDF2_ITERATIONS = 100000;
+const MAX_PBKDF2_ITERATIONS = 5000000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const CONSENT_SCOPES: VoiceConsentScope[] = ['identification', 'cross_meeting_recognition'];
+const EMBEDDING_FIELDS = ['voiceEmbedding', 'speakerEmbedding', 'emotionalEmbedding', 'linguisticEmbedding', 'prosodyEmbedding'];
+const SECTION_FIELDS = [
+  'voiceCharacteristics',
+  'speechPatterns',
+  'emotionalProfile',
+  'adaptationMetrics',
+  'environmentalFactors',
+  'recognitionMetrics',
+  'privacySettings',
+];
+
+export type VoiceProfileExportErrorCode =
+  | 'INVALID_FORMAT'
+  | 'UNSUPPORTED_VERSION'
+  | 'PASSWORD_REQUIRED'
+  | 'WEAK_PASSWORD'
+  | 'DECRYPTION_FAILED'
+  | 'INVALID_PROFILE';
+
+export class VoiceProfileExportError extends Error {
+  constructor(message: string, public readonly code: VoiceProfileExportErrorCode) {
+    super(message);
+    this.name = 'VoiceProfileExportError';
+  }
+}
+
+// The file as written; only the key derivation and cipher parameters are readable
+export interface EncryptedVoiceProfileExport {
+  format: typeof VOICE_PROFILE_EXPORT_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  // Base64 ciphertext of the JSON payload, including the GCM tag
+  data: string;
+}
+
+export interface VoiceProfileExportContents {
+  exportedAt: Date;
+  userId: string | null;
+  profiles: EnhancedSpeakerProfile[];
+  // Version the file was migrated from, when it predates the current format
+  migratedFrom?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatError(message: string): VoiceProfileExportError {
+  return new VoiceProfileExportError(message, 'INVALID_FORMAT');
+}
+
+function invalidProfile(message: string): never {
+  throw new VoiceProfileExportError(message, 'INVALID_PROFILE');
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = typeof value === 'string' || value instanceof Date ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) invalidProfile(`${field} must be a date`);
+  return date;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large exports do not exceed the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: unknown, field: string): Uint8Array<ArrayBuffer> {
+  if (typeof text !== 'string') throw formatError(`${field} is missing`);
+  try {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    throw formatError(`${field} is not valid base64`);
+  }
+}
+
+async function deriveKey(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Binds the readable header to the ciphertext, so it cannot be swapped without failing decryption
+function headerData(version: number, iterations: number): Uint8Array<ArrayBuffer> {
+  return encoder.encode(`${VOICE_PROFILE_EXPORT_FORMAT}:${version}:PBKDF2-SHA-256:${iterations}`);
+}
+
+function validateConsentRecord(raw: unknown, field: string): VoiceConsentRecord {
+  if (!isObject(raw)) invalidProfile(`${field} must be an object`);
+  if (typeof raw.consentedBy !== 'string' || !raw.consentedBy) {
+    invalidProfile(`${field}.consentedBy must be a user ID`);
+  }
+  const scopes = raw.scopes;
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => CONSENT_SCOPES.includes(scope))) {
+    invalidProfile(`${field}.scopes must list one or more of ${CONSENT_SCOPES.join(', ')}`);
+  }
+
+  return {
+    consentedBy: raw.consentedBy,
+    consentedAt: parseDate(raw.consentedAt, `${field}.consentedAt`),
+    scopes: scopes as VoiceConsentScope[],
+  };
+}
+
+/**
+ * Check one profile read from an export and restore its dates. `label` names the
+ * profile in error messages.
+ */
+export function validateExportedProfile(raw: unknown, label = 'profile'): EnhancedSpeakerProfile {
+  if (!isObject(raw)) invalidProfile(`${label} must be an object`);
+  if (typeof raw.speakerId !== 'string' || !raw.speakerId) invalidProfile(`${label}.speakerId must be a non-empty string`);
+
+  for (const field of ['voiceId', 'userName']) {
+    if (typeof raw[field] !== 'string') invalidProfile(`${label}.${field} must be a string`);
+  }
+  for (const field of ['confidence', 'sessionCount']) {
+    if (typeof raw[field] !== 'number' || !Number.isFinite(raw[field])) invalidProfile(`${label}.${field} must be a number`);
+  }
+  for (const field of EMBEDDING_FIELDS) {
+    const value = raw[field];
+    if (!Array.isArray(value) || !value.every(n => typeof n === 'number' && Number.isFinite(n))) {
+      invalidProfile(`${label}.${field} must be an array of numbers`);
+    }
+  }
+  for (const field of SECTION_FIELDS) {
+    if (!isObject(raw[field])) invalidProfile(`${label}.${field} must be an object`);
+  }
+  if (raw.consentRecords !== undefined && !Array.isArray(raw.consentRecords)) {
+    invalidProfile(`${label}.consentRecords must be an array`);
+  }
+
+  const adaptationMetrics = raw.adaptationMetrics as JsonObject;
+  const recognitionMetrics = raw.recognitionMetrics as JsonObject;
+  const consentRecords = ((raw.consentRecords as unknown[] | undefined) || [])
+    .map((record, index) => validateConsentRecord(record, `${label}.consentRecords[${index}]`));
+
+  return {
+    ...raw,
+    lastSeen: parseDate(raw.lastSeen, `${label}.lastSeen`),
+    adaptationMetrics: {
+      ...adaptationMetrics,
+      lastAdaptation: parseDate(adaptationMetrics.lastAdaptation, `${label}.adaptationMetrics.lastAdaptation`),
+    },
+    recognitionMetrics: {
+      ...recognitionMetrics,
+      lastEvaluated: parseDate(recognitionMetrics.lastEvaluated, `${label}.recognitionMetrics.lastEvaluated`),
+    },
+    ...(raw.enrolledAt !== undefined && { enrolledAt: parseDate(raw.enrolledAt, `${label}.enrolledAt`) }),
+    consentRecords,
+  } as EnhancedSpeakerProfile;
+}
+
+function readContents(payload: JsonObject, migratedFrom?: string): VoiceProfileExportContents {
+  if (!Array.isArray(payload.profiles)) throw formatError('The export does not contain a profile list');
+  if (payload.userId !== undefined && payload.userId !== null && typeof payload.userId !== 'string') {
+    throw formatError('The export has an invalid user ID');
+  }
+
+  const exportedAt = new Date(typeof payload.exportedAt === 'string' ? payload.exportedAt : NaN);
+  return {
+    exportedAt: Number.isNaN(exportedAt.getTime()) ? new Date(0) : exportedAt,
+    userId: (payload.userId as string | null | undefined) ?? null,
+    profiles: payload.profiles.map((profile, index) => validateExportedProfile(profile, `profiles[${index}]`)),
+    ...(migratedFrom && { migratedFrom }),
+  };
+}
+
+/**
+ * Serialize profiles and encrypt them with a key derived from `password`
+ */
+export async function encryptVoiceProfileExport(
+  contents: Omit<VoiceProfileExportContents, 'migratedFrom'>,
+  password: string
+): Promise<string> {
+  if (password.length < MIN_EXPORT_PASSWORD_LENGTH) {
+    throw new VoiceProfileExportError(
+      `The export password must be at least ${MIN_EXPORT_PASSWORD_LENGTH} characters`,
+      'WEAK_PASSWORD'
+    );
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+
+  // Dates serialize as ISO strings and are restored by validateExportedProfile
+  const payload = encoder.encode(JSON.stringify(contents));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerData(VOICE_PROFILE_EXPORT_VERSION, PBKDF2_ITERATIONS) },
+    key,
+    payload
+  );
+
+  const file: EncryptedVoiceProfileExport = {
+    format: VOICE_PROFILE_EXPORT_FORMAT,
+    version: VOICE_PROFILE_EXPORT_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read an export file, decrypting and validating it. Plain 1.0.0 exports need no
+ * password and come back with `migratedFrom` set and their profiles marked consent-pending.
+ */
+export async function readVoiceProfileExport(fileContents: string, password?: string): Promise<VoiceProfileExportContents> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fileContents);
+  } catch {
+    throw formatError('The file is not a voice profile export');
+  }
+  if (!isObject(parsed)) throw formatError('The file is not a voice profile export');
+
+  if (parsed.version === LEGACY_EXPORT_VERSION && parsed.format === undefined) {
+    // Consent was not recorded before 2.0, so migrated profiles carry none until it is asked for again
+    const contents = readContents(parsed, LEGACY_EXPORT_VERSION);
+    contents.profiles.forEach(profile => {
+      if (profile.consentRecords?.length === 0) profile.consentPending = true;
+    });
+    return contents;
+  }
+
+  if (parsed.format !== VOICE_PROFILE_EXPORT_FORMAT) throw formatError('The file is not a voice profile export');
+  if (parsed.version !== VOICE_PROFILE_EXPORT_VERSION) {
+    throw new VoiceProfileExportError(`Export version ${String(parsed.version)} is not supported`, 'UNSUPPORTED_VERSION');
+  }
+  if (!password) {
+    throw new VoiceProfileExportError('This export is encrypted; enter its password to import it', 'PASSWORD_REQUIRED');
+  }
+
+  const { kdf, cipher } = parsed;
+  if (!isObject(kdf) || kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256') throw formatError('Unsupported key derivation');
+  if (!isObject(cipher) || cipher.name !== 'AES-GCM') throw formatError('Unsupported cipher');
+  const iterations = kdf.iterations;
+  if (
+    typeof iterations !== 'number' ||
+    !Number.isInteger(iterations) ||
+    iterations < MIN_PBKDF2_ITERATIONS ||
+    iterations > MAX_PBKDF2_ITERATIONS
+  ) {
+    throw formatError('Invalid key derivation iteration count');
+  }
+
+  const salt = fromBase64(kdf.salt, 'kdf.salt');
+  const iv = fromBase64(cipher.iv, 'cipher.iv');
+  const data = fromBase64(parsed.data, 'data');
+  if (iv.length !== IV_BYTES) throw formatError('Invalid cipher IV');
+
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(password, salt, iterations);
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: headerData(parsed.version, iterations) },
+      key,
+      data
+    );
+  } catch {
+    // GCM cannot tell a wrong password from a modified file
+    throw new VoiceProfileExportError('Wrong password, or the export has been modified', 'DECRYPTION_FAILED');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(decoder.decode(plaintext));
+  } catch {
+    throw formatError('The decrypted export is not valid JSON');
+  }
+  if (!isObject(payload)) throw formatError('The decrypted export is not valid');
+  return readContents(payload);
+}
@@ -1,7 +1,9 @@
-import { SpeakerProfile } from '../../types';
-import { db } from '../../lib/firebase/client';
+import { SpeakerProfile, VoiceConsentRecord, VoiceConsentScope } from '../../types';
+import { auth, db } from '../../lib/firebase/client';
 import { collection, doc, setDoc, getDoc, getDocs, query, where } from 'firebase/firestore';
 import { nanoid } from 'nanoid';
+import { speakerEmbeddingExtractor } from './SpeakerEmbeddingExtractor';
+import { encryptVoiceProfileExport, readVoiceProfileExport } from './VoiceProfileExport';
 
 // Enhanced voice profile with advanced embeddings
 export interface EnhancedSpeakerProfile extends SpeakerProfile {
@@ -124,6 +126,46 @@ export interface VoiceProfileEvents {
   onModelUpdated: (version: string, improvements: string[]) => void;
   onAccuracyThresholdReached: (accuracy: number) => void;
   onPrivacyViolation: (violation: string, speakerId: string) => void;
+  onEnrolledSpeakerRecognized: (speakerId: number, profile: EnhancedSpeakerProfile, confidence: number) => void;
+}
+
+// Reference voice recorded through enrollment, possibly belonging to another participant
+export interface EnrolledVoiceProfile {
+  profileId: string;
+  userId: string;
+  userName: string;
+  voiceEmbedding: number[];
+  embeddingVersion?: string;
+}
+
+// A consent record as saved in Firestore
+type StoredConsentRecord = Omit<VoiceConsentRecord, 'consentedAt'> & { consentedAt: string };
+
+export interface MatchSpeakerOptions {
+  // Save unmatched voices as new profiles (default true)
+  createProfiles?: boolean;
+}
+
+/**
+ * Extract candidate 3-6 word phrases from text, used for speechPatterns.commonPhrases
+ */
+export function extractPhrases(text: string): string[] {
+  const sentences = text.split(/[.!?]+/);
+  const phrases: string[] = [];
+
+  sentences.forEach(sentence => {
+    const words = sentence.trim().split(/\s+/);
+    for (let i = 0; i <= words.length - 3; i++) {
+      for (let len = 3; len <= Math.min(6, words.length - i); len++) {
+        const phrase = words.slice(i, i + len).join(' ').trim();
+        if (phrase.length > 10) {
+          phrases.push(phrase);
+        }
+      }
+    }
+  });
+
+  return phrases;
 }
 
 // Machine learning model interface
@@ -140,6 +182,10 @@ export class VoiceProfileManager {
   private profiles: Map<string, EnhancedSpeakerProfile> = new Map();
   private userId: string | null = null;
   private similarityThreshold: number = 0.85;
+
+  // Enrolled references are matched separately and never adapted
+  private enrolledProfiles: Map<string, EnhancedSpeakerProfile> = new Map();
+  private enrolledMatchThreshold: number = 0.8;
   
   // Enhanced properties
   private config: EmbeddingConfig;
@@ -356,9 +402,21 @@ export class VoiceProfileManager {
     try {
       const profilesRef = collection(db, 'users', this.userId, 'voiceProfiles');
       const snapshot = await getDocs(profilesRef);
+      const enrolled: EnrolledVoiceProfile[] = [];
       
       snapshot.forEach(doc => {
         const profileData = doc.data();
+
+        if (profileData.enrolled) {
+          enrolled.push({
+            profileId: doc.id,
+            userId: profileData.userId || this.userId!,
+            userName: profileData.userName || 'Unknown',
+            voiceEmbedding: profileData.voiceEmbedding || [],
+            embeddingVersion: profileData.embeddingVersion,
+          });
+          return;
+        }
         
         // Convert timestamp fields back to Date objects
         if (profileData.lastSeen && typeof profileData.lastSeen === 'string') {
@@ -370,10 +428,19 @@ export class VoiceProfileManager {
         if (profileData.recognitionMetrics?.lastEvaluated && typeof profileData.recognitionMetrics.lastEvaluated === 'string') {
           profileData.recognitionMetrics.lastEvaluated = new Date(profileData.recognitionMetrics.lastEvaluated);
         }
+        if (Array.isArray(profileData.consentRecords)) {
+          // Firestore holds the consent dates as ISO strings, as written by saveProfile
+          profileData.consentRecords = profileData.consentRecords.map((record: StoredConsentRecord) => ({
+            ...record,
+            consentedAt: new Date(record.consentedAt),
+          }));
+        }
         
         const profile = profileData as EnhancedSpeakerProfile;
         this.profiles.set(profile.speakerId, profile);
       });
+
+      await this.registerEnrolledProfiles(enrolled);
       
       this.metrics.totalProfiles = this.profiles.size;
       this.metrics.activeProfiles = Array.from(this.profiles.values())
@@ -404,12 +471,22 @@ export class VoiceProfileManager {
       audioBuffer?: ArrayBuffer;
       emotionalContext?: string;
       environmentalFactors?: Partial<EnhancedSpeakerProfile['environmentalFactors']>;
-    }
+    },
+    options: MatchSpeakerOptions = {}
   ): Promise<EnhancedSpeakerProfile | null> {
     const startTime = Date.now();
     let bestMatch: EnhancedSpeakerProfile | null = null;
     let highestSimilarity = 0;
 
+    // Enrolled people take precedence over learned profiles
+    const enrolledMatch = this.matchEnrolledProfile(voiceEmbedding);
+    if (enrolledMatch) {
+      this.recordRecognitionAttempt(enrolledMatch.profile.speakerId, enrolledMatch.similarity, Date.now() - startTime);
+      this.eventListeners.onSpeakerIdentified?.(enrolledMatch.profile.speakerId, enrolledMatch.similarity);
+      this.eventListeners.onEnrolledSpeakerRecognized?.(speakerId, enrolledMatch.profile, enrolledMatch.similarity);
+      return enrolledMatch.profile;
+    }
+
     // Enhanced matching if in enhanced mode
     if (this.isEnhancedMode && audioFeatures) {
       bestMatch = await this.performEnhancedMatching(voiceEmbedding, audioFeatures);
@@ -442,7 +519,7 @@ export class VoiceProfileManager {
       this.eventListeners.onSpeakerIdentified?.(bestMatch.speakerId, highestSimilarity);
     } else {
       // Create new profile or handle unknown speaker
-      if (this.shouldCreateNewProfile(highestSimilarity)) {
+      if (options.createProfiles !== false && this.shouldCreateNewProfile(highestSimilarity)) {
         bestMatch = await this.createEnhancedProfile(voiceEmbedding, speakerId, audioFeatures);
         this.eventListeners.onProfileCreated?.(bestMatch);
       } else {
@@ -453,6 +530,23 @@ export class VoiceProfileManager {
     return bestMatch;
   }
 
+  /**
+   * Compare against enrolled references recorded with the current embedding extractor
+   */
+  private matchEnrolledProfile(voiceEmbedding: number[]): { profile: EnhancedSpeakerProfile; similarity: number } | null {
+    let best: { profile: EnhancedSpeakerProfile; similarity: number } | null = null;
+
+    for (const profile of this.enrolledProfiles.values()) {
+      if (profile.embeddingVersion !== speakerEmbeddingExtractor.version) continue;
+      const similarity = this.calculateCosineSimilarity(voiceEmbedding, profile.voiceEmbedding);
+      if (similarity >= this.enrolledMatchThreshold && (!best || similarity > best.similarity)) {
+        best = { profile, similarity };
+      }
+    }
+
+    return best;
+  }
+
   /**
    * Perform enhanced multi-dimensional matching
    */
@@ -850,6 +944,12 @@ export class VoiceProfileManager {
           ...profile.recognitionMetrics,
           lastEvaluated: profile.recognitionMetrics.lastEvaluated.toISOString(),
         },
+        ...(profile.consentRecords && {
+          consentRecords: profile.consentRecords.map(record => ({
+            ...record,
+            consentedAt: record.consentedAt.toISOString(),
+          })),
+        }),
       };
       
       await setDoc(profileRef, serializedProfile);
@@ -972,7 +1072,7 @@ export class VoiceProfileManager {
     });
     
     // Update common phrases (simplified approach)
-    const phrases = this.extractPhrases(text);
+    const phrases = extractPhrases(text);
     phrases.forEach(phrase => {
       const existing = profile.speechPatterns.commonPhrases.find(p => p === phrase);
       if (!existing && phrase.length > 10) { // Only store longer phrases
@@ -985,30 +1085,6 @@ export class VoiceProfileManager {
     });
   }
 
-  /**
-   * Extract meaningful phrases from text
-   */
-  private extractPhrases(text: string): string[] {
-    // Simple phrase extraction - look for repeated patterns
-    const sentences = text.split(/[.!?]+/);
-    const phrases: string[] = [];
-    
-    sentences.forEach(sentence => {
-      const words = sentence.trim().split(/\s+/);
-      // Extract 3-6 word phrases
-      for (let i = 0; i <= words.length - 3; i++) {
-        for (let len = 3; len <= Math.min(6, words.length - i); len++) {
-          const phrase = words.slice(i, i + len).join(' ').trim();
-          if (phrase.length > 10) {
-            phrases.push(phrase);
-          }
-        }
-      }
-    });
-    
-    return phrases;
-  }
-
   /**
    * Update environmental factors
    */
@@ -1229,6 +1305,65 @@ export class VoiceProfileManager {
     }
   }
 
+  /**
+   * Add or replace enrolled reference voices, keyed by profile ID
+   */
+  async registerEnrolledProfiles(profiles: EnrolledVoiceProfile[]): Promise<void> {
+    for (const enrolled of profiles) {
+      if (enrolled.voiceEmbedding.length === 0) continue;
+
+      const profile = await this.upgradeToEnhancedProfile({
+        speakerId: enrolled.profileId,
+        voiceId: enrolled.userId,
+        userName: enrolled.userName,
+        voiceEmbedding: enrolled.voiceEmbedding,
+        lastSeen: new Date(),
+        confidence: 1,
+        sessionCount: 0,
+        enrolled: true,
+        userId: enrolled.userId,
+        embeddingVersion: enrolled.embeddingVersion,
+      });
+      this.enrolledProfiles.set(enrolled.profileId, profile);
+    }
+  }
+
+  /**
+   * Fetch the enrolled voices of a meeting's participants. Returns how many were registered.
+   */
+  async loadEnrolledProfilesForMeeting(meetingId: string): Promise<number> {
+    const token = await auth.currentUser?.getIdToken();
+    if (!token) return 0;
+
+    try {
+      const response = await fetch(`/api/meetings/${meetingId}/voice-profiles`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load enrolled voice profiles');
+      }
+
+      const profiles = data.profiles as EnrolledVoiceProfile[];
+      await this.registerEnrolledProfiles(profiles);
+      return profiles.length;
+    } catch (error) {
+      console.error('Error loading enrolled voice profiles:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Drop an enrolled reference, e.g. after the owner deletes their enrollment
+   */
+  removeEnrolledProfile(profileId: string): void {
+    this.enrolledProfiles.delete(profileId);
+  }
+
+  getEnrolledProfiles(): EnhancedSpeakerProfile[] {
+    return Array.from(this.enrolledProfiles.values());
+  }
+
   /**
    * Get enhanced profile
    */
@@ -1332,69 +1467,48 @@ export class VoiceProfileManager {
   }
 
   /**
-   * Export profile data for backup
+   * Export profiles and their consent records for backup, encrypted with `password`
    */
-  async exportProfiles(): Promise<string> {
-    const exportData = {
-      version: '1.0.0',
-      exportedAt: new Date().toISOString(),
+  async exportProfiles(password: string): Promise<string> {
+    return encryptVoiceProfileExport({
+      exportedAt: new Date(),
       userId: this.userId,
-      profiles: Array.from(this.profiles.values()).map(profile => ({
-        ...profile,
-        lastSeen: profile.lastSeen.toISOString(),
-        adaptationMetrics: {
-          ...profile.adaptationMetrics,
-          lastAdaptation: profile.adaptationMetrics?.lastAdaptation.toISOString(),
-        },
-        recognitionMetrics: {
-          ...profile.recognitionMetrics,
-          lastEvaluated: profile.recognitionMetrics?.lastEvaluated.toISOString(),
-        },
-      })),
-      metrics: this.metrics,
-    };
-
-    return JSON.stringify(exportData, null, 2);
+      profiles: Array.from(this.profiles.values()),
+    }, password);
   }
 
   /**
-   * Import profile data from backup
+   * Replace the current profiles with those from a backup. Plain exports from before
+   * encryption are accepted without a password. Throws a VoiceProfileExportError when
+   * the file cannot be decrypted or validated; returns the number of profiles imported.
    */
-  async importProfiles(jsonData: string): Promise<boolean> {
-    try {
-      const importData = JSON.parse(jsonData);
-      
-      if (!importData.profiles || !Array.isArray(importData.profiles)) {
-        throw new Error('Invalid import format');
-      }
+  async importProfiles(fileContents: string, password?: string): Promise<number> {
+    // Decrypt and validate everything before touching the existing profiles
+    const contents = await readVoiceProfileExport(fileContents, password);
 
-      // Clear existing profiles
-      this.profiles.clear();
+    this.profiles.clear();
+    for (const profile of contents.profiles) {
+      this.profiles.set(profile.speakerId, profile);
+      await this.saveProfile(profile);
+    }
 
-      // Import profiles
-      for (const profileData of importData.profiles) {
-        // Convert timestamp fields back to Date objects
-        if (profileData.lastSeen) {
-          profileData.lastSeen = new Date(profileData.lastSeen);
-        }
-        if (profileData.adaptationMetrics?.lastAdaptation) {
-          profileData.adaptationMetrics.lastAdaptation = new Date(profileData.adaptationMetrics.lastAdaptation);
-        }
-        if (profileData.recognitionMetrics?.lastEvaluated) {
-          profileData.recognitionMetrics.lastEvaluated = new Date(profileData.recognitionMetrics.lastEvaluated);
-        }
+    return contents.profiles.length;
+  }
 
-        const profile = profileData as EnhancedSpeakerProfile;
-        this.profiles.set(profile.speakerId, profile);
-        await this.saveProfile(profile);
-      }
+  /**
+   * Record that the person behind a profile agreed to the given uses of their voice
+   */
+  async recordConsent(speakerId: string, consentedBy: string, scopes: VoiceConsentScope[]): Promise<boolean> {
+    const profile = this.profiles.get(speakerId);
+    if (!profile || scopes.length === 0) return false;
 
-      console.log(`VoiceProfileManager: Imported ${importData.profiles.length} profiles`);
-      return true;
-    } catch (error) {
-      console.error('VoiceProfileManager: Import failed:', error);
-      return false;
-    }
+    profile.consentRecords = [
+      ...(profile.consentRecords || []),
+      { consentedBy, consentedAt: new Date(), scopes },
+    ];
+    delete profile.consentPending;
+    await this.saveProfile(profile);
+    return true;
   }
 
   /**
@@ -1458,6 +1572,7 @@ export class VoiceProfileManager {
    */
   clearProfiles(): void {
     this.profiles.clear();
+    this.enrolledProfiles.clear();
     this.embeddingCache.clear();
     this.recognitionHistory = [];
     this.adaptationQueue = [];
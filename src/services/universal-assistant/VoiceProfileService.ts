@@ -1,5 +1,6 @@
 import { adminDb, adminStorage } from '@/lib/firebase/admin';
 import type { QueryDocumentSnapshot, DocumentData } from 'firebase-admin/firestore';
+import { cosineSimilarity, SpeakerEmbeddingExtractor, speakerEmbeddingExtractor } from './SpeakerEmbeddingExtractor';
 
 export interface VoiceProfile {
   id: string;
@@ -13,6 +14,7 @@ export interface VoiceProfile {
     pitch?: number;
   };
   embedding?: number[]; // Voice embedding for speaker recognition
+  embeddingVersion?: string; // Extractor that produced `embedding`; other versions are not comparable
   sampleAudioUrl?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -189,20 +191,23 @@ export class VoiceProfileService {
     return url;
   }
 
-  async extractVoiceEmbedding(audioData: ArrayBuffer): Promise<number[]> {
-    // This would integrate with a voice embedding model
-    // For now, return a placeholder
-    const view = new DataView(audioData);
-    const embedding: number[] = [];
-    
-    for (let i = 0; i < 256; i++) {
-      if (i * 4 < view.byteLength) {
-        embedding.push(view.getFloat32(i * 4, true));
-      } else {
-        embedding.push(0);
-      }
-    }
-    
+  async extractVoiceEmbedding(audioData: ArrayBuffer, sampleRate?: number): Promise<number[]> {
+    return speakerEmbeddingExtractor.extract(audioData, sampleRate);
+  }
+
+  async updateProfileEmbedding(
+    userId: string,
+    profileId: string,
+    samples: ArrayBuffer[]
+  ): Promise<number[]> {
+    const embeddings = await Promise.all(samples.map(sample => this.extractVoiceEmbedding(sample)));
+    const embedding = SpeakerEmbeddingExtractor.averageEmbeddings(embeddings);
+
+    await this.updateProfile(userId, profileId, {
+      embedding,
+      embeddingVersion: speakerEmbeddingExtractor.version,
+    });
+
     return embedding;
   }
 
@@ -216,8 +221,8 @@ export class VoiceProfileService {
     let bestMatch: { profile: VoiceProfile; similarity: number } | null = null;
     
     for (const profile of profiles) {
-      if (profile.embedding) {
-        const similarity = this.cosineSimilarity(embedding, profile.embedding);
+      if (profile.embedding && profile.embeddingVersion === speakerEmbeddingExtractor.version) {
+        const similarity = cosineSimilarity(embedding, profile.embedding);
         if (!bestMatch || similarity > bestMatch.similarity) {
           bestMatch = { profile, similarity };
         }
@@ -231,22 +236,6 @@ export class VoiceProfileService {
     
     return null;
   }
-
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-  }
 }
 
 export const voiceProfileService = new VoiceProfileService();
\ No newline at end of file
@@ -0,0 +1,194 @@
+/**
+ * WakeWordDetector - Finds the phrase that addresses the assistant in transcript text.
+ *
+ * In wake word mode the assistant only answers requests that follow its wake phrase,
+ * such as "Hey Assistant" or a custom name. Hearing the phrase opens a short listening
+ * window, so a pause between the phrase and the request still gets an answer. Phrases
+ * match on whole words, ignoring case and punctuation, since providers differ in how
+ * they write "Hey, assistant."
+ */
+
+import { MeetingType, type AssistantActivationMode } from '@/types';
+
+export interface WakeWordConfig {
+  wakePhrases: string[];
+  // How long after the wake phrase a request is still answered
+  listeningWindowMs: number;
+}
+
+export interface WakeWordMatch {
+  phrase: string;
+  // The text with the wake phrase taken out
+  remainder: string;
+}
+
+export interface WakeWordState {
+  isListening: boolean;
+  listeningUntil: number | null;
+  phrase: string | null;
+}
+
+export type WakeWordStateListener = (state: WakeWordState) => void;
+
+export const DEFAULT_WAKE_PHRASE = 'Hey Assistant';
+
+const DEFAULT_CONFIG: WakeWordConfig = {
+  wakePhrases: [DEFAULT_WAKE_PHRASE],
+  listeningWindowMs: 8000,
+};
+
+// Meetings with guests, or with one person presenting, stay quiet until addressed
+export const DEFAULT_ACTIVATION_MODES: Record<MeetingType, AssistantActivationMode> = {
+  [MeetingType.BRAINSTORMING]: 'always',
+  [MeetingType.STATUS_UPDATE]: 'always',
+  [MeetingType.TECHNICAL_DISCUSSION]: 'always',
+  [MeetingType.CASUAL_CONVERSATION]: 'wake_word',
+  [MeetingType.FORMAL_PRESENTATION]: 'wake_word',
+  [MeetingType.ONE_ON_ONE]: 'wake_word',
+  [MeetingType.TEAM_STANDUP]: 'always',
+  [MeetingType.CLIENT_MEETING]: 'wake_word',
+  [MeetingType.GENERAL]: 'always',
+  [MeetingType.STANDUP]: 'always',
+  [MeetingType.PLANNING]: 'always',
+  [MeetingType.RETROSPECTIVE]: 'always',
+  [MeetingType.INTERVIEW]: 'wake_word',
+  [MeetingType.PRESENTATION]: 'wake_word',
+  [MeetingType.TRAINING]: 'wake_word',
+};
+
+/**
+ * The activation mode to use in a meeting. 'meeting_default' follows the meeting's type.
+ */
+export function resolveActivationMode(
+  setting: AssistantActivationMode | 'meeting_default' | undefined,
+  meetingType?: MeetingType
+): AssistantActivationMode {
+  if (setting === 'always' || setting === 'wake_word') {
+    return setting;
+  }
+  return (meetingType && DEFAULT_ACTIVATION_MODES[meetingType]) || 'always';
+}
+
+function normalizePhrase(value: string): string {
+  return value.trim().toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean).join(' ');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class WakeWordDetector {
+  private config: WakeWordConfig;
+  // Normalized phrase -> phrase as configured
+  private phrases = new Map<string, string>();
+  private pattern: RegExp | null = null;
+  private listeningUntil: number | null = null;
+  private phrase: string | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<WakeWordStateListener> = new Set();
+
+  constructor(config: Partial<WakeWordConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.compile();
+  }
+
+  updateConfig(config: Partial<WakeWordConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.compile();
+  }
+
+  /**
+   * Find a wake phrase anywhere in the text, so "what's next, Hey Assistant?" also counts
+   */
+  detect(text: string): WakeWordMatch | null {
+    if (!this.pattern || !text) return null;
+
+    const match = this.pattern.exec(text);
+    if (!match) return null;
+
+    const before = text.slice(0, match.index).replace(/[\s,;:-]+$/, '');
+    const after = text.slice(match.index + match[0].length).replace(/^[\s,.!?;:-]+/, '');
+    const remainder = [before, after].filter(Boolean).join(' ').trim();
+
+    return {
+      phrase: this.phrases.get(normalizePhrase(match[0])) || match[0],
+      remainder: /[\p{L}\p{N}]/u.test(remainder) ? remainder : '',
+    };
+  }
+
+  /**
+   * Open, or extend, the listening window
+   */
+  listen(phrase: string, now: number = Date.now()): void {
+    this.listeningUntil = now + this.config.listeningWindowMs;
+    this.phrase = phrase;
+
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    this.expiryTimer = setTimeout(
+      () => this.stopListening(),
+      Math.max(0, this.listeningUntil - Date.now())
+    );
+    this.emitState();
+  }
+
+  isListening(now: number = Date.now()): boolean {
+    return this.listeningUntil !== null && now <= this.listeningUntil;
+  }
+
+  stopListening(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (this.listeningUntil === null) return;
+
+    this.listeningUntil = null;
+    this.phrase = null;
+    this.emitState();
+  }
+
+  getState(): WakeWordState {
+    return {
+      isListening: this.isListening(),
+      listeningUntil: this.listeningUntil,
+      phrase: this.phrase,
+    };
+  }
+
+  onStateChange(listener: WakeWordStateListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emitState(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('WakeWordDetector: State listener failed:', error);
+      }
+    });
+  }
+
+  private compile(): void {
+    this.phrases.clear();
+    for (const phrase of this.config.wakePhrases) {
+      const key = normalizePhrase(phrase);
+      if (key && !this.phrases.has(key)) {
+        this.phrases.set(key, phrase.trim());
+      }
+    }
+
+    if (this.phrases.size === 0) {
+      this.pattern = null;
+      return;
+    }
+
+    // Longest first so "hey assistant" wins over a bare "assistant"
+    const alternatives = Array.from(this.phrases.keys())
+      .sort((a, b) => b.length - a.length)
+      .map(key => key.split(' ').map(escapeRegExp).join('[^\\p{L}\\p{N}\']+'));
+    this.pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'iu');
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * WebmChunkReader - Reads just enough of MediaRecorder's WebM chunks to cut the
+ * stream into windows that decode on their own.
+ *
+ * A WebM recording is an EBML header and Segment info followed by Clusters, each
+ * opening with its own timecode and holding blocks of encoded audio. MediaRecorder
+ * writes the header once, into its first chunk, and later chunks usually continue
+ * a cluster that started in an earlier one. A window therefore needs the header and,
+ * when it starts partway through a cluster, that cluster's opening. Block timecodes
+ * give the stream time of each window, so word timings line up however chunks arrive.
+ *
+ * Live recordings write the Segment and Clusters with unknown sizes, so both are
+ * walked into rather than skipped. Timecodes are read in milliseconds, the default
+ * TimecodeScale that browsers write.
+ */
+
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const CLUSTER_ID = 0x1f43b675;
+const TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+
+export interface WebmCluster {
+  // The Cluster ID, size and Timecode element exactly as written
+  opener: Uint8Array<ArrayBuffer>;
+  timecodeMs: number;
+}
+
+export interface WebmChunkLayout {
+  // Where the header ends, for a chunk that starts the recording; null otherwise
+  headerLength: number | null;
+  // The chunk starts with blocks of a cluster opened in an earlier chunk
+  continuesCluster: boolean;
+  // Stream time of the chunk's first block, when its cluster is known
+  firstBlockMs: number | null;
+  // The cluster in progress at the end of the chunk
+  cluster: WebmCluster | null;
+}
+
+interface ElementHeader {
+  id: number;
+  dataOffset: number;
+  // null for elements of unknown size
+  size: number | null;
+}
+
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (offset + length > bytes.length) return null;
+
+  const mask = 0xff >> length;
+  let value = keepMarker ? first : first & mask;
+  let unknown = !keepMarker && (first & mask) === mask;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    unknown = unknown && bytes[offset + i] === 0xff;
+  }
+  return { value, length, unknown };
+}
+
+function readElementHeader(bytes: Uint8Array, offset: number): ElementHeader | null {
+  const id = readVint(bytes, offset, true);
+  if (!id || id.length > 4) return null;
+  const size = readVint(bytes, offset + id.length, false);
+  if (!size) return null;
+  return { id: id.value, dataOffset: offset + id.length + size.length, size: size.unknown ? null : size.value };
+}
+
+function readUnsigned(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+}
+
+// A SimpleBlock holds its track number, then its time relative to the cluster as a signed 16-bit integer
+function readBlockOffset(bytes: Uint8Array, dataOffset: number): number | null {
+  const track = readVint(bytes, dataOffset, false);
+  if (!track || dataOffset + track.length + 2 > bytes.length) return null;
+  const position = dataOffset + track.length;
+  return ((bytes[position] << 8) | bytes[position + 1]) << 16 >> 16;
+}
+
+/**
+ * Walk the top-level structure of one MediaRecorder chunk. `openCluster` is the
+ * cluster in progress at the end of the previous chunk.
+ */
+export function readWebmChunk(bytes: Uint8Array, openCluster: WebmCluster | null): WebmChunkLayout {
+  const startsRecording = readElementHeader(bytes, 0)?.id === EBML_ID;
+  let headerLength: number | null = null;
+  let continuesCluster = false;
+  let firstBlockMs: number | null = null;
+  let cluster = openCluster;
+  let clusterStart: number | null = null;
+  let sawBlock = false;
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const element = readElementHeader(bytes, offset);
+    if (!element) break;
+    const { id, dataOffset, size } = element;
+    if (offset === 0) continuesCluster = id === SIMPLE_BLOCK_ID || id === BLOCK_GROUP_ID;
+
+    if (id === SEGMENT_ID || id === CLUSTER_ID) {
+      if (id === CLUSTER_ID) {
+        if (startsRecording && headerLength === null) headerLength = offset;
+        clusterStart = offset;
+      }
+      offset = dataOffset;
+      continue;
+    }
+    if (size === null || dataOffset + size > bytes.length) break;
+
+    if (id === TIMECODE_ID && clusterStart !== null) {
+      cluster = { opener: bytes.slice(clusterStart, dataOffset + size), timecodeMs: readUnsigned(bytes, dataOffset, size) };
+      clusterStart = null;
+    } else if ((id === SIMPLE_BLOCK_ID || id === BLOCK_GROUP_ID) && !sawBlock) {
+      sawBlock = true;
+      const blockOffset = id === SIMPLE_BLOCK_ID ? readBlockOffset(bytes, dataOffset) : null;
+      if (blockOffset !== null && cluster) firstBlockMs = cluster.timecodeMs + blockOffset;
+    }
+    offset = dataOffset + size;
+  }
+
+  // A first chunk with no cluster yet is all header
+  if (startsRecording && headerLength === null) headerLength = bytes.length;
+  return { headerLength, continuesCluster, firstBlockMs, cluster };
+}
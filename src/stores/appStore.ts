@@ -3,7 +3,8 @@ import { immer } from 'zustand/middleware/immer';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { devtools } from 'zustand/middleware';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { AudioConfig, AIModel } from '@/types';
+import { AudioConfig, AIModel, AssistantActivationMode } from '@/types';
+import type { CustomVoiceCommand } from '@/services/universal-assistant/CustomVoiceCommands';
 
 // Audio device types
 export interface AudioDevice {
@@ -44,7 +45,7 @@ export interface VocalInterruptSettings {
   commands: string[]; // voice commands like "stop", "pause", "skip"
   sensitivity: number; // command detection sensitivity
   confirmationRequired: boolean; // require confirmation for commands
-  customCommands: Record<string, string>; // custom command mappings
+  customCommands: Record<string, CustomVoiceCommand>; // user-defined commands, keyed by id
 }
 
 // App settings types
@@ -97,6 +98,10 @@ export interface AISettings {
   enableAutoResponse: boolean;
   responseDelay: number;
   confidenceThreshold: number;
+  // 'meeting_default' picks the mode from the meeting's type
+  activationMode: AssistantActivationMode | 'meeting_default';
+  wakePhrase: string;
+  wakeListeningWindowMs: number;
 }
 
 export interface TTSSettings {
@@ -333,6 +338,9 @@ const defaultAISettings: AISettings = {
   enableAutoResponse: true,
   responseDelay: 1000,
   confidenceThreshold: 0.8,
+  activationMode: 'meeting_default',
+  wakePhrase: 'Hey Assistant',
+  wakeListeningWindowMs: 8000,
 };
 
 const defaultTTSSettings: TTSSettings = {
@@ -61,7 +61,7 @@ export const useMeetingActions = () => {
         userName: user.displayName || 'Unknown',
         displayName: user.displayName || 'Unknown',
         email: user.email || '',
-        voiceProfileId: 'default',
+        voiceProfileId: user.voiceProfileId || 'default',
         role: 'host' as const,
         joinTime: new Date(),
         joinedAt: new Date(),
@@ -13,6 +13,7 @@ import {
   Participant, 
   SpeakerProfile, 
   MeetingType,
+  MeetingNote,
   CustomRule 
 } from '@/types';
 import { DatabaseService } from '@/services/firebase/DatabaseService';
@@ -22,6 +23,38 @@ import type {
   RealtimeUpdate, 
   DocumentChange 
 } from '@/services/firebase/UnifiedRealtimeService';
+import type { SpeakerCorrection } from '@/services/universal-assistant/DiarizationService';
+import type { RecordingImportOptions } from '@/services/universal-assistant/RecordingImportService';
+import { customVocabulary, seedGlossaryTerms } from '@/services/universal-assistant/CustomVocabulary';
+
+// Diarization timestamps and stored entry timestamps can drift slightly apart
+const SPEAKER_CORRECTION_TOLERANCE_MS = 1000;
+
+/**
+ * Load the user's glossary and the meeting's own terms before transcription starts.
+ * A failed load only costs accuracy, so it never blocks the meeting.
+ */
+async function loadMeetingVocabulary(meeting: Meeting): Promise<void> {
+  try {
+    const { auth } = await import('@/lib/firebase/client');
+    const userId = auth.currentUser?.uid;
+    if (!userId) {
+      customVocabulary.setTerms(seedGlossaryTerms(meeting));
+      return;
+    }
+    await customVocabulary.load(userId, meeting);
+  } catch (error) {
+    console.warn('Failed to load glossary; using meeting terms only:', error);
+    customVocabulary.setTerms(seedGlossaryTerms(meeting));
+  }
+}
+
+// Replace known misspellings of glossary terms; content mirrors text
+function applyVocabulary<T extends Partial<Pick<TranscriptEntry, 'text' | 'content'>>>(entry: T): T {
+  if (!entry.text) return entry;
+  const { text, corrections } = customVocabulary.correct(entry.text);
+  return corrections.length > 0 ? { ...entry, text, content: text } : entry;
+}
 
 // Meeting-specific error types
 export interface MeetingError {
@@ -45,15 +78,21 @@ export interface MeetingState {
   transcriptError: MeetingError | null;
   fragmentBuffer: TranscriptEntry[];
   
+  // Notes state (live view of /meetings/{meetingId}/notes)
+  meetingNotes: MeetingNote[];
+  
   // Participants state
   participants: Participant[];
   connectedParticipants: string[];
   speakerProfiles: SpeakerProfile[];
+  // Names given to diarized speakers, applied to their later transcript entries
+  speakerNames: Record<string, string>;
   activeSpeaker: string | null;
   
   // Meeting management
   recentMeetings: Meeting[];
   isLoadingRecentMeetings: boolean;
+  finalizingMeetingIds: string[];
   
   // Real-time listeners
   listeners: Map<string, Unsubscribe>;
@@ -74,6 +113,9 @@ export interface MeetingActions {
   // Meeting management
   startMeeting: (meetingData: Omit<Meeting, 'meetingId' | 'transcript' | 'startTime'>) => Promise<string | null>;
   endMeeting: (meetingId?: string) => Promise<boolean>;
+  finalizeMeeting: (meetingId: string) => Promise<boolean>;
+  linkSpeakerIdentities: (meetingId: string, speakerEmbeddings?: Record<string, number[]>) => Promise<number>;
+  importRecording: (file: File, options?: RecordingImportOptions) => Promise<string | null>;
   joinMeeting: (meetingId: string) => Promise<boolean>;
   leaveMeeting: () => Promise<boolean>;
   loadMeeting: (meetingId: string) => Promise<boolean>;
@@ -84,6 +126,8 @@ export interface MeetingActions {
   addTranscriptEntry: (entry: Omit<TranscriptEntry, 'id'>) => Promise<string | null>;
   updateTranscriptEntry: (entryId: string, updates: Partial<TranscriptEntry>) => Promise<boolean>;
   deleteTranscriptEntry: (entryId: string) => Promise<boolean>;
+  applySpeakerCorrection: (correction: SpeakerCorrection) => Promise<number>;
+  nameSpeaker: (speakerId: string, name: string) => Promise<number>;
   addFragmentToBuffer: (fragment: TranscriptEntry) => void;
   processFragmentBuffer: () => Promise<void>;
   clearFragmentBuffer: () => void;
@@ -141,13 +185,17 @@ export const useMeetingStore = create<MeetingStore>()(
         transcriptError: null,
         fragmentBuffer: [],
         
+        meetingNotes: [],
+        
         participants: [],
         connectedParticipants: [],
         speakerProfiles: [],
+        speakerNames: {},
         activeSpeaker: null,
         
         recentMeetings: [],
         isLoadingRecentMeetings: false,
+        finalizingMeetingIds: [],
         
         listeners: new Map(),
         
@@ -180,12 +228,14 @@ export const useMeetingStore = create<MeetingStore>()(
             if (!meeting) {
               throw new Error('Failed to retrieve created meeting');
             }
+            await loadMeetingVocabulary(meeting);
 
             set((state) => {
               state.currentMeeting = meeting;
               state.isInMeeting = true;
               state.isLoadingMeeting = false;
               state.transcript = [];
+              state.meetingNotes = [];
               state.participants = meeting.participants;
             });
 
@@ -229,6 +279,10 @@ export const useMeetingStore = create<MeetingStore>()(
             // Cleanup listeners
             get().cleanupRealtimeListeners();
 
+            // Summary and action items are generated in the background; ending never waits on the AI
+            void get().finalizeMeeting(currentMeetingId);
+            void get().linkSpeakerIdentities(currentMeetingId);
+
             return true;
           } catch (error) {
             set((state) => {
@@ -244,6 +298,157 @@ export const useMeetingStore = create<MeetingStore>()(
           }
         },
 
+        finalizeMeeting: async (meetingId) => {
+          if (get().finalizingMeetingIds.includes(meetingId)) return false;
+
+          set((state) => {
+            state.finalizingMeetingIds.push(meetingId);
+          });
+
+          try {
+            // Dynamic import keeps the client auth SDK out of server bundles
+            const { auth } = await import('@/lib/firebase/client');
+            const token = await auth.currentUser?.getIdToken();
+            if (!token) {
+              throw new Error('Not authenticated');
+            }
+
+            const response = await fetch(`/api/meetings/${meetingId}/finalize`, {
+              method: 'POST',
+              headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+              body: JSON.stringify({}),
+            });
+            const data = await response.json();
+            if (!response.ok || !data.success) {
+              throw new Error(data.error || 'Failed to finalize meeting');
+            }
+
+            // Dates arrive as ISO strings over JSON
+            const { summary, actionItems, actionItemDetails, metadata, finalizedAt } = data.meeting as Meeting;
+            const updates: Partial<Meeting> = {
+              summary,
+              actionItems,
+              actionItemDetails: (actionItemDetails || []).map(item => ({
+                ...item,
+                ...(item.dueDate && { dueDate: new Date(item.dueDate) }),
+              })),
+              metadata,
+              finalizedAt: finalizedAt ? new Date(finalizedAt) : new Date(),
+            };
+
+            set((state) => {
+              if (state.currentMeeting?.meetingId === meetingId) {
+                state.currentMeeting = { ...state.currentMeeting, ...updates };
+              }
+              state.recentMeetings = state.recentMeetings.map(meeting =>
+                meeting.meetingId === meetingId ? { ...meeting, ...updates } : meeting
+              );
+            });
+
+            return true;
+          } catch (error) {
+            console.error('Failed to finalize meeting:', error);
+            set((state) => {
+              state.meetingError = {
+                code: 'MEETING_FINALIZE_FAILED',
+                message: 'Failed to generate meeting summary',
+                operation: 'finalizeMeeting',
+                cause: error as Error
+              };
+            });
+
+            return false;
+          } finally {
+            set((state) => {
+              state.finalizingMeetingIds = state.finalizingMeetingIds.filter(id => id !== meetingId);
+            });
+          }
+        },
+
+        linkSpeakerIdentities: async (meetingId, speakerEmbeddings) => {
+          // Read before awaiting, while the ended meeting is still in the store
+          const { currentMeeting, transcript } = get();
+
+          try {
+            const [{ auth }, { speakerIdentityRegistry }] = await Promise.all([
+              import('@/lib/firebase/client'),
+              import('@/services/universal-assistant/SpeakerIdentityRegistry'),
+            ]);
+            const userId = auth.currentUser?.uid;
+            if (!userId) {
+              throw new Error('Not authenticated');
+            }
+
+            const isCurrent = currentMeeting?.meetingId === meetingId;
+            const meeting = isCurrent ? currentMeeting : await DatabaseService.getMeeting(meetingId);
+            if (!meeting) {
+              throw new Error(`Meeting ${meetingId} not found`);
+            }
+
+            const entries = isCurrent && transcript.length > 0
+              ? transcript
+              : await DatabaseService.getAllTranscriptEntries(meetingId);
+            // Live voice clusters only describe the meeting being recorded, never an earlier one
+            const embeddings = speakerEmbeddings || (isCurrent ? undefined : {});
+            const speakers = speakerIdentityRegistry.collectMeetingSpeakers(entries, embeddings);
+            const linked = await speakerIdentityRegistry.linkMeeting(userId, meeting, speakers);
+
+            return linked.length;
+          } catch (error) {
+            console.error('Failed to link meeting speakers:', error);
+            set((state) => {
+              state.meetingError = {
+                code: 'SPEAKER_LINK_FAILED',
+                message: 'Failed to update speaker history',
+                operation: 'linkSpeakerIdentities',
+                cause: error as Error
+              };
+            });
+
+            return 0;
+          }
+        },
+
+        importRecording: async (file, options = {}) => {
+          set((state) => {
+            state.meetingError = null;
+          });
+
+          try {
+            const { recordingImportService } = await import('@/services/universal-assistant/RecordingImportService');
+            const result = await recordingImportService.importRecording(file, options);
+
+            const meeting = await DatabaseService.getMeeting(result.meetingId);
+            if (meeting) {
+              set((state) => {
+                state.recentMeetings = [meeting, ...state.recentMeetings].sort(
+                  (a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+                );
+              });
+            }
+
+            // Imported meetings get the same summary and speaker history as live ones
+            void get().finalizeMeeting(result.meetingId);
+            void get().linkSpeakerIdentities(result.meetingId, result.speakerEmbeddings);
+
+            return result.meetingId;
+          } catch (error) {
+            if (!options.signal?.aborted) {
+              console.error('Failed to import recording:', error);
+              set((state) => {
+                state.meetingError = {
+                  code: 'RECORDING_IMPORT_FAILED',
+                  message: error instanceof Error ? error.message : 'Failed to import recording',
+                  operation: 'importRecording',
+                  cause: error as Error
+                };
+              });
+            }
+
+            return null;
+          }
+        },
+
         joinMeeting: async (meetingId) => {
           set((state) => {
             state.isLoadingMeeting = true;
@@ -258,6 +463,7 @@ export const useMeetingStore = create<MeetingStore>()(
 
             // Load transcript
             const transcriptResult = await DatabaseService.getTranscriptEntries(meetingId);
+            await loadMeetingVocabulary(meeting);
             
             set((state) => {
               state.currentMeeting = meeting;
@@ -296,6 +502,7 @@ export const useMeetingStore = create<MeetingStore>()(
               state.currentMeeting = null;
               state.isInMeeting = false;
               state.transcript = [];
+              state.meetingNotes = [];
               state.participants = [];
               state.activeSpeaker = null;
               state.isRecording = false;
@@ -407,10 +614,17 @@ export const useMeetingStore = create<MeetingStore>()(
         },
 
         // Transcript management actions
-        addTranscriptEntry: async (entry) => {
+        addTranscriptEntry: async (newEntry) => {
           const meetingId = get().currentMeeting?.meetingId;
           if (!meetingId) return null;
 
+          const knownName = get().speakerNames[newEntry.speakerId];
+          const named = knownName && (!newEntry.speakerName || newEntry.speakerName === newEntry.speakerId)
+            ? { ...newEntry, speakerName: knownName }
+            : newEntry;
+          // Fragments are corrected once they complete
+          const entry = named.isComplete ? applyVocabulary(named) : named;
+
           try {
             const entryId = await DatabaseService.addTranscriptEntry(meetingId, entry);
 
@@ -446,6 +660,11 @@ export const useMeetingStore = create<MeetingStore>()(
               state.transcript.push({ ...entry, id: entryId });
             });
 
+            // Link the other speaker's entry back so the pair can be found from either side
+            if (entry.overlapsWith) {
+              void get().updateTranscriptEntry(entry.overlapsWith, { overlapsWith: entryId });
+            }
+
             return entryId;
           } catch (error) {
             set((state) => {
@@ -461,10 +680,12 @@ export const useMeetingStore = create<MeetingStore>()(
           }
         },
 
-        updateTranscriptEntry: async (entryId, updates) => {
+        updateTranscriptEntry: async (entryId, newUpdates) => {
           const meetingId = get().currentMeeting?.meetingId;
           if (!meetingId) return false;
 
+          const updates = applyVocabulary(newUpdates);
+
           try {
             await DatabaseService.updateTranscriptEntry(meetingId, entryId, updates);
 
@@ -491,6 +712,99 @@ export const useMeetingStore = create<MeetingStore>()(
           }
         },
 
+        applySpeakerCorrection: async (correction) => {
+          const { fromSpeakerId, toSpeakerId, timestamps } = correction;
+          const matches = (entry: TranscriptEntry) => {
+            if (entry.speakerId !== fromSpeakerId) return false;
+            if (!timestamps) return true;
+            const time = new Date(entry.timestamp).getTime();
+            return timestamps.some(ts => Math.abs(time - ts) <= SPEAKER_CORRECTION_TOLERANCE_MS);
+          };
+
+          const affected = get().transcript.filter(matches);
+          if (affected.length === 0) return 0;
+
+          // Keep a name the target speaker already has; unnamed entries just show the ID
+          const targetName = get().transcript.find(entry => entry.speakerId === toSpeakerId)?.speakerName || toSpeakerId;
+          const relabel = (entry: TranscriptEntry): Partial<TranscriptEntry> => ({
+            speakerId: toSpeakerId,
+            speaker: entry.speaker === fromSpeakerId ? toSpeakerId : entry.speaker,
+            speakerName: entry.speakerName === fromSpeakerId ? targetName : entry.speakerName,
+          });
+
+          set((state) => {
+            state.transcript.forEach((entry, index) => {
+              if (matches(entry)) {
+                state.transcript[index] = { ...entry, ...relabel(entry) };
+              }
+            });
+          });
+
+          const meetingId = get().currentMeeting?.meetingId;
+          if (!meetingId) return affected.length;
+
+          try {
+            await Promise.all(
+              affected
+                .filter(entry => entry.id)
+                .map(entry => DatabaseService.updateTranscriptEntry(meetingId, entry.id, relabel(entry)))
+            );
+          } catch (error) {
+            set((state) => {
+              state.transcriptError = {
+                code: 'TRANSCRIPT_RELABEL_FAILED',
+                message: 'Failed to save corrected speaker labels',
+                operation: 'applySpeakerCorrection',
+                cause: error as Error
+              };
+            });
+          }
+
+          return affected.length;
+        },
+
+        nameSpeaker: async (speakerId, name) => {
+          set((state) => {
+            state.speakerNames[speakerId] = name;
+          });
+
+          // Names someone already typed in are left alone
+          const isUnnamed = (entry: TranscriptEntry) =>
+            entry.speakerId === speakerId && (!entry.speakerName || entry.speakerName === speakerId);
+          const affected = get().transcript.filter(isUnnamed);
+          if (affected.length === 0) return 0;
+
+          set((state) => {
+            state.transcript.forEach((entry, index) => {
+              if (isUnnamed(entry)) {
+                state.transcript[index] = { ...entry, speakerName: name };
+              }
+            });
+          });
+
+          const meetingId = get().currentMeeting?.meetingId;
+          if (!meetingId) return affected.length;
+
+          try {
+            await Promise.all(
+              affected
+                .filter(entry => entry.id)
+                .map(entry => DatabaseService.updateTranscriptEntry(meetingId, entry.id, { speakerName: name }))
+            );
+          } catch (error) {
+            set((state) => {
+              state.transcriptError = {
+                code: 'TRANSCRIPT_RELABEL_FAILED',
+                message: 'Failed to save speaker name',
+                operation: 'nameSpeaker',
+                cause: error as Error
+              };
+            });
+          }
+
+          return affected.length;
+        },
+
         deleteTranscriptEntry: async (entryId) => {
           const meetingId = get().currentMeeting?.meetingId;
           if (!meetingId) return false;
@@ -772,10 +1086,21 @@ export const useMeetingStore = create<MeetingStore>()(
               }
             );
 
+            // Listen to notes written by the notes agent
+            const notesListener = RealtimeService.listenToMeetingNotes(
+              meetingId,
+              (update: RealtimeUpdate<MeetingNote>) => {
+                set((state) => {
+                  state.meetingNotes = update.data;
+                });
+              }
+            );
+
             // Store listeners for cleanup using Immer-safe state update
             set((state) => {
               state.listeners.set('meeting', meetingListener);
               state.listeners.set('transcript', transcriptListener);
+              state.listeners.set('notes', notesListener);
             });
 
           } catch (error) {
@@ -869,9 +1194,11 @@ export const useMeetingStore = create<MeetingStore>()(
             state.isLoadingTranscript = false;
             state.transcriptError = null;
             state.fragmentBuffer = [];
+            state.meetingNotes = [];
             state.participants = [];
             state.connectedParticipants = [];
             state.speakerProfiles = [];
+            state.speakerNames = {};
             state.activeSpeaker = null;
             state.isRecording = false;
             state.isPaused = false;
@@ -912,6 +1239,9 @@ export const useMeeting = () => {
     transcriptError: store.transcriptError,
     fragmentBuffer: store.fragmentBuffer,
     
+    // Notes
+    meetingNotes: store.meetingNotes,
+    
     // Participants
     participants: store.participants,
     activeSpeaker: store.activeSpeaker,
@@ -939,6 +1269,7 @@ export const useMeeting = () => {
 // Selector hooks for specific state
 export const useCurrentMeeting = () => useMeetingStore((state) => state.currentMeeting);
 export const useMeetingTranscript = () => useMeetingStore((state) => state.transcript);
+export const useMeetingNotes = () => useMeetingStore((state) => state.meetingNotes);
 export const useMeetingParticipants = () => useMeetingStore((state) => state.participants);
 export const useMeetingRecordingState = () => useMeetingStore((state) => ({
   isRecording: state.isRecording,
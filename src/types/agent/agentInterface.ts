@@ -1,12 +1,22 @@
+import type { CustomRule, Meeting, MeetingNote } from '@/types';
+
 // Base Agent Interface
 export interface AgentContext {
   meetingId?: string;
+  userId?: string;
   meetingType?: string;
   transcript?: string;
+  speakerId?: string;
+  speakerName?: string;
+  timestamp?: Date;
+  meetingStartTime?: Date;
   participants?: Array<{ id: string; name?: string }>;
   keywords?: string[];
   query?: string;
   rule?: Record<string, any>;
+  db?: AgentDataAccess;
+  // Aborted when the orchestrator stops waiting for the agent; nothing should be written after that
+  signal?: AbortSignal;
 }
 
 export interface AgentResult {
@@ -23,6 +33,18 @@ export interface Permissions {
   execute: string[]; // Function names
 }
 
+// Permission-scoped data access handed to agents by the orchestrator
+export interface AgentDataAccess {
+  getMeeting(meetingId: string): Promise<Meeting | null>;
+  updateMeeting(meetingId: string, updates: Partial<Meeting>): Promise<void>;
+  addMeetingNote(meetingId: string, note: Omit<MeetingNote, 'id' | 'meetingId' | 'createdAt'>): Promise<string>;
+  getMeetingNotes(meetingId: string, options?: { since?: Date; limit?: number }): Promise<MeetingNote[]>;
+  searchMeetingNotes(meetingId: string, searchTerm: string, options?: { since?: Date; limit?: number }): Promise<MeetingNote[]>;
+  getUserCustomRules(userId: string): Promise<CustomRule[]>;
+  createCustomRule(rule: Omit<CustomRule, 'createdAt'>): Promise<string>;
+  updateCustomRule(ruleId: string, updates: Partial<CustomRule>): Promise<void>;
+}
+
 export interface Agent {
   id: string;
   name: string;
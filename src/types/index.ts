@@ -1,3 +1,5 @@
+import type { ActionItem } from '@/services/universal-assistant/FragmentProcessor';
+
 // User types
 export interface User {
     uid: string;
@@ -9,6 +11,7 @@ export interface User {
     lastActive: Date;
     emailVerified?: boolean;
     lastLoginAt?: string;
+    voiceProfileId?: string | null; // Reference profile recorded through voice enrollment
   }
   
   export interface UserPreferences {
@@ -73,8 +76,79 @@ export interface User {
     lastSeen: Date;
     confidence: number;
     sessionCount: number;
+    // Set on reference profiles recorded through the enrollment wizard
+    enrolled?: boolean;
+    userId?: string;
+    embeddingVersion?: string;
+    enrollmentSamples?: EnrollmentSample[];
+    enrolledAt?: Date;
+    // What the person whose voice this is agreed the profile may be used for
+    consentRecords?: VoiceConsentRecord[];
+    // Migrated from a backup that predates consent records; cleared once consent is recorded
+    consentPending?: boolean;
   }
-  
+
+  export type VoiceConsentScope = 'identification' | 'cross_meeting_recognition';
+
+  export interface VoiceConsentRecord {
+    // UID of the user who gave consent, normally the person whose voice it is
+    consentedBy: string;
+    consentedAt: Date;
+    scopes: VoiceConsentScope[];
+  }
+
+  export interface EnrollmentSample {
+    phrase: string;
+    embedding: number[];
+    durationSeconds: number;
+    snrDb: number;
+  }
+
+  // A person recognized across meetings, stored under /users/{uid}/speakerIdentities
+  export interface SpeakerIdentity {
+    identityId: string;
+    name: string;
+    // Lowercased name used for lookups
+    nameKey: string;
+    voiceProfileIds: string[];
+    voiceEmbedding?: number[];
+    embeddingVersion?: string;
+    meetingIds: string[];
+    appearances: SpeakerAppearance[];
+    totalTalkTimeSeconds: number;
+    totalUtterances: number;
+    commonPhrases: string[];
+    firstSeen: Date;
+    lastSeen: Date;
+  }
+
+  // One meeting's worth of speech linked to a SpeakerIdentity
+  export interface SpeakerAppearance {
+    meetingId: string;
+    meetingTitle: string;
+    meetingDate: Date;
+    // Diarization labels in that meeting, e.g. speaker_1
+    speakerIds: string[];
+    talkTimeSeconds: number;
+    utteranceCount: number;
+    commonPhrases: string[];
+  }
+
+  // Glossary term for transcription, stored under /users/{uid}/glossary
+  export interface GlossaryTerm {
+    termId: string;
+    // Spelling transcripts should use
+    term: string;
+    // The term written the way it sounds, e.g. "cube control" for kubectl
+    phoneticHints: string[];
+    // Known misspellings of the term
+    replacements: string[];
+    // Seeded terms come from the meeting itself and are never stored
+    source: 'manual' | 'meeting_keyword' | 'participant';
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
   // Meeting types
   export enum MeetingType {
     BRAINSTORMING = 'brainstorming',
@@ -106,6 +180,8 @@ export interface User {
     transcript: TranscriptEntry[];
     notes: string[];
     keywords: string[];
+    // Picked out of the transcript by the context agent; kept apart from the keywords people set
+    detectedKeywords?: string[];
     appliedRules: string[];
     startTime: Date;
     endTime?: Date;
@@ -130,9 +206,15 @@ export interface User {
       totalSpeakers: number;
       averageWPM: number;
       topics: string[];
+      overlapCount?: number;
+      // Interruptions made by each speaker, keyed by speaker name
+      interruptionsBySpeaker?: Record<string, number>;
     };
     summary?: string;
     actionItems?: string[];
+    // Structured form of actionItems, filled in when the meeting is finalized
+    actionItemDetails?: ActionItem[];
+    finalizedAt?: Date;
     createdAt: Date;
     updatedAt: Date;
   }
@@ -170,6 +252,10 @@ export interface User {
     isFragment: boolean;
     isComplete: boolean;
     isProcessed: boolean;
+    // ID of another speaker's entry spoken at the same time; set on both entries
+    overlapsWith?: string;
+    // Set when this entry cut into that speaker's unfinished turn
+    interruptedSpeakerId?: string;
     metadata?: {
       volume: number;
       pace: number;
@@ -178,6 +264,20 @@ export interface User {
     };
   }
   
+  // Meeting note types (stored under /meetings/{meetingId}/notes)
+  export interface MeetingNote {
+    id: string;
+    meetingId: string;
+    content: string;
+    speakerId?: string;
+    speakerName?: string;
+    category?: string;
+    keywords: string[];
+    source: string;
+    timestamp: Date;
+    createdAt: Date;
+  }
+
   // AI types
   export type AIModel = 
     | 'gpt-4o'
@@ -191,7 +291,10 @@ export interface User {
     | 'gpt-5-nano'
     | 'gpt-5'
     | 'gpt-4.1-nano'
-  
+
+  // 'wake_word' answers only requests that follow the assistant's wake phrase
+  export type AssistantActivationMode = 'always' | 'wake_word';
+
   export interface AIResponse {
     text: string;
     model: AIModel;
@@ -131,7 +131,7 @@ export const useMeetingIntegration = () => {
           userName: user.displayName || 'Host',
           displayName: user.displayName || 'Host',
           email: user.email || '',
-          voiceProfileId: 'default',
+          voiceProfileId: user.voiceProfileId || 'default',
           role: 'host' as const,
           joinTime: new Date(),
           joinedAt: new Date(),
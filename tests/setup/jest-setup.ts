@@ -69,6 +69,9 @@ jest.mock('firebase/firestore', () => ({
   increment: jest.fn(),
 }));
 
+// The Lite SDK pulls in undici, which needs web streams jsdom does not provide
+jest.mock('firebase/firestore/lite', () => jest.requireMock('firebase/firestore'));
+
 jest.mock('firebase/app', () => ({
   initializeApp: jest.fn(() => ({ name: 'mock-app' })),
   getApps: jest.fn(() => []),
@@ -120,6 +123,12 @@ jest.mock('firebase-admin', () => ({
   })),
 }));
 
+// nanoid is published as ESM only; a counter keeps ids unique within a test file
+let mockNanoidCounter = 0;
+jest.mock('nanoid', () => ({
+  nanoid: (size: number = 21) => `id${++mockNanoidCounter}`.padStart(size, '0'),
+}));
+
 // Mock Next.js modules
 jest.mock('next/navigation', () => ({
   useRouter: () => ({
@@ -0,0 +1,178 @@
+/**
+ * Tests for agent permissions: declared paths, writes from agents the orchestrator
+ * stopped waiting for, reported operations, and merging agent keywords into meetings
+ */
+
+import { describe, expect, jest, test } from '@jest/globals';
+import {
+  AgentAbortedError,
+  AgentPermissionError,
+  assertAgentPermission,
+  createAgentDataAccess,
+  isPathPermitted,
+} from '@/agents/AgentDataAccess';
+import { AgentOrchestrator } from '@/agents/AgentOrchestrator';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { MeetingType, type Meeting } from '@/types';
+import { AgentType, type Agent, type AgentContext, type AgentResult, type Permissions } from '@/types/agent/agentInterface';
+
+const NOTES_WRITER: Pick<Agent, 'id' | 'permissions'> = {
+  id: 'notes_writer',
+  permissions: { read: ['/meetings'], write: ['/meetings/{meetingId}/notes'], execute: ['summarize'] },
+};
+
+const NOTE = { content: 'Ship on Friday', keywords: [], source: 'agent', timestamp: new Date() };
+
+const createMeeting = (overrides: Partial<Meeting> = {}) => ({
+  meetingId: 'meeting_1',
+  hostId: 'user_1',
+  type: MeetingType.BRAINSTORMING,
+  participants: [],
+  keywords: [],
+  appliedRules: [],
+  ...overrides,
+}) as unknown as Meeting;
+
+const createAgent = (
+  execute: (context: AgentContext) => Promise<AgentResult>,
+  permissions: Permissions = NOTES_WRITER.permissions
+): Agent => ({ id: 'test_agent', name: 'Test Agent', type: AgentType.CONTEXT_SOURCING, permissions, execute });
+
+const createOrchestrator = (agent: Agent, meeting: Meeting = createMeeting(), mergeIntoMeeting = false) => {
+  const orchestrator = new AgentOrchestrator([agent], { mergeIntoMeeting });
+  orchestrator.setMeetingProvider(() => meeting);
+  return orchestrator;
+};
+
+const utterance = (text = 'Let us ship on Friday') => ({ text, speakerId: 'speaker_1', timestamp: 0 });
+
+describe('isPathPermitted', () => {
+  test('grants a collection and the documents directly inside it', () => {
+    expect(isPathPermitted(['/meetings/{meetingId}/notes'], '/meetings/m1/notes')).toBe(true);
+    expect(isPathPermitted(['/meetings/{meetingId}/notes'], 'meetings/m1/notes/n1')).toBe(true);
+  });
+
+  test('denies parents, deeper subcollections and other collections', () => {
+    expect(isPathPermitted(['/meetings/{meetingId}/notes'], '/meetings/m1')).toBe(false);
+    expect(isPathPermitted(['/meetings'], '/meetings/m1/notes')).toBe(false);
+    expect(isPathPermitted(['/meetings'], '/meetingsArchive/m1')).toBe(false);
+    expect(isPathPermitted([], '/meetings/m1')).toBe(false);
+  });
+});
+
+describe('assertAgentPermission', () => {
+  test('throws a permission error naming the agent, mode and path', () => {
+    expect(() => assertAgentPermission(NOTES_WRITER, 'write', '/customRules')).toThrow(
+      expect.objectContaining({ name: 'AgentPermissionError', agentId: 'notes_writer', mode: 'write', path: '/customRules' })
+    );
+  });
+
+  test('checks functions by name', () => {
+    expect(() => assertAgentPermission(NOTES_WRITER, 'execute', 'summarize')).not.toThrow();
+    expect(() => assertAgentPermission(NOTES_WRITER, 'execute', 'extractKeywords')).toThrow(AgentPermissionError);
+  });
+});
+
+describe('createAgentDataAccess', () => {
+  test('refuses undeclared paths before reaching the database', async () => {
+    const updateMeeting = jest.spyOn(DatabaseService, 'updateMeeting').mockResolvedValue(undefined);
+    const db = createAgentDataAccess(NOTES_WRITER);
+
+    await expect(db.updateMeeting('m1', { title: 'Renamed' })).rejects.toBeInstanceOf(AgentPermissionError);
+    await expect(db.getUserCustomRules('user_1')).rejects.toBeInstanceOf(AgentPermissionError);
+    expect(updateMeeting).not.toHaveBeenCalled();
+  });
+
+  test('refuses writes once aborted but still allows reads', async () => {
+    const addMeetingNote = jest.spyOn(DatabaseService, 'addMeetingNote').mockResolvedValue('note_1');
+    jest.spyOn(DatabaseService, 'getMeeting').mockResolvedValue(null);
+    const controller = new AbortController();
+    const db = createAgentDataAccess(NOTES_WRITER, controller.signal);
+
+    await expect(db.addMeetingNote('m1', NOTE)).resolves.toBe('note_1');
+    controller.abort();
+
+    await expect(db.addMeetingNote('m1', NOTE)).rejects.toBeInstanceOf(AgentAbortedError);
+    await expect(db.getMeeting('m1')).resolves.toBeNull();
+    expect(addMeetingNote).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AgentOrchestrator permissions', () => {
+  test('rejects writes from an agent that timed out', async () => {
+    const addMeetingNote = jest.spyOn(DatabaseService, 'addMeetingNote').mockResolvedValue('note_1');
+    let release: () => void = () => {};
+    const released = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    let writeError: unknown;
+    const agent = createAgent(async (context) => {
+      await released;
+      try {
+        await context.db?.addMeetingNote('meeting_1', NOTE);
+      } catch (error) {
+        writeError = error;
+      }
+      return { success: true, operations: ['write'] };
+    });
+
+    const pending = createOrchestrator(agent).handleTranscript(utterance());
+    jest.advanceTimersByTime(5000);
+    const result = await pending;
+    release();
+    await released;
+    await Promise.resolve();
+
+    expect(result?.agentResults[0]).toMatchObject({ success: false, timedOut: true });
+    expect(writeError).toBeInstanceOf(AgentAbortedError);
+    expect(addMeetingNote).not.toHaveBeenCalled();
+  });
+
+  test('fails an agent that reports an operation it has no permission for', async () => {
+    const agent = createAgent(async () => ({ success: true, operations: ['read', 'write'] }), {
+      read: ['/meetings'],
+      write: [],
+      execute: [],
+    });
+
+    const result = await createOrchestrator(agent).handleTranscript(utterance());
+
+    expect(result?.agentResults[0]).toMatchObject({
+      success: false,
+      error: "Agent test_agent reported a 'write' operation it has no permission for",
+    });
+  });
+});
+
+describe('AgentOrchestrator keyword merging', () => {
+  const keywordAgent = (keywords: string[]) => createAgent(async () => ({ success: true, data: { keywords } }));
+
+  test('stores detected keywords apart from the keywords people set', async () => {
+    const updateMeeting = jest.spyOn(DatabaseService, 'updateMeeting').mockResolvedValue(undefined);
+    const meeting = createMeeting({ keywords: ['roadmap'], detectedKeywords: ['friday'] });
+
+    await createOrchestrator(keywordAgent(['ship', 'friday']), meeting, true).handleTranscript(utterance());
+
+    expect(updateMeeting).toHaveBeenCalledWith('meeting_1', { detectedKeywords: ['ship', 'friday'] });
+  });
+
+  test('keeps the most recent keywords once the list is full', async () => {
+    const updateMeeting = jest.spyOn(DatabaseService, 'updateMeeting').mockResolvedValue(undefined);
+    const meeting = createMeeting({ detectedKeywords: ['budget', 'hiring', 'launch'] });
+    const orchestrator = createOrchestrator(keywordAgent(['pricing']), meeting, true);
+    orchestrator.updateConfig({ maxKeywords: 3 });
+
+    await orchestrator.handleTranscript(utterance());
+
+    expect(updateMeeting).toHaveBeenCalledWith('meeting_1', { detectedKeywords: ['hiring', 'launch', 'pricing'] });
+  });
+
+  test('saves nothing when the keywords are unchanged', async () => {
+    const updateMeeting = jest.spyOn(DatabaseService, 'updateMeeting').mockResolvedValue(undefined);
+    const meeting = createMeeting({ detectedKeywords: ['ship', 'friday'] });
+
+    await createOrchestrator(keywordAgent(['friday']), meeting, true).handleTranscript(utterance());
+
+    expect(updateMeeting).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for barge-in detection: learning the echo level of the assistant's own
+ * playback, ducking then stopping on sustained speech, and ignoring short bursts
+ */
+
+import { describe, expect, jest, test } from '@jest/globals';
+import type { AudioManager } from '@/services/universal-assistant/AudioManager';
+import { BargeInDetector, type BargeInConfig, type BargeInEvent } from '@/services/universal-assistant/BargeInDetector';
+import type { EnhancedAudioManager } from '@/services/universal-assistant/EnhancedAudioManager';
+
+// [time in ms, level, confidence]
+type Frame = [number, number, number?];
+
+const createDetector = (config: Partial<BargeInConfig> = {}) => {
+  let playing = true;
+  const playback = {
+    isPlaying: () => playing,
+    duckPlayback: jest.fn(),
+    unduckPlayback: jest.fn(),
+  };
+  const detector = new BargeInDetector({} as EnhancedAudioManager, playback as unknown as AudioManager, config);
+  const events: BargeInEvent[] = [];
+  detector.onBargeIn(event => events.push(event));
+
+  const play = (frames: Frame[]) => frames.forEach(([now, level, confidence = 0.9]) => {
+    detector.process({ level, confidence }, now);
+  });
+  // The assistant alone, for the first 300ms of a reply
+  const calibrate = (echoLevel: number, from = 0) => {
+    for (let now = from; now < from + 300; now += 50) {
+      detector.process({ level: echoLevel, confidence: 0.2 }, now);
+    }
+  };
+  const setPlaying = (value: boolean) => {
+    playing = value;
+  };
+  return { detector, playback, events, play, calibrate, setPlaying };
+};
+
+// Frames every 50ms over a span of time
+const frames = (from: number, to: number, level: number, confidence?: number): Frame[] =>
+  Array.from({ length: Math.floor((to - from) / 50) + 1 }, (_, i) => [from + i * 50, level, confidence]);
+
+// Listeners run on a microtask
+const flush = () => Promise.resolve();
+
+describe('BargeInDetector', () => {
+  test('learns the echo level at the start of playback', () => {
+    const { detector, calibrate } = createDetector();
+    calibrate(0.05);
+    expect(detector.getEchoLevel()).toBeCloseTo(0.05);
+  });
+
+  test('ducks and then stops playback when someone keeps talking over it', async () => {
+    const { playback, events, play, calibrate } = createDetector();
+    calibrate(0.05);
+
+    play(frames(300, 400, 0.3));
+    expect(playback.duckPlayback).not.toHaveBeenCalled();
+    play(frames(450, 650, 0.3));
+    expect(playback.duckPlayback).toHaveBeenCalledWith(0.3);
+    await flush();
+    expect(events).toEqual([]);
+
+    play([[700, 0.3]]);
+    await flush();
+    expect(events).toEqual([{ timestamp: 700, speechDurationMs: 400, level: 0.3, echoLevel: expect.any(Number), confidence: 0.9 }]);
+    expect(events[0].echoLevel).toBeCloseTo(0.05);
+  });
+
+  test('undoes ducking after a short burst of speech', async () => {
+    const { playback, events, play, calibrate } = createDetector();
+    calibrate(0.05);
+
+    play(frames(300, 450, 0.3));
+    expect(playback.duckPlayback).toHaveBeenCalledTimes(1);
+    play(frames(500, 650, 0.05));
+
+    expect(playback.unduckPlayback).toHaveBeenCalledTimes(1);
+    await flush();
+    expect(events).toEqual([]);
+  });
+
+  test('treats short pauses as part of the same speech', async () => {
+    const { events, play, calibrate } = createDetector();
+    calibrate(0.05);
+
+    play([[300, 0.3], [350, 0.05], [400, 0.05], [450, 0.3], [500, 0.3], [550, 0.3], [600, 0.3], [650, 0.3], [700, 0.3]]);
+    await flush();
+
+    expect(events.map(event => event.speechDurationMs)).toEqual([400]);
+  });
+
+  test('ignores the assistant echo, however long it plays', async () => {
+    const { playback, events, play, calibrate } = createDetector();
+    calibrate(0.1);
+
+    // Louder than calibration, but not by the echo margin
+    play(frames(300, 2000, 0.2));
+    // Loud but not voice-like
+    play(frames(2050, 3000, 0.5, 0.3));
+    await flush();
+
+    expect(playback.duckPlayback).not.toHaveBeenCalled();
+    expect(events).toEqual([]);
+  });
+
+  test('needs speech above the minimum level when playback is silent', async () => {
+    const { events, play, calibrate } = createDetector();
+    calibrate(0);
+
+    play(frames(300, 800, 0.01));
+    await flush();
+    expect(events).toEqual([]);
+
+    play(frames(850, 1250, 0.05));
+    await flush();
+    expect(events).toHaveLength(1);
+  });
+
+  test('does nothing while nothing is playing and recalibrates for the next reply', async () => {
+    const { detector, playback, events, play, calibrate, setPlaying } = createDetector();
+    setPlaying(false);
+    play(frames(0, 1000, 0.3));
+    expect(playback.duckPlayback).not.toHaveBeenCalled();
+
+    setPlaying(true);
+    calibrate(0.3, 1050);
+    expect(detector.getEchoLevel()).toBeCloseTo(0.3);
+
+    // Against the louder reply's echo this is not clearly someone else talking
+    play(frames(1350, 1750, 0.5));
+    await flush();
+    expect(events).toEqual([]);
+  });
+
+  test('does nothing when disabled', async () => {
+    const { detector, events, play, calibrate } = createDetector();
+    calibrate(0.05);
+    detector.updateConfig({ enabled: false });
+
+    play(frames(300, 1000, 0.3));
+    await flush();
+
+    expect(events).toEqual([]);
+  });
+});
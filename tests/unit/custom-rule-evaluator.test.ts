@@ -0,0 +1,118 @@
+/**
+ * Tests for custom rule evaluation in ContextSourcingAgent
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { evaluateCustomRule, evaluateRuleCondition, toRegExp } from '@/agents/utils/customRuleEvaluator';
+import type { CustomRule, RuleCondition } from '@/types';
+
+const condition = (overrides: Partial<RuleCondition>): RuleCondition => ({
+  type: 'keyword',
+  operator: 'contains',
+  value: '',
+  ...overrides,
+} as RuleCondition);
+
+describe('toRegExp', () => {
+  test('compiles plain sources and /source/flags literals case-insensitively', () => {
+    expect(toRegExp('deadline').test('DEADLINE moved')).toBe(true);
+    expect(toRegExp('/^budget/m').flags).toBe('im');
+  });
+
+  test('drops stateful flags', () => {
+    const regex = toRegExp('/risk/gy');
+    expect(regex.flags).toBe('i');
+    expect(regex.test('risk')).toBe(true);
+    expect(regex.test('risk')).toBe(true);
+  });
+});
+
+describe('evaluateRuleCondition', () => {
+  test('keyword contains matches any comma separated keyword', () => {
+    const result = evaluateRuleCondition(condition({ value: 'Budget, Deadline' }), { text: 'The deadline slipped' });
+    expect(result.matched).toBe(true);
+    expect(result.reason).toContain('deadline');
+  });
+
+  test('keyword equals needs a whole word', () => {
+    const rule = condition({ operator: 'equals', value: 'plan' });
+    expect(evaluateRuleCondition(rule, { text: 'the plan is set' }).matched).toBe(true);
+    expect(evaluateRuleCondition(rule, { text: 'planning continues' }).matched).toBe(false);
+  });
+
+  test('keyword matches keeps uppercase escapes intact', () => {
+    const rule = condition({ operator: 'matches', value: 'ticket \\D+' });
+    expect(evaluateRuleCondition(rule, { text: 'ticket abc' }).matched).toBe(true);
+    expect(evaluateRuleCondition(rule, { text: 'ticket 123' }).matched).toBe(false);
+  });
+
+  test('keyword matches keeps quantifiers with commas intact', () => {
+    const rule = condition({ operator: 'matches', value: '^\\d{1,3} items?$' });
+    expect(evaluateRuleCondition(rule, { text: '12 items' }).matched).toBe(true);
+    expect(evaluateRuleCondition(rule, { text: '1234 items' }).matched).toBe(false);
+  });
+
+  test('speaker matches tests the original name', () => {
+    const rule = condition({ type: 'speaker', operator: 'matches', value: '^\\S+ Smith$' });
+    expect(evaluateRuleCondition(rule, { text: '', speakerName: 'Jane Smith' }).matched).toBe(true);
+    expect(evaluateRuleCondition(rule, { text: '', speakerName: 'Jane Doe' }).matched).toBe(false);
+  });
+
+  test('speaker equals and contains ignore case', () => {
+    expect(evaluateRuleCondition(
+      condition({ type: 'speaker', operator: 'equals', value: 'jane' }),
+      { text: '', speakerName: 'Jane' }
+    ).matched).toBe(true);
+    expect(evaluateRuleCondition(
+      condition({ type: 'speaker', operator: 'contains', value: 'SMITH' }),
+      { text: '', speakerId: 'jane.smith' }
+    ).matched).toBe(true);
+  });
+
+  test('time compares elapsed minutes', () => {
+    const rule = condition({ type: 'time', operator: 'greater', value: 30 });
+    expect(evaluateRuleCondition(rule, { text: '', elapsedMinutes: 31 }).matched).toBe(true);
+    expect(evaluateRuleCondition(rule, { text: '', elapsedMinutes: 29 }).matched).toBe(false);
+    expect(evaluateRuleCondition(rule, { text: '' }).reason).toBe('meeting start time unknown');
+  });
+
+  test('rejects operators that do not fit the condition type', () => {
+    const result = evaluateRuleCondition(condition({ type: 'time', operator: 'matches', value: '5' }), { text: '' });
+    expect(result.matched).toBe(false);
+    expect(result.reason).toContain('not valid');
+  });
+
+  test('invalid patterns fail instead of throwing', () => {
+    const result = evaluateRuleCondition(condition({ type: 'pattern', operator: 'matches', value: '(' }), { text: '(' });
+    expect(result.matched).toBe(false);
+    expect(result.reason).toContain('could not be evaluated');
+  });
+});
+
+describe('evaluateCustomRule', () => {
+  const rule = (conditions: RuleCondition[]): CustomRule => ({
+    ruleId: 'rule_1',
+    userId: 'user_1',
+    name: 'Deadline after half an hour',
+    description: '',
+    meetingTypes: [],
+    conditions,
+    actions: [],
+    priority: 1,
+    enabled: true,
+    createdAt: new Date(),
+  });
+
+  test('matches only when every condition matches', () => {
+    const conditions = [
+      condition({ value: 'deadline' }),
+      condition({ type: 'time', operator: 'greater', value: 30 }),
+    ];
+    expect(evaluateCustomRule(rule(conditions), { text: 'deadline', elapsedMinutes: 45 }).matched).toBe(true);
+    expect(evaluateCustomRule(rule(conditions), { text: 'deadline', elapsedMinutes: 10 }).matched).toBe(false);
+  });
+
+  test('rules without conditions never match', () => {
+    expect(evaluateCustomRule(rule([]), { text: 'anything' }).matched).toBe(false);
+  });
+});
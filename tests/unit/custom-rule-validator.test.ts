@@ -0,0 +1,196 @@
+/**
+ * Tests for custom rule validation and duplicate detection in RulesetManagerAgent
+ */
+
+import { describe, expect, jest, test } from '@jest/globals';
+import { MeetingType } from '@/types';
+import type { CustomRule } from '@/types';
+import type { AgentDataAccess } from '@/types/agent/agentInterface';
+import type { Rule } from '@/config/gatekeeper/ruleDefinitions';
+import {
+  buildRuleValidationReport,
+  findDuplicateRules,
+  isUnsafePattern,
+  validateCustomRule,
+  validateGatekeeperRule,
+} from '@/agents/utils/customRuleValidator';
+import { RulesetManagerAgent } from '@/agents/RulesetManagerAgent';
+
+const createRule = (overrides: Partial<CustomRule> = {}): CustomRule => ({
+  ruleId: 'rule_1',
+  userId: 'user_1',
+  name: 'Flag blockers',
+  description: '',
+  meetingTypes: [MeetingType.STANDUP],
+  conditions: [{ type: 'keyword', operator: 'contains', value: 'blocked, stuck' }],
+  actions: [{ type: 'highlight', parameters: {} }],
+  priority: 1,
+  enabled: true,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const codes = (rule: Partial<CustomRule>) => validateCustomRule(rule).map(issue => issue.code);
+
+describe('isUnsafePattern', () => {
+  test.each(['(a+)+', '(\\w*)*', '(a|aa)+', '(x+){2,}', '(a)\\1'])('flags %s', (source) => {
+    expect(isUnsafePattern(source)).toBe(true);
+  });
+
+  test.each(['\\d{1,3}', 'ticket \\D+', '(foo|bar)+', '^status: (green|red)$'])('allows %s', (source) => {
+    expect(isUnsafePattern(source)).toBe(false);
+  });
+});
+
+describe('validateCustomRule', () => {
+  test('accepts a complete rule', () => {
+    expect(validateCustomRule(createRule())).toEqual([]);
+  });
+
+  test('requires a name, owner, conditions and actions', () => {
+    expect(codes({})).toEqual(expect.arrayContaining(['MISSING_NAME', 'MISSING_USER', 'NO_CONDITIONS', 'NO_ACTIONS']));
+  });
+
+  test('rejects operators that do not fit the condition type', () => {
+    expect(codes(createRule({ conditions: [{ type: 'time', operator: 'contains', value: 5 }] }))).toContain('INVALID_OPERATOR');
+  });
+
+  test('rejects negative or non-numeric time values', () => {
+    expect(codes(createRule({ conditions: [{ type: 'time', operator: 'greater', value: -1 }] }))).toContain('INVALID_TIME');
+    expect(codes(createRule({ conditions: [{ type: 'time', operator: 'greater', value: 'soon' }] }))).toContain('INVALID_TIME');
+  });
+
+  test('rejects patterns that do not compile or can backtrack', () => {
+    expect(codes(createRule({ conditions: [{ type: 'pattern', operator: 'matches', value: '(' }] }))).toContain('INVALID_PATTERN');
+    expect(codes(createRule({ conditions: [{ type: 'pattern', operator: 'matches', value: '/(a+)+$/i' }] }))).toContain('UNSAFE_PATTERN');
+    expect(codes(createRule({ conditions: [{ type: 'pattern', operator: 'matches', value: 'x'.repeat(201) }] }))).toContain('PATTERN_TOO_LONG');
+  });
+
+  test('warns when no meeting types are selected or a response is empty', () => {
+    const issues = validateCustomRule(createRule({ meetingTypes: [], actions: [{ type: 'respond', parameters: {} }] }));
+    expect(issues.every(issue => issue.severity === 'warning')).toBe(true);
+    expect(issues.map(issue => issue.code)).toEqual(['ALL_MEETING_TYPES', 'MISSING_RESPONSE']);
+  });
+});
+
+describe('findDuplicateRules', () => {
+  test('finds rules with the same name regardless of case', () => {
+    const matches = findDuplicateRules(createRule({ ruleId: 'new' }), [createRule({ name: 'FLAG BLOCKERS', conditions: [] })]);
+    expect(matches.map(match => match.reason)).toContain('same_name');
+  });
+
+  test('finds identical conditions whatever the keyword order', () => {
+    const existing = createRule({ ruleId: 'old', name: 'Old' });
+    const rule = createRule({ ruleId: 'new', name: 'New', conditions: [{ type: 'keyword', operator: 'contains', value: 'Stuck,blocked' }] });
+    expect(findDuplicateRules(rule, [existing])).toEqual([
+      expect.objectContaining({ ruleId: 'old', reason: 'identical_conditions' }),
+    ]);
+  });
+
+  test('reports overlapping keywords with the overlap ratio', () => {
+    const existing = createRule({ ruleId: 'old', name: 'Old', conditions: [{ type: 'keyword', operator: 'contains', value: 'blocked, waiting' }] });
+    const [match] = findDuplicateRules(createRule({ ruleId: 'new', name: 'New' }), [existing]);
+    expect(match.reason).toBe('overlapping_keywords');
+    expect(match.overlap).toBe(0.5);
+  });
+
+  test('ignores the rule itself and rules for other meeting types', () => {
+    const rule = createRule();
+    const other = createRule({ ruleId: 'other', name: 'Other', meetingTypes: [MeetingType.CLIENT_MEETING] });
+    expect(findDuplicateRules(rule, [rule, other])).toEqual([]);
+  });
+
+  test('does not split regex keywords on commas', () => {
+    const existing = createRule({ ruleId: 'old', name: 'Old', conditions: [{ type: 'keyword', operator: 'contains', value: 'a, 3' }] });
+    const rule = createRule({ ruleId: 'new', name: 'New', conditions: [{ type: 'keyword', operator: 'matches', value: 'a{1,3}' }] });
+    expect(findDuplicateRules(rule, [existing])).toEqual([]);
+  });
+});
+
+describe('buildRuleValidationReport', () => {
+  test('is invalid when a duplicate exists even without errors', () => {
+    const report = buildRuleValidationReport(createRule({ ruleId: 'new' }), [createRule({ ruleId: 'old' })]);
+    expect(report.errors).toEqual([]);
+    expect(report.valid).toBe(false);
+    expect(report.duplicates.length).toBeGreaterThan(0);
+  });
+});
+
+describe('validateGatekeeperRule', () => {
+  const gatekeeperRule = (conditions: Rule['conditions']): Rule => ({
+    id: 'gk_1',
+    name: 'Gatekeeper rule',
+    conditions,
+    actions: [{ type: 'respond', template: 'Noted' }],
+    priority: 1,
+    confidence: 1,
+  });
+
+  test('accepts plain keyword rules', () => {
+    expect(validateGatekeeperRule(gatekeeperRule([{ type: 'keyword', operator: 'contains', value: ['blocked'] }]))).toEqual([]);
+  });
+
+  test('checks patterns and speaker regexes, including inside composite conditions', () => {
+    const issues = validateGatekeeperRule(gatekeeperRule([
+      { type: 'any', conditions: [{ type: 'pattern', operator: 'matches', value: '(a+)+' }] },
+      { type: 'speaker', operator: 'matches', value: ['ok', '['] },
+    ]));
+    expect(issues.map(issue => [issue.field, issue.code])).toEqual([
+      ['conditions[0].conditions[0].value', 'UNSAFE_PATTERN'],
+      ['conditions[1].value', 'INVALID_PATTERN'],
+    ]);
+  });
+
+  test('requires an id, conditions and actions', () => {
+    expect(validateGatekeeperRule({}).map(issue => issue.code)).toEqual(['MISSING_ID', 'NO_CONDITIONS', 'NO_ACTIONS']);
+  });
+});
+
+describe('RulesetManagerAgent', () => {
+  const createDb = (existing: CustomRule[]) => {
+    const createCustomRule = jest.fn(async (_rule: Omit<CustomRule, 'createdAt'>) => 'doc_1');
+    const updateCustomRule = jest.fn(async (_ruleId: string, _updates: Partial<CustomRule>) => undefined);
+    const db = {
+      getUserCustomRules: jest.fn(async (_userId: string) => existing),
+      createCustomRule,
+      updateCustomRule,
+    } as unknown as AgentDataAccess;
+    return { db, createCustomRule, updateCustomRule };
+  };
+
+  test('saves a valid rule for the context user', async () => {
+    const { db, createCustomRule } = createDb([]);
+    const { userId: _userId, ruleId: _ruleId, ...rule } = createRule();
+
+    const result = await new RulesetManagerAgent().execute({ userId: 'user_1', rule, db });
+
+    expect(result.success).toBe(true);
+    expect(createCustomRule).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user_1', name: 'Flag blockers' }));
+  });
+
+  test('refuses duplicates without writing', async () => {
+    const { db, createCustomRule } = createDb([createRule({ ruleId: 'old' })]);
+
+    const result = await new RulesetManagerAgent().execute({ userId: 'user_1', rule: createRule({ ruleId: 'new' }), db });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Duplicate rule detected');
+    expect(createCustomRule).not.toHaveBeenCalled();
+  });
+
+  test('updates the stored rule when only its ruleId is given', async () => {
+    const stored = { ...createRule({ ruleId: 'rule_1' }), id: 'doc_7' };
+    const { db, createCustomRule, updateCustomRule } = createDb([stored]);
+
+    const result = await new RulesetManagerAgent().execute({
+      userId: 'user_1',
+      rule: createRule({ ruleId: 'rule_1', name: 'Flag blockers early' }),
+      db,
+    });
+
+    expect(result.success).toBe(true);
+    expect(createCustomRule).not.toHaveBeenCalled();
+    expect(updateCustomRule).toHaveBeenCalledWith('doc_7', expect.objectContaining({ ruleId: 'rule_1', name: 'Flag blockers early' }));
+    expect(result.data.rule.id).toBe('doc_7');
+  });
+});
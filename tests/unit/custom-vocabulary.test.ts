@@ -0,0 +1,162 @@
+/**
+ * Tests for custom vocabulary: correcting known misspellings without touching the case
+ * of surrounding text or parts of longer words, seeding terms from a meeting, the
+ * keywords sent to the STT provider, and loading a meeting's vocabulary in the store
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { auth } from '@/lib/firebase/client';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { CustomVocabulary, customVocabulary, seedGlossaryTerms } from '@/services/universal-assistant/CustomVocabulary';
+import { useMeetingStore } from '@/stores/meetingStore';
+import { MeetingType, type GlossaryTerm, type Meeting, type Participant, type TranscriptEntry } from '@/types';
+
+const createTerm = (term: string, overrides: Partial<GlossaryTerm> = {}): GlossaryTerm => ({
+  termId: `manual:${term.toLowerCase()}`,
+  term,
+  phoneticHints: [],
+  replacements: [],
+  source: 'manual',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const participant = (displayName: string, userName = displayName) => ({ displayName, userName }) as Participant;
+
+const MEETING = {
+  keywords: ['roadmap', 'Q3 launch'],
+  participants: [participant('Siobhan Kelly', 'siobhan'), participant('pat@example.com')],
+};
+
+describe('CustomVocabulary.correct', () => {
+  const vocabulary = new CustomVocabulary([
+    createTerm('kubectl', { phoneticHints: ['cube control'], replacements: ['cube cuddle'] }),
+    createTerm('Jira', { replacements: ['gyra'] }),
+    createTerm('GitHub'),
+  ]);
+
+  test('replaces misspellings and phonetic spellings with the term', () => {
+    expect(vocabulary.correct('Run cube control apply, then file it in gyra')).toEqual({
+      text: 'Run kubectl apply, then file it in Jira',
+      corrections: [{ from: 'cube control', to: 'kubectl' }, { from: 'gyra', to: 'Jira' }],
+    });
+  });
+
+  test('matches spellings whatever their case, spacing or hyphens', () => {
+    expect(vocabulary.correct('Cube-Control and CUBE  cuddle').text).toBe('kubectl and kubectl');
+  });
+
+  test('fixes the casing of capitalized terms and leaves the rest of the sentence alone', () => {
+    expect(vocabulary.correct('Push To github Now.').text).toBe('Push To GitHub Now.');
+    // A lowercase term does not lowercase a sentence that starts with it
+    expect(vocabulary.correct('Kubectl is installed').corrections).toEqual([]);
+  });
+
+  test('does not rewrite spellings inside longer words', () => {
+    expect(vocabulary.correct('githubber gyrate agyra').corrections).toEqual([]);
+    expect(vocabulary.correct('(gyra), github.').text).toBe('(Jira), GitHub.');
+  });
+
+  test('prefers the longest spelling when one contains another', () => {
+    const nested = new CustomVocabulary([
+      createTerm('Data', { replacements: ['dayta'] }),
+      createTerm('Datadog', { replacements: ['dayta dog'] }),
+    ]);
+
+    expect(nested.correct('dayta dog shows the dayta').text).toBe('Datadog shows the Data');
+  });
+
+  test('never corrects with terms seeded from the meeting', () => {
+    const seeded = new CustomVocabulary(seedGlossaryTerms({ keywords: ['Roadmap'], participants: [] }));
+
+    expect(seeded.correct('the roadmap review').corrections).toEqual([]);
+  });
+});
+
+describe('seedGlossaryTerms', () => {
+  test('seeds participant names and meeting keywords, skipping email addresses', () => {
+    expect(seedGlossaryTerms(MEETING).map(term => [term.termId, term.term, term.source])).toEqual([
+      ['participant:siobhan kelly', 'Siobhan Kelly', 'participant'],
+      ['participant:siobhan', 'siobhan', 'participant'],
+      ['meeting_keyword:roadmap', 'roadmap', 'meeting_keyword'],
+      ['meeting_keyword:q3 launch', 'Q3 launch', 'meeting_keyword'],
+    ]);
+  });
+});
+
+describe('CustomVocabulary.getKeywords', () => {
+  test('sends glossary terms ahead of seeded ones, up to the keyword limit', () => {
+    const vocabulary = new CustomVocabulary(
+      [...seedGlossaryTerms(MEETING), createTerm('Datadog')],
+      { maxKeywords: 3 }
+    );
+
+    expect(vocabulary.getKeywords()).toEqual(['Datadog', 'Siobhan Kelly', 'siobhan']);
+  });
+
+  test('merges terms that differ only in case into the first', () => {
+    const vocabulary = new CustomVocabulary([
+      createTerm('GitHub', { replacements: ['git hub'] }),
+      createTerm('github', { source: 'meeting_keyword', replacements: ['get hub'] }),
+    ]);
+
+    expect(vocabulary.getKeywords()).toEqual(['GitHub']);
+    expect(vocabulary.correct('get hub').text).toBe('GitHub');
+  });
+});
+
+describe('meetingStore vocabulary', () => {
+  const meeting = {
+    meetingId: 'meeting_1',
+    hostId: 'user_1',
+    type: MeetingType.GENERAL,
+    appliedRules: [],
+    ...MEETING,
+  } as unknown as Meeting;
+  const glossary = [createTerm('Datadog', { replacements: ['data dog'] })];
+
+  beforeAll(() => {
+    useMeetingStore.setState({ setupRealtimeListeners: jest.fn() });
+  });
+  afterAll(() => {
+    Object.assign(auth, { currentUser: null });
+  });
+
+  beforeEach(() => {
+    customVocabulary.clear();
+    Object.assign(auth, { currentUser: { uid: 'user_1' } });
+    jest.spyOn(DatabaseService, 'getMeeting').mockResolvedValue(meeting);
+    jest.spyOn(DatabaseService, 'getTranscriptEntries').mockResolvedValue({ data: [], hasMore: false });
+  });
+
+  test('loads the glossary and the meeting terms when joining, and corrects finished entries', async () => {
+    const getUserGlossary = jest.spyOn(DatabaseService, 'getUserGlossary').mockResolvedValue(glossary);
+    const addTranscriptEntry = jest.spyOn(DatabaseService, 'addTranscriptEntry').mockResolvedValue('entry_1');
+
+    expect(await useMeetingStore.getState().joinMeeting('meeting_1')).toBe(true);
+
+    expect(getUserGlossary).toHaveBeenCalledWith('user_1');
+    expect(customVocabulary.getKeywords()).toEqual(['Datadog', 'Siobhan Kelly', 'siobhan', 'roadmap', 'Q3 launch']);
+
+    const entry = { speakerId: 'speaker_1', text: 'check data dog', isComplete: true, timestamp: new Date() };
+    await useMeetingStore.getState().addTranscriptEntry(entry as Omit<TranscriptEntry, 'id'>);
+    expect(addTranscriptEntry).toHaveBeenCalledWith('meeting_1', expect.objectContaining({
+      text: 'check Datadog',
+      content: 'check Datadog',
+    }));
+  });
+
+  test('falls back to the meeting terms when the glossary cannot be loaded or nobody is signed in', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(DatabaseService, 'getUserGlossary').mockRejectedValue(new Error('offline'));
+
+    expect(await useMeetingStore.getState().joinMeeting('meeting_1')).toBe(true);
+    expect(customVocabulary.getKeywords()).toEqual(['Siobhan Kelly', 'siobhan', 'roadmap', 'Q3 launch']);
+
+    customVocabulary.clear();
+    Object.assign(auth, { currentUser: null });
+    expect(await useMeetingStore.getState().joinMeeting('meeting_1')).toBe(true);
+    expect(customVocabulary.getKeywords()).toEqual(['Siobhan Kelly', 'siobhan', 'roadmap', 'Q3 launch']);
+  });
+});
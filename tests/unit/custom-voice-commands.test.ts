@@ -0,0 +1,136 @@
+/**
+ * Tests for custom voice command phrases: slot filling, loose matching of misheard
+ * words, choosing between commands and resolving voice and model names
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import {
+  matchCommandPattern,
+  matchCustomCommand,
+  resolveModel,
+  resolveVoice,
+  toVoiceCommand,
+  wordSimilarity,
+  type CustomVoiceCommand,
+} from '@/services/universal-assistant/CustomVoiceCommands';
+
+const ACTION_ITEM = 'add action item {text} for {person}';
+
+const createCommand = (overrides: Partial<CustomVoiceCommand> = {}): CustomVoiceCommand => ({
+  id: 'custom_note',
+  keyword: 'take a note {text}',
+  aliases: [],
+  action: 'create_note',
+  enabled: true,
+  cooldownPeriod: 1000,
+  description: 'Save a note',
+  ...overrides,
+});
+
+describe('matchCommandPattern slots', () => {
+  test('fills each slot with what was said in its place', () => {
+    expect(matchCommandPattern(ACTION_ITEM, 'Add action item update the docs for Priya.')).toEqual({
+      slots: { text: 'update the docs', person: 'Priya' },
+      score: 1,
+    });
+  });
+
+  test('gives a middle slot as many words as still leave the rest of the phrase to match', () => {
+    expect(matchCommandPattern(ACTION_ITEM, 'add action item talk for ten minutes for Sam')?.slots).toEqual({
+      text: 'talk for ten minutes',
+      person: 'Sam',
+    });
+  });
+
+  test('needs every slot to hold a word', () => {
+    expect(matchCommandPattern(ACTION_ITEM, 'add action item for Sam')).toBeNull();
+    expect(matchCommandPattern('take a note {text}', 'take a note.')).toBeNull();
+  });
+
+  test('anchors a phrase that opens with a slot at the first word', () => {
+    expect(matchCommandPattern('{text} is decided', 'we ship on Friday is decided')).toEqual({
+      slots: { text: 'we ship on Friday' },
+      score: 1,
+    });
+  });
+});
+
+describe('matchCommandPattern fuzzy matching', () => {
+  test('accepts a slightly misheard word at a lower score', () => {
+    const match = matchCommandPattern(ACTION_ITEM, 'add acton item update the docs for Priya');
+
+    expect(match?.slots).toEqual({ text: 'update the docs', person: 'Priya' });
+    expect(match?.score).toBeCloseTo((1 + 5 / 6 + 1 + 1) / 4);
+  });
+
+  test('rejects a different short word', () => {
+    expect(matchCommandPattern('take a note {text}', 'take the note buy milk')).toBeNull();
+  });
+
+  test('follows the threshold it is given', () => {
+    expect(matchCommandPattern('pause the meeting', 'pose the meeting')).toBeNull();
+    expect(matchCommandPattern('pause the meeting', 'pose the meeting', 0.5)?.score).toBeCloseTo((0.6 + 1 + 1) / 3);
+  });
+
+  test('allows a few words before and after the phrase', () => {
+    expect(matchCommandPattern('take a note {text}', 'okay so um take a note buy milk')?.slots).toEqual({ text: 'buy milk' });
+    expect(matchCommandPattern('pause the meeting', 'pause the meeting for now')).not.toBeNull();
+  });
+
+  test('ignores phrases buried in longer speech', () => {
+    expect(matchCommandPattern('take a note {text}', 'right so then um take a note buy milk')).toBeNull();
+    expect(matchCommandPattern('pause the meeting', 'pause the meeting for a little while')).toBeNull();
+    expect(matchCommandPattern('take a note {text}', `take a note ${'word '.repeat(60)}`)).toBeNull();
+  });
+
+  test('scores words by edit distance', () => {
+    expect(wordSimilarity('action', 'action')).toBe(1);
+    expect(wordSimilarity('action', 'acton')).toBeCloseTo(5 / 6);
+    expect(wordSimilarity('for', 'far')).toBeCloseTo(2 / 3);
+  });
+});
+
+describe('matchCustomCommand', () => {
+  test('picks the command whose keyword or alias fits best', () => {
+    const note = toVoiceCommand(createCommand());
+    const decision = toVoiceCommand(createCommand({
+      id: 'custom_decision',
+      keyword: 'mark decision {text}',
+      aliases: ['we decided {text}'],
+      action: 'mark_decision',
+    }));
+
+    const match = matchCustomCommand([note, decision], 'We decided to ship on Friday');
+
+    expect(match?.command.id).toBe('custom_decision');
+    expect(match?.slots).toEqual({ text: 'to ship on Friday' });
+  });
+
+  test('prefers the exact phrase over a loose one', () => {
+    const loose = toVoiceCommand(createCommand({ id: 'loose', keyword: 'take a notes {text}' }));
+    const exact = toVoiceCommand(createCommand({ id: 'exact' }));
+
+    expect(matchCustomCommand([loose, exact], 'take a note buy milk')?.command.id).toBe('exact');
+  });
+
+  test('marks converted commands as custom', () => {
+    const command = toVoiceCommand(createCommand({ parameters: { voiceId: 'voice_1' } }));
+    expect(command.parameters).toEqual({ voiceId: 'voice_1', custom: true });
+    expect(command.cooldownPeriod).toBe(1000);
+  });
+});
+
+describe('slot values', () => {
+  test('resolve voices by name, allowing a misheard letter', () => {
+    expect(resolveVoice('Adam please')?.name).toBe('Adam');
+    expect(resolveVoice('Adum')?.name).toBe('Adam');
+    expect(resolveVoice('Bob')).toBeNull();
+  });
+
+  test('resolve models ignoring spaces and punctuation, taking the closest name', () => {
+    expect(resolveModel('GPT 4o mini')).toBe('gpt-4o-mini');
+    expect(resolveModel('GPT 4.1 nano')).toBe('gpt-4.1-nano');
+    expect(resolveModel('claude 3.7 sonet')).toBe('claude-3-7-sonnet');
+    expect(resolveModel('  ')).toBeNull();
+  });
+});
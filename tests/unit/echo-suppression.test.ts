@@ -0,0 +1,125 @@
+/**
+ * Tests for echo suppression: removing the assistant's replies from transcripts
+ * while keeping whatever people said over them
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { EchoSuppressionService } from '@/services/universal-assistant/EchoSuppressionService';
+import type { TranscriptionResult, TranscriptionWord } from '@/services/universal-assistant/STTProvider';
+import type { StreamingEvents, StreamingSession } from '@/services/universal-assistant/StreamingTTSService';
+
+// 13 words, about 5 seconds at the default speaking rate
+const REPLY = 'The next review is scheduled for Thursday at ten in the main room.';
+
+const result = (transcript: string, timestamp: number, words?: TranscriptionWord[]): TranscriptionResult => ({
+  transcript,
+  confidence: 0.9,
+  timestamp,
+  isFinal: true,
+  ...(words && { words, audioStartMs: 0 }),
+});
+
+// [word, start in seconds]
+const timedWords = (entries: Array<[string, number]>): TranscriptionWord[] =>
+  entries.map(([word, start]) => ({ word, start, end: start + 0.3, confidence: 0.9 }));
+
+const createService = () => {
+  const service = new EchoSuppressionService();
+  service.addReference(REPLY, { startedAt: 1000 });
+  return service;
+};
+
+describe('EchoSuppressionService.filterResult', () => {
+  test('drops a result that is only the reply', () => {
+    const service = createService();
+    expect(service.filterResult(result('the next review is scheduled for thursday at ten', 5000))).toBeNull();
+  });
+
+  test('keeps what someone said over the reply', () => {
+    const service = createService();
+    const words = timedWords([['the', 1], ['next', 1.4], ['review', 1.8], ['is', 2.2], ['hold', 2.4], ['on', 2.6], ['please', 2.8]]);
+
+    const filtered = service.filterResult(result('the next review is hold on please', 3000, words));
+
+    expect(filtered?.transcript).toBe('hold on please');
+    expect(filtered?.words?.map(word => word.word)).toEqual(['hold', 'on', 'please']);
+    expect(service.getSuppressedWordCount()).toBe(4);
+  });
+
+  test('matches slightly misheard words of the reply', () => {
+    const service = createService();
+    expect(service.filterResult(result('the next review is schedule for thursday', 5000))).toBeNull();
+  });
+
+  test('leaves results heard well after the reply ended unchanged', () => {
+    const service = createService();
+    const heard = result('the next review is scheduled for thursday', 12000);
+    expect(service.filterResult(heard)).toBe(heard);
+  });
+
+  test('keeps the reply quoted back at a different point than it played', () => {
+    const service = new EchoSuppressionService();
+    service.addReference(REPLY, { startedAt: 0, durationMs: 10000 });
+    const heard = result('the next review', 10000, timedWords([['the', 9], ['next', 9.2], ['review', 9.4]]));
+
+    expect(service.filterResult(heard)).toBe(heard);
+  });
+
+  test('passes results through when disabled', () => {
+    const service = createService();
+    service.updateConfig({ enabled: false });
+    const heard = result('the next review is scheduled for thursday', 5000);
+
+    expect(service.isEnabled()).toBe(false);
+    expect(service.filterResult(heard)).toBe(heard);
+  });
+});
+
+describe('EchoSuppressionService.filterText', () => {
+  test('removes a long enough run of the reply', () => {
+    const service = createService();
+    expect(service.filterText('Sorry, the next review is scheduled for Thursday? No way', 5000)).toBe('Sorry, No way');
+  });
+
+  test('keeps short overlaps unless they are all that was said', () => {
+    const service = createService();
+    expect(service.filterText('is the main hall free', 5000)).toBe('is the main hall free');
+    expect(service.filterText('main room', 5000)).toBe('');
+  });
+});
+
+describe('EchoSuppressionService references', () => {
+  test('are dropped once retention has passed', () => {
+    const service = createService();
+    service.addReference('Anything else?', { startedAt: 20000 });
+
+    expect(service.getReferences().map(reference => reference.text)).toEqual(['Anything else?']);
+  });
+
+  test('follow streaming TTS sessions', () => {
+    const service = new EchoSuppressionService();
+    let listeners: Partial<StreamingEvents> = {};
+    service.trackStreamingTTS({ setEventListeners: value => { listeners = value; } });
+    const session = (sessionId: string, text: string, fields: Partial<StreamingSession> = {}) =>
+      ({ sessionId, text, startTime: 1000, ...fields }) as StreamingSession;
+
+    listeners.onStreamStart?.(session('s1', REPLY, { estimatedDuration: 3000 }));
+    listeners.onStreamComplete?.(session('s1', REPLY, { endTime: 7000 }), 'blob:reply');
+    listeners.onStreamStart?.(session('s2', 'Anything else?'));
+    listeners.onStreamError?.(session('s2', 'Anything else?', { endTime: 1500 }), new Error('stream failed'));
+
+    expect(service.getReferences()).toEqual([
+      expect.objectContaining({ text: REPLY, startedAt: 1000, durationMs: 6000 }),
+      expect.objectContaining({ text: 'Anything else?', startedAt: 1000, endedAt: 1500 }),
+    ]);
+  });
+
+  test('are cleared by reset', () => {
+    const service = createService();
+    service.filterResult(result('the next review is scheduled', 5000));
+    service.reset();
+
+    expect(service.getReferences()).toEqual([]);
+    expect(service.getSuppressedWordCount()).toBe(0);
+  });
+});
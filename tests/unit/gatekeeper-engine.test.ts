@@ -0,0 +1,128 @@
+/**
+ * Tests for GatekeeperEngine condition evaluation
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { MeetingType } from '@/types';
+import { isCompositeCondition } from '@/config/gatekeeper/ruleDefinitions';
+import type { Rule, RuleCondition } from '@/config/gatekeeper/ruleDefinitions';
+import { GatekeeperEngine } from '@/services/gatekeeper/GatekeeperEngine';
+
+const createEngine = (conditions: RuleCondition[], startTime = 0) => new GatekeeperEngine(
+  MeetingType.GENERAL,
+  { meetingId: 'meeting_1', type: MeetingType.GENERAL, participants: [], messageCount: 0, startTime },
+  new Map<string, Rule[]>([[MeetingType.GENERAL, [{
+    id: 'rule_under_test',
+    name: 'Rule under test',
+    conditions,
+    actions: [{ type: 'respond', template: 'fired' }],
+    priority: 1,
+    confidence: 1,
+  }]]]),
+  { saveNote: async () => 'note_1' }
+);
+
+const run = async (conditions: RuleCondition[], text: string, sender = { id: 'speaker_1', name: 'Dana' }, timestamp = 0) => {
+  const decision = await createEngine(conditions).processMessage({ id: 'm1', text, timestamp }, sender);
+  return { fired: decision.response === 'fired', rule: decision.trace.rules[0] };
+};
+
+const blocked: RuleCondition = { type: 'keyword', operator: 'contains', value: ['blocked'] };
+const deadline: RuleCondition = { type: 'keyword', operator: 'contains', value: ['deadline'] };
+
+describe('isCompositeCondition', () => {
+  test('tells composite conditions from leaves', () => {
+    expect(isCompositeCondition({ type: 'any', conditions: [] })).toBe(true);
+    expect(isCompositeCondition({ type: 'not', conditions: [] })).toBe(true);
+    expect(isCompositeCondition(blocked)).toBe(false);
+  });
+});
+
+describe('composite conditions', () => {
+  test('any matches when one child matches', async () => {
+    expect((await run([{ type: 'any', conditions: [blocked, deadline] }], 'the deadline moved')).fired).toBe(true);
+    expect((await run([{ type: 'any', conditions: [blocked, deadline] }], 'all good')).fired).toBe(false);
+  });
+
+  test('all needs every child', async () => {
+    expect((await run([{ type: 'all', conditions: [blocked, deadline] }], 'blocked before the deadline')).fired).toBe(true);
+    expect((await run([{ type: 'all', conditions: [blocked, deadline] }], 'blocked again')).fired).toBe(false);
+  });
+
+  test('not matches when no child matches', async () => {
+    expect((await run([{ type: 'not', conditions: [blocked] }], 'all good')).fired).toBe(true);
+    expect((await run([{ type: 'not', conditions: [blocked] }], 'blocked again')).fired).toBe(false);
+  });
+
+  test('nests and traces each child', async () => {
+    const condition: RuleCondition = {
+      type: 'all',
+      conditions: [
+        { type: 'any', conditions: [blocked, deadline] },
+        { type: 'not', conditions: [{ type: 'speaker', operator: 'equals', value: 'Dana' }] },
+      ],
+    };
+
+    const fromDana = await run([condition], 'blocked');
+    const fromLee = await run([condition], 'blocked', { id: 'speaker_2', name: 'Lee' });
+
+    expect(fromDana.fired).toBe(false);
+    expect(fromLee.fired).toBe(true);
+    const [trace] = fromLee.rule.conditions;
+    expect(trace.reason).toBe('2 of 2 child conditions matched');
+    expect(trace.children?.[0].children?.map(child => child.matched)).toEqual([true, false]);
+  });
+});
+
+describe('leaf conditions', () => {
+  test('elapsedTime compares minutes since the meeting started', async () => {
+    const condition: RuleCondition = { type: 'elapsedTime', operator: 'greater', value: 25 };
+    expect((await run([condition], 'hello', undefined, 26 * 60000)).fired).toBe(true);
+    expect((await run([condition], 'hello', undefined, 20 * 60000)).fired).toBe(false);
+  });
+
+  test('speaker matches compares id and name', async () => {
+    const condition: RuleCondition = { type: 'speaker', operator: 'matches', value: '^da' };
+    expect((await run([condition], 'hello')).fired).toBe(true);
+    expect((await run([condition], 'hello', { id: 'speaker_2', name: 'Lee' })).fired).toBe(false);
+  });
+
+  test('invalid regexes fail the condition instead of throwing', async () => {
+    const pattern = await run([{ type: 'pattern', operator: 'matches', value: '(' }], '(');
+    const speaker = await run([{ type: 'speaker', operator: 'matches', value: '[' }], 'hello');
+
+    expect(pattern.fired).toBe(false);
+    expect(pattern.rule.conditions[0].reason).toMatch(/^invalid pattern/);
+    expect(speaker.fired).toBe(false);
+    expect(speaker.rule.conditions[0].reason).toMatch(/^invalid speaker pattern/);
+  });
+});
+
+describe('history', () => {
+  test('keeps only the most recent messages for summaries', async () => {
+    const summarized: number[] = [];
+    const engine = new GatekeeperEngine(
+      MeetingType.GENERAL,
+      { meetingId: 'meeting_1', type: MeetingType.GENERAL, participants: [], messageCount: 0, startTime: 0 },
+      new Map<string, Rule[]>([[MeetingType.GENERAL, [{
+        id: 'recap',
+        name: 'Recap',
+        conditions: [{ type: 'keyword', operator: 'contains', value: ['recap'] }],
+        actions: [{ type: 'summarize', style: 'short' }],
+        priority: 1,
+        confidence: 1,
+      }]]]),
+      { summarize: async (messages) => { summarized.push(messages.length); return 'summary'; } }
+    );
+    const sender = { id: 'speaker_1' };
+
+    for (let i = 0; i < 600; i++) {
+      await engine.processMessage({ id: `m${i}`, text: `update ${i}`, timestamp: i }, sender);
+    }
+    await engine.processMessage({ id: 'recap_1', text: 'recap please', timestamp: 600 }, sender);
+    await engine.processMessage({ id: 'm601', text: 'moving on', timestamp: 601 }, sender);
+    await engine.processMessage({ id: 'recap_2', text: 'recap again', timestamp: 602 }, sender);
+
+    expect(summarized).toEqual([500, 2]);
+  });
+});
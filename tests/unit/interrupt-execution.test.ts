@@ -0,0 +1,317 @@
+/**
+ * Tests for carrying out voice commands: what each action does to playback, the
+ * microphone, the meeting and settings, and asking before commands that need a yes
+ */
+
+import { beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import type { AudioManager } from '@/services/universal-assistant/AudioManager';
+import { enhancedMessageQueueManager } from '@/services/universal-assistant/EnhancedMessageQueueManager';
+import { InterruptExecutionService } from '@/services/universal-assistant/InterruptExecutionService';
+import {
+  VocalInterruptService,
+  type CommandContext,
+  type CommandResult,
+  type VocalInterruptAction,
+  type VoiceCommand,
+} from '@/services/universal-assistant/VocalInterruptService';
+import { useAppStore } from '@/stores/appStore';
+import { useMeetingStore } from '@/stores/meetingStore';
+import type { Meeting } from '@/types';
+
+const createAudioManager = (overrides: Partial<Record<keyof AudioManager, unknown>> = {}) => ({
+  stopAllAudio: jest.fn(),
+  pausePlayback: jest.fn(() => false),
+  resumePlayback: jest.fn(),
+  hasPausedPlayback: jest.fn(() => false),
+  resumeInterruptedPlayback: jest.fn(async () => false),
+  interruptPlayback: jest.fn(() => null),
+  isPlaying: jest.fn(() => false),
+  replayLast: jest.fn(async () => false),
+  setPlaybackVolume: jest.fn(),
+  setMicrophoneMuted: jest.fn(() => true),
+  ...overrides,
+}) as unknown as AudioManager;
+
+const command = (action: VocalInterruptAction, parameters?: Record<string, unknown>) =>
+  ({ id: action, keyword: action, aliases: [], action, parameters }) as unknown as VoiceCommand;
+
+const context = (slots?: Record<string, string>): CommandContext => ({
+  timestamp: 1000,
+  sessionId: 'session_1',
+  speakerId: 'speaker_1',
+  confidence: 0.9,
+  originalText: '',
+  normalizedText: '',
+  slots,
+  currentState: { isRecording: true, isPlaying: false, queueLength: 0, currentVolume: 0.8, isMuted: false },
+});
+
+const MEETING = { meetingId: 'meeting_1', title: 'Planning', actionItems: ['Ada: book the room'], actionItemDetails: [] } as unknown as Meeting;
+
+describe('InterruptExecutionService.executeAction', () => {
+  beforeEach(() => {
+    jest.spyOn(enhancedMessageQueueManager, 'interrupt').mockImplementation(() => {});
+    jest.spyOn(enhancedMessageQueueManager, 'getCurrentMessage').mockReturnValue(null);
+    useMeetingStore.setState({ currentMeeting: null, transcript: [] });
+  });
+
+  const run = (service: InterruptExecutionService, action: VocalInterruptAction, slots?: Record<string, string>) =>
+    service.executeAction(command(action), context(slots));
+
+  test('stops playback, empties the queue, resets speech and listens again', async () => {
+    const playback = createAudioManager();
+    const queue = { clear: jest.fn() };
+    const tts = { reset: jest.fn() };
+    const startListening = jest.fn(async () => {});
+    const service = new InterruptExecutionService(createAudioManager(), queue, tts, startListening, playback);
+
+    expect(await run(service, 'stop_playback')).toMatchObject({ success: true, feedback: 'Playback stopped' });
+    expect(playback.stopAllAudio).toHaveBeenCalled();
+    expect(enhancedMessageQueueManager.interrupt).toHaveBeenCalled();
+    expect(queue.clear).toHaveBeenCalled();
+    expect(tts.reset).toHaveBeenCalled();
+    expect(startListening).toHaveBeenCalled();
+  });
+
+  test('pauses and resumes the playback manager rather than the recording one', async () => {
+    const recording = createAudioManager();
+    const playback = createAudioManager({ pausePlayback: jest.fn(() => true), hasPausedPlayback: jest.fn(() => true) });
+    const service = new InterruptExecutionService(recording, undefined, undefined, undefined, playback);
+
+    expect(await run(service, 'pause_playback')).toMatchObject({ success: true, feedback: 'Playback paused' });
+    expect(await run(service, 'resume_playback')).toMatchObject({ success: true, feedback: 'Playback resumed' });
+    expect(playback.resumePlayback).toHaveBeenCalled();
+    expect(recording.pausePlayback).not.toHaveBeenCalled();
+  });
+
+  test('resumes a reply cut off by a barge-in, and reports when nothing is playing or paused', async () => {
+    const interrupted = createAudioManager({ resumeInterruptedPlayback: jest.fn(async () => true) });
+
+    expect(await run(new InterruptExecutionService(interrupted), 'resume_playback')).toMatchObject({
+      success: true,
+      feedback: 'Picking up where I left off',
+    });
+    const idle = new InterruptExecutionService(createAudioManager());
+    expect(await run(idle, 'resume_playback')).toMatchObject({ success: false, error: 'Nothing is paused' });
+    expect(await run(idle, 'pause_playback')).toMatchObject({ success: false, error: 'Nothing is playing' });
+  });
+
+  test('skips the message being spoken without clearing the queue', async () => {
+    const playing = createAudioManager({ isPlaying: jest.fn(() => true) });
+
+    expect(await run(new InterruptExecutionService(playing), 'skip_message')).toMatchObject({ success: true, feedback: 'Message skipped' });
+    expect(playing.stopAllAudio).toHaveBeenCalled();
+    expect(enhancedMessageQueueManager.interrupt).not.toHaveBeenCalled();
+    expect(await run(new InterruptExecutionService(createAudioManager()), 'skip_message')).toMatchObject({
+      success: false,
+      error: 'Nothing is playing',
+    });
+  });
+
+  test('repeats the last reply, or says there is nothing to repeat', async () => {
+    const replayed = createAudioManager({ replayLast: jest.fn(async () => true) });
+
+    expect(await run(new InterruptExecutionService(replayed), 'repeat_message')).toMatchObject({
+      success: true,
+      feedback: 'Repeating the last message',
+    });
+    expect(await run(new InterruptExecutionService(createAudioManager()), 'repeat_message')).toMatchObject({
+      success: false,
+      error: 'Nothing to repeat yet',
+    });
+  });
+
+  test('clears both queues and counts what was waiting', async () => {
+    jest.spyOn(enhancedMessageQueueManager, 'getEnhancedQueueStatus').mockReturnValue(
+      { queueSize: 3 } as ReturnType<typeof enhancedMessageQueueManager.getEnhancedQueueStatus>
+    );
+    const clearEnhanced = jest.spyOn(enhancedMessageQueueManager, 'clearEnhanced').mockImplementation(() => {});
+    const queue = { clear: jest.fn() };
+
+    expect(await run(new InterruptExecutionService(undefined, queue), 'clear_queue')).toMatchObject({
+      success: true,
+      feedback: 'Cleared 3 queued messages',
+    });
+    expect(clearEnhanced).toHaveBeenCalled();
+    expect(queue.clear).toHaveBeenCalled();
+  });
+
+  test('mutes and unmutes the recording microphone', async () => {
+    const recording = createAudioManager();
+    const service = new InterruptExecutionService(recording, undefined, undefined, undefined, createAudioManager());
+
+    expect(await run(service, 'mute_microphone')).toMatchObject({ success: true, feedback: 'Microphone muted' });
+    expect(await run(service, 'unmute_microphone')).toMatchObject({ success: true, feedback: 'Microphone unmuted' });
+    expect(recording.setMicrophoneMuted).toHaveBeenNthCalledWith(1, true);
+    expect(recording.setMicrophoneMuted).toHaveBeenNthCalledWith(2, false);
+
+    const notRecording = createAudioManager({ setMicrophoneMuted: jest.fn(() => false) });
+    expect(await run(new InterruptExecutionService(notRecording), 'mute_microphone')).toMatchObject({
+      success: false,
+      error: 'The microphone is not recording',
+    });
+  });
+
+  test('steps the volume within bounds and applies it to playback', async () => {
+    const playback = createAudioManager();
+    const service = new InterruptExecutionService(undefined, undefined, undefined, undefined, playback);
+    useAppStore.getState().updateAudioSettings({ volume: 0.95 });
+
+    expect(await run(service, 'increase_volume')).toMatchObject({ feedback: 'Volume increased to 100%' });
+    expect(await run(service, 'decrease_volume')).toMatchObject({ feedback: 'Volume decreased to 90%' });
+    expect(useAppStore.getState().audioSettings.volume).toBe(0.9);
+    expect(playback.setPlaybackVolume).toHaveBeenLastCalledWith(0.9);
+  });
+
+  test('ends the meeting, reporting why it could not', async () => {
+    const endMeeting = jest.fn(async () => true);
+    useMeetingStore.setState({ endMeeting });
+    const service = new InterruptExecutionService();
+
+    expect(await run(service, 'end_meeting')).toMatchObject({ success: true, feedback: 'Meeting ended' });
+
+    endMeeting.mockResolvedValue(false);
+    useMeetingStore.setState({ meetingError: { code: 'END', message: 'Failed to end meeting', operation: 'endMeeting' } });
+    expect(await run(service, 'end_meeting')).toMatchObject({ success: false, error: 'Failed to end meeting' });
+  });
+
+  test('summarizes the meeting through finalization', async () => {
+    useMeetingStore.setState({
+      currentMeeting: MEETING,
+      finalizeMeeting: jest.fn(async () => {
+        useMeetingStore.setState({ currentMeeting: { ...MEETING, summary: 'We agreed to ship Friday.' } });
+        return true;
+      }),
+    });
+    const service = new InterruptExecutionService();
+    service.configure({ spokenFeedback: false });
+
+    expect(await run(service, 'summarize_meeting')).toMatchObject({ success: true, feedback: 'We agreed to ship Friday.' });
+  });
+
+  test('saves dictated notes and decisions to the meeting', async () => {
+    const addMeetingNote = jest.spyOn(DatabaseService, 'addMeetingNote').mockResolvedValue('note_1');
+    const service = new InterruptExecutionService();
+
+    expect(await run(service, 'create_note', { text: 'buy milk' })).toMatchObject({ success: false, error: 'No meeting in progress' });
+
+    useMeetingStore.setState({ currentMeeting: MEETING });
+    expect(await run(service, 'create_note', { text: 'buy milk' })).toMatchObject({ success: true, feedback: 'Note added: buy milk' });
+    expect(await run(service, 'mark_decision', { text: 'ship Friday' })).toMatchObject({
+      success: true,
+      feedback: 'Decision recorded: ship Friday',
+    });
+    expect(await run(service, 'create_note', { text: '  ' })).toMatchObject({ success: false });
+    expect(addMeetingNote.mock.calls.map(([meetingId, note]) => [meetingId, note.content, note.category])).toEqual([
+      ['meeting_1', 'buy milk', 'note'],
+      ['meeting_1', 'ship Friday', 'decision'],
+    ]);
+  });
+
+  test('adds action items with their owner', async () => {
+    const updateMeeting = jest.fn<(meetingId: string, updates: Partial<Meeting>) => Promise<boolean>>(async () => true);
+    useMeetingStore.setState({ currentMeeting: MEETING, updateMeeting });
+
+    expect(await run(new InterruptExecutionService(), 'create_action_item', { text: 'update the docs', person: 'Priya' })).toMatchObject({
+      success: true,
+      feedback: 'Action item added: Priya: update the docs',
+    });
+    expect(updateMeeting).toHaveBeenCalledWith('meeting_1', {
+      actionItems: ['Ada: book the room', 'Priya: update the docs'],
+      actionItemDetails: [{ text: 'update the docs', type: 'task', confidence: 1, owner: 'Priya' }],
+    });
+  });
+
+  test('changes the voice and model by name', async () => {
+    const service = new InterruptExecutionService();
+    service.configure({ spokenFeedback: false });
+
+    expect(await run(service, 'change_voice', { voice: 'Adam' })).toMatchObject({ success: true, feedback: 'Voice changed to Adam' });
+    expect(useAppStore.getState().ttsSettings.voiceId).toBe('pNInz6obpgDQGcFmaJgB');
+    expect(await run(service, 'change_voice', { voice: 'Bob' })).toMatchObject({ success: false, error: 'There is no voice called Bob' });
+
+    expect(await run(service, 'switch_model', { model: 'GPT 4o mini' })).toMatchObject({ success: true, feedback: 'Switched to gpt-4o-mini' });
+    expect(useAppStore.getState().aiSettings.defaultModel).toBe('gpt-4o-mini');
+    expect(await run(service, 'switch_model', {})).toMatchObject({ success: false, error: 'No model was named' });
+  });
+
+  test('refuses to save an empty transcript and reports unknown actions', async () => {
+    const service = new InterruptExecutionService();
+
+    expect(await run(service, 'save_transcript')).toMatchObject({ success: false, error: 'There is no transcript to save yet' });
+    expect(await run(service, 'legacy_interrupt')).toMatchObject({ success: false, error: 'Action not implemented' });
+  });
+});
+
+describe('VocalInterruptService confirmation', () => {
+  const createService = () => {
+    const execution = new InterruptExecutionService();
+    const speak = jest.spyOn(execution, 'speak').mockResolvedValue(undefined);
+    const executeAction = jest.spyOn(execution, 'executeAction').mockImplementation(async ({ action }) => ({
+      success: true,
+      action,
+      executedAt: Date.now(),
+      duration: 0,
+    }));
+    const results: CommandResult[] = [];
+    const service = new VocalInterruptService();
+    service.setExecutionService(execution);
+    service.setEventListeners({ onCommandExecuted: result => results.push(result) });
+    return { service, speak, executeAction, results };
+  };
+
+  test('asks before ending the meeting and goes ahead on yes', async () => {
+    const { service, speak, executeAction, results } = createService();
+
+    expect(service.detectInterrupt('Okay, end the meeting')).toBe(true);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(speak).toHaveBeenCalledWith('Do you want to end the meeting? Say yes to confirm.');
+    expect(executeAction).not.toHaveBeenCalled();
+
+    expect(service.detectInterrupt('Yes.')).toBe(true);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(executeAction).toHaveBeenCalledWith(expect.objectContaining({ action: 'end_meeting' }), expect.anything());
+    expect(results).toMatchObject([{ success: true, action: 'end_meeting' }]);
+  });
+
+  test('cancels when told no', async () => {
+    const { service, executeAction, results } = createService();
+
+    service.detectInterrupt('end the meeting');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(service.detectInterrupt('no')).toBe(true);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(executeAction).not.toHaveBeenCalled();
+    expect(results).toMatchObject([{ success: false, error: 'Not confirmed', feedback: 'End the current meeting cancelled' }]);
+  });
+
+  test('treats silence as no once the confirmation times out', async () => {
+    const { service, executeAction, results } = createService();
+
+    service.detectInterrupt('end the meeting');
+    await jest.advanceTimersByTimeAsync(9999);
+    expect(results).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(results).toMatchObject([{ success: false, error: 'Not confirmed' }]);
+
+    // A late yes answers nothing
+    expect(service.detectInterrupt('yes')).toBe(false);
+    expect(executeAction).not.toHaveBeenCalled();
+  });
+
+  test('does not take longer speech as an answer', async () => {
+    const { service, executeAction, results } = createService();
+
+    service.detectInterrupt('end the meeting');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(service.detectInterrupt('yes I think we covered everything today')).toBe(false);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(executeAction).not.toHaveBeenCalled();
+    expect(results).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Tests for LiveRuleExecutor, which carries out custom rule actions during a meeting
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import type { AgentRunResult, OrchestrationResult } from '@/agents/AgentOrchestrator';
+import type { RuleActionOutput } from '@/agents/utils/customRuleEvaluator';
+import { AgentType } from '@/types/agent/agentInterface';
+import { MeetingType } from '@/types';
+import type { Meeting, RuleAction, RuleCondition } from '@/types';
+import { LiveRuleExecutor, LiveRuleHandlers } from '@/services/universal-assistant/LiveRuleExecutor';
+
+const createHandlers = () => {
+  const calls = { spoken: [] as string[], notes: [] as string[], notifications: [] as string[], summarized: [] as string[][] };
+  const handlers: LiveRuleHandlers = {
+    speak: async (text) => { calls.spoken.push(text); },
+    summarize: async (messages) => {
+      calls.summarized.push(messages.map(message => message.text));
+      return `summary of ${messages.length}`;
+    },
+    saveNote: async (_meetingId, note) => {
+      calls.notes.push(note.content);
+      return `note_${calls.notes.length}`;
+    },
+    notify: (title, message) => { calls.notifications.push(`${title}: ${message}`); },
+  };
+  return { handlers, calls };
+};
+
+const output = (ruleId: string, actions: RuleAction[], conditionTypes: RuleCondition['type'][] = ['keyword'], priority = 1): RuleActionOutput => ({
+  ruleId,
+  ruleName: `Rule ${ruleId}`,
+  priority,
+  actions,
+  matchedConditions: conditionTypes.map(type => ({
+    condition: { type, operator: type === 'time' ? 'greater' : 'contains', value: type === 'time' ? 30 : 'x' } as RuleCondition,
+    matched: true,
+    reason: 'matched',
+  })),
+});
+
+let clock = 1000;
+const result = (text: string, ruleOutputs: RuleActionOutput[] = []): OrchestrationResult => {
+  const agentResult: AgentRunResult = {
+    success: true,
+    data: { keywords: [], actionMentions: [], ruleOutputs },
+    agentId: 'context_sourcing_agent',
+    agentType: AgentType.CONTEXT_SOURCING,
+    durationMs: 1,
+    timedOut: false,
+  };
+  return {
+    meetingId: 'meeting_1',
+    intent: 'statement',
+    transcript: { text, speakerId: 'speaker_1', timestamp: clock++ },
+    agentResults: [agentResult],
+  };
+};
+
+describe('LiveRuleExecutor', () => {
+  test('speaks respond actions, highest priority first, as one reply', async () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers);
+
+    const outcome = await executor.handleResult(result('we are blocked', [
+      output('low', [{ type: 'respond', parameters: { message: 'Second.' } }], ['keyword'], 1),
+      output('high', [{ type: 'respond', parameters: { message: 'First.' } }], ['keyword'], 5),
+    ]));
+
+    expect(outcome.firedRuleIds).toEqual(['high', 'low']);
+    expect(calls.spoken).toEqual(['First. Second.']);
+  });
+
+  test('saves highlights and raises notifications', async () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers);
+
+    const outcome = await executor.handleResult(result('launch date is friday', [
+      output('flag', [{ type: 'highlight' }, { type: 'notify', parameters: { message: 'Launch mentioned' } }]),
+    ]));
+
+    expect(outcome.noteIds).toEqual(['note_1']);
+    expect(calls.notes).toEqual(['launch date is friday']);
+    expect(calls.notifications).toEqual(['Rule flag: Launch mentioned']);
+    expect(calls.spoken).toEqual([]);
+  });
+
+  test('ignore keeps the assistant quiet but still runs other actions', async () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers);
+
+    const outcome = await executor.handleResult(result('off the record', [
+      output('reply', [{ type: 'respond', parameters: { message: 'Noted.' } }, { type: 'highlight' }]),
+      output('quiet', [{ type: 'ignore' }]),
+    ]));
+
+    expect(outcome.ignored).toBe(true);
+    expect(outcome.response).toBeUndefined();
+    expect(calls.spoken).toEqual([]);
+    expect(calls.notes).toHaveLength(1);
+  });
+
+  test('summaries cover what was said since the previous summary', async () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers);
+    const summarize = output('sum', [{ type: 'summarize', parameters: { style: 'bullet_points' } }]);
+
+    await executor.handleResult(result('one'));
+    await executor.handleResult(result('two', [summarize]));
+    await executor.handleResult(result('three'));
+    await executor.handleResult(result('four', [summarize]));
+
+    expect(calls.summarized).toEqual([['one', 'two'], ['three', 'four']]);
+    expect(calls.spoken).toEqual(['summary of 2', 'summary of 2']);
+  });
+
+  test('rules that only depend on time fire once per meeting', async () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers);
+    const timed = output('timed', [{ type: 'respond', parameters: { message: 'Half an hour in.' } }], ['time']);
+
+    await executor.handleResult(result('a', [timed]));
+    await executor.handleResult(result('b', [timed]));
+    executor.clearMeetingState('meeting_1');
+    await executor.handleResult(result('c', [timed]));
+
+    expect(calls.spoken).toEqual(['Half an hour in.', 'Half an hour in.']);
+  });
+
+  test('does nothing when disabled', async () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers, { enabled: false });
+
+    await executor.handleResult(result('hello', [output('reply', [{ type: 'respond', parameters: { message: 'Hi.' } }])]));
+
+    expect(calls.spoken).toEqual([]);
+  });
+
+  test('keeps replies to itself when they are not to be spoken', async () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers, { speakReplies: false });
+
+    const outcome = await executor.handleResult(result('launch date is friday', [
+      output('flag', [{ type: 'respond', parameters: { message: 'Noted.' } }, { type: 'highlight' }]),
+    ]));
+
+    expect(outcome.response).toBe('Noted.');
+    expect(calls.spoken).toEqual([]);
+    expect(calls.notes).toEqual(['launch date is friday']);
+  });
+
+  test('in wake word mode speaks only to utterances addressed by wake phrase', async () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers);
+    const reply = [output('flag', [{ type: 'respond', parameters: { message: 'Noted.' } }])];
+    const overheard = result('launch date is friday', reply);
+    overheard.transcript.addressed = false;
+    const addressed = result('launch date is friday', reply);
+    addressed.transcript.addressed = true;
+
+    const outcome = await executor.handleResult(overheard);
+    expect(outcome.response).toBe('Noted.');
+    expect(calls.spoken).toEqual([]);
+
+    await executor.handleResult(addressed);
+    expect(calls.spoken).toEqual(['Noted.']);
+  });
+});
+
+describe('LiveRuleExecutor with gatekeeper rules', () => {
+  const standup = {
+    meetingId: 'meeting_1',
+    type: MeetingType.STANDUP,
+    participants: [{ id: 'speaker_1', userId: 'speaker_1', displayName: 'Dana', role: 'participant' }],
+    startTime: new Date(clock),
+  } as unknown as Meeting;
+
+  const createExecutor = () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers, { gatekeeperEnabled: true });
+    executor.setMeetingProvider(() => standup);
+    return { executor, calls };
+  };
+
+  test('runs the rule pack for the meeting type', async () => {
+    const { executor, calls } = createExecutor();
+
+    const outcome = await executor.handleResult(result("I'm blocked on the deploy pipeline"));
+
+    expect(outcome.gatekeeperRuleId).toBe('standup_blocker_followup');
+    expect(outcome.noteIds).toEqual(['note_1']);
+    expect(calls.spoken).toHaveLength(1);
+    expect(calls.spoken[0]).toMatch(/^Who can help unblock/);
+  });
+
+  test('custom rule replies win over the gatekeeper reply', async () => {
+    const { executor, calls } = createExecutor();
+
+    await executor.handleResult(result("I'm blocked on the deploy pipeline", [
+      output('mine', [{ type: 'respond', parameters: { message: 'Ping the platform team.' } }]),
+    ]));
+
+    expect(calls.spoken).toEqual(['Ping the platform team.']);
+  });
+
+  test('ignore silences the gatekeeper too', async () => {
+    const { executor, calls } = createExecutor();
+
+    const outcome = await executor.handleResult(result("I'm blocked on the deploy pipeline", [output('quiet', [{ type: 'ignore' }])]));
+
+    expect(outcome.gatekeeperRuleId).toBe('standup_blocker_followup');
+    expect(calls.spoken).toEqual([]);
+  });
+
+  test('leaves the gatekeeper off by default', async () => {
+    const { handlers, calls } = createHandlers();
+    const executor = new LiveRuleExecutor(handlers);
+    executor.setMeetingProvider(() => standup);
+
+    const outcome = await executor.handleResult(result("I'm blocked on the deploy pipeline"));
+
+    expect(outcome.gatekeeperRuleId).toBeUndefined();
+    expect(calls.spoken).toEqual([]);
+  });
+
+  test('skips the gatekeeper when it is turned off or the meeting is not the current one', async () => {
+    const { executor, calls } = createExecutor();
+    executor.updateConfig({ gatekeeperEnabled: false });
+    await executor.handleResult(result("I'm blocked on the deploy pipeline"));
+
+    executor.updateConfig({ gatekeeperEnabled: true });
+    await executor.handleResult({ ...result("I'm blocked on the deploy pipeline"), meetingId: 'other_meeting' });
+
+    expect(calls.spoken).toEqual([]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for windowed local transcription and provider failover: cutting MediaRecorder
+ * WebM chunks into windows that decode alone, timing their words, and replaying the
+ * audio a failed primary provider missed
+ */
+
+import { afterAll, beforeAll, describe, expect, jest, test } from '@jest/globals';
+import { auth } from '@/lib/firebase/client';
+import { FailoverSTT } from '@/services/universal-assistant/FailoverSTT';
+import { LocalSTT } from '@/services/universal-assistant/LocalSTT';
+import type { ConnectionStatus, STTProvider, STTProviderName, TranscriptionResult } from '@/services/universal-assistant/STTProvider';
+import { readWebmChunk } from '@/services/universal-assistant/WebmChunkReader';
+
+// EBML header and a Segment of unknown size with its track info, as MediaRecorder writes them
+const HEADER = [
+  0x1a, 0x45, 0xdf, 0xa3, 0x84, 0x42, 0x86, 0x81, 0x01,
+  0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+  0x16, 0x54, 0xae, 0x6b, 0x82, 0xae, 0x80,
+];
+const cluster = (timecodeMs: number) => [
+  0x1f, 0x43, 0xb6, 0x75, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+  0xe7, 0x82, timecodeMs >> 8, timecodeMs & 0xff,
+];
+const block = (offsetMs: number) => [0xa3, 0x86, 0x81, (offsetMs >> 8) & 0xff, offsetMs & 0xff, 0x80, 0xaa, 0xbb];
+const chunk = (...parts: number[][]) => Uint8Array.from(parts.flat()).buffer;
+
+describe('readWebmChunk', () => {
+  test('finds where the header of the first chunk ends', () => {
+    const layout = readWebmChunk(new Uint8Array(chunk(HEADER, cluster(0), block(0), block(20))), null);
+
+    expect(layout).toMatchObject({ headerLength: HEADER.length, continuesCluster: false, firstBlockMs: 0 });
+    expect(Array.from(layout.cluster?.opener || [])).toEqual(cluster(0));
+  });
+
+  test('times blocks that continue a cluster from an earlier chunk', () => {
+    const open = readWebmChunk(new Uint8Array(chunk(HEADER, cluster(1000))), null).cluster;
+    const layout = readWebmChunk(new Uint8Array(chunk(block(40), block(60))), open);
+
+    expect(layout).toMatchObject({ headerLength: null, continuesCluster: true, firstBlockMs: 1040 });
+    expect(layout.cluster).toBe(open);
+  });
+
+  test('picks up a cluster opened partway through a chunk', () => {
+    const layout = readWebmChunk(new Uint8Array(chunk(block(900), cluster(2000), block(0))), null);
+
+    expect(layout).toMatchObject({ continuesCluster: true, firstBlockMs: null });
+    expect(layout.cluster?.timecodeMs).toBe(2000);
+  });
+});
+
+describe('LocalSTT', () => {
+  const realFormData = global.FormData;
+  const sentAudio: unknown[] = [];
+  beforeAll(() => {
+    Object.assign(auth, { currentUser: { getIdToken: async () => 'token' } });
+    // The shared Blob mock is not a real Blob, which jsdom's FormData rejects
+    global.FormData = class {
+      append(name: string, value: unknown) {
+        if (name === 'audio') sentAudio.push(value);
+      }
+    } as unknown as typeof FormData;
+  });
+  afterAll(() => {
+    Object.assign(auth, { currentUser: null });
+    global.FormData = realFormData;
+  });
+
+  test('sends later windows with the header and their cluster opening, timed by stream position', async () => {
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        success: true,
+        transcription: {
+          text: 'hello there',
+          confidence: 0.9,
+          segments: [{ text: 'hello there', start: 0.2, end: 1, confidence: 0.9 }],
+          words: [{ word: 'hello', start: 0.2, end: 0.5, confidence: 0.9 }],
+        },
+      }),
+    })) as unknown as typeof fetch;
+    const BlobMock = global.Blob as unknown as jest.Mock;
+    const stt = new LocalSTT({ windowMs: 5000 });
+    const results: TranscriptionResult[] = [];
+    const nextResult = () => new Promise<void>(resolve => {
+      stt.setTranscriptionHandler(result => {
+        results.push(result);
+        resolve();
+      });
+    });
+    await stt.startLiveTranscription();
+
+    const first = chunk(HEADER, cluster(0), block(0));
+    let received = nextResult();
+    stt.sendAudioChunk(first);
+    jest.advanceTimersByTime(5000);
+    await received;
+
+    const later = chunk(block(2500));
+    received = nextResult();
+    stt.sendAudioChunk(later);
+    stt.stopTranscription();
+    await received;
+
+    const windowParts = BlobMock.mock.calls.slice(-2).map(([parts]) => parts as BlobPart[]);
+    expect(windowParts[0]).toEqual([first]);
+    // Only the header is repeated, not the audio of the first chunk
+    expect(windowParts[1].map(part => Array.from(new Uint8Array(part as ArrayBuffer | Uint8Array)))).toEqual([
+      HEADER,
+      cluster(0),
+      block(2500),
+    ]);
+    expect(sentAudio).toHaveLength(2);
+    expect(results.map(result => result.words?.[0].start)).toEqual([0.2, 2.7]);
+  });
+});
+
+class FakeProvider implements STTProvider {
+  sent: ArrayBuffer[] = [];
+  started = false;
+  statusHandler: ((status: ConnectionStatus) => void) | null = null;
+
+  constructor(readonly name: STTProviderName) {}
+
+  async startLiveTranscription(): Promise<void> {
+    this.started = true;
+  }
+
+  sendAudioChunk(chunk: ArrayBuffer): void {
+    this.sent.push(chunk);
+  }
+
+  stopTranscription(): void {
+    this.started = false;
+  }
+
+  setTranscriptionHandler(): void {}
+
+  setConnectionChangeHandler(handler: (status: ConnectionStatus) => void): void {
+    this.statusHandler = handler;
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return { status: this.started ? 'connected' : 'disconnected' };
+  }
+
+  isConnected(): boolean {
+    return this.started;
+  }
+
+  cleanup(): void {}
+}
+
+describe('FailoverSTT', () => {
+  test('replays the audio sent while the primary was down to the fallback', async () => {
+    const primary = new FakeProvider('deepgram');
+    const fallback = new FakeProvider('local');
+    const failover = new FailoverSTT(primary, fallback, { failoverAfterReconnectAttempts: 2 });
+    const [header, before, during1, during2, after] = [1, 2, 3, 4, 5].map(n => Uint8Array.of(n).buffer);
+    const switched = new Promise<void>(resolve => failover.setFailoverHandler(() => resolve()));
+
+    await failover.startLiveTranscription();
+    primary.statusHandler?.({ status: 'connected' });
+    failover.sendAudioChunk(header);
+    failover.sendAudioChunk(before);
+
+    primary.statusHandler?.({ status: 'reconnecting', reconnectAttempts: 1 });
+    failover.sendAudioChunk(during1);
+    failover.sendAudioChunk(during2);
+    primary.statusHandler?.({ status: 'reconnecting', reconnectAttempts: 2 });
+    await switched;
+    failover.sendAudioChunk(after);
+
+    expect(failover.name).toBe('local');
+    expect(fallback.sent).toEqual([header, during1, during2, after]);
+    expect(primary.sent).toEqual([header, before, during1, during2]);
+  });
+
+  test('forgets the outage once the primary reconnects', async () => {
+    const primary = new FakeProvider('deepgram');
+    const fallback = new FakeProvider('local');
+    const failover = new FailoverSTT(primary, fallback, { failoverAfterReconnectAttempts: 2 });
+    const [header, lost, resumed] = [1, 2, 3].map(n => Uint8Array.of(n).buffer);
+    const switched = new Promise<void>(resolve => failover.setFailoverHandler(() => resolve()));
+
+    await failover.startLiveTranscription();
+    failover.sendAudioChunk(header);
+    primary.statusHandler?.({ status: 'connected' });
+    primary.statusHandler?.({ status: 'reconnecting', reconnectAttempts: 1 });
+    failover.sendAudioChunk(lost);
+    primary.statusHandler?.({ status: 'connected' });
+    failover.sendAudioChunk(resumed);
+    primary.statusHandler?.({ status: 'reconnecting', reconnectAttempts: 2 });
+    await switched;
+
+    expect(fallback.sent).toEqual([header]);
+  });
+});
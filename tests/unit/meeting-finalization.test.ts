@@ -0,0 +1,58 @@
+/**
+ * Tests for due date resolution and action item formatting in MeetingFinalizationService
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { formatActionItem, resolveDueDate } from '@/services/universal-assistant/MeetingFinalizationService';
+
+// Wednesday, mid-morning local time
+const reference = new Date(2026, 2, 11, 10, 30);
+const at5pm = (month: number, day: number) => new Date(2026, month, day, 17, 0, 0, 0);
+
+describe('resolveDueDate', () => {
+  test.each([
+    ['today', at5pm(2, 11)],
+    ['end of the day', at5pm(2, 11)],
+    ['tomorrow', at5pm(2, 12)],
+    ['by Friday', at5pm(2, 13)],
+    ['end of week', at5pm(2, 13)],
+    ['next week', at5pm(2, 16)],
+    ['next friday', at5pm(2, 20)],
+    ['end of the month', at5pm(2, 31)],
+    ['2026-04-02', at5pm(3, 2)],
+  ])('resolves "%s"', (phrase, expected) => {
+    expect(resolveDueDate(phrase, reference)).toEqual(expected);
+  });
+
+  test('a bare weekday that is today means next week', () => {
+    expect(resolveDueDate('wednesday', reference)).toEqual(at5pm(2, 18));
+  });
+
+  test('does not move the reference date', () => {
+    resolveDueDate('tomorrow', reference);
+    expect(reference).toEqual(new Date(2026, 2, 11, 10, 30));
+  });
+
+  test('returns undefined for phrases it does not know', () => {
+    expect(resolveDueDate('soonish', reference)).toBeUndefined();
+    expect(resolveDueDate('2026-13-45', reference)).toBeUndefined();
+  });
+});
+
+describe('formatActionItem', () => {
+  test('puts the owner first and the resolved due date last', () => {
+    expect(formatActionItem({
+      text: 'Send the budget',
+      owner: 'Dana',
+      type: 'task',
+      confidence: 0.9,
+      dueContext: 'by Friday',
+      dueDate: new Date('2026-03-13T17:00:00Z'),
+    })).toBe('Dana: Send the budget (due 2026-03-13)');
+  });
+
+  test('falls back to the spoken due phrase', () => {
+    expect(formatActionItem({ text: 'Book the room', type: 'task', confidence: 0.9, dueContext: 'next week' }))
+      .toBe('Book the room (next week)');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for learning from rejected name suggestions: a turned-down name is not offered
+ * for that speaker again, repeated rejections stop a word being read as a name, and
+ * the phrasing behind rejected suggestions counts for less
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import type { DiarizationService, Speaker } from '@/services/universal-assistant/DiarizationService';
+import { NameRecognitionService, type NameContext } from '@/services/universal-assistant/NameRecognitionService';
+import { SpeakerIdentificationService } from '@/services/universal-assistant/SpeakerIdentificationService';
+import type { VoiceProfileManager } from '@/services/universal-assistant/VoiceProfileManager';
+
+// Unnamed speakers, as diarization first reports them
+const createDiarization = () => {
+  const speakers = new Map<string, Speaker>();
+  const getSpeaker = (id: string) => {
+    if (!speakers.has(id)) {
+      speakers.set(id, { id, lastActiveTime: 0 } as Speaker);
+    }
+    return speakers.get(id);
+  };
+  return {
+    getSpeaker,
+    getAllSpeakers: () => Array.from(speakers.values()),
+    getSpeakerEmbedding: () => undefined,
+    assignName: (id: string, name: string) => {
+      getSpeaker(id)!.name = name;
+    },
+    onSpeakerChange: () => () => {},
+  } as unknown as DiarizationService;
+};
+
+const contextFor = (currentSpeaker: string): NameContext => ({
+  previousTranscripts: [],
+  speakerHistory: new Map(),
+  currentSpeaker,
+  conversationContext: [],
+});
+
+const introduce = async (service: NameRecognitionService, speakerId: string, text = 'Hi everyone, my name is Sam') =>
+  (await service.detectNames(text, contextFor(speakerId))).suggestions;
+
+describe('NameRecognitionService.recordRejection', () => {
+  test('stops suggesting the name for that speaker only', async () => {
+    const service = new NameRecognitionService(createDiarization());
+    const [suggestion] = await introduce(service, 'speaker_1');
+    expect(suggestion.suggestedName).toBe('Sam');
+
+    service.recordRejection(suggestion);
+
+    expect(service.isRejected('speaker_1', 'sam')).toBe(true);
+    expect(await introduce(service, 'speaker_1')).toEqual([]);
+    expect((await introduce(service, 'speaker_2')).map(s => s.suggestedName)).toEqual(['Sam']);
+  });
+
+  test('stops reading the word as a name once rejected for enough speakers', async () => {
+    const service = new NameRecognitionService(createDiarization());
+    service.recordRejection((await introduce(service, 'speaker_1'))[0]);
+    service.recordRejection((await introduce(service, 'speaker_2'))[0]);
+
+    const detection = await service.detectNames('Hi everyone, my name is Sam', contextFor('speaker_3'));
+
+    expect(detection.names.map(name => name.name)).not.toContain('Sam');
+    expect(detection.suggestions).toEqual([]);
+  });
+
+  test('lowers the weight of the phrasing behind a rejected suggestion until one is accepted', async () => {
+    const service = new NameRecognitionService(createDiarization());
+    const [rejected] = await introduce(service, 'speaker_1');
+    expect(rejected.confidence).toBeCloseTo(0.9);
+
+    service.recordRejection(rejected);
+    const [weaker] = await introduce(service, 'speaker_2', 'Hi everyone, my name is Alex');
+    expect(weaker.confidence).toBeCloseTo(0.9 * 0.95);
+
+    await service.applySuggestion(weaker);
+    const [restored] = await introduce(service, 'speaker_3', 'Hi everyone, my name is Priya');
+    expect(restored.confidence).toBeCloseTo(0.9);
+  });
+
+  test('learns nothing when learning is off', async () => {
+    const service = new NameRecognitionService(createDiarization(), undefined, { enableLearning: false });
+    service.recordRejection((await introduce(service, 'speaker_1'))[0]);
+
+    expect(service.isRejected('speaker_1', 'Sam')).toBe(false);
+    expect(await introduce(service, 'speaker_1')).toHaveLength(1);
+  });
+});
+
+describe('SpeakerIdentificationService.rejectSuggestion', () => {
+  const createService = () => {
+    const diarization = createDiarization();
+    const names = new NameRecognitionService(diarization, undefined, { requireConfirmation: true });
+    return new SpeakerIdentificationService(names, diarization, undefined, {}, {} as VoiceProfileManager);
+  };
+
+  test('removes the suggestion and does not offer it again for that speaker', async () => {
+    const service = createService();
+    const text = 'Hi everyone, my name is Sam';
+
+    expect((await service.processTranscript(text, 'speaker_1', 0)).shouldPromptForConfirmation).toBe(true);
+    service.rejectSuggestion('speaker_1', 'Sam');
+    expect(service.listPendingConfirmations()).toEqual([]);
+
+    const again = await service.processTranscript(text, 'speaker_1', 1000);
+
+    expect(again.shouldPromptForConfirmation).toBe(false);
+    expect(service.listPendingConfirmations()).toEqual([]);
+  });
+
+  test('still offers the name to other speakers', async () => {
+    const service = createService();
+    await service.processTranscript('Hi everyone, my name is Sam', 'speaker_1', 0);
+    service.rejectSuggestion('speaker_1', 'Sam');
+
+    await service.processTranscript('Hi everyone, my name is Sam', 'speaker_2', 1000);
+
+    expect(service.listPendingConfirmations().map(s => [s.speakerId, s.suggestedName])).toEqual([['speaker_2', 'Sam']]);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Tests for the heuristic fallback of NaturalLanguageRuleParser
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { MeetingType } from '@/types';
+import { parseRuleHeuristically } from '@/services/universal-assistant/NaturalLanguageRuleParser';
+
+describe('parseRuleHeuristically', () => {
+  test('turns "when someone says" into a keyword rule', () => {
+    const draft = parseRuleHeuristically("When someone says blocked, ask what's blocking them");
+    expect(draft?.conditions).toEqual([{ type: 'keyword', operator: 'contains', value: 'blocked' }]);
+    expect(draft?.actions).toEqual([{ type: 'respond', parameters: { message: "What's blocking them?" } }]);
+  });
+
+  test('adds a speaker condition for a named speaker', () => {
+    const draft = parseRuleHeuristically('If Sarah mentions deadline or launch date, highlight it');
+    expect(draft?.conditions).toEqual([
+      { type: 'keyword', operator: 'contains', value: 'deadline, launch date' },
+      { type: 'speaker', operator: 'contains', value: 'Sarah' },
+    ]);
+    expect(draft?.actions[0].type).toBe('highlight');
+  });
+
+  test('turns "after N minutes in a <meeting>" into a timed rule for that meeting type', () => {
+    const draft = parseRuleHeuristically('After 30 minutes in a standup, summarize in bullet points');
+    expect(draft?.meetingTypes).toEqual([MeetingType.STANDUP]);
+    expect(draft?.conditions).toEqual([{ type: 'time', operator: 'greater', value: 30 }]);
+    expect(draft?.actions).toEqual([{ type: 'summarize', parameters: { style: 'bullet_points' } }]);
+  });
+
+  test('keeps the chosen meeting types when the sentence names none', () => {
+    const draft = parseRuleHeuristically('After 45 minutes, say we are running long', [MeetingType.PLANNING]);
+    expect(draft?.meetingTypes).toEqual([MeetingType.PLANNING]);
+    expect(draft?.actions).toEqual([{ type: 'respond', parameters: { message: 'we are running long' } }]);
+  });
+
+  test('gives up on meeting types it does not know', () => {
+    expect(parseRuleHeuristically('After 10 minutes in a hackathon, summarize')).toBeNull();
+    expect(parseRuleHeuristically('Be nice')).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for overlapping speech: splitting results into per-speaker segments and
+ * telling people talking over each other from ordinary turn taking
+ */
+
+import { describe, expect, jest, test } from '@jest/globals';
+import { OverlapDetectionService, type EnergyProbe } from '@/services/universal-assistant/OverlapDetectionService';
+import type { TranscriptionWord } from '@/services/universal-assistant/STTProvider';
+
+// [speaker, word, start, end]
+type Word = [number, string, number, number];
+
+const words = (entries: Word[], confidence = 0.9): TranscriptionWord[] =>
+  entries.map(([speaker, word, start, end]) => ({ speaker, word, start, end, confidence }));
+
+describe('OverlapDetectionService.segment', () => {
+  test('groups consecutive words by speaker with their average confidence', () => {
+    const service = new OverlapDetectionService();
+    const input = words([[0, 'ship', 0, 0.3], [0, 'it', 0.3, 0.5], [1, 'agreed', 2, 2.4]]);
+    input[1].confidence = 0.7;
+
+    expect(service.segment(input)).toEqual([
+      { speakerId: '0', text: 'ship it', start: 0, end: 0.5, confidence: expect.closeTo(0.8) },
+      { speakerId: '1', text: 'agreed', start: 2, end: 2.4, confidence: 0.9 },
+    ]);
+  });
+
+  test('marks a speaker who starts before the other stops as interrupting an unfinished sentence', () => {
+    const service = new OverlapDetectionService();
+
+    const segments = service.segment(words([[0, 'we', 0, 0.2], [0, 'should', 0.2, 0.5], [1, 'no', 0.4, 0.6]]));
+
+    expect(segments[1].overlap).toEqual({ speakerId: '0', isInterruption: true });
+  });
+
+  test('does not call it an interruption when the sentence was finished', () => {
+    const service = new OverlapDetectionService();
+    const input = words([[0, 'done', 0, 0.5], [1, 'great', 0.55, 0.9]]);
+    input[0].punctuatedWord = 'Done.';
+
+    expect(service.segment(input)[1].overlap).toEqual({ speakerId: '0', isInterruption: false });
+  });
+
+  test('treats a speaker who carries on as talked over, and a brief interjection as cutting off nobody', () => {
+    const service = new OverlapDetectionService();
+
+    const segments = service.segment(words([
+      [0, 'the', 0, 0.2], [0, 'plan', 0.2, 0.5],
+      [1, 'right', 0.45, 0.7],
+      [0, 'is', 0.7, 0.9], [0, 'simple', 0.9, 1.3],
+    ]));
+
+    expect(segments.map(segment => segment.overlap)).toEqual([
+      undefined,
+      { speakerId: '0', isInterruption: false },
+      { speakerId: '1', isInterruption: false },
+    ]);
+  });
+
+  test('leaves ordinary turn taking alone', () => {
+    const service = new OverlapDetectionService();
+    const segments = service.segment(words([[0, 'thanks', 0, 0.5], [1, 'sure', 1.2, 1.5]]));
+
+    expect(segments.every(segment => !segment.overlap)).toBe(true);
+  });
+
+  test('confirms quick handovers with the audio level around them', () => {
+    const service = new OverlapDetectionService();
+    const loud = jest.fn<EnergyProbe>(() => 1.6);
+    const quiet: EnergyProbe = () => 1;
+    const unknown: EnergyProbe = () => null;
+    const handover = () => words([[0, 'so', 10, 10.5], [1, 'wait', 10.55, 10.9]]);
+
+    expect(service.segment(handover(), { audioStartMs: 5000, energyProbe: loud })[1].overlap).toBeDefined();
+    expect(loud).toHaveBeenCalledWith(15300, 15800);
+    service.reset();
+    expect(service.segment(handover(), { audioStartMs: 5000, energyProbe: quiet })[1].overlap).toBeUndefined();
+    service.reset();
+    expect(service.segment(handover(), { audioStartMs: 5000, energyProbe: unknown })[1].overlap).toBeDefined();
+  });
+
+  test('finds overlaps across results until reset', () => {
+    const service = new OverlapDetectionService();
+    service.segment(words([[0, 'and', 0, 0.2], [0, 'then', 0.2, 0.6]]));
+
+    expect(service.segment(words([[1, 'hang', 0.5, 0.7], [1, 'on', 0.7, 0.9]]))[0].overlap).toEqual({
+      speakerId: '0',
+      isInterruption: true,
+    });
+
+    service.segment(words([[0, 'and', 0, 0.2], [0, 'then', 0.2, 0.6]]));
+    service.reset();
+    expect(service.segment(words([[1, 'hang', 0.5, 0.7]]))[0].overlap).toBeUndefined();
+  });
+
+  test('ignores stream times that restarted after a reconnect', () => {
+    const service = new OverlapDetectionService();
+    service.segment(words([[0, 'before', 30, 30.5]]));
+
+    expect(service.segment(words([[1, 'after', 0, 0.3]]))[0].overlap).toBeUndefined();
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Tests for importing recordings and batch transcription: where chunks are cut, timing
+ * each chunk's segments by where it starts in the recording, giving up on the meeting
+ * when a part cannot be transcribed, and failing over from Deepgram to a local server
+ */
+
+import { URL as NodeURL } from 'url';
+import { afterAll, beforeAll, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { auth } from '@/lib/firebase/client';
+import { DatabaseService } from '@/services/firebase/DatabaseService';
+import { RecordingImportService } from '@/services/universal-assistant/RecordingImportService';
+import { InsufficientSpeechError, type SpeakerEmbeddingExtractor } from '@/services/universal-assistant/SpeakerEmbeddingExtractor';
+import {
+  STTUnavailableError,
+  type BatchSTTProvider,
+  type BatchTranscription,
+  type BatchTranscriptionSegment,
+} from '@/services/universal-assistant/STTProvider';
+
+// A low rate keeps the recordings small; chunk boundaries are still searched in 100ms frames
+const RATE = 100;
+const RECORDED_AT = new Date('2026-05-01T09:00:00Z');
+
+// 25 seconds of speech, silent for 100ms at 11.3s and at 20.45s
+const createRecording = () => {
+  const samples = new Float32Array(25 * RATE).map((_, i) => 0.5 * Math.sin(i));
+  samples.fill(0, 1130, 1140);
+  samples.fill(0, 2045, 2055);
+  return samples;
+};
+
+const FILE = {
+  name: 'standup.wav',
+  type: 'audio/wav',
+  size: 1024,
+  lastModified: RECORDED_AT.getTime(),
+  arrayBuffer: async () => new ArrayBuffer(0),
+} as unknown as File;
+
+type ChunkResponder = (part: number) => { status: number; body: unknown };
+
+const transcribed = (segments: BatchTranscriptionSegment[]) => ({
+  status: 200,
+  body: { success: true, transcription: { text: segments.map(s => s.text).join(' '), confidence: 0.9, segments } },
+});
+
+const saidAt = (text: string, start: number): BatchTranscriptionSegment => ({ text, start, end: start + 1, confidence: 0.9, speaker: 0 });
+
+// Voices are never recognized, so each diarization label keeps its speaker across chunks
+const extractor = {
+  extract: async () => {
+    throw new InsufficientSpeechError(0);
+  },
+} as unknown as SpeakerEmbeddingExtractor;
+
+describe('RecordingImportService', () => {
+  const globals = {
+    FormData: global.FormData,
+    XMLHttpRequest: global.XMLHttpRequest,
+    OfflineAudioContext: global.OfflineAudioContext,
+  };
+  let respond: ChunkResponder;
+  let requestedParts: number[];
+
+  beforeAll(() => {
+    Object.assign(auth, { currentUser: { uid: 'user_1', getIdToken: async () => 'token' } });
+    // The shared Blob mock is not a real Blob, which jsdom's FormData rejects
+    global.FormData = class {
+      fields: Record<string, unknown> = {};
+      append(name: string, value: unknown, filename?: string) {
+        this.fields[name] = filename ?? value;
+      }
+    } as unknown as typeof FormData;
+    global.XMLHttpRequest = class {
+      status = 0;
+      responseText = '';
+      upload = {};
+      onload: () => void = () => {};
+      open() {}
+      setRequestHeader() {}
+      send() {
+        this.status = 200;
+        this.responseText = JSON.stringify({ success: true, path: 'recordings/meeting_1' });
+        this.onload();
+      }
+    } as unknown as typeof XMLHttpRequest;
+    global.OfflineAudioContext = class {
+      constructor(_channels: number, _length: number, private sampleRate: number) {}
+      async decodeAudioData() {
+        const samples = createRecording();
+        return { length: samples.length, numberOfChannels: 1, sampleRate: this.sampleRate, getChannelData: () => samples };
+      }
+    } as unknown as typeof OfflineAudioContext;
+  });
+  afterAll(() => {
+    Object.assign(auth, { currentUser: null });
+    Object.assign(global, globals);
+  });
+
+  beforeEach(() => {
+    requestedParts = [];
+    global.fetch = jest.fn(async (_url: unknown, init?: RequestInit) => {
+      if (init?.method === 'DELETE') return { ok: true, status: 200, json: async () => ({}) };
+      const part = Number(/part-(\d+)/.exec(String((init?.body as unknown as { fields: Record<string, unknown> }).fields.audio))?.[1]);
+      requestedParts.push(part);
+      const { status, body } = respond(part);
+      return { ok: status < 400, status, json: async () => body };
+    }) as unknown as typeof fetch;
+    jest.spyOn(DatabaseService, 'getUserGlossary').mockResolvedValue([]);
+    jest.spyOn(DatabaseService, 'createMeeting').mockResolvedValue('meeting_1');
+    jest.spyOn(DatabaseService, 'updateMeeting').mockResolvedValue(undefined);
+    jest.spyOn(DatabaseService, 'deleteMeeting').mockResolvedValue(undefined);
+  });
+
+  const createService = (chunkRetries = 0) =>
+    new RecordingImportService(extractor, { sampleRate: RATE, chunkSeconds: 10, boundarySearchSeconds: 2, chunkRetries });
+
+  test('cuts each chunk at the quietest point near its nominal end', async () => {
+    jest.spyOn(DatabaseService, 'batchCreateTranscriptEntries').mockResolvedValue([]);
+    respond = part => transcribed([saidAt(`part ${part}`, 1)]);
+    const BlobMock = global.Blob as unknown as jest.Mock;
+
+    await createService().importRecording(FILE, { recordedAt: RECORDED_AT });
+
+    // WAV bytes after the 44-byte header, two per sample
+    const chunkLengths = BlobMock.mock.calls
+      .filter(([, options]) => (options as BlobPropertyBag | undefined)?.type === 'audio/wav')
+      .map(([parts]) => ((parts as ArrayBuffer[])[0].byteLength - 44) / 2);
+    expect(chunkLengths).toEqual([1135, 915, 450]);
+    expect(requestedParts).toEqual([1, 2, 3]);
+  });
+
+  test('times segments from where their chunk starts in the recording', async () => {
+    const batchCreate = jest.spyOn(DatabaseService, 'batchCreateTranscriptEntries').mockResolvedValue([]);
+    respond = part => transcribed(part === 2 ? [saidAt('later', 3), saidAt('sooner', 0.5)] : [saidAt(`part ${part}`, 1)]);
+
+    const result = await createService().importRecording(FILE, { recordedAt: RECORDED_AT });
+
+    const entries = batchCreate.mock.calls[0][1];
+    expect(entries.map(entry => [entry.text, entry.timestamp.getTime() - RECORDED_AT.getTime(), entry.duration])).toEqual([
+      ['part 1', 1000, 1],
+      ['sooner', 11850, 1],
+      ['later', 14350, 1],
+      ['part 3', 21500, 1],
+    ]);
+    expect(result).toMatchObject({ meetingId: 'meeting_1', entryCount: 4, speakerCount: 1, durationSeconds: 25 });
+  });
+
+  test('removes the meeting and saves nothing when a part cannot be transcribed', async () => {
+    const batchCreate = jest.spyOn(DatabaseService, 'batchCreateTranscriptEntries').mockResolvedValue([]);
+    respond = part => part === 2
+      ? { status: 400, body: { error: 'Unsupported audio' } }
+      : transcribed([saidAt(`part ${part}`, 1)]);
+
+    const error = await createService(2).importRecording(FILE, { recordedAt: RECORDED_AT }).catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({ code: 'TRANSCRIPTION_FAILED', message: 'Part 2 could not be transcribed: Unsupported audio' });
+    // Rejected audio is not retried, and later parts are not sent
+    expect(requestedParts).toEqual([1, 2]);
+    expect(batchCreate).not.toHaveBeenCalled();
+    expect(DatabaseService.deleteMeeting).toHaveBeenCalledWith('meeting_1');
+    expect(global.fetch).toHaveBeenCalledWith('/api/meetings/meeting_1/recording', expect.objectContaining({ method: 'DELETE' }));
+  });
+
+  test('retries a part while the provider is unavailable', async () => {
+    const batchCreate = jest.spyOn(DatabaseService, 'batchCreateTranscriptEntries').mockResolvedValue([]);
+    let unavailable = 1;
+    respond = part => part === 2 && unavailable-- > 0
+      ? { status: 503, body: { error: 'Provider unavailable' } }
+      : transcribed([saidAt(`part ${part}`, 1)]);
+
+    const pending = createService(1).importRecording(FILE, { recordedAt: RECORDED_AT });
+    await jest.advanceTimersByTimeAsync(2000);
+    await pending;
+
+    expect(requestedParts).toEqual([1, 2, 2, 3]);
+    expect(batchCreate.mock.calls[0][1].map(entry => entry.text)).toEqual(['part 1', 'part 2', 'part 3']);
+  });
+
+  test('gives up on a part that stays unavailable', async () => {
+    respond = part => part === 1 ? { status: 503, body: { error: 'Provider unavailable' } } : transcribed([]);
+
+    const pending = createService(0).importRecording(FILE, { recordedAt: RECORDED_AT });
+
+    await expect(pending).rejects.toMatchObject({ code: 'TRANSCRIPTION_FAILED' });
+    expect(requestedParts).toEqual([1]);
+    expect(DatabaseService.deleteMeeting).toHaveBeenCalledWith('meeting_1');
+  });
+});
+
+describe('transcribeAudio', () => {
+  const AUDIO = new ArrayBuffer(8);
+  const LOCAL_RESULT: BatchTranscription = { text: 'hello', confidence: 0.8, language: 'en', words: [], segments: [], provider: 'local' };
+  let transcribeAudio: typeof import('@/services/universal-assistant/BatchTranscriptionService').transcribeAudio;
+  let deepgram: BatchSTTProvider;
+  let local: BatchSTTProvider;
+
+  // The shared jest setup stubs URL, which the Deepgram SDK extends when it loads
+  const stubbedURL = global.URL;
+  beforeAll(async () => {
+    global.URL = NodeURL as unknown as typeof URL;
+    const service = await import('@/services/universal-assistant/BatchTranscriptionService');
+    transcribeAudio = service.transcribeAudio;
+    deepgram = service.getBatchSTTProvider('deepgram');
+    local = service.getBatchSTTProvider('local');
+  });
+  afterAll(() => {
+    global.URL = stubbedURL;
+  });
+
+  test('fails over to a configured local server when Deepgram is unavailable', async () => {
+    jest.spyOn(deepgram, 'transcribe').mockRejectedValue(new STTUnavailableError('deepgram', 'Deepgram API unavailable'));
+    jest.spyOn(local, 'isConfigured').mockReturnValue(true);
+    const localTranscribe = jest.spyOn(local, 'transcribe').mockResolvedValue(LOCAL_RESULT);
+
+    await expect(transcribeAudio(AUDIO, { provider: 'deepgram', language: 'en' })).resolves.toBe(LOCAL_RESULT);
+    expect(localTranscribe).toHaveBeenCalledWith(AUDIO, { language: 'en' });
+  });
+
+  test('does not fail over when Deepgram rejects the audio or no local server is set up', async () => {
+    const localTranscribe = jest.spyOn(local, 'transcribe').mockResolvedValue(LOCAL_RESULT);
+    const transcribe = jest.spyOn(deepgram, 'transcribe').mockRejectedValue(new Error('Deepgram rejected the audio: bad format'));
+    jest.spyOn(local, 'isConfigured').mockReturnValue(true);
+
+    await expect(transcribeAudio(AUDIO, { provider: 'deepgram' })).rejects.toThrow('Deepgram rejected the audio');
+
+    transcribe.mockRejectedValue(new STTUnavailableError('deepgram', 'Deepgram API unavailable'));
+    jest.spyOn(local, 'isConfigured').mockReturnValue(false);
+    await expect(transcribeAudio(AUDIO, { provider: 'deepgram' })).rejects.toBeInstanceOf(STTUnavailableError);
+    expect(localTranscribe).not.toHaveBeenCalled();
+  });
+});
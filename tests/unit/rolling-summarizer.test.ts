@@ -0,0 +1,94 @@
+/**
+ * Tests for RollingSummarizer and the gatekeeper's rolling summary window
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { MeetingType } from '@/types';
+import type { Rule } from '@/config/gatekeeper/ruleDefinitions';
+import { GatekeeperEngine } from '@/services/gatekeeper/GatekeeperEngine';
+import { getTopTerms, summarizeMessages, tokenize } from '@/services/gatekeeper/utils/RollingSummarizer';
+import type { SummaryInput } from '@/services/gatekeeper/utils/RollingSummarizer';
+
+const messages: SummaryInput[] = [
+  { text: 'The release pipeline failed again last night.', speakerName: 'Ana', timestamp: 1 },
+  { text: 'Okay sure.', speakerName: 'Ben', timestamp: 2 },
+  { text: 'We decided to pin the release pipeline to the old runner.', speakerName: 'Ben', timestamp: 3 },
+  { text: 'Lunch was good today, the tacos were great.', speakerName: 'Ana', timestamp: 4 },
+];
+
+describe('tokenize and getTopTerms', () => {
+  test('drops stop words and short words', () => {
+    expect(tokenize('So we decided to ship it')).toEqual(['decided', 'ship']);
+  });
+
+  test('ranks terms by frequency', () => {
+    expect(getTopTerms(messages, 2)).toEqual(['release', 'pipeline']);
+  });
+});
+
+describe('summarizeMessages', () => {
+  test('says so when there is nothing to summarize', () => {
+    expect(summarizeMessages([])).toBe('Nothing new has been discussed since the last summary.');
+  });
+
+  test('short summaries keep the top sentences in conversation order', () => {
+    expect(summarizeMessages(messages, 'short')).toBe(
+      'The release pipeline failed again last night. We decided to pin the release pipeline to the old runner.'
+    );
+  });
+
+  test('bullet points attribute each sentence to its speaker', () => {
+    const lines = summarizeMessages(messages, 'bullet_points').split('\n');
+    expect(lines[0]).toBe('Key points so far:');
+    expect(lines).toContain('- Ben: We decided to pin the release pipeline to the old runner.');
+    expect(lines.some(line => line.includes('Okay sure'))).toBe(false);
+  });
+
+  test('detailed summaries open with the message and speaker count', () => {
+    expect(summarizeMessages(messages, 'detailed')).toMatch(
+      /^Over the last 4 messages from 2 speakers, the discussion focused on release, pipeline, /
+    );
+  });
+
+  test('falls back to topics when no sentence is long enough', () => {
+    expect(summarizeMessages([{ text: 'Budget approved.', timestamp: 1 }])).toBe('Brief exchange about budget, approved.');
+  });
+});
+
+describe('GatekeeperEngine rolling summaries', () => {
+  const summarizeEveryThird: Rule = {
+    id: 'summarize_every_third',
+    name: 'Summarize every third message',
+    conditions: [{ type: 'messageCount', operator: 'equals', value: 3 }],
+    actions: [{ type: 'summarize', style: 'short' }],
+    priority: 1,
+    confidence: 1,
+  };
+
+  test('each summary covers only the messages since the previous one', async () => {
+    const windows: string[][] = [];
+    const engine = new GatekeeperEngine(
+      MeetingType.GENERAL,
+      { meetingId: 'meeting_1', type: MeetingType.GENERAL, participants: [], messageCount: 0 },
+      new Map([[MeetingType.GENERAL, [summarizeEveryThird]]]),
+      {
+        summarize: async (inputs) => {
+          windows.push(inputs.map(input => input.text));
+          return `summary ${windows.length}`;
+        },
+      }
+    );
+
+    const responses: (string | undefined)[] = [];
+    for (let index = 1; index <= 6; index++) {
+      const decision = await engine.processMessage({ id: `m${index}`, text: `message ${index}`, timestamp: index }, { id: 'speaker_1' });
+      responses.push(decision.response);
+    }
+
+    expect(windows).toEqual([
+      ['message 1', 'message 2', 'message 3'],
+      ['message 4', 'message 5', 'message 6'],
+    ]);
+    expect(responses).toEqual([undefined, undefined, 'summary 1', undefined, undefined, 'summary 2']);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Tests for live speaker attribution: utterance audio capture, voice clustering with
+ * merge/split corrections, naming speakers from enrolled voices and carrying their
+ * voices into the speaker identity registry
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { DiarizationService, SpeakerCorrection } from '@/services/universal-assistant/DiarizationService';
+import { NameRecognitionService } from '@/services/universal-assistant/NameRecognitionService';
+import { SpeakerIdentificationService } from '@/services/universal-assistant/SpeakerIdentificationService';
+import { SpeakerIdentityRegistry } from '@/services/universal-assistant/SpeakerIdentityRegistry';
+import { speakerEmbeddingExtractor } from '@/services/universal-assistant/SpeakerEmbeddingExtractor';
+import { UtteranceAudioBuffer } from '@/services/universal-assistant/UtteranceAudioBuffer';
+import { VoiceProfileManager } from '@/services/universal-assistant/VoiceProfileManager';
+import type { TranscriptEntry } from '@/types';
+
+const SAMPLE_RATE = 16000;
+
+interface Voice {
+  pitch: number;
+  formants: number[];
+}
+
+const LOW_VOICE: Voice = { pitch: 110, formants: [700, 1200, 2600] };
+const HIGH_VOICE: Voice = { pitch: 200, formants: [300, 2300, 3200] };
+
+// A voice part of the way from one to the other
+const between = (from: Voice, to: Voice, amount: number): Voice => ({
+  pitch: from.pitch + (to.pitch - from.pitch) * amount,
+  formants: from.formants.map((formant, i) => formant + (to.formants[i] - formant) * amount),
+});
+
+/**
+ * Two seconds of a harmonic voice with vibrato and a syllable rhythm. The seed varies
+ * phases and noise, so each call is a different take of the same voice.
+ */
+function speak(voice: Voice, seed: number): Float32Array {
+  let state = seed;
+  const random = () => (state = (state * 1664525 + 1013904223) % 4294967296) / 4294967296;
+
+  const harmonics = Math.floor(4000 / voice.pitch);
+  const phases = Array.from({ length: harmonics }, () => random() * 2 * Math.PI);
+  const amplitudes = Array.from({ length: harmonics }, (_, i) => {
+    const frequency = (i + 1) * voice.pitch;
+    const envelope = voice.formants.reduce((sum, formant) => sum + Math.exp(-(((frequency - formant) / 120) ** 2)), 0.05);
+    return envelope / Math.sqrt(i + 1);
+  });
+
+  const samples = new Float32Array(2 * SAMPLE_RATE);
+  for (let n = 0; n < samples.length; n++) {
+    const t = n / SAMPLE_RATE;
+    const pitch = voice.pitch * (1 + 0.02 * Math.sin(2 * Math.PI * 5 * t + seed));
+    let value = 0;
+    for (let k = 0; k < harmonics; k++) {
+      value += amplitudes[k] * Math.sin(2 * Math.PI * (k + 1) * pitch * t + phases[k]);
+    }
+    samples[n] = 0.1 * (0.5 + 0.5 * Math.sin(2 * Math.PI * 3 * t + seed)) * value + 0.002 * (random() - 0.5);
+  }
+  return samples;
+}
+
+const recordCorrections = (diarization: DiarizationService) => {
+  const corrections: SpeakerCorrection[] = [];
+  diarization.onSpeakerChange((_speakerId, correction) => {
+    if (correction) corrections.push(correction);
+  });
+  return corrections;
+};
+
+describe('UtteranceAudioBuffer', () => {
+  test('slices samples across blocks by wall-clock time', () => {
+    const buffer = new UtteranceAudioBuffer();
+    buffer.append(Float32Array.from({ length: 1000 }, (_, i) => i), 10000, 1000);
+    buffer.append(Float32Array.from({ length: 1000 }, (_, i) => 1000 + i), 11000, 1000);
+
+    const segment = buffer.getSegment(10500, 11250);
+    expect(segment?.sampleRate).toBe(1000);
+    expect(segment?.samples.length).toBe(750);
+    expect(segment?.samples[0]).toBe(500);
+    expect(segment?.samples[749]).toBe(1249);
+  });
+
+  test('drops audio older than the retention window', () => {
+    const buffer = new UtteranceAudioBuffer({ retentionMs: 2000 });
+    for (let second = 0; second < 5; second++) {
+      buffer.append(new Float32Array(1000), 10000 + second * 1000, 1000);
+    }
+
+    expect(buffer.getSegment(10000, 11000)).toBeNull();
+    expect(buffer.getSegment(12000, 15000)?.samples.length).toBe(3000);
+  });
+});
+
+describe('DiarizationService clustering', () => {
+  test('attributes utterances by voice whatever the upstream label says', async () => {
+    const diarization = new DiarizationService();
+
+    const first = await diarization.processSpeakerSegment(speak(LOW_VOICE, 1), 'Morning all', '0', 1000, SAMPLE_RATE);
+    const second = await diarization.processSpeakerSegment(speak(HIGH_VOICE, 2), 'Hi there', '0', 2000, SAMPLE_RATE);
+    const third = await diarization.processSpeakerSegment(speak(LOW_VOICE, 3), 'Shall we start?', '1', 3000, SAMPLE_RATE);
+
+    expect(first).not.toBe(second);
+    expect(third).toBe(first);
+    expect(diarization.getSpeakerEmbedding(first)).toHaveLength(speakerEmbeddingExtractor.statisticsDimension);
+  });
+
+  test('falls back to the speaker a label was clustered as when there is too little speech', async () => {
+    const diarization = new DiarizationService();
+    const low = await diarization.processSpeakerSegment(speak(LOW_VOICE, 1), 'Morning all', '0', 1000, SAMPLE_RATE);
+    await diarization.processSpeakerSegment(speak(HIGH_VOICE, 2), 'Hi there', '1', 2000, SAMPLE_RATE);
+
+    expect(await diarization.processSpeakerSegment(new Float32Array(0), 'Yes', '0', 3000, SAMPLE_RATE)).toBe(low);
+    expect(diarization.getSpeakerForLabel('0')).toBe(low);
+  });
+
+  test('keeps the upstream label when no audio was ever captured', async () => {
+    const diarization = new DiarizationService();
+    expect(await diarization.processSpeakerSegment(new Float32Array(0), 'Hello', '2', 1000)).toBe('2');
+  });
+
+  test('merges a second cluster opened for the same voice', async () => {
+    // A strict assign threshold opens a cluster per segment, so only merging can group them
+    const diarization = new DiarizationService({ assignThreshold: 0.9999 });
+    const corrections = recordCorrections(diarization);
+
+    const first = await diarization.processSpeakerSegment(speak(LOW_VOICE, 1), 'Morning all', '0', 1000, SAMPLE_RATE);
+    const second = await diarization.processSpeakerSegment(speak(LOW_VOICE, 2), 'Shall we start?', '0', 2000, SAMPLE_RATE);
+
+    expect(second).toBe(first);
+    expect(corrections).toEqual([{ type: 'merge', fromSpeakerId: 'speaker_2', toSpeakerId: first }]);
+    expect(diarization.getAllSpeakers()).toHaveLength(1);
+    expect(diarization.getSpeaker(first)?.utterances).toHaveLength(2);
+  });
+
+  test('splits a cluster that drifted from one voice to another', async () => {
+    const diarization = new DiarizationService();
+    const corrections = recordCorrections(diarization);
+
+    // Each take is close enough to the running centroid to join it, but the ends are different voices
+    const steps = [0, 0, 0.3, 0.6, 0.9, 1, 1, 1];
+    const speakerIds: string[] = [];
+    for (const [i, amount] of steps.entries()) {
+      const voice = between(LOW_VOICE, HIGH_VOICE, amount);
+      speakerIds.push(await diarization.processSpeakerSegment(speak(voice, i + 1), `Utterance ${i}`, '0', (i + 1) * 1000, SAMPLE_RATE));
+    }
+
+    expect(corrections).toHaveLength(1);
+    const [split] = corrections;
+    expect(split).toMatchObject({ type: 'split', fromSpeakerId: 'speaker_1' });
+    expect(split.timestamps).toEqual([4000, 5000, 6000, 7000]);
+    // Later takes of the second voice join the new speaker directly
+    expect(speakerIds[speakerIds.length - 1]).toBe(split.toSpeakerId);
+    expect(diarization.getSpeaker('speaker_1')?.utterances.map(utterance => utterance.timestamp)).toEqual([1000, 2000, 3000]);
+  });
+});
+
+describe('SpeakerIdentificationService enrolled voices', () => {
+  test('names a speaker whose clustered voice matches an enrolled profile', async () => {
+    const diarization = new DiarizationService();
+    const voiceProfiles = new VoiceProfileManager();
+    await voiceProfiles.registerEnrolledProfiles([{
+      profileId: 'profile_ada',
+      userId: 'user_ada',
+      userName: 'Ada',
+      voiceEmbedding: await speakerEmbeddingExtractor.extract(speak(LOW_VOICE, 10), SAMPLE_RATE),
+      embeddingVersion: speakerEmbeddingExtractor.version,
+    }]);
+    const service = new SpeakerIdentificationService(
+      new NameRecognitionService(diarization),
+      diarization,
+      undefined,
+      undefined,
+      voiceProfiles
+    );
+
+    const ada = await diarization.processSpeakerSegment(speak(LOW_VOICE, 1), 'Morning all', '0', 1000, SAMPLE_RATE);
+    const guest = await diarization.processSpeakerSegment(speak(HIGH_VOICE, 2), 'Hi there', '1', 2000, SAMPLE_RATE);
+
+    const adaResult = await service.processTranscript('Morning all', ada, 1000);
+    const guestResult = await service.processTranscript('Hi there', guest, 2000);
+
+    expect(adaResult.identifiedName).toBe('Ada');
+    expect(diarization.getSpeaker(ada)?.name).toBe('Ada');
+    expect(guestResult.identifiedName).toBeUndefined();
+  });
+});
+
+describe('SpeakerIdentityRegistry live speakers', () => {
+  test('attaches the voice clustered for each transcript speaker', async () => {
+    const diarization = new DiarizationService();
+    const registry = new SpeakerIdentityRegistry(diarization, new VoiceProfileManager());
+    const low = await diarization.processSpeakerSegment(speak(LOW_VOICE, 1), 'Morning all', '0', 1000, SAMPLE_RATE);
+    const high = await diarization.processSpeakerSegment(speak(HIGH_VOICE, 2), 'Hi there', '1', 2000, SAMPLE_RATE);
+
+    const entry = (speakerId: string, text: string) => ({ speakerId, speaker: speakerId, text, duration: 0 } as TranscriptEntry);
+    const speakers = registry.collectMeetingSpeakers([entry(low, 'Morning all'), entry(high, 'Hi there')]);
+
+    expect(speakers.map(speaker => speaker.embedding)).toEqual([
+      diarization.getSpeakerEmbedding(low),
+      diarization.getSpeakerEmbedding(high),
+    ]);
+    expect(speakers[0].embeddingVersion).toBe(speakerEmbeddingExtractor.version);
+  });
+});
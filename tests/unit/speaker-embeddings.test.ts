@@ -0,0 +1,122 @@
+/**
+ * Tests for speaker embeddings: unit-length vectors that stay close for the same
+ * voice across clips and capture rates, refusing clips with too little speech, and
+ * the equal-error rate the embedding benchmark reports
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { computeEqualErrorRate } from '../../scripts/benchmark-speaker-embeddings';
+import {
+  cosineSimilarity,
+  InsufficientSpeechError,
+  SpeakerEmbeddingExtractor,
+} from '@/services/universal-assistant/SpeakerEmbeddingExtractor';
+
+interface SyntheticVoice {
+  pitch: number;
+  // Relative strength of each harmonic, a rough stand-in for vocal tract shape
+  harmonics: number[];
+}
+
+const LOW_VOICE: SyntheticVoice = { pitch: 110, harmonics: [1, 0.8, 0.6, 0.5, 0.3, 0.2, 0.1, 0.05] };
+const HIGH_VOICE: SyntheticVoice = { pitch: 230, harmonics: [1, 0.2, 0.05, 0.3, 0.4, 0.02, 0.2, 0.1] };
+
+// Voiced audio with a slow syllable-like envelope and a little seeded noise
+const speak = (voice: SyntheticVoice, seconds: number, seed: number, sampleRate = 16000): Float32Array => {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  let state = seed;
+  const noise = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  const drift = 1 + 0.02 * Math.sin(seed);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    const envelope = 0.6 + 0.4 * Math.sin(2 * Math.PI * 4 * t + seed);
+    const tone = voice.harmonics.reduce(
+      (sum, weight, k) => sum + weight * Math.sin(2 * Math.PI * (k + 1) * voice.pitch * drift * t + k * seed),
+      0
+    );
+    samples[i] = 0.2 * envelope * tone + 0.01 * noise();
+  }
+  return samples;
+};
+
+const toPcm16 = (samples: Float32Array): ArrayBuffer => {
+  const pcm = new Int16Array(samples.length);
+  samples.forEach((value, i) => {
+    pcm[i] = Math.max(-32768, Math.min(32767, Math.round(value * 32767)));
+  });
+  return pcm.buffer;
+};
+
+const extractor = new SpeakerEmbeddingExtractor();
+
+describe('SpeakerEmbeddingExtractor', () => {
+  test('produces unit-length embeddings of the statistics size', async () => {
+    const embedding = await extractor.extract(speak(LOW_VOICE, 1, 1));
+
+    expect(embedding).toHaveLength(extractor.statisticsDimension);
+    expect(Math.hypot(...embedding)).toBeCloseTo(1, 5);
+  });
+
+  test('keeps the same voice closer than a different one', async () => {
+    const [first, second, other] = await Promise.all([
+      extractor.extract(speak(LOW_VOICE, 1, 1)),
+      extractor.extract(speak(LOW_VOICE, 1.2, 7)),
+      extractor.extract(speak(HIGH_VOICE, 1, 1)),
+    ]);
+
+    expect(cosineSimilarity(first, second)).toBeGreaterThan(0.95);
+    expect(cosineSimilarity(first, second)).toBeGreaterThan(cosineSimilarity(first, other) + 0.05);
+  });
+
+  test('gives the same embedding for PCM16 input and for audio captured at a higher rate', async () => {
+    const samples = speak(LOW_VOICE, 1, 3);
+    const reference = await extractor.extract(samples);
+
+    expect(cosineSimilarity(reference, await extractor.extract(toPcm16(samples)))).toBeGreaterThan(0.999);
+    expect(cosineSimilarity(reference, await extractor.extract(speak(LOW_VOICE, 1, 3, 48000), 48000))).toBeGreaterThan(0.98);
+  });
+
+  test('refuses clips with too little speech', async () => {
+    const short = speak(LOW_VOICE, 0.1, 1);
+    const error = await extractor.extract(short).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(InsufficientSpeechError);
+    expect((error as InsufficientSpeechError).voicedFrames).toBeLessThan(20);
+  });
+
+  test('drops silence before counting speech', async () => {
+    const mostlySilent = new Float32Array(16000);
+    mostlySilent.set(speak(LOW_VOICE, 0.1, 1), 8000);
+
+    await expect(extractor.extract(mostlySilent)).rejects.toBeInstanceOf(InsufficientSpeechError);
+  });
+});
+
+describe('computeEqualErrorRate', () => {
+  const trials = (targets: number[], impostors: number[]) => [
+    ...targets.map(score => ({ score, sameSpeaker: true })),
+    ...impostors.map(score => ({ score, sameSpeaker: false })),
+  ];
+
+  test('is zero when every same-speaker pair outscores every different-speaker pair', () => {
+    expect(computeEqualErrorRate(trials([0.9, 0.8], [0.1, 0.2]))).toEqual({ eer: 0, threshold: 0.5 });
+  });
+
+  test('finds where false accepts and false rejects cross', () => {
+    const { eer, threshold } = computeEqualErrorRate(trials([0.9, 0.8, 0.4], [0.5, 0.3, 0.2]));
+
+    expect(eer).toBeCloseTo(1 / 3);
+    expect(threshold).toBeCloseTo(0.45);
+  });
+
+  test('is one half when scores carry no information', () => {
+    expect(computeEqualErrorRate(trials([0.5, 0.5], [0.5, 0.5])).eer).toBeCloseTo(0.5);
+  });
+
+  test('needs both kinds of pair', () => {
+    expect(() => computeEqualErrorRate(trials([0.9], []))).toThrow('Need both same-speaker and different-speaker pairs');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for encrypted voice profile exports: the round trip, password and tamper
+ * failures, schema validation and migration of plain 1.0.0 exports
+ */
+
+import { webcrypto } from 'crypto';
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import {
+  encryptVoiceProfileExport,
+  readVoiceProfileExport,
+  VoiceProfileExportError,
+  VOICE_PROFILE_EXPORT_FORMAT,
+} from '@/services/universal-assistant/VoiceProfileExport';
+import { VoiceProfileManager, type EnhancedSpeakerProfile } from '@/services/universal-assistant/VoiceProfileManager';
+
+const PASSWORD = 'correct horse battery';
+
+const createProfile = (overrides: Partial<EnhancedSpeakerProfile> = {}): EnhancedSpeakerProfile => ({
+  speakerId: 'speaker_ada',
+  voiceId: 'user_ada',
+  userName: 'Ada',
+  voiceEmbedding: [0.1, -0.2, 0.3],
+  lastSeen: new Date('2026-03-01T10:00:00Z'),
+  confidence: 0.9,
+  sessionCount: 4,
+  speakerEmbedding: [0.5, 0.5],
+  emotionalEmbedding: [],
+  linguisticEmbedding: [],
+  prosodyEmbedding: [],
+  voiceCharacteristics: {
+    pitch: { mean: 180, std: 20, range: [120, 260] },
+    formants: { f1: 700, f2: 1200, f3: 2600, f4: 3500 },
+    spectralCentroid: 1500,
+    spectralRolloff: 3000,
+    zeroCrossingRate: 0.1,
+    mfccCoefficients: [1, 2, 3],
+    fundamentalFrequency: { mean: 180, std: 20 },
+    jitter: 0.01,
+    shimmer: 0.02,
+  },
+  speechPatterns: {
+    speakingRate: 150,
+    pausePatterns: [],
+    stressPatterns: [],
+    intonationPatterns: [],
+    fillerWords: [],
+    commonPhrases: [],
+    vocabularyComplexity: 0.5,
+    sentenceStructureComplexity: 0.5,
+  },
+  emotionalProfile: {
+    baselineEmotion: 'neutral',
+    emotionalRange: 0.5,
+    emotionalStability: 0.5,
+    dominantEmotions: [],
+    emotionalTransitions: [],
+  },
+  adaptationMetrics: {
+    learningRate: 0.1,
+    stabilityScore: 0.5,
+    confidenceScore: 0.5,
+    dataQuality: 0.5,
+    lastAdaptation: new Date('2026-03-01T10:00:00Z'),
+    adaptationCount: 1,
+    validationScore: 0.5,
+  },
+  environmentalFactors: {
+    backgroundNoiseLevel: 0.1,
+    roomAcoustics: 'normal',
+    microphoneQuality: 'medium',
+    compressionArtifacts: 0,
+  },
+  recognitionMetrics: {
+    accuracy: 0.9,
+    falsePositiveRate: 0.05,
+    falseNegativeRate: 0.05,
+    averageConfidence: 0.85,
+    recognitionLatency: 40,
+    lastEvaluated: new Date('2026-03-02T10:00:00Z'),
+  },
+  privacySettings: {
+    dataRetentionDays: 90,
+    allowCrossMeetingRecognition: true,
+    enableBiometricAuth: false,
+    anonymizeData: false,
+  },
+  ...overrides,
+});
+
+const consentedProfile = () => createProfile({
+  consentRecords: [{ consentedBy: 'user_ada', consentedAt: new Date('2026-03-01T09:00:00Z'), scopes: ['identification'] }],
+});
+
+// Serializes like the plain JSON VoiceProfileManager wrote before exports were encrypted
+const legacyExport = (profiles: unknown[]) => JSON.stringify({
+  version: '1.0.0',
+  exportedAt: '2026-01-15T12:00:00.000Z',
+  userId: 'user_ada',
+  profiles,
+});
+
+const codeOf = async (promise: Promise<unknown>) => {
+  const error = await promise.then(() => null, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(VoiceProfileExportError);
+  return (error as VoiceProfileExportError).code;
+};
+
+// The shared jest setup stubs crypto.subtle; these tests need the real ciphers
+const stubbedSubtle = global.crypto.subtle;
+beforeAll(() => {
+  Object.defineProperty(global.crypto, 'subtle', { value: webcrypto.subtle, configurable: true });
+});
+afterAll(() => {
+  Object.defineProperty(global.crypto, 'subtle', { value: stubbedSubtle, configurable: true });
+});
+
+describe('encryptVoiceProfileExport', () => {
+  test('round-trips profiles and consent records', async () => {
+    const exportedAt = new Date('2026-03-03T08:00:00Z');
+    const file = await encryptVoiceProfileExport({ exportedAt, userId: 'user_ada', profiles: [consentedProfile()] }, PASSWORD);
+
+    const contents = await readVoiceProfileExport(file, PASSWORD);
+
+    expect(contents).toEqual({ exportedAt, userId: 'user_ada', profiles: [consentedProfile()] });
+    expect(contents.profiles[0].consentRecords?.[0].consentedAt).toBeInstanceOf(Date);
+  });
+
+  test('never writes embeddings or names in the clear', async () => {
+    const file = await encryptVoiceProfileExport({ exportedAt: new Date(), userId: 'user_ada', profiles: [createProfile()] }, PASSWORD);
+    const parsed = JSON.parse(file);
+
+    expect(parsed).toMatchObject({ format: VOICE_PROFILE_EXPORT_FORMAT, version: 2, kdf: { name: 'PBKDF2' }, cipher: { name: 'AES-GCM' } });
+    expect(file).not.toContain('Ada');
+    expect(file).not.toContain('voiceEmbedding');
+  });
+
+  test('refuses short passwords', async () => {
+    expect(await codeOf(encryptVoiceProfileExport({ exportedAt: new Date(), userId: null, profiles: [] }, 'short'))).toBe('WEAK_PASSWORD');
+  });
+});
+
+describe('readVoiceProfileExport', () => {
+  let file: string;
+  beforeAll(async () => {
+    file = await encryptVoiceProfileExport({ exportedAt: new Date(), userId: 'user_ada', profiles: [createProfile()] }, PASSWORD);
+  });
+
+  test('asks for the password of an encrypted export', async () => {
+    expect(await codeOf(readVoiceProfileExport(file))).toBe('PASSWORD_REQUIRED');
+  });
+
+  test('fails to decrypt with the wrong password', async () => {
+    expect(await codeOf(readVoiceProfileExport(file, 'incorrect password'))).toBe('DECRYPTION_FAILED');
+  });
+
+  test('detects a header changed after encryption', async () => {
+    const parsed = JSON.parse(file);
+    parsed.kdf.iterations += 1;
+    expect(await codeOf(readVoiceProfileExport(JSON.stringify(parsed), PASSWORD))).toBe('DECRYPTION_FAILED');
+  });
+
+  test('rejects iteration counts outside the allowed range', async () => {
+    const parsed = JSON.parse(file);
+    parsed.kdf.iterations = 1;
+    expect(await codeOf(readVoiceProfileExport(JSON.stringify(parsed), PASSWORD))).toBe('INVALID_FORMAT');
+  });
+
+  test('rejects other files and unknown versions', async () => {
+    expect(await codeOf(readVoiceProfileExport('not json'))).toBe('INVALID_FORMAT');
+    expect(await codeOf(readVoiceProfileExport(JSON.stringify({ format: 'other', version: 2 })))).toBe('INVALID_FORMAT');
+    expect(await codeOf(readVoiceProfileExport(JSON.stringify({ format: VOICE_PROFILE_EXPORT_FORMAT, version: 3 }), PASSWORD)))
+      .toBe('UNSUPPORTED_VERSION');
+  });
+
+  test('validates decrypted profiles', async () => {
+    const invalid = { ...createProfile(), voiceEmbedding: ['loud'] } as unknown as EnhancedSpeakerProfile;
+    const encrypted = await encryptVoiceProfileExport({ exportedAt: new Date(), userId: null, profiles: [invalid] }, PASSWORD);
+
+    await expect(readVoiceProfileExport(encrypted, PASSWORD)).rejects.toThrow('profiles[0].voiceEmbedding must be an array of numbers');
+  });
+});
+
+describe('legacy exports', () => {
+  test('migrates plain 1.0.0 exports without a password, marking them as awaiting consent', async () => {
+    const contents = await readVoiceProfileExport(legacyExport([JSON.parse(JSON.stringify(createProfile()))]));
+
+    expect(contents.migratedFrom).toBe('1.0.0');
+    expect(contents.exportedAt).toEqual(new Date('2026-01-15T12:00:00.000Z'));
+    expect(contents.profiles).toEqual([createProfile({ consentRecords: [], consentPending: true })]);
+  });
+
+  test('rejects consent records with unknown scopes', async () => {
+    const profile = { ...JSON.parse(JSON.stringify(createProfile())), consentRecords: [{ consentedBy: 'user_ada', consentedAt: '2026-01-01', scopes: ['marketing'] }] };
+
+    expect(await codeOf(readVoiceProfileExport(legacyExport([profile])))).toBe('INVALID_PROFILE');
+  });
+});
+
+describe('VoiceProfileManager export and import', () => {
+  test('replaces its profiles only once the whole file is valid', async () => {
+    const manager = new VoiceProfileManager();
+    expect(await manager.importProfiles(legacyExport([JSON.parse(JSON.stringify(createProfile()))]))).toBe(1);
+    expect(manager.getProfile('speaker_ada')?.consentPending).toBe(true);
+    expect(await manager.recordConsent('speaker_ada', 'user_ada', ['identification'])).toBe(true);
+    expect(manager.getProfile('speaker_ada')?.consentPending).toBeUndefined();
+
+    await expect(manager.importProfiles(legacyExport([{ speakerId: 'speaker_bad' }]))).rejects.toThrow(VoiceProfileExportError);
+    expect(manager.getAllProfiles().map(profile => profile.speakerId)).toEqual(['speaker_ada']);
+
+    const restored = new VoiceProfileManager();
+    expect(await restored.importProfiles(await manager.exportProfiles(PASSWORD), PASSWORD)).toBe(1);
+    expect(restored.getProfile('speaker_ada')?.consentRecords).toEqual([
+      { consentedBy: 'user_ada', consentedAt: expect.any(Date), scopes: ['identification'] },
+    ]);
+  });
+});
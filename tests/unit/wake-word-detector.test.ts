@@ -0,0 +1,144 @@
+/**
+ * Tests for wake word detection, the listening window it opens, the activation
+ * mode chosen per meeting type and marking which transcripts were addressed
+ */
+
+import { describe, expect, jest, test } from '@jest/globals';
+import { ConversationProcessor, type FinalizedTranscript } from '@/services/universal-assistant/ConversationProcessor';
+import { MeetingType } from '@/types';
+import {
+  DEFAULT_WAKE_PHRASE,
+  resolveActivationMode,
+  WakeWordDetector,
+  type WakeWordState,
+} from '@/services/universal-assistant/WakeWordDetector';
+
+describe('WakeWordDetector.detect', () => {
+  const detector = new WakeWordDetector({ wakePhrases: [DEFAULT_WAKE_PHRASE, 'Assistant', 'Jarvis'] });
+
+  test.each([
+    ['Hey assistant, what is on the agenda?', 'Hey Assistant', 'what is on the agenda?'],
+    ['HEY, ASSISTANT. Book the room', 'Hey Assistant', 'Book the room'],
+    ["What's next, hey assistant?", 'Hey Assistant', "What's next"],
+    ['jarvis summarize the meeting', 'Jarvis', 'summarize the meeting'],
+  ])('finds the phrase in %p', (text, phrase, remainder) => {
+    expect(detector.detect(text)).toEqual({ phrase, remainder });
+  });
+
+  test('prefers the longest phrase that matches', () => {
+    expect(detector.detect('Hey assistant')?.phrase).toBe('Hey Assistant');
+    expect(detector.detect('Thanks assistant')?.phrase).toBe('Assistant');
+  });
+
+  test('leaves no remainder when only the phrase was said', () => {
+    expect(detector.detect('Hey Assistant!')).toEqual({ phrase: 'Hey Assistant', remainder: '' });
+  });
+
+  test('only matches whole words', () => {
+    expect(detector.detect('Our assistants are on holiday')).toBeNull();
+    expect(detector.detect('Jarvisson filed the report')).toBeNull();
+  });
+
+  test('matches nothing once every phrase is removed', () => {
+    const empty = new WakeWordDetector({ wakePhrases: ['  ', ''] });
+    expect(empty.detect('Hey assistant')).toBeNull();
+  });
+
+  test('treats regex characters in custom phrases literally', () => {
+    const custom = new WakeWordDetector({ wakePhrases: ['C3.PO'] });
+    expect(custom.detect('c3 po open the pod bay doors')?.remainder).toBe('open the pod bay doors');
+    expect(custom.detect('c3xpo open the pod bay doors')).toBeNull();
+  });
+});
+
+describe('WakeWordDetector listening window', () => {
+  test('listens for the configured window and then stops', () => {
+    const detector = new WakeWordDetector({ listeningWindowMs: 5000 });
+    const states: WakeWordState[] = [];
+    detector.onStateChange(state => states.push(state));
+
+    detector.listen('Hey Assistant');
+    expect(detector.isListening()).toBe(true);
+
+    jest.advanceTimersByTime(4999);
+    expect(detector.isListening()).toBe(true);
+    jest.advanceTimersByTime(1);
+
+    expect(detector.isListening()).toBe(false);
+    expect(states.map(state => [state.isListening, state.phrase])).toEqual([
+      [true, 'Hey Assistant'],
+      [false, null],
+    ]);
+  });
+
+  test('extends the window when the phrase is heard again', () => {
+    const detector = new WakeWordDetector({ listeningWindowMs: 5000 });
+
+    detector.listen('Hey Assistant');
+    jest.advanceTimersByTime(3000);
+    detector.listen('Hey Assistant');
+    jest.advanceTimersByTime(3000);
+
+    expect(detector.isListening()).toBe(true);
+    jest.advanceTimersByTime(2000);
+    expect(detector.getState()).toEqual({ isListening: false, listeningUntil: null, phrase: null });
+  });
+
+  test('stops notifying listeners that unsubscribed', () => {
+    const detector = new WakeWordDetector();
+    const listener = jest.fn();
+    const unsubscribe = detector.onStateChange(listener);
+
+    detector.listen('Hey Assistant');
+    unsubscribe();
+    detector.stopListening();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('resolveActivationMode', () => {
+  test('uses an explicit setting whatever the meeting type', () => {
+    expect(resolveActivationMode('wake_word', MeetingType.BRAINSTORMING)).toBe('wake_word');
+    expect(resolveActivationMode('always', MeetingType.CLIENT_MEETING)).toBe('always');
+  });
+
+  test('follows the meeting type by default', () => {
+    expect(resolveActivationMode('meeting_default', MeetingType.CLIENT_MEETING)).toBe('wake_word');
+    expect(resolveActivationMode(undefined, MeetingType.STANDUP)).toBe('always');
+    expect(resolveActivationMode('meeting_default')).toBe('always');
+  });
+});
+
+describe('ConversationProcessor in wake word mode', () => {
+  const say = (processor: ConversationProcessor, text: string, timestamp: number) =>
+    processor.processConversationEvent({ type: 'transcript', data: { text, speakerId: 'speaker_1', timestamp } });
+
+  test('marks finalized transcripts by whether they followed the wake phrase', async () => {
+    const processor = new ConversationProcessor(undefined, undefined, undefined, {
+      activationMode: 'wake_word',
+      enableInterruptDetection: false,
+    });
+    const transcripts: FinalizedTranscript[] = [];
+    processor.onFinalizedTranscript(transcript => transcripts.push(transcript));
+
+    await say(processor, 'The launch date is Friday.', 1000);
+    await say(processor, 'Hey Assistant, when is the launch date?', 5000);
+
+    expect(transcripts.map(({ text, addressed }) => ({ text, addressed }))).toEqual([
+      { text: 'The launch date is Friday.', addressed: false },
+      { text: 'when is the launch date?', addressed: true },
+    ]);
+  });
+
+  test('leaves the mark off when every utterance is answered', async () => {
+    const processor = new ConversationProcessor();
+    const transcripts: FinalizedTranscript[] = [];
+    processor.onFinalizedTranscript(transcript => transcripts.push(transcript));
+
+    await say(processor, 'When is the launch date?', 1000);
+
+    expect(transcripts).toHaveLength(1);
+    expect(transcripts[0].addressed).toBeUndefined();
+  });
+});